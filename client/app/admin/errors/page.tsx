@@ -0,0 +1,265 @@
+"use client"
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import type { ErrorGroup } from '@/lib/analytics';
+import type { ErrorLogEntry } from '@/lib/logging';
+import { CollaborativeLogo } from '@/components/collaborative-logo';
+
+const DATE_RANGES = [
+  { label: 'Today', value: 'today' },
+  { label: 'Last 7 days', value: '7d' },
+  { label: 'Last 30 days', value: '30d' },
+  { label: 'Last 90 days', value: '90d' },
+];
+
+const RANGE_DAYS: Record<string, number> = { today: 0, '7d': 7, '30d': 30, '90d': 90 };
+
+function getStartDate(range: string) {
+  const start = new Date();
+  start.setDate(start.getDate() - (RANGE_DAYS[range] ?? 7));
+  return start.toISOString().split('T')[0];
+}
+
+export default function ErrorExplorerPage() {
+  const [groups, setGroups] = useState<ErrorGroup[]>([]);
+  const [errors, setErrors] = useState<ErrorLogEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedRange, setSelectedRange] = useState('7d');
+  const [errorType, setErrorType] = useState('');
+  const [userEmail, setUserEmail] = useState('');
+  const [requestId, setRequestId] = useState('');
+
+  useEffect(() => {
+    fetchErrors();
+  }, [selectedRange, errorType]);
+
+  const fetchErrors = async () => {
+    setLoading(true);
+    setLoadError(null);
+
+    try {
+      const params = new URLSearchParams({ limit: '200' });
+      if (requestId.trim()) {
+        params.set('requestId', requestId.trim());
+      } else {
+        params.set('startDate', getStartDate(selectedRange));
+      }
+      if (errorType) params.set('errorType', errorType);
+      if (userEmail.trim()) params.set('userEmail', userEmail.trim());
+
+      const response = await fetch(`/api/logs/errors?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch error logs');
+      }
+
+      const result = await response.json();
+      if (result.success) {
+        setGroups(result.data.groups || []);
+        setErrors(result.data.errors || []);
+        setTotalCount(result.metadata?.count || 0);
+      }
+    } catch (err) {
+      console.error('Error fetching error logs:', err);
+      setLoadError('Failed to load error logs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card border-b border-border shadow-sm sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-8">
+              <Link href="/" className="flex items-center">
+                <CollaborativeLogo size="md" />
+              </Link>
+
+              <nav className="hidden md:flex space-x-1">
+                <Link href="/">
+                  <Button variant="ghost" size="sm">
+                    Home
+                  </Button>
+                </Link>
+                <Link href="/analytics">
+                  <Button variant="ghost" size="sm">
+                    Analytics
+                  </Button>
+                </Link>
+                <Button variant="default" size="sm">
+                  Errors
+                </Button>
+              </nav>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Error Explorer</h1>
+            <p className="text-muted-foreground">
+              {totalCount} errors in {groups.length} groups
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <select
+              value={selectedRange}
+              onChange={(e) => setSelectedRange(e.target.value)}
+              disabled={!!requestId.trim()}
+              className="bg-muted border border-border rounded-lg px-3 py-2 text-foreground"
+            >
+              {DATE_RANGES.map(range => (
+                <option key={range.value} value={range.value}>
+                  {range.label}
+                </option>
+              ))}
+            </select>
+            <Button onClick={fetchErrors} disabled={loading} variant="outline" size="sm">
+              {loading ? 'Loading...' : 'Refresh'}
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2 mb-8">
+          <input
+            type="text"
+            value={userEmail}
+            onChange={(e) => setUserEmail(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && fetchErrors()}
+            placeholder="User email"
+            className="p-2 border border-border rounded-lg bg-card text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <input
+            type="text"
+            value={requestId}
+            onChange={(e) => setRequestId(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && fetchErrors()}
+            placeholder="Request ID (all dates)"
+            className="p-2 border border-border rounded-lg bg-card text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <Button onClick={fetchErrors} disabled={loading} size="sm">
+            Apply
+          </Button>
+          {errorType && (
+            <Button onClick={() => setErrorType('')} variant="ghost" size="sm">
+              Type: {errorType} ✕
+            </Button>
+          )}
+        </div>
+
+        {loadError && (
+          <div className="bg-red-950/30 border border-red-900/30 rounded-lg p-6 text-center mb-8">
+            <p className="text-red-300">{loadError}</p>
+          </div>
+        )}
+
+        {/* Error Groups */}
+        <div className="space-y-4 mb-8">
+          {groups.map(group => (
+            <div key={group.errorType} className="bg-card border border-border rounded-lg p-6">
+              <div className="flex items-center justify-between mb-2">
+                <button
+                  onClick={() => setErrorType(group.errorType)}
+                  className="text-lg font-semibold text-foreground hover:underline font-mono"
+                >
+                  {group.errorType}
+                </button>
+                <span className="text-sm text-muted-foreground">
+                  {group.count} ({group.percentage.toFixed(1)}%) · {group.affectedUsers} users
+                </span>
+              </div>
+              <p className="text-sm text-muted-foreground mb-4">
+                First seen {new Date(group.firstSeen).toLocaleString()} · Last seen {new Date(group.lastSeen).toLocaleString()}
+              </p>
+              <div className="space-y-2">
+                {group.examples.map(example => (
+                  <details key={example.id} className="bg-muted/20 border border-border rounded-lg p-3">
+                    <summary className="text-sm text-foreground cursor-pointer">
+                      {new Date(example.timestamp).toLocaleString()} · {example.errorMessage}
+                    </summary>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {example.userEmail || 'Unknown user'}
+                      {example.requestId && (
+                        <>
+                          {' · '}
+                          <Link href={`/admin/trace/${example.requestId}`} className="hover:underline font-mono">
+                            {example.requestId}
+                          </Link>
+                        </>
+                      )}
+                    </p>
+                    {example.stackTrace && (
+                      <pre className="text-xs font-mono leading-5 overflow-x-auto mt-2 text-muted-foreground">
+                        {example.stackTrace}
+                      </pre>
+                    )}
+                  </details>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {!loading && groups.length === 0 && !loadError && (
+            <div className="text-center py-8 text-muted-foreground">
+              No errors found for the selected filters.
+            </div>
+          )}
+        </div>
+
+        {/* Recent Errors Table */}
+        {errors.length > 0 && (
+          <div className="bg-card border border-border rounded-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-foreground">Recent Errors</h3>
+              <span className="text-sm text-muted-foreground">
+                {errors.length} of {totalCount}
+              </span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 px-4 text-muted-foreground">Time</th>
+                    <th className="text-left py-3 px-4 text-muted-foreground">Type</th>
+                    <th className="text-left py-3 px-4 text-muted-foreground">User</th>
+                    <th className="text-left py-3 px-4 text-muted-foreground">Request</th>
+                    <th className="text-left py-3 px-4 text-muted-foreground">Message</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {errors.map(entry => (
+                    <tr key={entry.id} className="border-b border-border/50">
+                      <td className="py-3 px-4 text-foreground whitespace-nowrap">
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </td>
+                      <td className="py-3 px-4 text-foreground font-mono">{entry.errorType}</td>
+                      <td className="py-3 px-4 text-foreground">{entry.userEmail || '-'}</td>
+                      <td className="py-3 px-4 text-foreground font-mono text-xs">
+                        {entry.requestId ? (
+                          <Link href={`/admin/trace/${entry.requestId}`} className="hover:underline">
+                            {entry.requestId}
+                          </Link>
+                        ) : '-'}
+                      </td>
+                      <td className="py-3 px-4 text-foreground">{entry.errorMessage}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
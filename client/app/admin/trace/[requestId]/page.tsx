@@ -0,0 +1,232 @@
+"use client"
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import type { RequestTrace, TraceEvent } from '@/lib/request-trace';
+import { CollaborativeLogo } from '@/components/collaborative-logo';
+
+const EVENT_STYLES: Record<TraceEvent['type'], string> = {
+  job_queued: 'bg-muted-foreground',
+  job_started: 'bg-muted-foreground',
+  audit_start: 'bg-blue-500',
+  provider: 'bg-purple-500',
+  audit_complete: 'bg-green-500',
+  error: 'bg-red-500',
+  report_saved: 'bg-green-500',
+  job_finished: 'bg-muted-foreground',
+};
+
+const STATUS_STYLES: Record<RequestTrace['status'], string> = {
+  succeeded: 'text-green-400',
+  failed: 'text-red-400',
+  in_progress: 'text-yellow-400',
+};
+
+function formatDuration(ms: number) {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+export default function RequestTracePage() {
+  const { requestId } = useParams<{ requestId: string }>();
+  const router = useRouter();
+  const [trace, setTrace] = useState<RequestTrace | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [lookup, setLookup] = useState('');
+
+  useEffect(() => {
+    fetchTrace();
+  }, [requestId]);
+
+  const fetchTrace = async () => {
+    setLoading(true);
+    setLoadError(null);
+
+    try {
+      const response = await fetch(`/api/logs/trace/${encodeURIComponent(requestId)}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load trace');
+      }
+      setTrace(result.data);
+    } catch (err) {
+      console.error('Error fetching request trace:', err);
+      setTrace(null);
+      setLoadError(err instanceof Error ? err.message : 'Failed to load trace');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card border-b border-border shadow-sm sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-8">
+              <Link href="/" className="flex items-center">
+                <CollaborativeLogo size="md" />
+              </Link>
+
+              <nav className="hidden md:flex space-x-1">
+                <Link href="/">
+                  <Button variant="ghost" size="sm">
+                    Home
+                  </Button>
+                </Link>
+                <Link href="/analytics">
+                  <Button variant="ghost" size="sm">
+                    Analytics
+                  </Button>
+                </Link>
+                <Link href="/admin/errors">
+                  <Button variant="ghost" size="sm">
+                    Errors
+                  </Button>
+                </Link>
+              </nav>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Request Trace</h1>
+            <p className="text-muted-foreground font-mono">{requestId}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={lookup}
+              onChange={(e) => setLookup(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && lookup.trim() && router.push(`/admin/trace/${lookup.trim()}`)}
+              placeholder="Another request ID"
+              className="p-2 border border-border rounded-lg bg-card text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <Button
+              onClick={() => router.push(`/admin/trace/${lookup.trim()}`)}
+              disabled={!lookup.trim()}
+              size="sm"
+            >
+              Trace
+            </Button>
+          </div>
+        </div>
+
+        {loading && (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading trace...</p>
+          </div>
+        )}
+
+        {!loading && loadError && (
+          <div className="bg-red-950/30 border border-red-900/30 rounded-lg p-6 text-center">
+            <p className="text-red-300 mb-4">{loadError}</p>
+            <Button onClick={fetchTrace} variant="outline">
+              Try Again
+            </Button>
+          </div>
+        )}
+
+        {!loading && trace && (
+          <>
+            {/* Overview */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+              <div className="bg-card border border-border rounded-lg p-6">
+                <p className="text-sm text-muted-foreground">Status</p>
+                <p className={`text-xl font-semibold ${STATUS_STYLES[trace.status]}`}>
+                  {trace.status.replace('_', ' ')}
+                </p>
+              </div>
+              <div className="bg-card border border-border rounded-lg p-6">
+                <p className="text-sm text-muted-foreground">User</p>
+                <p className="text-xl font-semibold text-foreground truncate">{trace.userEmail || 'Unknown'}</p>
+              </div>
+              <div className="bg-card border border-border rounded-lg p-6">
+                <p className="text-sm text-muted-foreground">Total time</p>
+                <p className="text-xl font-semibold text-foreground">
+                  {trace.durationMs !== undefined ? formatDuration(trace.durationMs) : '-'}
+                </p>
+              </div>
+              <div className="bg-card border border-border rounded-lg p-6">
+                <p className="text-sm text-muted-foreground">Provider time</p>
+                <p className="text-xl font-semibold text-foreground">
+                  {trace.report?.providerTiming
+                    ? `${formatDuration(trace.report.providerTiming.durationMs)} (${trace.report.providerTiming.requests} requests)`
+                    : '-'}
+                </p>
+              </div>
+            </div>
+
+            {/* Timeline */}
+            <div className="bg-card border border-border rounded-lg p-6 mb-8">
+              <h3 className="text-lg font-semibold text-foreground mb-4">Timeline</h3>
+              <ol className="space-y-4">
+                {trace.events.map((event, index) => (
+                  <li key={index} className="flex gap-4">
+                    <div className="flex flex-col items-center">
+                      <span className={`w-3 h-3 rounded-full mt-1.5 ${EVENT_STYLES[event.type]}`} />
+                      {index < trace.events.length - 1 && <span className="w-px flex-1 bg-border mt-1" />}
+                    </div>
+                    <div className="flex-1 pb-2">
+                      <div className="flex items-center justify-between">
+                        <p className="text-foreground">{event.summary}</p>
+                        <span className="text-xs text-muted-foreground whitespace-nowrap ml-4">
+                          +{formatDuration(new Date(event.timestamp).getTime() - new Date(trace.startedAt).getTime())}
+                          {event.durationMs !== undefined && ` · took ${formatDuration(event.durationMs)}`}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {event.type} · {new Date(event.timestamp).toLocaleString()}
+                      </p>
+                      {typeof event.details?.stackTrace === 'string' && (
+                        <details className="mt-2">
+                          <summary className="text-xs text-muted-foreground cursor-pointer">Stack trace</summary>
+                          <pre className="text-xs font-mono leading-5 overflow-x-auto mt-2 text-muted-foreground">
+                            {event.details.stackTrace}
+                          </pre>
+                        </details>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            {/* Report */}
+            {trace.report && (
+              <div className="bg-card border border-border rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-foreground mb-4">Saved Report</h3>
+                <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <dt className="text-muted-foreground">Contract</dt>
+                    <dd className="text-foreground">{trace.report.contractName}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Findings</dt>
+                    <dd className="text-foreground">{trace.report.vulnerabilitiesFound}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Risk score</dt>
+                    <dd className="text-foreground">{trace.report.riskScore ?? '-'}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Report ID</dt>
+                    <dd className="text-foreground font-mono text-xs">{trace.report.id}</dd>
+                  </div>
+                </dl>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
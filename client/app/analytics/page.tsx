@@ -133,8 +133,8 @@ export default function AnalyticsPage() {
         timestamp: new Date(log.auditedAt || log.createdAt).toLocaleString(),
         userEmail: log.userEmail,
         contractName: log.contractName || 'N/A',
-        creditsConsumed: 1,
-        vulnerabilitiesFound: log.vulnerabilities?.length || 0,
+        creditsConsumed: log.creditsConsumed ?? 0,
+        vulnerabilitiesFound: log.vulnerabilitiesFound ?? 0,
         auditDuration: log.auditDuration ? `${(log.auditDuration / 1000).toFixed(1)}s` : 'N/A',
       }));
       
@@ -199,6 +199,11 @@ export default function AnalyticsPage() {
                 <Button variant="default" size="sm">
                   Analytics
                 </Button>
+                <Link href="/admin/errors">
+                  <Button variant="ghost" size="sm">
+                    Errors
+                  </Button>
+                </Link>
               </nav>
             </div>
           </div>
@@ -350,7 +355,7 @@ export default function AnalyticsPage() {
                           {log.contractName || 'Unnamed'}
                         </td>
                         <td className="py-3 px-4 text-foreground">
-                          {log.vulnerabilities?.length || 0}
+                          {log.vulnerabilitiesFound ?? 0}
                         </td>
                       </tr>
                     ))}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { isAdminUser } from '@/lib/roles';
+import { logger } from '@/lib/logging';
+import {
+  getRetentionPolicy,
+  isValidRetentionDays,
+  RETENTION_KEYS,
+  type RetentionPolicy,
+} from '@/lib/log-maintenance';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/admin/logs/maintenance - Current log retention policy (admins only)
+ */
+export async function GET() {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // 2. Check admin permissions
+    if (!(await isAdminUser(session.user.email))) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: getRetentionPolicy(),
+      metadata: {
+        store: logger.storeType,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching log retention policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch log retention policy' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/logs/maintenance - Run log maintenance (admins only)
+ *
+ * Rolls up, archives and purges logs past their retention (see lib/log-maintenance.ts).
+ * Body (optional): { retention: { audit?, error?, app?, archive? } } in days, overriding
+ * the configured policy for this run.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // 2. Check admin permissions
+    if (!(await isAdminUser(session.user.email))) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    // 3. Parse and validate retention overrides
+    let body: any = {};
+    const text = await request.text();
+    if (text.trim()) {
+      try {
+        body = JSON.parse(text);
+      } catch (error) {
+        return NextResponse.json(
+          { error: 'Invalid request body' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const overrides: Partial<RetentionPolicy> = {};
+    const retention = body?.retention ?? {};
+    if (typeof retention !== 'object' || Array.isArray(retention)) {
+      return NextResponse.json(
+        { error: 'retention must be an object' },
+        { status: 400 }
+      );
+    }
+    for (const [key, value] of Object.entries(retention)) {
+      if (!RETENTION_KEYS.includes(key as keyof RetentionPolicy)) {
+        return NextResponse.json(
+          { error: `Unknown retention key "${key}"; expected one of: ${RETENTION_KEYS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      if (!isValidRetentionDays(value)) {
+        return NextResponse.json(
+          { error: `retention.${key} must be a positive whole number of days` },
+          { status: 400 }
+        );
+      }
+      overrides[key as keyof RetentionPolicy] = value;
+    }
+
+    // 4. Run maintenance
+    const result = await logger.runMaintenance(overrides);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      metadata: {
+        store: logger.storeType,
+        triggeredBy: session.user.email,
+      },
+    });
+  } catch (error) {
+    console.error('Error running log maintenance:', error);
+    return NextResponse.json(
+      { error: 'Failed to run log maintenance' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import type { AppRole } from '@/lib/models/UserRole';
+import { getSeedAdminEmails, isAdminUser, listUserRoles, setUserRole } from '@/lib/roles';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const APP_ROLES: AppRole[] = ['user', 'admin'];
+
+/**
+ * GET /api/admin/roles - List stored user roles (admins only)
+ *
+ * Users without a stored role are regular users.
+ */
+export async function GET() {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // 2. Check admin permissions
+    if (!(await isAdminUser(session.user.email))) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    // 3. Fetch roles
+    const roles = await listUserRoles();
+
+    return NextResponse.json({
+      success: true,
+      data: roles,
+      metadata: {
+        seedAdmins: getSeedAdminEmails(),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching user roles:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch user roles' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/roles - Set a user's role (admins only)
+ *
+ * Body: { email, role: 'user' | 'admin' }. The last admin cannot be demoted. Changes reach
+ * the user's session when its role claim is next refreshed (within five minutes).
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // 2. Check admin permissions
+    if (!(await isAdminUser(session.user.email))) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    // 3. Parse and validate request body
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+    const allowedDomain = process.env.ALLOWED_EMAIL_DOMAIN || '@energi.team';
+    if (!/^[^\s@]+@[^\s@]+$/.test(email) || !email.endsWith(allowedDomain.toLowerCase())) {
+      return NextResponse.json(
+        { error: `A valid ${allowedDomain} email address is required` },
+        { status: 400 }
+      );
+    }
+    if (!APP_ROLES.includes(body.role)) {
+      return NextResponse.json(
+        { error: `Role must be one of: ${APP_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // 4. Store the role
+    if (!(await setUserRole(email, body.role, session.user.email))) {
+      return NextResponse.json(
+        { error: 'At least one admin is required' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { email, role: body.role },
+    });
+  } catch (error) {
+    console.error('Error updating user role:', error);
+    return NextResponse.json(
+      { error: 'Failed to update user role' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuditError } from '@/functions/auditInit';
+import { getPublicStatistics } from '@/lib/audit-statistics';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/analytics/public - Get anonymized, aggregated audit statistics (public)
+ * Query parameters:
+ * - startDate: YYYY-MM-DD (optional)
+ * - endDate: YYYY-MM-DD (optional)
+ *
+ * Same totals, scores, severity breakdown and daily counts as /api/analytics/stats, but
+ * users are identified only by anonymous ids (`userStats[].userId`). No emails, contract
+ * names, findings or raw responses are returned. `userStats` is empty when no hash salt
+ * is configured. Results are cached for five minutes.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Public endpoint - no authentication required
+    // 1. Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+
+    // 2. Calculate (or reuse) anonymized statistics over the date range
+    let result;
+    try {
+      result = await getPublicStatistics(startDate, endDate);
+    } catch (error) {
+      if (error instanceof AuditError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+    const { stats, generatedAt } = result;
+
+    // 3. Build response
+    return NextResponse.json({
+      success: true,
+      data: stats,
+      metadata: {
+        dateRange: {
+          startDate: startDate || 'all-time',
+          endDate: endDate || 'current',
+        },
+        generatedAt: generatedAt.toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Error generating public statistics:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate statistics' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,50 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server';
-import connectDB from '@/lib/mongodb';
-import AuditReportModel from '@/lib/models/AuditReport';
+import { getServerSession } from 'next-auth';
+import { AuditError } from '@/functions/auditInit';
+import { auditDateQuery, getRecentAudits } from '@/lib/audit-statistics';
+import { isAdminUser } from '@/lib/roles';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
 /**
- * GET /api/analytics/recent - Get recent audit reports for all users (public)
+ * GET /api/analytics/recent - Get recent audit reports for all users (admins only)
  * Query parameters:
- * - limit: number of recent audits to return (default: 50)
+ * - limit: number of recent audits to return (default: 50, at most MAX_RECENT_AUDITS)
  * - startDate: YYYY-MM-DD (optional)
  * - endDate: YYYY-MM-DD (optional)
+ *
+ * Each audit has its owner, contract name, timing, risk score and `vulnerabilitiesFound`;
+ * findings, summaries, sources and raw responses are not returned.
  */
 export async function GET(request: NextRequest) {
   try {
-    // Public endpoint - no authentication required
-    // Get query parameters
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // 2. Check admin permissions
+    if (!(await isAdminUser(session.user.email))) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    // 3. Parse query parameters
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '50', 10);
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
 
-    // 4. Connect to database
-    await connectDB();
-
-    // 5. Build date query (no user filter - get all users' audits)
-    const query: any = {};
-    if (startDate || endDate) {
-      query.auditedAt = {};
-      if (startDate) {
-        query.auditedAt.$gte = new Date(startDate);
-      }
-      if (endDate) {
-        const end = new Date(endDate);
-        end.setHours(23, 59, 59, 999);
-        query.auditedAt.$lte = end;
+    let dateQuery;
+    try {
+      dateQuery = auditDateQuery(startDate, endDate);
+    } catch (error) {
+      if (error instanceof AuditError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 400 }
+        );
       }
+      throw error;
     }
 
-    // 6. Fetch recent audit reports for all users
-    const reports = await AuditReportModel.find(query)
-      .sort({ auditedAt: -1 }) // Most recent first
-      .limit(limit)
-      .lean(); // Use lean() for better performance
+    // 4. Fetch recent audit reports for all users (no user filter), with only the fields dashboards show
+    const reports = await getRecentAudits(dateQuery, limit);
 
-    // 7. Return results
+    // 5. Return results
     return NextResponse.json({
       success: true,
       data: reports,
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import AuditReportModel from '@/lib/models/AuditReport';
+import { getAccessContext, reportAccessFilter } from '@/lib/authorization';
+import { decodeSource } from '@/lib/source-storage';
+import { compareAudits } from '@/functions/auditComparison';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const OBJECT_ID = /^[0-9a-fA-F]{24}$/;
+
+/**
+ * Id of the original audit a report belongs to (its own id for original audits)
+ */
+function familyId(report: any): string {
+  return report.isReAudit && report.originalAuditId ? report.originalAuditId.toString() : report._id.toString();
+}
+
+/**
+ * Summary of a compared report
+ */
+function describe(report: any) {
+  return {
+    id: report._id.toString(),
+    contractName: report.contractName,
+    auditedAt: report.auditedAt,
+    riskScore: report.riskScore,
+    isReAudit: !!report.isReAudit,
+  };
+}
+
+/**
+ * GET /api/audit/[id]/compare - Compare an audit with an earlier audit of the same contract
+ *
+ * `[id]` is the newer audit, usually a re-audit. The optional `base` query parameter
+ * selects the audit to compare against; it defaults to the original audit. When `[id]`
+ * is itself the original audit, its latest re-audit is compared against it.
+ *
+ * Findings are paired into resolved, still-present, introduced and severity-changed.
+ * When both sources are stored, a line diff is included and findings are anchored to its hunks.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const reportId = resolvedParams.id;
+    const baseId = request.nextUrl.searchParams.get('base');
+
+    // 2. Validate MongoDB ObjectId format
+    if (!OBJECT_ID.test(reportId) || (baseId && !OBJECT_ID.test(baseId))) {
+      return NextResponse.json(
+        { error: 'Invalid report ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Connect to database
+    await connectDB();
+
+    // 4. Resolve the two audits, both accessible to the user and in the same audit family
+    const accessFilter = reportAccessFilter(await getAccessContext(userEmail), 'view');
+    const accessible = (query: object) => AuditReportModel.findOne({ $and: [query, accessFilter] });
+
+    let target: any = await accessible({ _id: reportId })
+      .select('+sourceCode')
+      .lean();
+    if (!target) {
+      return NextResponse.json(
+        { error: 'Audit report not found' },
+        { status: 404 }
+      );
+    }
+
+    let base: any;
+    if (baseId) {
+      base = await accessible({ _id: baseId }).select('+sourceCode').lean();
+    } else if (target.isReAudit) {
+      base = await accessible({ _id: familyId(target) }).select('+sourceCode').lean();
+    } else {
+      // Original audit: compare its latest re-audit against it
+      base = target;
+      target = await accessible({ originalAuditId: reportId, isReAudit: true })
+        .sort({ auditedAt: -1 })
+        .select('+sourceCode')
+        .lean();
+      if (!target) {
+        return NextResponse.json(
+          { error: 'This audit has no re-audits to compare with' },
+          { status: 404 }
+        );
+      }
+    }
+
+    if (!base) {
+      return NextResponse.json(
+        { error: 'Base audit report not found' },
+        { status: 404 }
+      );
+    }
+    if (familyId(base) !== familyId(target)) {
+      return NextResponse.json(
+        { error: 'Audits must belong to the same original audit' },
+        { status: 400 }
+      );
+    }
+
+    // 5. Compare findings and, when single-contract sources are stored, the sources
+    const sourceOf = (report: any) => {
+      const isProject = Array.isArray(report.files) && report.files.length > 0;
+      return report.sourceCode && !isProject ? decodeSource(report.sourceCode, false).contractCode : undefined;
+    };
+    const comparison = compareAudits(
+      { vulnerabilities: base.vulnerabilities || [], contractCode: sourceOf(base) },
+      { vulnerabilities: target.vulnerabilities || [], contractCode: sourceOf(target) }
+    );
+
+    // 6. Return comparison
+    return NextResponse.json({
+      success: true,
+      data: {
+        base: describe(base),
+        target: describe(target),
+        ...comparison,
+      },
+    });
+  } catch (error) {
+    console.error('Error comparing audit reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare audit reports' },
+      { status: 500 }
+    );
+  }
+}
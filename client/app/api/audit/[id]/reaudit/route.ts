@@ -2,13 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import AuditReportModel from '@/lib/models/AuditReport';
+import { AccessError, authorizeReport, getAccessContext, reportAccessFilter } from '@/lib/authorization';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
 /**
  * GET /api/audit/[id]/reaudit - Get all re-audits for a specific audit report
- * Returns all re-audits sorted by date (most recent first)
+ * Returns all re-audits the user can access, sorted by date (most recent first)
  */
 export async function GET(
   request: NextRequest,
@@ -39,39 +40,38 @@ export async function GET(
     // 3. Connect to database
     await connectDB();
 
-    // 4. Check if report exists and belongs to user
+    // 4. Check if report exists and the user can access it
     // Could be original audit or a re-audit itself
-    const report = await AuditReportModel.findOne({
-      _id: reportId,
-      userEmail,
-    }).lean();
-
-    if (!report) {
-      return NextResponse.json(
-        { error: 'Audit report not found' },
-        { status: 404 }
-      );
+    const access = await getAccessContext(userEmail);
+    let report: any;
+    try {
+      ({ report } = await authorizeReport(access, reportId, 'view'));
+    } catch (error) {
+      if (error instanceof AccessError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.status }
+        );
+      }
+      throw error;
     }
 
     // 5. Determine the original audit ID
     // If this is a re-audit, get its originalAuditId
     // If this is an original audit, use its own ID
-    const reportData = report as any;
-    const originalAuditId = reportData.isReAudit && reportData.originalAuditId 
-      ? reportData.originalAuditId.toString()
+    const originalAuditId = report.isReAudit && report.originalAuditId 
+      ? report.originalAuditId.toString()
       : reportId;
 
     // 6. Get the original audit
+    const accessFilter = reportAccessFilter(access, 'view');
     const originalAudit = await AuditReportModel.findOne({
-      _id: originalAuditId,
-      userEmail,
+      $and: [{ _id: originalAuditId }, accessFilter],
     }).lean();
 
     // 7. Find all re-audits for this original audit, sorted by date (most recent first)
     const reAudits = await AuditReportModel.find({
-      originalAuditId: originalAuditId,
-      userEmail,
-      isReAudit: true,
+      $and: [{ originalAuditId: originalAuditId, isReAudit: true }, accessFilter],
     })
       .sort({ auditedAt: -1 }) // Most recent first
       .lean();
@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import connectDB from '@/lib/mongodb';
-import AuditReportModel from '@/lib/models/AuditReport';
+import { AccessError, authorizeReport, getAccessContext } from '@/lib/authorization';
+import { decodeSource } from '@/lib/source-storage';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
 /**
  * GET /api/audit/[id] - Get a specific audit report by ID
+ *
+ * The audited source is returned decompressed as `source` ({ contractCode } or, for
+ * project audits, { files }); reports saved before sources were stored have none.
+ * Reports shared with the user are returned too; `metadata.role` is the user's role on it.
  */
 export async function GET(
   request: NextRequest,
@@ -35,26 +39,32 @@ export async function GET(
       );
     }
 
-    // 3. Connect to database
-    await connectDB();
-
-    // 4. Fetch audit report
-    const report = await AuditReportModel.findOne({
-      _id: reportId,
-      userEmail, // Ensure user can only access their own reports
-    }).lean();
-
-    if (!report) {
-      return NextResponse.json(
-        { error: 'Audit report not found' },
-        { status: 404 }
-      );
+    // 3. Fetch the audit report the user can access
+    let report: any;
+    let role: string;
+    try {
+      ({ report, role } = await authorizeReport(await getAccessContext(userEmail), reportId, 'view', '+sourceCode'));
+    } catch (error) {
+      if (error instanceof AccessError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.status }
+        );
+      }
+      throw error;
     }
 
+    // 4. Decompress the stored source
+    const { sourceCode, ...reportData } = report;
+    const source = sourceCode
+      ? decodeSource(sourceCode, Array.isArray(reportData.files) && reportData.files.length > 0)
+      : undefined;
+
     // 5. Return report
     return NextResponse.json({
       success: true,
-      data: report,
+      data: { ...reportData, source },
+      metadata: { role },
     });
   } catch (error) {
     console.error('Error fetching audit report:', error);
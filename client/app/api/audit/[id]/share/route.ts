@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { AuditError } from '@/functions/auditInit';
+import { AccessError, authorizeReport, canPerform, getAccessContext, type ReportRole } from '@/lib/authorization';
+import { parseShareInput, shareAuditFamily } from '@/lib/teams';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+/**
+ * GET /api/audit/[id]/share - Get the teams and users a report is shared with
+ *
+ * `metadata.canShare` tells whether the user may change the sharing.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const reportId = resolvedParams.id;
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(reportId)) {
+      return NextResponse.json(
+        { error: 'Invalid report ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Fetch the report the user can access
+    let report: any;
+    let role: ReportRole;
+    try {
+      ({ report, role } = await authorizeReport(await getAccessContext(userEmail), reportId, 'view'));
+    } catch (error) {
+      if (error instanceof AccessError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
+
+    // 4. Return sharing
+    return NextResponse.json({
+      success: true,
+      data: {
+        owner: report.userEmail,
+        teamIds: (report.sharedWithTeams || []).map(String),
+        users: report.sharedWithUsers || [],
+      },
+      metadata: {
+        role,
+        canShare: canPerform(role, 'share'),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching report sharing:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch report sharing' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/audit/[id]/share - Replace the teams and users a report is shared with
+ *
+ * Body: { teamIds: string[], users: [{ email, role }] }. Team members get their team
+ * role; users get the given role (default viewer). New teams must be teams the user
+ * belongs to. The sharing applies to the whole audit family: the original audit
+ * and its re-audits. Requires the admin role on shared reports.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const reportId = resolvedParams.id;
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(reportId)) {
+      return NextResponse.json(
+        { error: 'Invalid report ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Parse and validate request body
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    // 4. Check the user may share the report, then share its audit family
+    const access = await getAccessContext(userEmail);
+    let updatedReports: number;
+    let input;
+    try {
+      const { report } = await authorizeReport(access, reportId, 'share');
+      input = parseShareInput(body);
+      updatedReports = await shareAuditFamily(access, report, input);
+    } catch (error) {
+      if (error instanceof AccessError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.status }
+        );
+      }
+      if (error instanceof AuditError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    // 5. Return the new sharing
+    return NextResponse.json({
+      success: true,
+      data: input,
+      metadata: { updatedReports },
+    });
+  } catch (error) {
+    console.error('Error sharing audit report:', error);
+    return NextResponse.json(
+      { error: 'Failed to share audit report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import AuditReportModel, { type IAuditReport } from '@/lib/models/AuditReport';
+import { AccessError, authorizeReport, getAccessContext } from '@/lib/authorization';
+import SuppressionRuleModel, { type SuppressionScope } from '@/lib/models/SuppressionRule';
+import { ruleForFinding } from '@/lib/suppression-rules';
+import { calculateRiskScore, type FindingTriage, type TriageStatus } from '@/functions/auditInit';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const TRIAGE_STATUSES: TriageStatus[] = ['open', 'confirmed', 'false-positive', 'accepted-risk', 'fixed'];
+
+const MAX_JUSTIFICATION_LENGTH = 2_000;
+
+/** Statuses that may create a suppression rule */
+const SUPPRESSIBLE_STATUSES: TriageStatus[] = ['false-positive', 'accepted-risk'];
+
+interface TriageRequest {
+  status: TriageStatus;
+  justification: string;
+  /** Also suppress the finding in future audits of this contract ('project') or all audits ('user') */
+  suppress?: SuppressionScope;
+}
+
+/**
+ * PATCH /api/audit/[id]/vulnerabilities/[vulnId] - Set the triage status of a finding
+ *
+ * Body: { status, justification }. The justification is required for every status,
+ * including reopening a finding. The reviewer email and timestamp are taken from the
+ * session and the server clock. The stored risk score is left unchanged; the response
+ * includes the score without dismissed findings as `metadata.activeRiskScore`.
+ *
+ * False positives and accepted risks can also be suppressed in future audits by passing
+ * `suppress: 'project' | 'user'`. The justification becomes the rule's reason, and the
+ * new rule's id is returned as `metadata.suppressionRuleId`. Rules belong to the report
+ * owner, so they also apply when the owner's audits are triaged by teammates.
+ *
+ * Requires the auditor role on shared reports.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; vulnId: string }> | { id: string; vulnId: string } }
+) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const reportId = resolvedParams.id;
+    // Project finding ids contain the file path, so clients encode them
+    const vulnId = decodeURIComponent(resolvedParams.vulnId);
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(reportId)) {
+      return NextResponse.json(
+        { error: 'Invalid report ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Parse and validate request body
+    let body: TriageRequest;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    if (!TRIAGE_STATUSES.includes(body?.status)) {
+      return NextResponse.json(
+        { error: `Status must be one of: ${TRIAGE_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const justification = typeof body.justification === 'string' ? body.justification.trim() : '';
+    if (!justification) {
+      return NextResponse.json(
+        { error: 'A justification is required' },
+        { status: 400 }
+      );
+    }
+    if (justification.length > MAX_JUSTIFICATION_LENGTH) {
+      return NextResponse.json(
+        { error: `Justification must be at most ${MAX_JUSTIFICATION_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (body.suppress !== undefined) {
+      if (body.suppress !== 'user' && body.suppress !== 'project') {
+        return NextResponse.json(
+          { error: 'Suppress must be "user" or "project"' },
+          { status: 400 }
+        );
+      }
+      if (!SUPPRESSIBLE_STATUSES.includes(body.status)) {
+        return NextResponse.json(
+          { error: `Only findings marked ${SUPPRESSIBLE_STATUSES.join(' or ')} can be suppressed` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // 4. Connect to database and load the finding from a report the user can triage
+    await connectDB();
+    let existing: IAuditReport;
+    try {
+      ({ report: existing } = await authorizeReport(await getAccessContext(userEmail), reportId, 'audit'));
+    } catch (error) {
+      if (error instanceof AccessError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
+
+    const finding = existing.vulnerabilities.find((item) => item.id === vulnId);
+    if (!finding) {
+      return NextResponse.json(
+        { error: 'Audit report or finding not found' },
+        { status: 404 }
+      );
+    }
+
+    // 5. Build the suppression rule before changing anything
+    if (body.suppress === 'project' && !existing.projectId) {
+      return NextResponse.json(
+        { error: 'Report is not attached to a project; suppress for the user instead' },
+        { status: 422 }
+      );
+    }
+    const rule = body.suppress
+      ? ruleForFinding(
+          finding,
+          body.suppress,
+          existing.projectId ? String(existing.projectId) : undefined,
+          justification
+        )
+      : null;
+    if (body.suppress && !rule) {
+      return NextResponse.json(
+        { error: 'Finding has no fingerprint or category and function to suppress by' },
+        { status: 422 }
+      );
+    }
+
+    // 6. Store the triage decision on the finding, and the suppression rule
+    const triage: FindingTriage = {
+      status: body.status,
+      justification,
+      reviewedBy: userEmail,
+      reviewedAt: new Date(),
+    };
+
+    const report = await AuditReportModel.findOneAndUpdate(
+      { _id: reportId, 'vulnerabilities.id': vulnId },
+      { $set: { 'vulnerabilities.$.triage': triage } },
+      { new: true }
+    ).lean<IAuditReport>();
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Audit report or finding not found' },
+        { status: 404 }
+      );
+    }
+
+    let suppressionRuleId: string | undefined;
+    if (rule) {
+      const saved = await SuppressionRuleModel.create({
+        ...rule,
+        userEmail: existing.userEmail,
+        sourceReportId: reportId,
+      });
+      suppressionRuleId = saved._id.toString();
+    }
+
+    // 7. Return the updated finding
+    return NextResponse.json({
+      success: true,
+      data: report.vulnerabilities.find((finding) => finding.id === vulnId),
+      metadata: {
+        reportId,
+        activeRiskScore: calculateRiskScore(report, { excludeDismissed: true }),
+        suppressionRuleId,
+      },
+    });
+  } catch (error) {
+    console.error('Error updating finding triage:', error);
+    return NextResponse.json(
+      { error: 'Failed to update finding' },
+      { status: 500 }
+    );
+  }
+}
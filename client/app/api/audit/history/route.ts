@@ -2,12 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import AuditReportModel from '@/lib/models/AuditReport';
+import { getAccessContext, reportAccessFilter } from '@/lib/authorization';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
 /**
  * GET /api/audit/history - Get audit history for the authenticated user
+ *
+ * Filters: contractName (case-insensitive search), projectId, contractId, startDate, endDate.
+ * `scope` selects the user's own audits ('own'), audits shared with the user ('shared')
+ * or both ('all', the default).
  */
 export async function GET(request: NextRequest) {
   try {
@@ -27,16 +32,39 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '50', 10);
     const skip = parseInt(searchParams.get('skip') || '0', 10);
     const contractName = searchParams.get('contractName');
+    const projectId = searchParams.get('projectId');
+    const contractId = searchParams.get('contractId');
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
+    const scope = searchParams.get('scope') || 'all';
+
+    if (!['own', 'shared', 'all'].includes(scope)) {
+      return NextResponse.json(
+        { error: 'Scope must be own, shared or all' },
+        { status: 400 }
+      );
+    }
+
+    if ((projectId && !/^[0-9a-fA-F]{24}$/.test(projectId)) || (contractId && !/^[0-9a-fA-F]{24}$/.test(contractId))) {
+      return NextResponse.json(
+        { error: 'Invalid project or contract ID format' },
+        { status: 400 }
+      );
+    }
 
     // 3. Connect to database
     await connectDB();
 
     // 4. Build query - by default, show only initial audits (not re-audits)
     // Re-audits can be shown separately if needed
+    const accessFilter = scope === 'own'
+      ? { userEmail }
+      : reportAccessFilter(await getAccessContext(userEmail), 'view');
     const query: any = { 
-      userEmail,
+      $and: [
+        accessFilter,
+        ...(scope === 'shared' ? [{ userEmail: { $ne: userEmail } }] : []),
+      ],
       $or: [
         { isReAudit: { $exists: false } },
         { isReAudit: false }
@@ -45,6 +73,12 @@ export async function GET(request: NextRequest) {
     if (contractName) {
       query.contractName = { $regex: contractName, $options: 'i' };
     }
+    if (projectId) {
+      query.projectId = projectId;
+    }
+    if (contractId) {
+      query.contractId = contractId;
+    }
     if (startDate || endDate) {
       query.auditedAt = {};
       if (startDate) {
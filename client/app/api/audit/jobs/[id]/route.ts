@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import AuditJobModel, { type IAuditJob } from '@/lib/models/AuditJob';
+import { processAuditJobs, toJobStatusResponse } from '@/lib/audit-queue';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/audit/jobs/[id] - Get the status of a queued audit job
+ *
+ * Status is one of queued, running, succeeded or failed. Succeeded jobs carry the
+ * `reportId` of the saved audit (see GET /api/audit/[id]); failed jobs carry an `error`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const jobId = resolvedParams.id;
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(jobId)) {
+      return NextResponse.json(
+        { error: 'Invalid job ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Connect to database
+    await connectDB();
+
+    // 4. Fetch job
+    const job = await AuditJobModel.findOne({
+      _id: jobId,
+      userEmail, // Ensure user can only access their own jobs
+    }) as IAuditJob | null;
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Audit job not found' },
+        { status: 404 }
+      );
+    }
+
+    // 5. Keep the queue moving (also picks up jobs interrupted by a restart)
+    if (job.status === 'queued' || job.status === 'running') {
+      void processAuditJobs();
+    }
+
+    // 6. Return status
+    return NextResponse.json({
+      success: true,
+      data: await toJobStatusResponse(job),
+    });
+  } catch (error) {
+    console.error('Error fetching audit job:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { logger, getRequestId, getClientRequestId } from '@/lib/logging';
+import { AuditError } from '@/functions/auditInit';
+import { parseAuditRequest, type AuditRequest } from '@/lib/audit-runner';
+import { validateAuditTarget } from '@/lib/projects';
+import { enqueueAuditJob, toJobStatusResponse } from '@/lib/audit-queue';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * POST /api/audit/jobs - Queue a smart contract audit and return immediately
+ *
+ * Accepts the same body as POST /api/audit. Poll GET /api/audit/jobs/[id] for the
+ * status and the id of the saved AuditReport.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = getRequestId(request);
+
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      await logger.logError(
+        'UNAUTHORIZED_ACCESS',
+        'Audit job submission without valid session',
+        undefined,
+        undefined,
+        requestId
+      );
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+
+    // 2. Validate email domain
+    const allowedDomain = process.env.ALLOWED_EMAIL_DOMAIN || '@energi.team';
+    if (!userEmail.endsWith(allowedDomain)) {
+      await logger.logError(
+        'DOMAIN_RESTRICTION',
+        `Audit job submission from unauthorized domain: ${userEmail}`,
+        userEmail,
+        undefined,
+        requestId
+      );
+      return NextResponse.json(
+        { error: 'Access denied: Invalid email domain' },
+        { status: 403 }
+      );
+    }
+
+    // 3. Parse the request body and queue the job (invalid contracts are rejected here)
+    let body: AuditRequest;
+    try {
+      body = await parseAuditRequest(request);
+      await validateAuditTarget(userEmail, body);
+    } catch (error) {
+      await logger.logError(
+        error instanceof AuditError ? error.code || 'INVALID_REQUEST_BODY' : 'INVALID_REQUEST_BODY',
+        error instanceof AuditError ? error.message : 'Failed to parse request body',
+        userEmail,
+        error instanceof Error ? error.stack : undefined,
+        requestId
+      );
+      return NextResponse.json(
+        error instanceof AuditError ? { error: error.message, code: error.code } : { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    let job;
+    try {
+      job = await enqueueAuditJob(body, userEmail, requestId, getClientRequestId(request));
+    } catch (error) {
+      if (error instanceof AuditError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    // 4. Return the job id
+    return NextResponse.json(
+      {
+        success: true,
+        data: await toJobStatusResponse(job),
+        metadata: { requestId },
+      },
+      { status: 202 }
+    );
+
+  } catch (error) {
+    await logger.logError(
+      'UNEXPECTED_ERROR',
+      error instanceof Error ? error.message : 'Unknown error occurred',
+      undefined,
+      error instanceof Error ? error.stack : undefined,
+      requestId
+    );
+
+    return NextResponse.json(
+      { error: 'Failed to queue audit job. Please try again later.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { runAuditWorker } from '@/lib/audit-queue';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+// Route segment limit on serverless hosts; jobs are only claimed during CLAIM_WINDOW_MS
+export const maxDuration = 300;
+
+/** How long the worker keeps claiming jobs, leaving the rest of maxDuration to finish them */
+const CLAIM_WINDOW_MS = 60 * 1000;
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * GET /api/audit/jobs/worker - Run queued audit jobs (scheduler only)
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>`; no session. Claims queued jobs for
+ * one minute and returns once they have finished. Schedule it every minute on
+ * serverless hosts, where jobs started by request handlers stop with the response.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Validate the scheduler secret
+    if (!isAuthorized(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // 2. Drain the queue
+    const result = await runAuditWorker({ deadline: Date.now() + CLAIM_WINDOW_MS });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Error running audit worker:', error);
+    return NextResponse.json(
+      { error: 'Failed to run audit worker' },
+      { status: 500 }
+    );
+  }
+}
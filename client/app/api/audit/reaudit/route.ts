@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import { logger, generateRequestId } from '@/lib/logging';
-import { auditSmartContract, AuditError, type AuditReport, type Vulnerability, calculateRiskScore } from '@/functions/auditInit';
+import { logger, getRequestId, getClientRequestId } from '@/lib/logging';
 import connectDB from '@/lib/mongodb';
-import AuditReportModel from '@/lib/models/AuditReport';
+import type { IAuditReport } from '@/lib/models/AuditReport';
+import { runAuditRequest } from '@/lib/audit-runner';
+import { AccessError, authorizeReport, getAccessContext, type ReportRole } from '@/lib/authorization';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -16,13 +17,20 @@ interface ReAuditRequest {
   improvedContractCode: string;
   contractName?: string;
   timeout?: number;
+  provider?: string;
+  /** Run a fresh audit even when a cached result exists */
+  force?: boolean;
 }
 
 /**
  * POST /api/audit/reaudit - Re-audit an improved contract
+ *
+ * Requires the auditor role when the original audit is shared with the user. The re-audit
+ * is shared like the original audit, and with the original audit's owner. Like other
+ * audits, resubmitting unchanged code is served from the audit cache unless `force` is set.
  */
 export async function POST(request: NextRequest) {
-  const requestId = generateRequestId();
+  const requestId = getRequestId(request);
   const startTime = Date.now();
 
   try {
@@ -57,167 +65,91 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { originalAuditId, improvedContractCode, contractName, timeout = 90000 } = body;
+    const { originalAuditId, improvedContractCode, contractName, timeout, provider, force } = body;
 
-    if (!improvedContractCode.trim()) {
+    if (typeof improvedContractCode !== 'string' || !improvedContractCode.trim()) {
       return NextResponse.json(
         { error: 'Improved contract code is required' },
         { status: 400 }
       );
     }
 
-    // 4. Connect to database and verify original audit exists and belongs to user
+    // 4. Connect to database and verify original audit exists and the user can re-audit it
     await connectDB();
-    const originalAudit = await AuditReportModel.findOne({
-      _id: originalAuditId,
-      userEmail, // Ensure user can only re-audit their own contracts
-    });
-
-    if (!originalAudit) {
-      return NextResponse.json(
-        { error: 'Original audit not found or access denied' },
-        { status: 404 }
-      );
-    }
-
-    // 5. Log re-audit start
-    const logId = await logger.logAuditStart(
-      userEmail,
-      contractName || originalAudit.contractName,
-      improvedContractCode.length,
-      requestId
-    );
-
-    // 6. Call audit function on improved contract
-    let auditReport: AuditReport;
+    let originalAudit: IAuditReport;
+    let role: ReportRole;
     try {
-      auditReport = await auditSmartContract(
-        improvedContractCode,
-        contractName || originalAudit.contractName,
-        { timeout }
-      );
+      ({ report: originalAudit, role } = await authorizeReport(await getAccessContext(userEmail), originalAuditId, 'audit'));
     } catch (error) {
-      const auditDuration = Date.now() - startTime;
-      let errorMessage = 'Unknown error occurred';
-      let errorType = 'AUDIT_ERROR';
-
-      if (error instanceof AuditError) {
-        errorType = error.code || 'AUDIT_ERROR';
-        errorMessage = error.message;
-      } else if (error instanceof Error) {
-        errorMessage = error.message;
+      if (error instanceof AccessError) {
+        return NextResponse.json(
+          { error: 'Original audit not found or access denied', code: error.code },
+          { status: error.status }
+        );
       }
+      throw error;
+    }
 
-      await logger.logError(
-        errorType,
-        errorMessage,
-        userEmail,
-        error instanceof Error ? error.stack : undefined,
-        requestId
-      );
-
-      await logger.logAuditComplete(
-        logId,
+    // 5. Log, audit (or reuse a cached result), score and save the re-audit
+    const result = await runAuditRequest(
+      {
+        contractCode: improvedContractCode,
+        contractName: contractName || originalAudit.contractName,
+        timeout,
+        provider,
+        force,
+      },
+      {
         userEmail,
-        contractName || originalAudit.contractName,
-        improvedContractCode.length,
-        false,
-        auditDuration,
-        undefined,
-        undefined,
-        errorMessage,
-        requestId
-      );
-
+        requestId,
+        clientRequestId: getClientRequestId(request),
+        startTime,
+        reAudit: {
+          originalAuditId,
+          ownerEmail: originalAudit.userEmail,
+          projectId: originalAudit.projectId ? String(originalAudit.projectId) : undefined, // Re-audits are new versions of the same project contract
+          contractId: originalAudit.contractId ? String(originalAudit.contractId) : undefined,
+          sharedWithTeams: originalAudit.sharedWithTeams,
+          sharedWithUsers: role === 'owner'
+            ? originalAudit.sharedWithUsers
+            : [
+                ...(originalAudit.sharedWithUsers || []).filter((share) => share.email.toLowerCase() !== userEmail.toLowerCase()),
+                { email: originalAudit.userEmail, role: 'admin' },
+              ],
+        },
+      }
+    );
+    if (!result.success) {
       return NextResponse.json(
-        { error: 'Failed to audit improved contract. Please try again later.' },
+        { error: 'Failed to audit improved contract. Please try again later.', code: result.errorType },
         { status: 500 }
       );
     }
 
-    // 7. Calculate metrics and log completion
-    const auditDuration = Date.now() - startTime;
-    const riskScore = calculateRiskScore(auditReport);
-
-    await logger.logAuditComplete(
-      logId,
-      userEmail,
-      contractName || originalAudit.contractName,
-      improvedContractCode.length,
-      true,
-      auditDuration,
-      auditReport.vulnerabilities.length,
-      {
-        critical: auditReport.vulnerabilities.filter(v => v.severity === 'CRITICAL').length,
-        high: auditReport.vulnerabilities.filter(v => v.severity === 'HIGH').length,
-        medium: auditReport.vulnerabilities.filter(v => v.severity === 'MEDIUM').length,
-        low: auditReport.vulnerabilities.filter(v => v.severity === 'LOW').length,
-      },
-      undefined,
-      requestId
-    );
+    const { auditReport, auditDuration, riskScore, creditsConsumed, cachedAt, reportId, sourceHash } = result;
 
-    // 8. Save re-audit report to MongoDB
-    try {
-      const reAuditReport = await AuditReportModel.create({
-        userEmail,
-        contractName: auditReport.contractName,
-        language: auditReport.language,
-        summary: auditReport.summary,
-        vulnerabilities: auditReport.vulnerabilities,
-        linesOfCode: auditReport.linesOfCode,
-        auditedAt: auditReport.auditedAt,
-        auditEngineVersion: auditReport.auditEngineVersion,
-        rawResponse: auditReport.rawResponse,
+    // 6. Return the re-audit with its improvement over the original
+    return NextResponse.json({
+      success: true,
+      data: auditReport,
+      reAuditId: reportId, // Undefined if saving to MongoDB failed
+      metadata: {
         requestId,
         auditDuration,
+        creditsConsumed,
+        vulnerabilitiesFound: auditReport.vulnerabilities.length,
         riskScore,
-        originalAuditId: originalAuditId,
-        isReAudit: true,
-      });
-
-      // 9. Re-audit is saved, analytics will calculate average from all re-audits
-
-      return NextResponse.json({
-        success: true,
-        data: auditReport,
-        reAuditId: reAuditReport._id.toString(),
-        metadata: {
-          requestId,
-          auditDuration,
-          creditsConsumed: 1,
-          vulnerabilitiesFound: auditReport.vulnerabilities.length,
-          riskScore,
-          improvement: originalAudit.riskScore !== undefined && originalAudit.riskScore !== null
-            ? ((originalAudit.riskScore - riskScore) / originalAudit.riskScore * 100).toFixed(1)
-            : null,
-          originalRiskScore: originalAudit.riskScore,
-          newRiskScore: riskScore,
-        }
-      });
-    } catch (dbError) {
-      console.error('Failed to save re-audit report to database:', dbError);
-      await logger.logError(
-        'DATABASE_ERROR',
-        'Failed to save re-audit report to MongoDB',
-        userEmail,
-        dbError instanceof Error ? dbError.stack : undefined,
-        requestId
-      );
-
-      // Still return the audit report even if DB save fails
-      return NextResponse.json({
-        success: true,
-        data: auditReport,
-        metadata: {
-          requestId,
-          auditDuration,
-          creditsConsumed: 1,
-          vulnerabilitiesFound: auditReport.vulnerabilities.length,
-          riskScore,
-        }
-      });
-    }
+        cached: cachedAt !== undefined,
+        cachedAt,
+        improvement: originalAudit.riskScore !== undefined && originalAudit.riskScore !== null
+          ? ((originalAudit.riskScore - riskScore) / originalAudit.riskScore * 100).toFixed(1)
+          : null,
+        originalRiskScore: originalAudit.riskScore,
+        newRiskScore: riskScore,
+        sourceHash,
+        sourceUnchanged: originalAudit.sourceHash === sourceHash, // The "improved" code is identical to the originally audited code
+      }
+    });
 
   } catch (error) {
     const auditDuration = Date.now() - startTime;
@@ -1,41 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import { logger, generateRequestId } from '@/lib/logging';
-import { auditSmartContract, AuditError, type AuditReport, type Vulnerability, calculateRiskScore } from '@/functions/auditInit';
-import connectDB from '@/lib/mongodb';
-import AuditReportModel from '@/lib/models/AuditReport';
+import { logger, getRequestId, getClientRequestId } from '@/lib/logging';
+import { AuditError } from '@/functions/auditInit';
+import { listAuditProviders } from '@/functions/providers';
+import { parseAuditRequest, runAuditRequest, type AuditRequest } from '@/lib/audit-runner';
+import { validateAuditTarget } from '@/lib/projects';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-/**
- * Request body interface
- */
-interface AuditRequest {
-  contractCode: string;
-  contractName?: string;
-  timeout?: number;
-}
-
-
-/**
- * Calculate severity breakdown for logging
- */
-function calculateSeverityBreakdown(vulnerabilities: Vulnerability[]) {
-  return vulnerabilities.reduce(
-    (breakdown, vuln) => {
-      breakdown[vuln.severity.toLowerCase() as keyof typeof breakdown]++;
-      return breakdown;
-    },
-    { critical: 0, high: 0, medium: 0, low: 0 }
-  );
-}
-
 /**
  * POST /api/audit - Audit smart contract
  */
 export async function POST(request: NextRequest) {
-  const requestId = generateRequestId();
+  const requestId = getRequestId(request);
   const startTime = Date.now();
 
   try {
@@ -76,8 +54,22 @@ export async function POST(request: NextRequest) {
     // 3. Parse and validate request body
     let body: AuditRequest;
     try {
-      body = await request.json();
+      body = await parseAuditRequest(request);
+      await validateAuditTarget(userEmail, body);
     } catch (error) {
+      if (error instanceof AuditError) {
+        await logger.logError(
+          error.code || 'INVALID_REQUEST_BODY',
+          error.message,
+          userEmail,
+          error.stack,
+          requestId
+        );
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 400 }
+        );
+      }
       await logger.logError(
         'INVALID_REQUEST_BODY',
         'Failed to parse request body',
@@ -91,125 +83,39 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { contractCode, contractName, timeout = 90000 } = body;
-
-    // Contract code validation is handled by auditSmartContract function
-
-    // 5. Log audit start
-    const logId = await logger.logAuditStart(
+    // 4. Log, audit, score and save the report
+    const result = await runAuditRequest(body, {
       userEmail,
-      contractName,
-      contractCode.length,
-      requestId
-    );
-
-    // 6. Call audit function
-    let auditReport: AuditReport;
-    try {
-      auditReport = await auditSmartContract(
-        contractCode,
-        contractName,
-        { timeout }
-      );
-    } catch (error) {
-      const auditDuration = Date.now() - startTime;
-      let errorMessage = 'Unknown error occurred';
-      let errorType = 'AUDIT_ERROR';
-
-      if (error instanceof AuditError) {
-        errorType = error.code || 'AUDIT_ERROR';
-        errorMessage = error.message;
-      } else if (error instanceof Error) {
-        errorMessage = error.message;
-      }
-
-      await logger.logError(
-        errorType,
-        errorMessage,
-        userEmail,
-        error instanceof Error ? error.stack : undefined,
-        requestId
-      );
-
-      await logger.logAuditComplete(
-        logId,
-        userEmail,
-        contractName,
-        contractCode.length,
-        false, // success = false
-        auditDuration,
-        undefined, // vulnerabilitiesFound
-        undefined, // severityBreakdown
-        errorMessage,
-        requestId
-      );
-
+      requestId,
+      clientRequestId: getClientRequestId(request),
+      startTime,
+    });
+    if (!result.success) {
       return NextResponse.json(
-        { error: 'Failed to audit smart contract. Please try again later.' },
+        { error: 'Failed to audit smart contract. Please try again later.', code: result.errorType },
         { status: 500 }
       );
     }
 
-    // 7. Calculate metrics and log completion
-    const auditDuration = Date.now() - startTime;
-    const severityBreakdown = calculateSeverityBreakdown(auditReport.vulnerabilities);
-
-    await logger.logAuditComplete(
-      logId,
-      userEmail,
-      contractName,
-      contractCode.length,
-      true, // success = true
-      auditDuration,
-      auditReport.vulnerabilities.length,
-      severityBreakdown,
-      undefined, // errorMessage
-      requestId
-    );
-
-    // 8. Calculate risk score from vulnerabilities
-    const riskScore = calculateRiskScore(auditReport);
-
-    // 9. Save audit report to MongoDB
-    try {
-      await connectDB();
-      await AuditReportModel.create({
-        userEmail,
-        contractName: auditReport.contractName,
-        language: auditReport.language,
-        summary: auditReport.summary,
-        vulnerabilities: auditReport.vulnerabilities,
-        linesOfCode: auditReport.linesOfCode,
-        auditedAt: auditReport.auditedAt,
-        auditEngineVersion: auditReport.auditEngineVersion,
-        rawResponse: auditReport.rawResponse,
-        requestId,
-        auditDuration,
-        riskScore,
-        isReAudit: false, // Initial audit
-      });
-    } catch (dbError) {
-      // Log database error but don't fail the request
-      console.error('Failed to save audit report to database:', dbError);
-      await logger.logError(
-        'DATABASE_ERROR',
-        'Failed to save audit report to MongoDB',
-        userEmail,
-        dbError instanceof Error ? dbError.stack : undefined,
-        requestId
-      );
-    }
+    const { auditReport, auditDuration, riskScore, creditsConsumed, cachedAt, reportId, sourceHash, previousAudit, target } = result;
 
-    // 10. Return audit report
+    // 5. Return audit report
     return NextResponse.json({
       success: true,
       data: auditReport,
       metadata: {
         requestId,
+        reportId,
         auditDuration,
-        creditsConsumed: 1,
+        creditsConsumed,
         vulnerabilitiesFound: auditReport.vulnerabilities.length,
         riskScore,
+        cached: cachedAt !== undefined,
+        cachedAt,
+        sourceHash,
+        previousAudit, // Set when the same source was audited before
+        projectId: target?.projectId,
+        contractId: target?.contractId,
       }
     });
 
@@ -241,10 +147,16 @@ export async function GET() {
     service: 'Energi Smart Contract Audit API',
     version: '1.0.0',
     status: 'operational',
+    providers: listAuditProviders(),
     endpoints: {
       audit: 'POST /api/audit',
+      stream: 'POST /api/audit/stream',
+      jobs: 'POST /api/audit/jobs',
+      jobStatus: 'GET /api/audit/jobs/[id]',
       logs: 'GET /api/logs',
       stats: 'GET /api/logs/stats',
+      errors: 'GET /api/logs/errors',
+      trace: 'GET /api/logs/trace/[requestId]',
     }
   });
 }
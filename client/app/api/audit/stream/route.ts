@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { logger, getRequestId, getClientRequestId } from '@/lib/logging';
+import { AuditError } from '@/functions/auditInit';
+import { parseAuditRequest, runAuditRequest, type AuditRequest } from '@/lib/audit-runner';
+import { validateAuditTarget } from '@/lib/projects';
+import { createAuditStream, getAuditStream, createEventStream, eventStreamHeaders } from '@/lib/audit-stream';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * POST /api/audit/stream - Audit a smart contract, streaming progress as Server-Sent Events
+ *
+ * Accepts the same body as POST /api/audit. Events:
+ * - `started` { requestId, provider, language }
+ * - `tokens` { received } - characters of model output received so far
+ * - `parsing` - the model response is being parsed
+ * - `chunk_started` / `chunk_completed` / `chunk_failed` - large contracts only
+ * - `finding` { vulnerability } - one per finding, as soon as the model response (or chunk,
+ *   or project file) it came from is parsed. Findings are provisional: the report in
+ *   `complete` is deduplicated across chunks and leaves out suppressed findings. Cached
+ *   results send their findings just before `complete`.
+ * - `saved` { reportId }
+ * - `complete` { data, metadata } - same payload as POST /api/audit
+ * - `error` { error, code }
+ *
+ * If the connection drops, reconnect with GET /api/audit/stream?requestId=... and a
+ * Last-Event-ID header (or `lastEventId` query parameter) to resume. Events are kept in
+ * the memory of the instance running the audit (see lib/audit-stream.ts).
+ */
+export async function POST(request: NextRequest) {
+  const requestId = getRequestId(request);
+  const startTime = Date.now();
+
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      await logger.logError(
+        'UNAUTHORIZED_ACCESS',
+        'Streaming audit attempt without valid session',
+        undefined,
+        undefined,
+        requestId
+      );
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+
+    // 2. Validate email domain
+    const allowedDomain = process.env.ALLOWED_EMAIL_DOMAIN || '@energi.team';
+    if (!userEmail.endsWith(allowedDomain)) {
+      await logger.logError(
+        'DOMAIN_RESTRICTION',
+        `Streaming audit attempt from unauthorized domain: ${userEmail}`,
+        userEmail,
+        undefined,
+        requestId
+      );
+      return NextResponse.json(
+        { error: 'Access denied: Invalid email domain' },
+        { status: 403 }
+      );
+    }
+
+    // 3. Parse and validate request body
+    let body: AuditRequest;
+    try {
+      body = await parseAuditRequest(request);
+      await validateAuditTarget(userEmail, body);
+    } catch (error) {
+      const code = error instanceof AuditError ? error.code || 'INVALID_REQUEST_BODY' : 'INVALID_REQUEST_BODY';
+      await logger.logError(
+        code,
+        error instanceof AuditError ? error.message : 'Failed to parse request body',
+        userEmail,
+        error instanceof Error ? error.stack : undefined,
+        requestId
+      );
+      return NextResponse.json(
+        { error: error instanceof AuditError ? error.message : 'Invalid request body', code },
+        { status: 400 }
+      );
+    }
+
+    // 4. Start the audit in the background; it outlives any single connection
+    const stream = createAuditStream(requestId, userEmail);
+
+    runAuditRequest(body, {
+      userEmail,
+      requestId,
+      clientRequestId: getClientRequestId(request),
+      startTime,
+      onProgress: (event) => {
+        const { type, ...data } = event;
+        stream.emit(type, type === 'started' ? { requestId, ...data } : data);
+      },
+    })
+      .then((result) => {
+        if (!result.success) {
+          stream.emit('error', { error: 'Failed to audit smart contract. Please try again later.', code: result.errorType });
+          return;
+        }
+
+        const { auditReport, auditDuration, riskScore, creditsConsumed, cachedAt, reportId, sourceHash, previousAudit, target } = result;
+        if (cachedAt) {
+          // No audit ran, so no findings were streamed
+          auditReport.vulnerabilities.forEach((vulnerability) => stream.emit('finding', { vulnerability }));
+        }
+        if (reportId) {
+          stream.emit('saved', { reportId });
+        }
+        stream.emit('complete', {
+          data: auditReport,
+          metadata: {
+            requestId,
+            reportId,
+            auditDuration,
+            creditsConsumed,
+            vulnerabilitiesFound: auditReport.vulnerabilities.length,
+            riskScore,
+            cached: cachedAt !== undefined,
+            cachedAt,
+            sourceHash,
+            previousAudit,
+            projectId: target?.projectId,
+            contractId: target?.contractId,
+          },
+        });
+      })
+      .catch(async (error) => {
+        await logger.logError(
+          'UNEXPECTED_ERROR',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          userEmail,
+          error instanceof Error ? error.stack : undefined,
+          requestId
+        );
+        stream.emit('error', { error: 'An unexpected error occurred. Please try again later.', code: 'UNEXPECTED_ERROR' });
+      })
+      .finally(() => stream.close());
+
+    // 5. Stream progress to the client
+    return new Response(createEventStream(stream), { headers: eventStreamHeaders(requestId) });
+
+  } catch (error) {
+    await logger.logError(
+      'UNEXPECTED_ERROR',
+      error instanceof Error ? error.message : 'Unknown error occurred',
+      undefined,
+      error instanceof Error ? error.stack : undefined,
+      requestId
+    );
+
+    return NextResponse.json(
+      { error: 'An unexpected error occurred. Please try again later.' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/audit/stream?requestId=... - Resume the event stream of a running or recently finished audit
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession();
+  if (!session?.user?.email) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const requestId = request.nextUrl.searchParams.get('requestId');
+  const stream = requestId ? getAuditStream(requestId) : undefined;
+
+  // Streams are only visible to the user who started them
+  if (!stream || stream.userEmail !== session.user.email) {
+    return NextResponse.json(
+      { error: 'Audit stream not found or expired' },
+      { status: 404 }
+    );
+  }
+
+  const lastEventId = parseInt(
+    request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId') || '0',
+    10
+  );
+
+  return new Response(
+    createEventStream(stream, Number.isNaN(lastEventId) ? 0 : lastEventId),
+    { headers: eventStreamHeaders(stream.requestId) }
+  );
+}
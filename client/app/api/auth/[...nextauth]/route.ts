@@ -1,6 +1,10 @@
 import NextAuth from "next-auth"
 import GoogleProvider from "next-auth/providers/google"
 import { NextRequest } from "next/server"
+import { getUserRole } from "@/lib/roles"
+
+// How long a role claim is trusted before it is read again from MongoDB
+const ROLE_REFRESH_MS = 5 * 60 * 1000
 
 const handler = NextAuth({
   providers: [
@@ -22,11 +26,25 @@ const handler = NextAuth({
       return false
     },
     async session({ session, token }) {
-      // Add any additional session data if needed
+      // Expose the role claim to the client
+      if (session.user) {
+        session.user.role = token.role || "user"
+      }
       return session
     },
     async jwt({ token, user, account }) {
-      // Add any additional token data if needed
+      // Carry the user's role in the token, refreshing it on sign-in and periodically
+      const stale = !token.roleCheckedAt || Date.now() - token.roleCheckedAt > ROLE_REFRESH_MS
+      if (token.email && (user || stale)) {
+        try {
+          token.role = await getUserRole(token.email)
+          token.roleCheckedAt = Date.now()
+        } catch (error) {
+          // Keep the previous claim; retry on the next request
+          console.error("Failed to load user role:", error)
+          token.role = token.role || "user"
+        }
+      }
       return token
     },
     async redirect({ url, baseUrl }) {
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { logger } from '@/lib/logging';
+import { groupErrorsByType, parseErrorLogFilters, type ErrorLogFilters } from '@/lib/analytics';
+import { AuditError } from '@/functions/auditInit';
+import { isAdminUser } from '@/lib/roles';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/logs/errors - Get error logs grouped by error type
+ * Query parameters:
+ * - startDate: YYYY-MM-DD (optional, defaults to 7 days ago unless requestId is set)
+ * - endDate: YYYY-MM-DD (optional)
+ * - errorType: filter by error type (optional)
+ * - userEmail: filter by specific user (optional)
+ * - requestId: filter by request (optional)
+ * - limit: number of recent entries to return (default: 100, max: 1000)
+ *
+ * `groups` covers every matching error; `errors` lists the most recent `limit` of them.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // 2. Check admin permissions
+    if (!(await isAdminUser(session.user.email))) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    // 3. Parse query parameters
+    let filters: ErrorLogFilters;
+    try {
+      filters = parseErrorLogFilters(new URL(request.url).searchParams);
+    } catch (error) {
+      if (error instanceof AuditError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+    const { limit, ...query } = filters;
+
+    // 4. Fetch matching errors and group them by type
+    const errors = await logger.getErrorLogs(query);
+    const groups = groupErrorsByType(errors);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        groups,
+        errors: errors.slice(-limit).reverse(), // Most recent first
+      },
+      metadata: {
+        count: errors.length,
+        filters,
+        requestedBy: session.user.email,
+        timestamp: new Date().toISOString(),
+        store: logger.storeType,
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching error logs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch error logs' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { logger } from '@/lib/logging';
-
-// Access to private properties for debugging (temporary)
-const loggerAny = logger as any;
+import { isAdminUser } from '@/lib/roles';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-/**
- * Check if user is admin (you can customize this logic)
- */
-function isAdminUser(email: string): boolean {
-  // For now, allow all @energi.team users to view logs
-  // You can customize this to specific admin emails if needed
-  const allowedDomain = process.env.ALLOWED_EMAIL_DOMAIN || '@energi.team';
-  return email.endsWith(allowedDomain);
-}
-
 /**
  * GET /api/logs - Get audit logs with optional filtering
  * Query parameters:
@@ -38,7 +26,7 @@ export async function GET(request: NextRequest) {
     }
 
     // 2. Check admin permissions
-    if (!isAdminUser(session.user.email)) {
+    if (!(await isAdminUser(session.user.email))) {
       return NextResponse.json(
         { error: 'Admin access required' },
         { status: 403 }
@@ -56,10 +44,10 @@ export async function GET(request: NextRequest) {
     // 4. Get logs based on parameters
     let logs;
     if (limit && !startDate && !endDate) {
-      // Get recent activity from cache
-      logs = logger.getRecentActivity(limit);
+      // Get recent activity across all dates
+      logs = await logger.getRecentActivity(limit, userEmail);
     } else {
-      // Get logs from files with date range
+      // Get logs for the date range
       logs = await logger.getAuditLogs(startDate, endDate, userEmail);
 
       // Apply limit if specified
@@ -68,15 +56,6 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    console.log(`Logs API: Returning ${logs.length} logs for user ${session.user.email}`, {
-      limit,
-      startDate,
-      endDate,
-      userEmail,
-      cacheSize: loggerAny.inMemoryCache?.length || 0,
-      isProduction: loggerAny.isProduction
-    });
-
     return NextResponse.json({
       success: true,
       data: logs,
@@ -90,10 +69,7 @@ export async function GET(request: NextRequest) {
         },
         requestedBy: session.user.email,
         timestamp: new Date().toISOString(),
-        debug: {
-          cacheSize: loggerAny.inMemoryCache?.length || 0,
-          isProduction: loggerAny.isProduction
-        }
+        store: logger.storeType,
       }
     });
 
@@ -1,20 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { logger } from '@/lib/logging';
+import { isAdminUser } from '@/lib/roles';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-/**
- * Check if user is admin (you can customize this logic)
- */
-function isAdminUser(email: string): boolean {
-  // For now, allow all @energi.team users to view stats
-  // You can customize this to specific admin emails if needed
-  const allowedDomain = process.env.ALLOWED_EMAIL_DOMAIN || '@energi.team';
-  return email.endsWith(allowedDomain);
-}
-
 /**
  * GET /api/logs/stats - Get aggregated audit statistics
  * Query parameters:
@@ -33,7 +24,7 @@ export async function GET(request: NextRequest) {
     }
 
     // 2. Check admin permissions
-    if (!isAdminUser(session.user.email)) {
+    if (!(await isAdminUser(session.user.email))) {
       return NextResponse.json(
         { error: 'Admin access required' },
         { status: 403 }
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { isAdminUser } from '@/lib/roles';
+import { getRequestTrace } from '@/lib/request-trace';
+import { isValidRequestId } from '@/lib/request-id';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/logs/trace/[requestId] - Get the timeline of one request
+ *
+ * Stitches together the request's audit_start/audit_complete entries, errors, queued job,
+ * provider timing and saved report, oldest first. Request ids are returned in the
+ * `X-Request-Id` header of every API response and in audit responses' `metadata.requestId`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ requestId: string }> | { requestId: string } }
+) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // 2. Check admin permissions
+    if (!(await isAdminUser(session.user.email))) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    // 3. Validate request ID format
+    const resolvedParams = await Promise.resolve(params);
+    const requestId = resolvedParams.requestId;
+    if (!isValidRequestId(requestId)) {
+      return NextResponse.json(
+        { error: 'Invalid request ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 4. Build the trace
+    const trace = await getRequestTrace(requestId);
+    if (!trace) {
+      return NextResponse.json(
+        { error: 'Nothing was recorded for this request ID' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: trace,
+      metadata: {
+        requestedBy: session.user.email,
+        timestamp: new Date().toISOString(),
+      }
+    });
+
+  } catch (error) {
+    console.error('Error building request trace:', error);
+    return NextResponse.json(
+      { error: 'Failed to build request trace' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,232 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { AuditError } from '@/functions/auditInit';
+import connectDB from '@/lib/mongodb';
+import ProjectModel from '@/lib/models/Project';
+import AuditReportModel from '@/lib/models/AuditReport';
+import { buildContractTimeline, parseContractInput } from '@/lib/projects';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteParams = { params: Promise<{ id: string; contractId: string }> | { id: string; contractId: string } };
+
+const OBJECT_ID = /^[0-9a-fA-F]{24}$/;
+
+/**
+ * GET /api/projects/[id]/contracts/[contractId] - Get a contract and its version timeline
+ *
+ * The timeline lists every audit of the contract, re-audits included, oldest first.
+ * `version` increases whenever the audited source changed.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const { id: projectId, contractId } = await Promise.resolve(params);
+
+    // 2. Validate MongoDB ObjectId format
+    if (!OBJECT_ID.test(projectId) || !OBJECT_ID.test(contractId)) {
+      return NextResponse.json(
+        { error: 'Invalid project or contract ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Connect to database
+    await connectDB();
+
+    // 4. Fetch the contract and its audits
+    const project: any = await ProjectModel.findOne({ _id: projectId, userEmail, 'contracts._id': contractId }).lean();
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project or contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Includes teammates' re-audits of the contract, which they save under their own email
+    const reports = await AuditReportModel.find({ projectId, contractId })
+      .select('_id auditedAt sourceHash riskScore vulnerabilities.id isReAudit')
+      .lean<any[]>();
+
+    // 5. Return the contract and its timeline
+    return NextResponse.json({
+      success: true,
+      data: {
+        project: { _id: project._id, name: project.name, chain: project.chain, repoUrl: project.repoUrl },
+        contract: project.contracts.find((contract: any) => String(contract._id) === contractId),
+        timeline: buildContractTimeline(reports),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching contract timeline:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch contract' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/projects/[id]/contracts/[contractId] - Rename a contract or replace its deployed addresses
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const { id: projectId, contractId } = await Promise.resolve(params);
+
+    // 2. Validate MongoDB ObjectId format
+    if (!OBJECT_ID.test(projectId) || !OBJECT_ID.test(contractId)) {
+      return NextResponse.json(
+        { error: 'Invalid project or contract ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Parse and validate request body
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    let input;
+    try {
+      input = parseContractInput(body, true);
+    } catch (error) {
+      if (error instanceof AuditError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const $set: Record<string, unknown> = {};
+    if (input.name) $set['contracts.$.name'] = input.name;
+    if (input.deployedAddresses) $set['contracts.$.deployedAddresses'] = input.deployedAddresses;
+
+    // 4. Connect to database and check a new name is free
+    await connectDB();
+    if (input.name && await ProjectModel.exists({
+      _id: projectId,
+      userEmail,
+      contracts: { $elemMatch: { name: input.name, _id: { $ne: contractId } } },
+    })) {
+      return NextResponse.json(
+        { error: 'A contract with this name already exists in the project' },
+        { status: 409 }
+      );
+    }
+
+    // 5. Update the contract
+    const project: any = await ProjectModel.findOneAndUpdate(
+      { _id: projectId, userEmail, 'contracts._id': contractId },
+      { $set },
+      { new: true }
+    ).lean();
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project or contract not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: project.contracts.find((contract: any) => String(contract._id) === contractId),
+    });
+  } catch (error) {
+    console.error('Error updating project contract:', error);
+    return NextResponse.json(
+      { error: 'Failed to update contract' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/contracts/[contractId] - Remove a contract from a project
+ *
+ * Contracts with audits attached cannot be removed.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const { id: projectId, contractId } = await Promise.resolve(params);
+
+    // 2. Validate MongoDB ObjectId format
+    if (!OBJECT_ID.test(projectId) || !OBJECT_ID.test(contractId)) {
+      return NextResponse.json(
+        { error: 'Invalid project or contract ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Connect to database and check the contract has no audits
+    await connectDB();
+    if (await AuditReportModel.exists({ projectId, contractId })) {
+      return NextResponse.json(
+        { error: 'Contracts with audits cannot be removed' },
+        { status: 409 }
+      );
+    }
+
+    // 4. Remove the contract
+    const project = await ProjectModel.findOneAndUpdate(
+      { _id: projectId, userEmail, 'contracts._id': contractId },
+      { $pull: { contracts: { _id: contractId } } }
+    );
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project or contract not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id: contractId },
+    });
+  } catch (error) {
+    console.error('Error removing project contract:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove contract' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { AuditError } from '@/functions/auditInit';
+import connectDB from '@/lib/mongodb';
+import ProjectModel from '@/lib/models/Project';
+import { parseContractInput } from '@/lib/projects';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * POST /api/projects/[id]/contracts - Add a contract to a project
+ *
+ * Body: { name, deployedAddresses? }. Contract names are unique within a project;
+ * audits with this contract name are attached to the contract.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const projectId = resolvedParams.id;
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(projectId)) {
+      return NextResponse.json(
+        { error: 'Invalid project ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Parse and validate request body
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    let input;
+    try {
+      input = parseContractInput(body, false);
+    } catch (error) {
+      if (error instanceof AuditError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    // 4. Connect to database and add the contract unless the name is taken
+    await connectDB();
+    const project: any = await ProjectModel.findOneAndUpdate(
+      { _id: projectId, userEmail, 'contracts.name': { $ne: input.name } },
+      { $push: { contracts: { name: input.name, deployedAddresses: input.deployedAddresses || [] } } },
+      { new: true }
+    ).lean();
+
+    if (!project) {
+      const exists = await ProjectModel.exists({ _id: projectId, userEmail });
+      return NextResponse.json(
+        { error: exists ? 'A contract with this name already exists in the project' : 'Project not found' },
+        { status: exists ? 409 : 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: project.contracts.find((contract: any) => contract.name === input.name),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error adding project contract:', error);
+    return NextResponse.json(
+      { error: 'Failed to add contract' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,262 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Types } from 'mongoose';
+import { AuditError } from '@/functions/auditInit';
+import connectDB from '@/lib/mongodb';
+import ProjectModel from '@/lib/models/Project';
+import AuditReportModel from '@/lib/models/AuditReport';
+import { parseProjectInput } from '@/lib/projects';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+/**
+ * GET /api/projects/[id] - Get a project with its contracts
+ *
+ * Each contract includes its number of audits and its latest audit
+ * ({ reportId, auditedAt, riskScore }).
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const projectId = resolvedParams.id;
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(projectId)) {
+      return NextResponse.json(
+        { error: 'Invalid project ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Connect to database
+    await connectDB();
+
+    // 4. Fetch the project and per-contract audit stats
+    const project: any = await ProjectModel.findOne({ _id: projectId, userEmail }).lean();
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const contractStats = await AuditReportModel.aggregate([
+      { $match: { projectId: new Types.ObjectId(projectId) } },
+      { $sort: { auditedAt: -1 } },
+      {
+        $group: {
+          _id: '$contractId',
+          auditCount: { $sum: 1 },
+          reportId: { $first: '$_id' },
+          auditedAt: { $first: '$auditedAt' },
+          riskScore: { $first: '$riskScore' },
+        },
+      },
+    ]);
+    const statsByContract = new Map(contractStats.map((stats: any) => [String(stats._id), stats]));
+
+    // 5. Return project
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...project,
+        contracts: project.contracts.map((contract: any) => {
+          const stats = statsByContract.get(String(contract._id));
+          return {
+            ...contract,
+            auditCount: stats?.auditCount || 0,
+            latestAudit: stats
+              ? { reportId: String(stats.reportId), auditedAt: stats.auditedAt, riskScore: stats.riskScore }
+              : undefined,
+          };
+        }),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching project:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch project' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/projects/[id] - Update a project's name, description, repoUrl or chain
+ *
+ * Fields set to an empty string are cleared (except the name).
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const projectId = resolvedParams.id;
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(projectId)) {
+      return NextResponse.json(
+        { error: 'Invalid project ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Parse and validate request body
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    let input;
+    try {
+      input = parseProjectInput(body, true);
+    } catch (error) {
+      if (error instanceof AuditError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const $set: Record<string, string> = {};
+    const $unset: Record<string, 1> = {};
+    if (input.name) $set.name = input.name;
+    (['description', 'repoUrl', 'chain'] as const).forEach((field) => {
+      if (input[field]) {
+        $set[field] = input[field]!;
+      } else if (body[field] !== undefined) {
+        $unset[field] = 1;
+      }
+    });
+
+    // 4. Connect to database and check a new name is free
+    await connectDB();
+    if (input.name && await ProjectModel.exists({ userEmail, name: input.name, _id: { $ne: projectId } })) {
+      return NextResponse.json(
+        { error: 'A project with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    // 5. Update the project
+    const project = await ProjectModel.findOneAndUpdate(
+      { _id: projectId, userEmail },
+      { $set, $unset },
+      { new: true }
+    ).lean();
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: project,
+    });
+  } catch (error) {
+    console.error('Error updating project:', error);
+    return NextResponse.json(
+      { error: 'Failed to update project' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/projects/[id] - Delete a project
+ *
+ * Projects with audits attached, and the default project, cannot be deleted.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const projectId = resolvedParams.id;
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(projectId)) {
+      return NextResponse.json(
+        { error: 'Invalid project ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Connect to database
+    await connectDB();
+
+    // 4. Check the project can be deleted
+    const project: any = await ProjectModel.findOne({ _id: projectId, userEmail }).select('isDefault').lean();
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+    if (project.isDefault) {
+      return NextResponse.json(
+        { error: 'The default project cannot be deleted' },
+        { status: 409 }
+      );
+    }
+    if (await AuditReportModel.exists({ projectId })) {
+      return NextResponse.json(
+        { error: 'Projects with audits cannot be deleted' },
+        { status: 409 }
+      );
+    }
+
+    // 5. Delete the project
+    await ProjectModel.deleteOne({ _id: projectId, userEmail });
+
+    return NextResponse.json({
+      success: true,
+      data: { id: projectId },
+    });
+  } catch (error) {
+    console.error('Error deleting project:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete project' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { AuditError } from '@/functions/auditInit';
+import connectDB from '@/lib/mongodb';
+import ProjectModel from '@/lib/models/Project';
+import AuditReportModel from '@/lib/models/AuditReport';
+import { parseProjectInput } from '@/lib/projects';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/projects - List the user's projects
+ *
+ * Each project includes its contracts, its number of audits and when it was last audited.
+ */
+export async function GET() {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+
+    // 2. Connect to database
+    await connectDB();
+
+    // 3. Fetch projects and their audit counts
+    const projects = await ProjectModel.find({ userEmail }).sort({ isDefault: 1, name: 1 }).lean();
+    const auditStats = await AuditReportModel.aggregate([
+      { $match: { projectId: { $in: projects.map((project: any) => project._id) } } },
+      { $group: { _id: '$projectId', auditCount: { $sum: 1 }, lastAuditedAt: { $max: '$auditedAt' } } },
+    ]);
+
+    const statsByProject = new Map(auditStats.map((stats: any) => [String(stats._id), stats]));
+
+    // 4. Return results
+    return NextResponse.json({
+      success: true,
+      data: projects.map((project: any) => ({
+        ...project,
+        auditCount: statsByProject.get(String(project._id))?.auditCount || 0,
+        lastAuditedAt: statsByProject.get(String(project._id))?.lastAuditedAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching projects:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch projects' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/projects - Create a project
+ *
+ * Body: { name, description?, repoUrl?, chain? }. Project names are unique per user.
+ * Contracts are added with POST /api/projects/[id]/contracts, or on their first audit.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+
+    // 2. Parse and validate request body
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    let input;
+    try {
+      input = parseProjectInput(body, false);
+    } catch (error) {
+      if (error instanceof AuditError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    // 3. Connect to database and check the name is free
+    await connectDB();
+    if (await ProjectModel.exists({ userEmail, name: input.name })) {
+      return NextResponse.json(
+        { error: 'A project with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    // 4. Create the project
+    const project = await ProjectModel.create({
+      userEmail,
+      ...input,
+      contracts: [],
+      isDefault: false,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: project.toObject(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating project:', error);
+    return NextResponse.json(
+      { error: 'Failed to create project' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import SuppressionRuleModel from '@/lib/models/SuppressionRule';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * DELETE /api/suppressions/[id] - Delete a suppression rule
+ *
+ * Findings already suppressed in saved reports stay suppressed; the rule no longer
+ * applies to new audits.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const ruleId = resolvedParams.id;
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(ruleId)) {
+      return NextResponse.json(
+        { error: 'Invalid rule ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Connect to database and delete the rule
+    await connectDB();
+    const deleted = await SuppressionRuleModel.findOneAndDelete({
+      _id: ruleId,
+      userEmail, // Ensure user can only delete their own rules
+    });
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Suppression rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id: ruleId },
+    });
+  } catch (error) {
+    console.error('Error deleting suppression rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete suppression rule' },
+      { status: 500 }
+    );
+  }
+}
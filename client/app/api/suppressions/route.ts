@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import SuppressionRuleModel, { type SuppressionScope } from '@/lib/models/SuppressionRule';
+import { suppressionRuleFilter } from '@/lib/suppression-rules';
+import { validateAuditTarget } from '@/lib/projects';
+import { AuditError } from '@/functions/auditInit';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface SuppressionRuleRequest {
+  scope: SuppressionScope;
+  projectId?: string;
+  matchType: 'fingerprint' | 'category-function';
+  fingerprint?: string;
+  category?: string;
+  function?: string;
+  reason: string;
+}
+
+/**
+ * GET /api/suppressions - List the user's suppression rules
+ *
+ * With `?projectId=`, only the rules that apply to audits in that project are returned
+ * (user-wide rules plus the project's own). Add `contractName=` to include rules created
+ * before projects existed, which match by contract name.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const projectId = request.nextUrl.searchParams.get('projectId') || undefined;
+    const contractName = request.nextUrl.searchParams.get('contractName') || undefined;
+
+    // 2. Connect to database
+    await connectDB();
+
+    // 3. Fetch rules
+    const rules = await SuppressionRuleModel.find(
+      projectId || contractName ? suppressionRuleFilter(userEmail, projectId, contractName) : { userEmail }
+    )
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: rules,
+    });
+  } catch (error) {
+    console.error('Error fetching suppression rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch suppression rules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/suppressions - Create a suppression rule
+ *
+ * Body: { scope, projectId?, matchType, fingerprint?, category?, function?, reason }.
+ * Project rules need the `projectId` of one of the user's projects; fingerprint rules need `fingerprint`; category-function
+ * rules need both `category` and `function`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+
+    // 2. Parse and validate request body
+    let body: SuppressionRuleRequest;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+    const reason = text(body?.reason);
+    const projectId = text(body?.projectId);
+
+    if (body?.scope !== 'user' && body?.scope !== 'project') {
+      return NextResponse.json(
+        { error: 'Scope must be "user" or "project"' },
+        { status: 400 }
+      );
+    }
+    if (body.scope === 'project' && !projectId) {
+      return NextResponse.json(
+        { error: 'Project rules require a projectId' },
+        { status: 400 }
+      );
+    }
+    if (!reason) {
+      return NextResponse.json(
+        { error: 'A reason is required' },
+        { status: 400 }
+      );
+    }
+
+    let match;
+    if (body.matchType === 'fingerprint' && text(body.fingerprint)) {
+      match = { matchType: 'fingerprint', fingerprint: text(body.fingerprint) };
+    } else if (body.matchType === 'category-function' && text(body.category) && text(body.function)) {
+      match = { matchType: 'category-function', category: text(body.category), function: text(body.function) };
+    } else {
+      return NextResponse.json(
+        { error: 'Rules must match a fingerprint, or a category and function' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Connect to database, check the project belongs to the user and save the rule
+    await connectDB();
+    if (body.scope === 'project') {
+      try {
+        await validateAuditTarget(userEmail, { projectId });
+      } catch (error) {
+        if (error instanceof AuditError) {
+          return NextResponse.json(
+            { error: error.message, code: error.code },
+            { status: 400 }
+          );
+        }
+        throw error;
+      }
+    }
+    const rule = await SuppressionRuleModel.create({
+      userEmail,
+      scope: body.scope,
+      projectId: body.scope === 'project' ? projectId : undefined,
+      ...match,
+      reason,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: rule.toObject(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating suppression rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create suppression rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { AuditError } from '@/functions/auditInit';
+import TeamModel from '@/lib/models/Team';
+import { AccessError, authorizeTeam, getAccessContext } from '@/lib/authorization';
+import { parseTeamMemberInput } from '@/lib/teams';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteParams = { params: Promise<{ id: string; email: string }> | { id: string; email: string } };
+
+/**
+ * Matches a team that keeps at least one admin besides the given member
+ */
+const otherAdmin = (email: string) => ({
+  members: { $elemMatch: { role: 'admin', email: { $ne: email } } },
+});
+
+/**
+ * PATCH /api/teams/[id]/members/[email] - Change a member's role (team admins only)
+ *
+ * Body: { role }. A team always keeps at least one admin.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const teamId = resolvedParams.id;
+    const memberEmail = decodeURIComponent(resolvedParams.email).toLowerCase();
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(teamId)) {
+      return NextResponse.json(
+        { error: 'Invalid team ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Parse and validate request body
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    // 4. Check the user is a team admin
+    let input;
+    try {
+      input = parseTeamMemberInput(body, true);
+      authorizeTeam(await getAccessContext(userEmail), teamId, 'admin');
+    } catch (error) {
+      if (error instanceof AccessError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.status }
+        );
+      }
+      if (error instanceof AuditError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    // 5. Update the role, keeping another admin when demoting one
+    const team = await TeamModel.findOneAndUpdate(
+      {
+        _id: teamId,
+        'members.email': memberEmail,
+        ...(input.role === 'admin' ? {} : otherAdmin(memberEmail)),
+      },
+      { $set: { 'members.$[member].role': input.role } },
+      { new: true, arrayFilters: [{ 'member.email': memberEmail }] }
+    ).lean();
+
+    if (!team) {
+      const isMember = await TeamModel.exists({ _id: teamId, 'members.email': memberEmail });
+      return NextResponse.json(
+        { error: isMember ? 'A team must keep at least one admin' : 'Team member not found' },
+        { status: isMember ? 409 : 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: team,
+    });
+  } catch (error) {
+    console.error('Error updating team member:', error);
+    return NextResponse.json(
+      { error: 'Failed to update team member' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/teams/[id]/members/[email] - Remove a member from a team
+ *
+ * Team admins can remove anyone; other members can only leave the team themselves.
+ * A team always keeps at least one admin.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const teamId = resolvedParams.id;
+    const memberEmail = decodeURIComponent(resolvedParams.email).toLowerCase();
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(teamId)) {
+      return NextResponse.json(
+        { error: 'Invalid team ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Check the user is a team admin or is leaving the team
+    try {
+      authorizeTeam(await getAccessContext(userEmail), teamId, memberEmail === userEmail.toLowerCase() ? 'viewer' : 'admin');
+    } catch (error) {
+      if (error instanceof AccessError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
+
+    // 4. Remove the member, keeping another admin
+    const team = await TeamModel.findOneAndUpdate(
+      { _id: teamId, 'members.email': memberEmail, ...otherAdmin(memberEmail) },
+      { $pull: { members: { email: memberEmail } } },
+      { new: true }
+    ).lean();
+
+    if (!team) {
+      const isMember = await TeamModel.exists({ _id: teamId, 'members.email': memberEmail });
+      return NextResponse.json(
+        { error: isMember ? 'A team must keep at least one admin' : 'Team member not found' },
+        { status: isMember ? 409 : 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: team,
+    });
+  } catch (error) {
+    console.error('Error removing team member:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove team member' },
+      { status: 500 }
+    );
+  }
+}
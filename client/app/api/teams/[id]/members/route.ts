@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { AuditError } from '@/functions/auditInit';
+import TeamModel from '@/lib/models/Team';
+import { AccessError, authorizeTeam, getAccessContext } from '@/lib/authorization';
+import { parseTeamMemberInput } from '@/lib/teams';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * POST /api/teams/[id]/members - Add a member to a team (team admins only)
+ *
+ * Body: { email, role? }. The role defaults to viewer.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const teamId = resolvedParams.id;
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(teamId)) {
+      return NextResponse.json(
+        { error: 'Invalid team ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Parse and validate request body
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    // 4. Check the user is a team admin
+    let input;
+    try {
+      input = parseTeamMemberInput(body, false);
+      authorizeTeam(await getAccessContext(userEmail), teamId, 'admin');
+    } catch (error) {
+      if (error instanceof AccessError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.status }
+        );
+      }
+      if (error instanceof AuditError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    // 5. Add the member unless already in the team
+    const team = await TeamModel.findOneAndUpdate(
+      { _id: teamId, 'members.email': { $ne: input.email } },
+      { $push: { members: { email: input.email, role: input.role, addedBy: userEmail } } },
+      { new: true }
+    ).lean();
+
+    if (!team) {
+      return NextResponse.json(
+        { error: 'This user is already a member of the team' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: team,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error adding team member:', error);
+    return NextResponse.json(
+      { error: 'Failed to add team member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { AuditError } from '@/functions/auditInit';
+import connectDB from '@/lib/mongodb';
+import TeamModel from '@/lib/models/Team';
+import AuditReportModel from '@/lib/models/AuditReport';
+import { AccessError, authorizeTeam, getAccessContext } from '@/lib/authorization';
+import { parseTeamName } from '@/lib/teams';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+/**
+ * GET /api/teams/[id] - Get a team with its members and the number of reports shared with it
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const teamId = resolvedParams.id;
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(teamId)) {
+      return NextResponse.json(
+        { error: 'Invalid team ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Check the user is a member
+    let role: string;
+    try {
+      role = authorizeTeam(await getAccessContext(userEmail), teamId, 'viewer');
+    } catch (error) {
+      if (error instanceof AccessError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
+
+    // 4. Fetch the team
+    const [team, sharedReports] = await Promise.all([
+      TeamModel.findById(teamId).lean(),
+      AuditReportModel.countDocuments({ sharedWithTeams: teamId }),
+    ]);
+
+    if (!team) {
+      return NextResponse.json(
+        { error: 'Team not found' },
+        { status: 404 }
+      );
+    }
+
+    // 5. Return team
+    return NextResponse.json({
+      success: true,
+      data: { ...team, role, sharedReports },
+    });
+  } catch (error) {
+    console.error('Error fetching team:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch team' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/teams/[id] - Rename a team (team admins only)
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const teamId = resolvedParams.id;
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(teamId)) {
+      return NextResponse.json(
+        { error: 'Invalid team ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Parse and validate request body
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    // 4. Check the user is a team admin
+    let name: string;
+    try {
+      name = parseTeamName(body);
+      authorizeTeam(await getAccessContext(userEmail), teamId, 'admin');
+    } catch (error) {
+      if (error instanceof AccessError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.status }
+        );
+      }
+      if (error instanceof AuditError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    // 5. Update the team
+    const team = await TeamModel.findByIdAndUpdate(teamId, { $set: { name } }, { new: true }).lean();
+
+    if (!team) {
+      return NextResponse.json(
+        { error: 'Team not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: team,
+    });
+  } catch (error) {
+    console.error('Error updating team:', error);
+    return NextResponse.json(
+      { error: 'Failed to update team' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/teams/[id] - Delete a team (team admins only)
+ *
+ * Reports shared with the team stop being shared with it.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const resolvedParams = await Promise.resolve(params);
+    const teamId = resolvedParams.id;
+
+    // 2. Validate MongoDB ObjectId format
+    if (!/^[0-9a-fA-F]{24}$/.test(teamId)) {
+      return NextResponse.json(
+        { error: 'Invalid team ID format' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Check the user is a team admin
+    try {
+      authorizeTeam(await getAccessContext(userEmail), teamId, 'admin');
+    } catch (error) {
+      if (error instanceof AccessError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
+
+    // 4. Delete the team and its shares
+    await connectDB();
+    await TeamModel.deleteOne({ _id: teamId });
+    await AuditReportModel.updateMany(
+      { sharedWithTeams: teamId },
+      { $pull: { sharedWithTeams: teamId } }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { id: teamId },
+    });
+  } catch (error) {
+    console.error('Error deleting team:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete team' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { AuditError } from '@/functions/auditInit';
+import connectDB from '@/lib/mongodb';
+import TeamModel from '@/lib/models/Team';
+import { parseTeamName } from '@/lib/teams';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/teams - List the teams the user is a member of
+ *
+ * Each team includes its members and the user's own role as `role`.
+ */
+export async function GET() {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+
+    // 2. Connect to database
+    await connectDB();
+
+    // 3. Fetch teams
+    const emails = Array.from(new Set([userEmail, userEmail.toLowerCase()]));
+    const teams = await TeamModel.find({ 'members.email': { $in: emails } }).sort({ name: 1 }).lean();
+
+    // 4. Return results
+    return NextResponse.json({
+      success: true,
+      data: teams.map((team: any) => ({
+        ...team,
+        role: team.members.find((member: any) => emails.includes(member.email))?.role,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching teams:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch teams' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/teams - Create a team
+ *
+ * Body: { name }. The creator becomes the team's first admin; members are added with
+ * POST /api/teams/[id]/members.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Validate session
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userEmail = session.user.email;
+
+    // 2. Parse and validate request body
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    let name: string;
+    try {
+      name = parseTeamName(body);
+    } catch (error) {
+      if (error instanceof AuditError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    // 3. Connect to database and create the team
+    await connectDB();
+    const team = await TeamModel.create({
+      name,
+      createdBy: userEmail,
+      members: [{ email: userEmail.toLowerCase(), role: 'admin', addedBy: userEmail }], // Members are stored lowercased
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...team.toObject(), role: 'admin' },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating team:', error);
+    return NextResponse.json(
+      { error: 'Failed to create team' },
+      { status: 500 }
+    );
+  }
+}
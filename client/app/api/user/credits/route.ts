@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import { logger } from '@/lib/logging';
+import { logger, type UserDailyUsage } from '@/lib/logging';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -54,22 +54,21 @@ function getDateRanges() {
 }
 
 /**
- * Filter logs by date range
+ * Sum audits and credits of the days from startDate (inclusive)
  */
-function filterLogsByDateRange(logs: any[], startDate: string, endDate?: string) {
-  const start = new Date(startDate).getTime();
-  const end = endDate ? new Date(endDate).getTime() + 24 * 60 * 60 * 1000 : Date.now();
-  
-  return logs.filter(log => {
-    const logDate = new Date(log.timestamp).getTime();
-    return logDate >= start && logDate <= end;
-  });
+function sumUsageSince(usage: UserDailyUsage[], startDate: string) {
+  return usage
+    .filter(day => day.date >= startDate)
+    .reduce(
+      (totals, day) => ({ audits: totals.audits + day.audits, credits: totals.credits + day.credits }),
+      { audits: 0, credits: 0 }
+    );
 }
 
 /**
  * Generate daily usage statistics
  */
-function generateDailyUsage(logs: any[], days: number = 30) {
+function generateDailyUsage(usage: UserDailyUsage[], days: number = 30) {
   const dailyMap = new Map<string, { audits: number; credits: number }>();
   
   // Initialize last N days
@@ -81,12 +80,9 @@ function generateDailyUsage(logs: any[], days: number = 30) {
   }
   
   // Populate with actual data
-  logs.forEach(log => {
-    const date = log.timestamp.split('T')[0];
-    if (dailyMap.has(date)) {
-      const existing = dailyMap.get(date)!;
-      existing.audits++;
-      existing.credits += log.creditsConsumed;
+  usage.forEach(day => {
+    if (dailyMap.has(day.date)) {
+      dailyMap.set(day.date, { audits: day.audits, credits: day.credits });
     }
   });
   
@@ -129,27 +125,22 @@ export async function GET(request: NextRequest) {
     threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
     const startDate = threeMonthsAgo.toISOString().split('T')[0];
 
-    const allUserLogs = await logger.getAuditLogs(startDate, undefined, userEmail);
+    // Counts and credits include days archived by log maintenance (read from rollups);
+    // success rate, durations and recent activity cover the days still in the live logs
+    const [usage, allUserLogs] = await Promise.all([
+      logger.getUserDailyUsage(userEmail, startDate, today),
+      logger.getAuditLogs(startDate, today, userEmail),
+    ]);
 
     // 5. Calculate statistics
-    const totalAudits = allUserLogs.length;
-    const totalCreditsConsumed = allUserLogs.reduce((sum, log) => sum + log.creditsConsumed, 0);
-    
-    const todayLogs = filterLogsByDateRange(allUserLogs, today);
-    const auditsToday = todayLogs.length;
-    const creditsToday = todayLogs.reduce((sum, log) => sum + log.creditsConsumed, 0);
-    
-    const weekLogs = filterLogsByDateRange(allUserLogs, weekStart);
-    const auditsThisWeek = weekLogs.length;
-    const creditsThisWeek = weekLogs.reduce((sum, log) => sum + log.creditsConsumed, 0);
-    
-    const monthLogs = filterLogsByDateRange(allUserLogs, monthStart);
-    const auditsThisMonth = monthLogs.length;
-    const creditsThisMonth = monthLogs.reduce((sum, log) => sum + log.creditsConsumed, 0);
+    const { audits: totalAudits, credits: totalCreditsConsumed } = sumUsageSince(usage, startDate);
+    const { audits: auditsToday, credits: creditsToday } = sumUsageSince(usage, today);
+    const { audits: auditsThisWeek, credits: creditsThisWeek } = sumUsageSince(usage, weekStart);
+    const { audits: auditsThisMonth, credits: creditsThisMonth } = sumUsageSince(usage, monthStart);
 
     // 6. Calculate performance metrics
     const successfulAudits = allUserLogs.filter(log => log.success);
-    const successRate = totalAudits > 0 ? (successfulAudits.length / totalAudits) * 100 : 0;
+    const successRate = allUserLogs.length > 0 ? (successfulAudits.length / allUserLogs.length) * 100 : 0;
     
     const auditDurations = successfulAudits
       .map(log => log.auditDuration)
@@ -171,11 +162,11 @@ export async function GET(request: NextRequest) {
       }));
 
     // 8. Generate daily usage for last 30 days
-    const dailyUsage = generateDailyUsage(allUserLogs, 30);
+    const dailyUsage = generateDailyUsage(usage, 30);
 
     // 9. Find last audit date
-    const lastAuditDate = allUserLogs.length > 0 
-      ? allUserLogs[allUserLogs.length - 1].timestamp 
+    const lastAuditDate = usage.length > 0 
+      ? usage[usage.length - 1].lastAudit 
       : undefined;
 
     // 10. Compile response
@@ -7,7 +7,15 @@ import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { CollaborativeLogo } from "@/components/collaborative-logo"
 import { generateAuditReportPDF } from "@/lib/pdf-generator"
-import type { AuditReport } from "@/functions/auditInit"
+import { SourceViewer } from "@/components/source-viewer"
+import { AuditComparisonView } from "@/components/audit-comparison"
+import { FindingTriageControls } from "@/components/finding-triage"
+import { ReportSharing } from "@/components/report-sharing"
+import { TeamManager } from "@/components/team-manager"
+import { ProjectBrowser } from "@/components/project-browser"
+import { calculateRiskScore, isDismissed, type AuditReport, type FindingSuppression, type FindingTriage } from "@/functions/auditInit"
+import type { AuditedSource } from "@/lib/source-storage"
+import type { AuditComparison } from "@/functions/auditComparison"
 import { 
   FileText, 
   Download, 
@@ -22,6 +30,7 @@ import {
 
 interface AuditHistoryItem {
   _id: string;
+  userEmail?: string; // Owner; differs from the session user for shared reports
   contractName: string;
   language: string;
   summary: string;
@@ -34,6 +43,18 @@ interface AuditHistoryItem {
     function?: string;
     lines?: number[];
     category?: string;
+    source?: 'ai' | 'static-analysis';
+    file?: string;
+    fingerprint?: string;
+    triage?: FindingTriage;
+  }>;
+  suppressedVulnerabilities?: Array<{
+    id: string;
+    title: string;
+    severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+    function?: string;
+    file?: string;
+    suppression?: FindingSuppression;
   }>;
   linesOfCode?: number;
   auditedAt: string;
@@ -44,6 +65,8 @@ interface AuditHistoryItem {
   originalAuditId?: string;
   auditEngineVersion?: string;
   rawResponse?: unknown;
+  sourceHash?: string;
+  sourceSize?: number;
 }
 
 export default function HistoryPage() {
@@ -66,6 +89,15 @@ export default function HistoryPage() {
   const [originalAuditData, setOriginalAuditData] = useState<AuditHistoryItem | null>(null)
   const [viewingOriginal, setViewingOriginal] = useState(true) // Toggle between original and re-audits
   const [currentReAuditIndex, setCurrentReAuditIndex] = useState(0) // Which re-audit we're viewing
+  const [showSource, setShowSource] = useState(false)
+  const [sourceCache, setSourceCache] = useState<Record<string, AuditedSource | null>>({}) // null: no source stored
+  const [loadingSource, setLoadingSource] = useState(false)
+  const [comparison, setComparison] = useState<{ reportId: string; data: AuditComparison } | null>(null)
+  const [loadingComparison, setLoadingComparison] = useState(false)
+  const [comparisonError, setComparisonError] = useState<string | null>(null)
+  const [viewMode, setViewMode] = useState<"all" | "projects" | "teams">("all") // Flat list, project → contract → timeline, or team management
+  const [reportRole, setReportRole] = useState<string>("owner") // The user's role on the open report (see lib/authorization.ts)
+  const [excludeDismissed, setExcludeDismissed] = useState(false) // Hide dismissed findings and leave them out of the score and PDF
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -74,6 +106,24 @@ export default function HistoryPage() {
     }
   }, [status, router])
 
+  // Load the source of the report being viewed (re-audit lists do not include it)
+  useEffect(() => {
+    const reportId = selectedReport?._id
+    if (!showSource || !reportId || reportId in sourceCache) return
+
+    setLoadingSource(true)
+    fetch(`/api/audit/${reportId}`)
+      .then((response) => response.json())
+      .then((result) => {
+        setSourceCache((cache) => ({ ...cache, [reportId]: result.success ? result.data.source || null : null }))
+      })
+      .catch((err) => {
+        console.error("Error fetching audit source:", err)
+        setSourceCache((cache) => ({ ...cache, [reportId]: null }))
+      })
+      .finally(() => setLoadingSource(false))
+  }, [showSource, selectedReport?._id, sourceCache])
+
   // Fetch audit history
   useEffect(() => {
     if (status === "authenticated") {
@@ -126,6 +176,8 @@ export default function HistoryPage() {
 
       if (reportResult.success && reportResult.data) {
         const reportData = reportResult.data
+        setSourceCache((cache) => ({ ...cache, [reportId]: reportData.source || null }))
+        setReportRole(reportResult.metadata?.role || "owner")
         
         // Determine if we're viewing an original audit or a re-audit
         const isViewingReAudit = reportData.isReAudit
@@ -224,13 +276,52 @@ export default function HistoryPage() {
     }
   }
 
+  // Compare the re-audit being viewed with the original audit
+  const toggleComparison = async (reportId: string) => {
+    if (comparison?.reportId === reportId) {
+      setComparison(null)
+      return
+    }
+
+    setLoadingComparison(true)
+    setComparisonError(null)
+    try {
+      const response = await fetch(`/api/audit/${reportId}/compare`)
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to compare audits')
+      }
+      setComparison({ reportId, data: result.data })
+    } catch (err: any) {
+      console.error("Error comparing audits:", err)
+      setComparisonError(err.message || "Failed to compare audits")
+    } finally {
+      setLoadingComparison(false)
+    }
+  }
+
+  // Apply a saved triage decision to every copy of the report held in state
+  const applyTriage = (reportId: string, vulnId: string, triage: FindingTriage) => {
+    const withTriage = <T extends { id: string; triage?: FindingTriage }>(vulnerabilities: T[]): T[] =>
+      vulnerabilities.map((vuln) => (vuln.id === vulnId ? { ...vuln, triage } : vuln))
+    const updateItem = (item: AuditHistoryItem): AuditHistoryItem =>
+      item._id === reportId ? { ...item, vulnerabilities: withTriage(item.vulnerabilities) } : item
+
+    if (selectedReport?._id === reportId) {
+      setSelectedReport(updateItem(selectedReport))
+      setReportDetails((details) => details && { ...details, vulnerabilities: withTriage(details.vulnerabilities) })
+    }
+    setOriginalAuditData((original) => original && updateItem(original))
+    setReAuditData((reAudits) => reAudits.map(updateItem))
+  }
+
   const handleDownloadPDF = async () => {
     if (!reportDetails) return
     
     setDownloadingPDF(true)
     try {
       await new Promise(resolve => setTimeout(resolve, 500))
-      generateAuditReportPDF(reportDetails, session?.user?.email || undefined)
+      generateAuditReportPDF(reportDetails, session?.user?.email || undefined, { excludeDismissed })
     } catch (error) {
       console.error('Failed to generate PDF:', error)
       setError('Failed to generate PDF report. Please try again.')
@@ -325,6 +416,14 @@ export default function HistoryPage() {
     return vulnerabilities.filter(v => v.severity === severity).length
   }
 
+  // Number of listed audits per source hash, to flag identical resubmissions
+  const sourceHashCounts = reports.reduce<Record<string, number>>((counts, report) => {
+    if (report.sourceHash) {
+      counts[report.sourceHash] = (counts[report.sourceHash] || 0) + 1
+    }
+    return counts
+  }, {})
+
   if (status === "loading") {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -400,7 +499,20 @@ export default function HistoryPage() {
           </p>
         </div>
 
+        <div className="mb-4 flex items-center gap-2">
+          <Button onClick={() => setViewMode("all")} variant={viewMode === "all" ? "default" : "outline"} size="sm">
+            All Audits
+          </Button>
+          <Button onClick={() => setViewMode("projects")} variant={viewMode === "projects" ? "default" : "outline"} size="sm">
+            By Project
+          </Button>
+          <Button onClick={() => setViewMode("teams")} variant={viewMode === "teams" ? "default" : "outline"} size="sm">
+            Teams
+          </Button>
+        </div>
+
         {/* Search Bar */}
+        {viewMode === "all" && (
         <div className="mb-6">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-5 w-5" />
@@ -425,6 +537,7 @@ export default function HistoryPage() {
             </Button>
           </div>
         </div>
+        )}
 
         {error && (
           <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-600">
@@ -432,7 +545,11 @@ export default function HistoryPage() {
           </div>
         )}
 
-        {loading ? (
+        {viewMode === "projects" ? (
+          <ProjectBrowser onOpenReport={fetchReportDetails} />
+        ) : viewMode === "teams" ? (
+          <TeamManager userEmail={session?.user?.email || ""} />
+        ) : loading ? (
           <div className="flex items-center justify-center py-12">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
             <span className="ml-3 text-muted-foreground">Loading audit history...</span>
@@ -477,6 +594,19 @@ export default function HistoryPage() {
                           Risk: {report.riskScore.toFixed(1)}
                         </span>
                       )}
+                      {report.userEmail && report.userEmail !== session?.user?.email && (
+                        <span className="px-2 py-1 text-xs font-medium rounded border border-border text-muted-foreground">
+                          Shared by {report.userEmail}
+                        </span>
+                      )}
+                      {report.sourceHash && sourceHashCounts[report.sourceHash] > 1 && (
+                        <span
+                          className="px-2 py-1 text-xs font-medium rounded border border-border text-muted-foreground"
+                          title={`SHA-256 ${report.sourceHash}`}
+                        >
+                          Identical source audited {sourceHashCounts[report.sourceHash]} times
+                        </span>
+                      )}
                     </div>
                     
                     <p className="text-sm text-muted-foreground mb-4 line-clamp-2">
@@ -563,7 +693,7 @@ export default function HistoryPage() {
                 </div>
                 <div className="flex items-center gap-2">
                   {/* Always show submit button for original audits, regardless of re-audits */}
-                  {originalAuditData && viewingOriginal && (
+                  {originalAuditData && viewingOriginal && reportRole !== 'viewer' && (
                     <Button
                       onClick={() => setShowReAuditForm(!showReAuditForm)}
                       variant="outline"
@@ -602,6 +732,9 @@ export default function HistoryPage() {
                       setOriginalAuditData(null)
                       setViewingOriginal(true)
                       setCurrentReAuditIndex(0)
+                      setShowSource(false)
+                      setComparison(null)
+                      setComparisonError(null)
                     }}
                     variant="ghost"
                     size="sm"
@@ -676,6 +809,36 @@ export default function HistoryPage() {
                   </div>
                 )}
 
+                {/* Comparison with the original audit - Show when viewing a re-audit */}
+                {!viewingOriginal && selectedReport.isReAudit && (
+                  <div className="mb-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-semibold text-foreground">Changes Since Original Audit</h3>
+                      <Button
+                        onClick={() => toggleComparison(selectedReport._id)}
+                        disabled={loadingComparison}
+                        variant="outline"
+                        size="sm"
+                      >
+                        {loadingComparison ? (
+                          <>
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            Comparing...
+                          </>
+                        ) : comparison?.reportId === selectedReport._id ? 'Hide Comparison' : 'Compare with Original'}
+                      </Button>
+                    </div>
+                    {comparisonError && (
+                      <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-600 text-sm">
+                        {comparisonError}
+                      </div>
+                    )}
+                    {comparison?.reportId === selectedReport._id && (
+                      <AuditComparisonView comparison={comparison.data} />
+                    )}
+                  </div>
+                )}
+
                 {/* Re-Audit Form - Show when viewing original audit */}
                 {showReAuditForm && viewingOriginal && originalAuditData && (
                   <div className="mb-6 p-4 bg-muted/20 border border-border rounded-lg">
@@ -743,14 +906,61 @@ export default function HistoryPage() {
                       }`}>
                         {selectedReport.riskScore.toFixed(1)}/100
                       </span>
+                      {reportDetails.vulnerabilities.some(isDismissed) && (
+                        <span className="ml-3 text-sm text-muted-foreground">
+                          Excluding dismissed findings: {calculateRiskScore(reportDetails, { excludeDismissed: true }).toFixed(1)}/100
+                        </span>
+                      )}
                     </div>
                   )}
                 </div>
 
                 <div className="mb-6">
-                  <h3 className="text-lg font-semibold text-foreground mb-4">Vulnerabilities</h3>
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-foreground">Source Code</h3>
+                    <Button
+                      onClick={() => setShowSource(!showSource)}
+                      variant="outline"
+                      size="sm"
+                    >
+                      <Code className="h-4 w-4 mr-2" />
+                      {showSource ? 'Hide Source' : 'Show Source'}
+                    </Button>
+                  </div>
+                  {showSource && (
+                    loadingSource && !(selectedReport._id in sourceCache) ? (
+                      <div className="flex items-center text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Loading source...
+                      </div>
+                    ) : sourceCache[selectedReport._id] ? (
+                      <SourceViewer
+                        key={selectedReport._id}
+                        source={sourceCache[selectedReport._id]!}
+                        vulnerabilities={reportDetails.vulnerabilities}
+                      />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        The source was not stored for this audit.
+                      </p>
+                    )
+                  )}
+                </div>
+
+                <div className="mb-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-foreground">Vulnerabilities</h3>
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <input
+                        type="checkbox"
+                        checked={excludeDismissed}
+                        onChange={(e) => setExcludeDismissed(e.target.checked)}
+                      />
+                      Hide dismissed findings (also in PDF)
+                    </label>
+                  </div>
                   <div className="space-y-4">
-                    {reportDetails.vulnerabilities.map((vuln, index) => (
+                    {reportDetails.vulnerabilities.filter((vuln) => !excludeDismissed || !isDismissed(vuln)).map((vuln, index) => (
                       <div
                         key={vuln.id}
                         className="border border-border rounded-lg p-4"
@@ -759,19 +969,68 @@ export default function HistoryPage() {
                           <h4 className="font-semibold text-foreground">
                             {index + 1}. {vuln.title}
                           </h4>
-                          <span className={`px-2 py-1 text-xs font-medium rounded border ${getSeverityColor(vuln.severity)}`}>
-                            {vuln.severity}
-                          </span>
+                          <div className="flex items-center gap-2">
+                            {vuln.source === 'static-analysis' && (
+                              <span className="px-2 py-1 text-xs font-medium rounded border border-border text-muted-foreground">
+                                Static analysis
+                              </span>
+                            )}
+                            <span className={`px-2 py-1 text-xs font-medium rounded border ${getSeverityColor(vuln.severity)}`}>
+                              {vuln.severity}
+                            </span>
+                          </div>
                         </div>
                         <p className="text-sm text-muted-foreground mb-2">{vuln.description}</p>
                         <div className="mt-2 p-2 bg-primary/5 rounded border-l-2 border-primary">
                           <p className="text-xs font-medium text-foreground mb-1">Recommendation:</p>
                           <p className="text-sm text-muted-foreground">{vuln.recommendation}</p>
                         </div>
+                        <FindingTriageControls
+                          key={`${selectedReport._id}-${vuln.id}`}
+                          reportId={selectedReport._id}
+                          vulnId={vuln.id}
+                          triage={vuln.triage}
+                          readOnly={reportRole === 'viewer'}
+                          onUpdated={(triage) => applyTriage(selectedReport._id, vuln.id, triage)}
+                        />
                       </div>
                     ))}
                   </div>
                 </div>
+
+                {selectedReport.suppressedVulnerabilities && selectedReport.suppressedVulnerabilities.length > 0 && (
+                  <div className="mb-6">
+                    <h3 className="text-lg font-semibold text-foreground mb-2">
+                      Suppressed Findings ({selectedReport.suppressedVulnerabilities.length})
+                    </h3>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Matched by a suppression rule or an audit-ignore comment; not counted in the risk score.
+                    </p>
+                    <div className="space-y-2">
+                      {selectedReport.suppressedVulnerabilities.map((vuln) => (
+                        <div key={vuln.id} className="border border-border rounded-lg p-3 flex items-start justify-between gap-3">
+                          <div>
+                            <p className="text-sm font-medium text-foreground">{vuln.title}</p>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {vuln.file && `${vuln.file} · `}
+                              {vuln.function && `${vuln.function} · `}
+                              {vuln.suppression?.matchedBy === 'source-comment' ? 'audit-ignore comment' : 'Suppression rule'}
+                              {vuln.suppression?.reason && `: ${vuln.suppression.reason}`}
+                            </p>
+                          </div>
+                          <span className={`px-2 py-1 text-xs font-medium rounded border ${getSeverityColor(vuln.severity)}`}>
+                            {vuln.severity}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="mb-6">
+                  <h3 className="text-lg font-semibold text-foreground mb-2">Sharing</h3>
+                  <ReportSharing key={selectedReport._id} reportId={selectedReport._id} />
+                </div>
               </div>
             </div>
           </div>
@@ -84,13 +84,15 @@ function LandingPageContent() {
                     History
                   </button>
                 </Link>
-                <Link href="/analytics">
-                  <button
-                    className="px-4 py-2 rounded-lg font-medium transition-colors text-muted-foreground hover:text-foreground hover:bg-accent"
-                  >
-                    Analytics
-                  </button>
-                </Link>
+                {session.user?.role === "admin" && (
+                  <Link href="/analytics">
+                    <button
+                      className="px-4 py-2 rounded-lg font-medium transition-colors text-muted-foreground hover:text-foreground hover:bg-accent"
+                    >
+                      Analytics
+                    </button>
+                  </Link>
+                )}
               </nav>
             </div>
 
@@ -139,13 +141,15 @@ function LandingPageContent() {
                 History
               </button>
             </Link>
-            <Link href="/analytics" className="flex-1">
-              <button
-                className="w-full px-4 py-2 rounded-lg font-medium transition-colors text-muted-foreground hover:text-foreground hover:bg-accent"
-              >
-                Analytics
-              </button>
-            </Link>
+            {session.user?.role === "admin" && (
+              <Link href="/analytics" className="flex-1">
+                <button
+                  className="w-full px-4 py-2 rounded-lg font-medium transition-colors text-muted-foreground hover:text-foreground hover:bg-accent"
+                >
+                  Analytics
+                </button>
+              </Link>
+            )}
           </div>
         </div>
       </header>
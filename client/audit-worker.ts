@@ -0,0 +1,43 @@
+// Audit queue worker: runs queued audit jobs outside request handlers
+// Run with: npx tsx audit-worker.ts [--once]
+// Without --once it polls the queue until stopped (Ctrl+C waits for running jobs to finish)
+
+import dotenv from 'dotenv';
+
+// Load environment variables from .env.local and .env files
+dotenv.config({ path: '.env.local' });
+dotenv.config({ path: '.env' });
+
+const POLL_INTERVAL_MS = 5000;
+
+let stopping = false;
+process.on('SIGINT', () => { stopping = true; });
+process.on('SIGTERM', () => { stopping = true; });
+
+async function runWorker() {
+  // Imported after the environment is loaded (lib/mongodb reads MONGODB_URI on import)
+  const { runAuditWorker } = await import('./lib/audit-queue');
+  const { default: mongoose } = await import('mongoose');
+  const once = process.argv.includes('--once');
+
+  try {
+    console.log(`Audit worker started${once ? ' (single pass)' : ''}`);
+    do {
+      const { jobsRun } = await runAuditWorker();
+      if (jobsRun > 0) {
+        console.log(`Ran ${jobsRun} audit job(s)`);
+      }
+      if (!once && !stopping) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+    } while (!once && !stopping);
+  } catch (error) {
+    console.error('Audit worker failed:', error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+// Run the worker
+runWorker();
@@ -0,0 +1,147 @@
+"use client"
+
+import type { Vulnerability } from "@/functions/auditInit"
+import type { AuditComparison, FindingChangeStatus, FindingComparison } from "@/functions/auditComparison"
+import type { DiffLine } from "@/functions/sourceDiff"
+
+interface AuditComparisonViewProps {
+  comparison: AuditComparison
+}
+
+const STATUS_LABELS: Record<FindingChangeStatus, string> = {
+  "resolved": "Resolved",
+  "still-present": "Still present",
+  "introduced": "Newly introduced",
+  "severity-changed": "Severity changed",
+}
+
+const STATUS_COLORS: Record<FindingChangeStatus, string> = {
+  "resolved": "bg-green-500/10 text-green-600 border-green-500/20",
+  "still-present": "bg-yellow-500/10 text-yellow-600 border-yellow-500/20",
+  "introduced": "bg-red-500/10 text-red-600 border-red-500/20",
+  "severity-changed": "bg-orange-500/10 text-orange-600 border-orange-500/20",
+}
+
+const LINE_STYLES: Record<DiffLine["type"], string> = {
+  context: "",
+  removed: "bg-red-500/10",
+  added: "bg-green-500/10",
+}
+
+const STATUS_ORDER: FindingChangeStatus[] = ["introduced", "severity-changed", "still-present", "resolved"]
+
+/**
+ * Finding shown for a comparison entry: the improved version when it still exists
+ */
+function displayedFinding(entry: FindingComparison): Vulnerability {
+  return (entry.improved || entry.original)!
+}
+
+/**
+ * Comparison entries whose findings point at a diff line
+ */
+function findingsOnLine(findings: FindingComparison[], line: DiffLine): FindingComparison[] {
+  return findings.filter((entry) =>
+    (line.originalLine !== undefined && line.type !== "added" && entry.original?.lines?.includes(line.originalLine) && !entry.improved) ||
+    (line.improvedLine !== undefined && line.type !== "removed" && entry.improved?.lines?.includes(line.improvedLine))
+  )
+}
+
+/**
+ * Finding-by-finding comparison of an audit with a re-audit, with the source diff and
+ * the findings anchored to the changed lines
+ */
+export function AuditComparisonView({ comparison }: AuditComparisonViewProps) {
+  const { findings, summary, diff } = comparison
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        {STATUS_ORDER.map((status) => (
+          <span key={status} className={`px-2 py-1 text-xs font-medium rounded border ${STATUS_COLORS[status]}`}>
+            {summary[status]} {STATUS_LABELS[status]}
+          </span>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {STATUS_ORDER.flatMap((status) => findings.filter((entry) => entry.status === status)).map((entry, index) => {
+          const finding = displayedFinding(entry)
+          return (
+            <div key={`${entry.status}-${finding.id}-${index}`} className="border border-border rounded-lg p-3 flex items-start justify-between gap-3">
+              <div>
+                <p className="text-sm font-medium text-foreground">{finding.title}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {entry.status === "severity-changed"
+                    ? `${entry.original!.severity} → ${entry.improved!.severity}`
+                    : finding.severity}
+                  {finding.function && ` · ${finding.function}`}
+                  {finding.lines && finding.lines.length > 0 && ` · line ${finding.lines.join(", ")}`}
+                  {entry.hunk !== undefined && (
+                    <>
+                      {" · "}
+                      <a href={`#diff-hunk-${entry.hunk}`} className="text-primary hover:underline">
+                        change {entry.hunk + 1}
+                      </a>
+                    </>
+                  )}
+                </p>
+              </div>
+              <span className={`px-2 py-1 text-xs font-medium rounded border whitespace-nowrap ${STATUS_COLORS[entry.status]}`}>
+                {STATUS_LABELS[entry.status]}
+              </span>
+            </div>
+          )
+        })}
+      </div>
+
+      {diff ? (
+        diff.length === 0 ? (
+          <p className="text-sm text-muted-foreground">The two sources are identical.</p>
+        ) : (
+          <div className="space-y-4">
+            {diff.map((hunk, hunkIndex) => (
+              <div key={hunkIndex} id={`diff-hunk-${hunkIndex}`} className="border border-border rounded-lg overflow-hidden">
+                <div className="px-3 py-1 text-xs font-mono text-muted-foreground bg-muted/20 border-b border-border">
+                  @@ -{hunk.originalStart},{hunk.originalLines} +{hunk.improvedStart},{hunk.improvedLines} @@
+                </div>
+                <pre className="text-xs font-mono leading-5 overflow-x-auto">
+                  {hunk.lines.map((line, lineIndex) => {
+                    const anchored = findingsOnLine(findings, line)
+                    return (
+                      <div key={lineIndex} className={`flex ${LINE_STYLES[line.type]}`}>
+                        <span className="select-none w-10 shrink-0 pr-2 text-right text-muted-foreground">{line.originalLine ?? ""}</span>
+                        <span className="select-none w-10 shrink-0 pr-2 text-right text-muted-foreground">{line.improvedLine ?? ""}</span>
+                        <span className="select-none w-4 shrink-0 text-muted-foreground">
+                          {line.type === "added" ? "+" : line.type === "removed" ? "-" : " "}
+                        </span>
+                        <code className="pr-4 text-foreground whitespace-pre flex-1">{line.text || " "}</code>
+                        {anchored.length > 0 && (
+                          <span className="pr-2 flex gap-1">
+                            {anchored.map((entry, entryIndex) => (
+                              <span
+                                key={entryIndex}
+                                className={`px-1 rounded border ${STATUS_COLORS[entry.status]}`}
+                                title={`${STATUS_LABELS[entry.status]}: ${displayedFinding(entry).title}`}
+                              >
+                                {displayedFinding(entry).severity}
+                              </span>
+                            ))}
+                          </span>
+                        )}
+                      </div>
+                    )
+                  })}
+                </pre>
+              </div>
+            ))}
+          </div>
+        )
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          A source diff is not available because the source was not stored for one of these audits.
+        </p>
+      )}
+    </div>
+  )
+}
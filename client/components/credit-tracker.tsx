@@ -168,6 +168,8 @@ interface CreditConsumedFeedbackProps {
   creditsConsumed: number;
   auditDuration?: number;
   vulnerabilitiesFound?: number;
+  /** Set when the result was served from the audit cache */
+  cachedAt?: string;
   onClose?: () => void;
   className?: string;
 }
@@ -176,6 +178,7 @@ export function CreditConsumedFeedback({
   creditsConsumed, 
   auditDuration, 
   vulnerabilitiesFound,
+  cachedAt,
   onClose,
   className = '' 
 }: CreditConsumedFeedbackProps) {
@@ -205,6 +208,9 @@ export function CreditConsumedFeedback({
             <h4 className="text-sm font-medium text-green-400">Audit Complete!</h4>
             <div className="text-sm text-green-300 space-y-1">
               <p>✓ {creditsConsumed} credit{creditsConsumed !== 1 ? 's' : ''} consumed</p>
+              {cachedAt && (
+                <p>✓ Cached result from {new Date(cachedAt).toLocaleString()}</p>
+              )}
               {auditDuration && (
                 <p>✓ Completed in {(auditDuration / 1000).toFixed(1)}s</p>
               )}
@@ -0,0 +1,149 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { FindingTriage, TriageStatus } from "@/functions/auditInit"
+
+interface FindingTriageControlsProps {
+  reportId: string
+  vulnId: string
+  triage?: FindingTriage
+  /** Shows the decision without the form, e.g. for viewers of a shared report */
+  readOnly?: boolean
+  /** Called with the stored triage after a successful update */
+  onUpdated: (triage: FindingTriage) => void
+}
+
+export const TRIAGE_LABELS: Record<TriageStatus, string> = {
+  "open": "Open",
+  "confirmed": "Confirmed",
+  "false-positive": "False positive",
+  "accepted-risk": "Accepted risk",
+  "fixed": "Fixed",
+}
+
+export const TRIAGE_COLORS: Record<TriageStatus, string> = {
+  "open": "bg-muted/20 text-muted-foreground border-border",
+  "confirmed": "bg-red-500/10 text-red-600 border-red-500/20",
+  "false-positive": "bg-gray-500/10 text-gray-600 border-gray-500/20",
+  "accepted-risk": "bg-yellow-500/10 text-yellow-600 border-yellow-500/20",
+  "fixed": "bg-green-500/10 text-green-600 border-green-500/20",
+}
+
+/**
+ * Current triage decision of a finding and a form to change it (status plus a required justification)
+ */
+export function FindingTriageControls({ reportId, vulnId, triage, readOnly, onUpdated }: FindingTriageControlsProps) {
+  const [editing, setEditing] = useState(false)
+  const [status, setStatus] = useState<TriageStatus>(triage?.status || "open")
+  const [justification, setJustification] = useState("")
+  const [suppress, setSuppress] = useState<"" | "project" | "user">("") // Suppression rule to create with the decision
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const currentStatus = triage?.status || "open"
+  const suppressible = status === "false-positive" || status === "accepted-risk"
+
+  const save = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/audit/${reportId}/vulnerabilities/${encodeURIComponent(vulnId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, justification, suppress: suppressible && suppress ? suppress : undefined }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update finding")
+      }
+      onUpdated(result.data.triage)
+      setEditing(false)
+      setJustification("")
+      setSuppress("")
+    } catch (err: any) {
+      console.error("Error updating finding triage:", err)
+      setError(err.message || "Failed to update finding")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-xs text-muted-foreground">
+          <span className={`px-2 py-1 font-medium rounded border ${TRIAGE_COLORS[currentStatus]}`}>
+            {TRIAGE_LABELS[currentStatus]}
+          </span>
+          {triage && (
+            <span className="ml-2">
+              by {triage.reviewedBy} on {new Date(triage.reviewedAt).toLocaleString()}
+            </span>
+          )}
+        </div>
+        {!editing && !readOnly && (
+          <Button onClick={() => setEditing(true)} variant="outline" size="sm">
+            Triage
+          </Button>
+        )}
+      </div>
+      {triage?.justification && (
+        <p className="text-xs text-muted-foreground mt-2 italic">{triage.justification}</p>
+      )}
+
+      {editing && (
+        <div className="mt-3 space-y-2">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as TriageStatus)}
+            className="w-full p-2 border border-border rounded-lg bg-card text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {(Object.keys(TRIAGE_LABELS) as TriageStatus[]).map((value) => (
+              <option key={value} value={value}>{TRIAGE_LABELS[value]}</option>
+            ))}
+          </select>
+          <textarea
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            placeholder="Justification (required)"
+            className="w-full h-20 p-2 border border-border rounded-lg bg-card text-foreground text-sm resize-none focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          {suppressible && (
+            <select
+              value={suppress}
+              onChange={(e) => setSuppress(e.target.value as typeof suppress)}
+              className="w-full p-2 border border-border rounded-lg bg-card text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="">Report again in future audits</option>
+              <option value="project">Suppress in future audits of this contract</option>
+              <option value="user">Suppress in all my future audits</option>
+            </select>
+          )}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex items-center gap-2">
+            <Button onClick={save} disabled={saving || !justification.trim()} size="sm">
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Save
+            </Button>
+            <Button
+              onClick={() => {
+                setEditing(false)
+                setStatus(currentStatus)
+                setJustification("")
+                setSuppress("")
+                setError(null)
+              }}
+              variant="outline"
+              size="sm"
+              disabled={saving}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,274 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ChevronRight, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+interface ProjectSummary {
+  _id: string
+  name: string
+  description?: string
+  repoUrl?: string
+  chain?: string
+  isDefault: boolean
+  contracts: Array<{ _id: string; name: string }>
+  auditCount: number
+  lastAuditedAt?: string
+}
+
+interface ProjectContract {
+  _id: string
+  name: string
+  deployedAddresses: string[]
+  auditCount: number
+  latestAudit?: { reportId: string; auditedAt: string; riskScore?: number }
+}
+
+type ProjectDetails = Omit<ProjectSummary, "contracts"> & { contracts: ProjectContract[] }
+
+interface TimelineEntry {
+  reportId: string
+  auditedAt: string
+  version: number
+  sourceHash?: string
+  riskScore?: number
+  vulnerabilitiesFound: number
+  isReAudit: boolean
+}
+
+interface ProjectBrowserProps {
+  /** Opens an audit report (the history detail view) */
+  onOpenReport: (reportId: string) => void
+}
+
+const riskColor = (riskScore: number) =>
+  riskScore >= 75 ? "text-red-600" :
+  riskScore >= 50 ? "text-orange-600" :
+  riskScore >= 25 ? "text-yellow-600" : "text-green-600"
+
+/**
+ * Loads JSON from an API route, throwing the route's error message on failure
+ */
+async function fetchData<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init)
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || "Request failed")
+  }
+  return result.data
+}
+
+/**
+ * Browses audits by project → contract → version timeline, and creates projects
+ */
+export function ProjectBrowser({ onOpenReport }: ProjectBrowserProps) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([])
+  const [project, setProject] = useState<ProjectDetails | null>(null)
+  const [contract, setContract] = useState<ProjectContract | null>(null)
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [newProject, setNewProject] = useState({ name: "", repoUrl: "", chain: "" })
+  const [creating, setCreating] = useState(false)
+
+  const load = async <T,>(url: string, apply: (data: T) => void) => {
+    setLoading(true)
+    setError(null)
+    try {
+      apply(await fetchData<T>(url))
+    } catch (err: any) {
+      console.error("Error loading projects:", err)
+      setError(err.message || "Failed to load projects")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load<ProjectSummary[]>("/api/projects", setProjects)
+  }, [])
+
+  const openProject = (projectId: string) => {
+    setContract(null)
+    load<ProjectDetails>(`/api/projects/${projectId}`, setProject)
+  }
+
+  const openContract = (selected: ProjectContract) => {
+    if (!project) return
+    load<{ timeline: TimelineEntry[] }>(`/api/projects/${project._id}/contracts/${selected._id}`, (data) => {
+      setContract(selected)
+      setTimeline([...data.timeline].reverse()) // Newest first
+    })
+  }
+
+  const createProject = async () => {
+    setCreating(true)
+    setError(null)
+    try {
+      const created = await fetchData<ProjectSummary>("/api/projects", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(newProject),
+      })
+      setProjects((current) => [...current, { ...created, auditCount: 0 }])
+      setNewProject({ name: "", repoUrl: "", chain: "" })
+    } catch (err: any) {
+      console.error("Error creating project:", err)
+      setError(err.message || "Failed to create project")
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm">
+        <button className="text-primary hover:underline" onClick={() => { setProject(null); setContract(null) }}>
+          Projects
+        </button>
+        {project && (
+          <>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+            <button className="text-primary hover:underline" onClick={() => setContract(null)}>
+              {project.name}
+            </button>
+          </>
+        )}
+        {contract && (
+          <>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+            <span className="text-foreground">{contract.name}</span>
+          </>
+        )}
+        {loading && <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-600 text-sm">
+          {error}
+        </div>
+      )}
+
+      {!project && (
+        <>
+          <div className="grid gap-3">
+            {projects.map((item) => (
+              <div
+                key={item._id}
+                className="bg-card border border-border rounded-lg p-4 hover:shadow-md transition-shadow cursor-pointer flex items-center justify-between"
+                onClick={() => openProject(item._id)}
+              >
+                <div>
+                  <h3 className="font-semibold text-foreground">{item.name}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {item.contracts.length} contract(s) · {item.auditCount} audit(s)
+                    {item.chain && ` · ${item.chain}`}
+                    {item.lastAuditedAt && ` · last audited ${new Date(item.lastAuditedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <ChevronRight className="h-5 w-5 text-muted-foreground" />
+              </div>
+            ))}
+            {!loading && projects.length === 0 && (
+              <p className="text-sm text-muted-foreground">No projects yet. Audits are added to a default project until you create one.</p>
+            )}
+          </div>
+
+          <div className="p-4 bg-muted/20 border border-border rounded-lg space-y-2">
+            <h3 className="text-sm font-semibold text-foreground">New Project</h3>
+            <div className="grid gap-2 sm:grid-cols-3">
+              {(["name", "repoUrl", "chain"] as const).map((field) => (
+                <input
+                  key={field}
+                  type="text"
+                  value={newProject[field]}
+                  onChange={(e) => setNewProject({ ...newProject, [field]: e.target.value })}
+                  placeholder={field === "name" ? "Name" : field === "repoUrl" ? "Repository URL (optional)" : "Chain (optional)"}
+                  className="p-2 border border-border rounded-lg bg-card text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              ))}
+            </div>
+            <Button onClick={createProject} disabled={creating || !newProject.name.trim()} size="sm">
+              {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Create Project
+            </Button>
+          </div>
+        </>
+      )}
+
+      {project && !contract && (
+        <div className="space-y-3">
+          {(project.repoUrl || project.description) && (
+            <p className="text-sm text-muted-foreground">
+              {project.description}
+              {project.repoUrl && (
+                <a href={project.repoUrl} target="_blank" rel="noopener noreferrer" className="ml-2 text-primary hover:underline">
+                  {project.repoUrl}
+                </a>
+              )}
+            </p>
+          )}
+          {project.contracts.map((item) => (
+            <div
+              key={item._id}
+              className="bg-card border border-border rounded-lg p-4 hover:shadow-md transition-shadow cursor-pointer flex items-center justify-between"
+              onClick={() => openContract(item)}
+            >
+              <div>
+                <h3 className="font-semibold text-foreground">{item.name}</h3>
+                <p className="text-sm text-muted-foreground">
+                  {item.auditCount} audit(s)
+                  {item.latestAudit && ` · last audited ${new Date(item.latestAudit.auditedAt).toLocaleDateString()}`}
+                  {item.latestAudit?.riskScore !== undefined && (
+                    <span className={`ml-1 font-medium ${riskColor(item.latestAudit.riskScore)}`}>
+                      · Risk {item.latestAudit.riskScore.toFixed(1)}
+                    </span>
+                  )}
+                </p>
+                {item.deployedAddresses.length > 0 && (
+                  <p className="text-xs font-mono text-muted-foreground mt-1">{item.deployedAddresses.join(", ")}</p>
+                )}
+              </div>
+              <ChevronRight className="h-5 w-5 text-muted-foreground" />
+            </div>
+          ))}
+          {project.contracts.length === 0 && (
+            <p className="text-sm text-muted-foreground">No contracts in this project yet.</p>
+          )}
+        </div>
+      )}
+
+      {contract && (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {timeline.map((entry) => (
+            <li key={entry.reportId} className="ml-4">
+              <div className="absolute -left-1.5 mt-2 h-3 w-3 rounded-full border border-border bg-primary" />
+              <div
+                className="bg-card border border-border rounded-lg p-3 hover:shadow-md transition-shadow cursor-pointer"
+                onClick={() => onOpenReport(entry.reportId)}
+              >
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-semibold text-foreground">v{entry.version}</span>
+                  {entry.isReAudit && (
+                    <span className="px-2 py-0.5 text-xs rounded border border-border text-muted-foreground">Re-audit</span>
+                  )}
+                  <span className="text-muted-foreground">{new Date(entry.auditedAt).toLocaleString()}</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {entry.vulnerabilitiesFound} finding(s)
+                  {entry.riskScore !== undefined && (
+                    <span className={`ml-1 font-medium ${riskColor(entry.riskScore)}`}>· Risk {entry.riskScore.toFixed(1)}</span>
+                  )}
+                  {entry.sourceHash && <span className="ml-1 font-mono">· {entry.sourceHash.slice(0, 12)}</span>}
+                </p>
+              </div>
+            </li>
+          ))}
+          {timeline.length === 0 && !loading && (
+            <li className="ml-4 text-sm text-muted-foreground">No audits of this contract yet.</li>
+          )}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+type ShareRole = "viewer" | "auditor" | "admin"
+
+interface UserShare {
+  email: string
+  role: ShareRole
+}
+
+interface TeamSummary {
+  _id: string
+  name: string
+}
+
+interface ReportSharingProps {
+  reportId: string
+}
+
+const ROLE_LABELS: Record<ShareRole, string> = {
+  viewer: "Viewer",
+  auditor: "Auditor",
+  admin: "Admin",
+}
+
+/**
+ * Teams and users an audit report (and its re-audits) is shared with; editable by the
+ * owner and by users with the admin role on the report
+ */
+export function ReportSharing({ reportId }: ReportSharingProps) {
+  const [owner, setOwner] = useState("")
+  const [teams, setTeams] = useState<TeamSummary[]>([])
+  const [teamIds, setTeamIds] = useState<string[]>([])
+  const [users, setUsers] = useState<UserShare[]>([])
+  const [canShare, setCanShare] = useState(false)
+  const [newUser, setNewUser] = useState<UserShare>({ email: "", role: "viewer" })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const [shareResponse, teamsResponse] = await Promise.all([
+          fetch(`/api/audit/${reportId}/share`),
+          fetch("/api/teams"),
+        ])
+        const shareResult = await shareResponse.json()
+        const teamsResult = await teamsResponse.json()
+        if (!shareResponse.ok) {
+          throw new Error(shareResult.error || "Failed to load sharing")
+        }
+        setOwner(shareResult.data.owner)
+        setTeamIds(shareResult.data.teamIds)
+        setUsers(shareResult.data.users)
+        setCanShare(shareResult.metadata.canShare)
+        setTeams(teamsResponse.ok ? teamsResult.data : [])
+      } catch (err: any) {
+        console.error("Error loading report sharing:", err)
+        setError(err.message || "Failed to load sharing")
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [reportId])
+
+  const save = async () => {
+    setSaving(true)
+    setSaved(false)
+    setError(null)
+    try {
+      const response = await fetch(`/api/audit/${reportId}/share`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ teamIds, users }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to share report")
+      }
+      setTeamIds(result.data.teamIds)
+      setUsers(result.data.users)
+      setSaved(true)
+    } catch (err: any) {
+      console.error("Error sharing report:", err)
+      setError(err.message || "Failed to share report")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addUser = () => {
+    const email = newUser.email.trim().toLowerCase()
+    if (!email) return
+    setUsers([...users.filter((user) => user.email !== email), { email, role: newUser.role }])
+    setNewUser({ email: "", role: "viewer" })
+    setSaved(false)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading sharing...
+      </div>
+    )
+  }
+
+  // Teams the report is shared with that the user is not a member of are kept but not listed
+  const teamNames = new Map(teams.map((team) => [team._id, team.name]))
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="text-muted-foreground">
+        Owned by {owner}. Sharing applies to the original audit and all of its re-audits.
+      </p>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div>
+        <p className="font-medium text-foreground mb-1">Teams</p>
+        {canShare ? (
+          teams.length > 0 ? (
+            <div className="flex flex-wrap gap-3">
+              {teams.map((team) => (
+                <label key={team._id} className="flex items-center gap-2 text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={teamIds.includes(team._id)}
+                    onChange={(e) => {
+                      setTeamIds(e.target.checked ? [...teamIds, team._id] : teamIds.filter((id) => id !== team._id))
+                      setSaved(false)
+                    }}
+                  />
+                  {team.name}
+                </label>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground">You are not a member of any team.</p>
+          )
+        ) : (
+          <p className="text-muted-foreground">
+            {teamIds.length > 0 ? teamIds.map((id) => teamNames.get(id) || "Other team").join(", ") : "Not shared with any team"}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <p className="font-medium text-foreground mb-1">Users</p>
+        {users.length === 0 && <p className="text-muted-foreground">Not shared with any user</p>}
+        <div className="space-y-1">
+          {users.map((user) => (
+            <div key={user.email} className="flex items-center justify-between gap-2">
+              <span className="text-muted-foreground">{user.email} · {ROLE_LABELS[user.role]}</span>
+              {canShare && (
+                <button
+                  onClick={() => {
+                    setUsers(users.filter((item) => item.email !== user.email))
+                    setSaved(false)
+                  }}
+                  className="text-muted-foreground hover:text-foreground"
+                  aria-label={`Stop sharing with ${user.email}`}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        {canShare && (
+          <div className="flex items-center gap-2 mt-2">
+            <input
+              type="email"
+              value={newUser.email}
+              onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") addUser()
+              }}
+              placeholder="colleague@example.com"
+              className="flex-1 p-2 border border-border rounded-lg bg-card text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <select
+              value={newUser.role}
+              onChange={(e) => setNewUser({ ...newUser, role: e.target.value as ShareRole })}
+              className="p-2 border border-border rounded-lg bg-card text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {(Object.keys(ROLE_LABELS) as ShareRole[]).map((role) => (
+                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <Button onClick={addUser} variant="outline" size="sm" disabled={!newUser.email.trim()}>
+              Add
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {canShare && (
+        <div className="flex items-center gap-2">
+          <Button onClick={save} disabled={saving} size="sm">
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Save Sharing
+          </Button>
+          {saved && <span className="text-xs text-green-600">Saved</span>}
+        </div>
+      )}
+    </div>
+  )
+}
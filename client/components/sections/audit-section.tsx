@@ -1,24 +1,72 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { useSession } from "next-auth/react"
 import { Button } from "@/components/ui/button"
 import { summarizeVulnerabilities, calculateRiskScore } from "@/functions/auditInit"
-import type { AuditReport } from "@/functions/auditInit"
+import type { AuditReport, Vulnerability } from "@/functions/auditInit"
 import { 
   CreditDisplay, 
   CreditCostIndicator, 
   CreditConsumedFeedback 
 } from "@/components/credit-tracker"
 import { generateAuditReportPDF } from "@/lib/pdf-generator"
+import { streamAudit, type StreamedAuditEvent } from "@/lib/audit-stream-client"
+
+/**
+ * Live progress of a streamed audit
+ */
+interface AuditProgress {
+  status: string
+  charactersReceived: number
+  chunks?: { completed: number; total: number }
+  findings: Vulnerability[]
+  reconnectAttempt?: number
+}
+
+const initialProgress: AuditProgress = {
+  status: "Submitting contract...",
+  charactersReceived: 0,
+  findings: [],
+}
+
+/**
+ * Folds a stream event into the progress shown while the audit runs
+ */
+function applyProgressEvent(progress: AuditProgress, { event, data }: StreamedAuditEvent): AuditProgress {
+  const next = { ...progress, reconnectAttempt: undefined }
+  switch (event) {
+    case "started":
+      return { ...next, status: `Auditing ${data.language === "Unknown" ? "contract" : data.language} with ${data.provider}...` }
+    case "tokens":
+      return { ...next, status: "Receiving audit from the model...", charactersReceived: data.received }
+    case "parsing":
+      return { ...next, status: "Parsing findings..." }
+    case "retrying":
+      return { ...next, status: `The model's response was malformed, asking again (attempt ${data.attempt})...` }
+    case "chunk_started":
+      return { ...next, status: `Auditing lines ${data.lines.start}-${data.lines.end} (part ${data.chunk} of ${data.totalChunks})...`, chunks: { completed: next.chunks?.completed || 0, total: data.totalChunks } }
+    case "chunk_completed":
+    case "chunk_failed":
+      return { ...next, chunks: { completed: (next.chunks?.completed || 0) + 1, total: data.totalChunks } }
+    case "finding":
+      return { ...next, findings: [...next.findings, data.vulnerability] }
+    case "saved":
+      return { ...next, status: "Report saved to your history" }
+    default:
+      return next
+  }
+}
 
 export function AuditSection() {
   const { data: session } = useSession()
   const [contract, setContract] = useState("")
   const [contractName, setContractName] = useState("")
+  const [projectZip, setProjectZip] = useState<File | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [auditReport, setAuditReport] = useState<AuditReport | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<AuditProgress | null>(null)
   const [sessionCredits, setSessionCredits] = useState(0)
   const [showCreditFeedback, setShowCreditFeedback] = useState(false)
   const [isDownloadingPDF, setIsDownloadingPDF] = useState(false)
@@ -26,47 +74,76 @@ export function AuditSection() {
     creditsConsumed: number;
     auditDuration: number;
     vulnerabilitiesFound: number;
+    cachedAt?: string;
   } | null>(null)
+  const [forceFreshAudit, setForceFreshAudit] = useState(false)
+  const [projects, setProjects] = useState<Array<{ _id: string; name: string; isDefault: boolean }>>([])
+  const [projectId, setProjectId] = useState("") // Empty: the user's default project
+
+  // Load the user's projects for the project selector
+  useEffect(() => {
+    if (!session?.user?.email) return
+    fetch("/api/projects")
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.success) setProjects(result.data.filter((project: { isDefault: boolean }) => !project.isDefault))
+      })
+      .catch((err) => console.error("Error fetching projects:", err))
+  }, [session?.user?.email])
 
   const handleAudit = async () => {
-    if (!contract.trim()) {
-      setError("Please paste a smart contract")
+    if (!contract.trim() && !projectZip) {
+      setError("Please paste a smart contract or upload a project")
       return
     }
 
     setIsLoading(true)
     setError(null)
     setAuditReport(null)
+    setProgress(initialProgress)
 
     try {
-      const response = await fetch('/api/audit', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      let body: BodyInit
+      let headers: HeadersInit | undefined
+      if (projectZip) {
+        // Multi-file project: send the zip as multipart form data
+        const form = new FormData()
+        form.append('file', projectZip)
+        if (contractName.trim()) form.append('contractName', contractName.trim())
+        form.append('timeout', '120000')
+        if (forceFreshAudit) form.append('force', 'true')
+        if (projectId) form.append('projectId', projectId)
+        body = form
+      } else {
+        headers = { 'Content-Type': 'application/json' }
+        body = JSON.stringify({
           contractCode: contract.trim(),
           contractName: contractName.trim() || undefined,
           timeout: 120000,
-        }),
-      })
-
-      const result = await response.json()
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to audit smart contract')
+          force: forceFreshAudit || undefined,
+          projectId: projectId || undefined,
+        })
       }
 
-      if (result.success && result.data) {
+      // Progress is streamed as Server-Sent Events; the stream resumes if the connection drops
+      const result = await streamAudit({
+        body,
+        headers,
+        onEvent: (event) => setProgress(prev => applyProgressEvent(prev || initialProgress, event)),
+        onReconnect: (attempt) => setProgress(prev => prev && { ...prev, status: "Connection lost, reconnecting...", reconnectAttempt: attempt }),
+      })
+
+      if (result.data) {
         setAuditReport(result.data)
         
         if (result.metadata) {
-          const creditsConsumed = result.metadata.creditsConsumed || 1;
+          const creditsConsumed = result.metadata.creditsConsumed ?? 1;
           setSessionCredits(prev => prev + creditsConsumed);
           setLastAuditMetadata({
             creditsConsumed,
             auditDuration: result.metadata.auditDuration || 0,
             vulnerabilitiesFound: result.data.vulnerabilities?.length || 0,
+            cachedAt: result.metadata.cached ? result.metadata.cachedAt : undefined,
           });
           setShowCreditFeedback(true);
         }
@@ -78,6 +155,7 @@ export function AuditSection() {
       setError(err.message || "Failed to audit smart contract. Please try again.")
     } finally {
       setIsLoading(false)
+      setProgress(null)
     }
   }
 
@@ -96,6 +174,47 @@ export function AuditSection() {
     }
   }
 
+  const renderAuditProgress = () => {
+    if (!isLoading || !progress) return null
+
+    return (
+      <div className="border border-border rounded-lg p-4 bg-card space-y-3" aria-live="polite">
+        <div className="flex items-center gap-2">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+          <span className="text-sm font-medium">{progress.status}</span>
+          {progress.reconnectAttempt && (
+            <span className="text-xs text-muted-foreground">(attempt {progress.reconnectAttempt})</span>
+          )}
+        </div>
+        <div className="flex gap-4 text-xs text-muted-foreground">
+          {progress.charactersReceived > 0 && (
+            <span>{progress.charactersReceived.toLocaleString()} characters received</span>
+          )}
+          {progress.chunks && (
+            <span>{progress.chunks.completed} of {progress.chunks.total} parts audited</span>
+          )}
+        </div>
+        {progress.findings.length > 0 && (
+          <ul className="space-y-1">
+            {progress.findings.map((vuln) => (
+              <li key={vuln.id} className="text-sm flex gap-2">
+                <span className={`px-2 rounded text-xs font-medium ${
+                  vuln.severity === 'CRITICAL' ? 'bg-red-950/40 text-red-300 border border-red-900/40' :
+                  vuln.severity === 'HIGH' ? 'bg-orange-950/40 text-orange-300 border border-orange-900/40' :
+                  vuln.severity === 'MEDIUM' ? 'bg-yellow-950/40 text-yellow-300 border border-yellow-900/40' :
+                  'bg-blue-950/40 text-blue-300 border border-blue-900/40'
+                }`}>
+                  {vuln.severity}
+                </span>
+                <span>{vuln.title}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    )
+  }
+
   const renderAuditResults = () => {
     if (!auditReport) return null
 
@@ -199,6 +318,12 @@ export function AuditSection() {
                         {vuln.severity}
                       </span>
                     </div>
+                    {vuln.file && (
+                      <p className="text-sm text-muted-foreground mb-2">
+                        <strong>File:</strong> <span className="font-mono">{vuln.file}</span>
+                        {vuln.lines && vuln.lines.length > 0 && ` (line ${vuln.lines.join(', ')})`}
+                      </p>
+                    )}
                     {vuln.function && (
                       <p className="text-sm text-muted-foreground mb-2">
                         <strong>Function:</strong> {vuln.function}
@@ -209,6 +334,11 @@ export function AuditSection() {
                         <strong>Category:</strong> {vuln.category}
                       </p>
                     )}
+                    {vuln.source === 'static-analysis' && (
+                      <p className="text-sm text-muted-foreground mb-2">
+                        <strong>Source:</strong> Static analysis{vuln.lines && vuln.lines.length > 0 && ` (line ${vuln.lines.join(', ')})`}
+                      </p>
+                    )}
                     <p className="text-sm mb-3">{vuln.description}</p>
                     <div className="bg-muted p-3 rounded text-sm">
                       <strong>Recommendation:</strong> {vuln.recommendation}
@@ -218,6 +348,12 @@ export function AuditSection() {
               </div>
             </div>
           )}
+
+          {auditReport.suppressedVulnerabilities && auditReport.suppressedVulnerabilities.length > 0 && (
+            <p className="mt-4 text-sm text-muted-foreground">
+              {auditReport.suppressedVulnerabilities.length} finding(s) suppressed by your suppression rules or audit-ignore comments. They are listed in the saved report in History.
+            </p>
+          )}
         </div>
       </div>
     )
@@ -251,6 +387,25 @@ export function AuditSection() {
               />
             </div>
 
+            {projects.length > 0 && (
+              <div>
+                <label htmlFor="projectId" className="block text-sm font-medium mb-2">
+                  Project
+                </label>
+                <select
+                  id="projectId"
+                  value={projectId}
+                  onChange={(e) => setProjectId(e.target.value)}
+                  className="w-full p-3 bg-muted border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">Unsorted contracts</option>
+                  {projects.map((project) => (
+                    <option key={project._id} value={project._id}>{project.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div>
               <label htmlFor="contractCode" className="block text-sm font-medium mb-2">
                 Smart Contract Code
@@ -260,10 +415,44 @@ export function AuditSection() {
                 value={contract}
                 onChange={(e) => setContract(e.target.value)}
                 placeholder="Paste your Solidity or Vyper smart contract code here..."
-                className="w-full h-64 p-4 bg-muted border border-border rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary resize-none font-mono text-sm"
+                disabled={!!projectZip}
+                className="w-full h-64 p-4 bg-muted border border-border rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary resize-none font-mono text-sm disabled:opacity-50"
               />
             </div>
 
+            <div>
+              <label htmlFor="projectZip" className="block text-sm font-medium mb-2">
+                Or upload a multi-file project (.zip)
+              </label>
+              <div className="flex items-center gap-3">
+                <input
+                  key={projectZip ? 'selected' : 'empty'}
+                  id="projectZip"
+                  type="file"
+                  accept=".zip,application/zip"
+                  onChange={(e) => setProjectZip(e.target.files?.[0] || null)}
+                  className="text-sm text-muted-foreground file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border file:border-border file:bg-muted file:text-foreground"
+                />
+                {projectZip && (
+                  <Button variant="ghost" size="sm" onClick={() => setProjectZip(null)}>
+                    Clear
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Hardhat and Foundry projects are supported; imports are resolved using relative paths, remappings.txt and node_modules.
+              </p>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={forceFreshAudit}
+                onChange={(e) => setForceFreshAudit(e.target.checked)}
+              />
+              Run a fresh audit even if this contract was audited before (previous results are reused at no cost)
+            </label>
+
             <CreditCostIndicator cost={1} />
 
             {showCreditFeedback && lastAuditMetadata && (
@@ -271,6 +460,7 @@ export function AuditSection() {
                 creditsConsumed={lastAuditMetadata.creditsConsumed}
                 auditDuration={lastAuditMetadata.auditDuration}
                 vulnerabilitiesFound={lastAuditMetadata.vulnerabilitiesFound}
+                cachedAt={lastAuditMetadata.cachedAt}
                 onClose={() => setShowCreditFeedback(false)}
               />
             )}
@@ -292,7 +482,7 @@ export function AuditSection() {
 
             <Button
               onClick={handleAudit}
-              disabled={isLoading || !contract.trim()}
+              disabled={isLoading || (!contract.trim() && !projectZip)}
               className="w-full bg-primary text-primary-foreground hover:bg-primary/90 py-3 rounded-lg font-medium transition-colors disabled:opacity-50"
             >
               {isLoading ? (
@@ -306,6 +496,7 @@ export function AuditSection() {
             </Button>
           </div>
 
+          {renderAuditProgress()}
           {renderAuditResults()}
         </div>
 
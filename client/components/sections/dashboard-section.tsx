@@ -79,7 +79,7 @@ export function DashboardSection() {
   const [selectedRange, setSelectedRange] = useState('30d');
   const [refreshing, setRefreshing] = useState(false);
 
-  const isAdmin = session?.user?.email?.endsWith('@energi.team');
+  const isAdmin = session?.user?.role === 'admin';
 
   useEffect(() => {
     if (session && isAdmin) {
@@ -137,8 +137,8 @@ export function DashboardSection() {
         timestamp: new Date(log.auditedAt || log.createdAt).toLocaleString(),
         userEmail: log.userEmail,
         contractName: log.contractName || 'N/A',
-        creditsConsumed: 1,
-        vulnerabilitiesFound: log.vulnerabilities?.length || 0,
+        creditsConsumed: log.creditsConsumed ?? 0,
+        vulnerabilitiesFound: log.vulnerabilitiesFound ?? 0,
         auditDuration: log.auditDuration ? `${(log.auditDuration / 1000).toFixed(1)}s` : 'N/A',
       }));
       
@@ -330,7 +330,7 @@ export function DashboardSection() {
                         {log.contractName || 'Unnamed'}
                       </td>
                       <td className="py-3 px-4 text-foreground">
-                        {log.vulnerabilities?.length || 0}
+                        {log.vulnerabilitiesFound ?? 0}
                       </td>
                     </tr>
                   ))}
@@ -0,0 +1,102 @@
+"use client"
+
+import { useState } from "react"
+import type { VulnerabilitySeverity } from "@/functions/auditInit"
+
+/**
+ * Finding shown against the source; only its location and severity are used
+ */
+interface SourceFinding {
+  id: string
+  title: string
+  severity: VulnerabilitySeverity
+  lines?: number[]
+  file?: string
+}
+
+interface SourceViewerProps {
+  /** Audited source: a single contract, or the files of a project audit */
+  source: { contractCode?: string; files?: Record<string, string> }
+  vulnerabilities: SourceFinding[]
+}
+
+const SEVERITY_RANK: Record<VulnerabilitySeverity, number> = { LOW: 1, MEDIUM: 2, HIGH: 3, CRITICAL: 4 }
+
+const LINE_HIGHLIGHT: Record<VulnerabilitySeverity, string> = {
+  CRITICAL: "bg-red-500/15 border-l-2 border-red-500",
+  HIGH: "bg-orange-500/15 border-l-2 border-orange-500",
+  MEDIUM: "bg-yellow-500/15 border-l-2 border-yellow-500",
+  LOW: "bg-blue-500/10 border-l-2 border-blue-500",
+}
+
+/**
+ * Groups findings by line number for one file
+ */
+function findingsByLine(vulnerabilities: SourceFinding[], file?: string): Map<number, SourceFinding[]> {
+  const byLine = new Map<number, SourceFinding[]>()
+  for (const vuln of vulnerabilities) {
+    if (file !== undefined && vuln.file !== file) continue
+    for (const line of vuln.lines || []) {
+      byLine.set(line, [...(byLine.get(line) || []), vuln])
+    }
+  }
+  return byLine
+}
+
+/**
+ * Read-only source listing with the lines referenced by findings highlighted by severity
+ */
+export function SourceViewer({ source, vulnerabilities }: SourceViewerProps) {
+  const paths = source.files ? Object.keys(source.files).sort() : []
+  const [selectedPath, setSelectedPath] = useState<string | undefined>(
+    () => paths.find((path) => vulnerabilities.some((vuln) => vuln.file === path)) || paths[0]
+  )
+
+  const code = source.files ? source.files[selectedPath || ""] || "" : source.contractCode || ""
+  const byLine = findingsByLine(vulnerabilities, source.files ? selectedPath : undefined)
+
+  return (
+    <div className="border border-border rounded-lg overflow-hidden">
+      {paths.length > 0 && (
+        <div className="flex gap-1 p-2 border-b border-border bg-muted/20 overflow-x-auto">
+          {paths.map((path) => {
+            const count = vulnerabilities.filter((vuln) => vuln.file === path).length
+            return (
+              <button
+                key={path}
+                onClick={() => setSelectedPath(path)}
+                className={`px-2 py-1 text-xs font-mono rounded whitespace-nowrap ${
+                  path === selectedPath ? "bg-primary/10 text-primary" : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                {path}{count > 0 && ` (${count})`}
+              </button>
+            )
+          })}
+        </div>
+      )}
+      <div className="max-h-[32rem] overflow-auto bg-card">
+        <pre className="text-xs font-mono leading-5">
+          {code.split("\n").map((text, index) => {
+            const lineNumber = index + 1
+            const findings = byLine.get(lineNumber)
+            const severity = findings?.reduce<VulnerabilitySeverity>(
+              (worst, vuln) => (SEVERITY_RANK[vuln.severity] > SEVERITY_RANK[worst] ? vuln.severity : worst),
+              "LOW"
+            )
+            return (
+              <div
+                key={lineNumber}
+                className={`flex ${severity ? LINE_HIGHLIGHT[severity] : "border-l-2 border-transparent"}`}
+                title={findings?.map((vuln) => `${vuln.severity}: ${vuln.title}`).join("\n")}
+              >
+                <span className="select-none w-12 shrink-0 pr-3 text-right text-muted-foreground">{lineNumber}</span>
+                <code className="pr-4 text-foreground whitespace-pre">{text || " "}</code>
+              </div>
+            )
+          })}
+        </pre>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,242 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+type TeamRole = "viewer" | "auditor" | "admin"
+
+interface TeamMember {
+  email: string
+  role: TeamRole
+  addedBy: string
+  addedAt: string
+}
+
+interface Team {
+  _id: string
+  name: string
+  members: TeamMember[]
+  role: TeamRole // The current user's role
+}
+
+interface TeamManagerProps {
+  userEmail: string
+}
+
+const ROLE_DESCRIPTIONS: Record<TeamRole, string> = {
+  viewer: "Viewer: reads shared reports",
+  auditor: "Auditor: also triages findings and re-audits",
+  admin: "Admin: also shares reports and manages the team",
+}
+
+const selectClassName = "p-2 border border-border rounded-lg bg-card text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+
+/**
+ * Sends a JSON request to a team route, throwing the route's error message on failure
+ */
+async function teamRequest(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || "Request failed")
+  }
+  return result.data
+}
+
+/**
+ * Lists the user's teams; creates teams and, for team admins, manages their members
+ */
+export function TeamManager({ userEmail }: TeamManagerProps) {
+  const [teams, setTeams] = useState<Team[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [newTeamName, setNewTeamName] = useState("")
+  const [newMembers, setNewMembers] = useState<Record<string, { email: string; role: TeamRole }>>({})
+
+  const loadTeams = async () => {
+    setLoading(true)
+    try {
+      setTeams(await teamRequest("/api/teams", "GET"))
+    } catch (err: any) {
+      console.error("Error loading teams:", err)
+      setError(err.message || "Failed to load teams")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTeams()
+  }, [])
+
+  /**
+   * Runs a team change, then reloads the teams
+   */
+  const run = async (change: () => Promise<unknown>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await change()
+      await loadTeams()
+    } catch (err: any) {
+      console.error("Error updating team:", err)
+      setError(err.message || "Failed to update team")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const memberUrl = (teamId: string, email: string) => `/api/teams/${teamId}/members/${encodeURIComponent(email)}`
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-600 text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading && teams.length === 0 ? (
+        <div className="flex items-center text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading teams...
+        </div>
+      ) : teams.length === 0 ? (
+        <p className="text-sm text-muted-foreground">You are not a member of any team yet.</p>
+      ) : (
+        teams.map((team) => {
+          const isAdmin = team.role === "admin"
+          const newMember = newMembers[team._id] || { email: "", role: "viewer" as TeamRole }
+          return (
+            <div key={team._id} className="bg-card border border-border rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="font-semibold text-foreground">{team.name}</h3>
+                  <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[team.role]}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    onClick={() => run(() => teamRequest(memberUrl(team._id, userEmail), "DELETE"))}
+                    variant="outline"
+                    size="sm"
+                    disabled={busy}
+                  >
+                    Leave
+                  </Button>
+                  {isAdmin && (
+                    <Button
+                      onClick={() => {
+                        if (confirm(`Delete team "${team.name}"? Reports shared with it will no longer be.`)) {
+                          run(() => teamRequest(`/api/teams/${team._id}`, "DELETE"))
+                        }
+                      }}
+                      variant="outline"
+                      size="sm"
+                      disabled={busy}
+                    >
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-1 text-sm">
+                {team.members.map((member) => (
+                  <div key={member.email} className="flex items-center justify-between gap-2">
+                    <span className="text-muted-foreground">{member.email}</span>
+                    {isAdmin ? (
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={member.role}
+                          onChange={(e) => run(() => teamRequest(memberUrl(team._id, member.email), "PATCH", { role: e.target.value }))}
+                          disabled={busy}
+                          className={selectClassName}
+                        >
+                          {(Object.keys(ROLE_DESCRIPTIONS) as TeamRole[]).map((role) => (
+                            <option key={role} value={role}>{role}</option>
+                          ))}
+                        </select>
+                        {member.email !== userEmail && (
+                          <button
+                            onClick={() => run(() => teamRequest(memberUrl(team._id, member.email), "DELETE"))}
+                            disabled={busy}
+                            className="text-muted-foreground hover:text-foreground"
+                            aria-label={`Remove ${member.email}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{member.role}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {isAdmin && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="email"
+                    value={newMember.email}
+                    onChange={(e) => setNewMembers({ ...newMembers, [team._id]: { ...newMember, email: e.target.value } })}
+                    placeholder="New member email"
+                    className="flex-1 p-2 border border-border rounded-lg bg-card text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                  <select
+                    value={newMember.role}
+                    onChange={(e) => setNewMembers({ ...newMembers, [team._id]: { ...newMember, role: e.target.value as TeamRole } })}
+                    className={selectClassName}
+                  >
+                    {(Object.keys(ROLE_DESCRIPTIONS) as TeamRole[]).map((role) => (
+                      <option key={role} value={role}>{role}</option>
+                    ))}
+                  </select>
+                  <Button
+                    onClick={() => run(async () => {
+                      await teamRequest(`/api/teams/${team._id}/members`, "POST", newMember)
+                      setNewMembers({ ...newMembers, [team._id]: { email: "", role: "viewer" } })
+                    })}
+                    disabled={busy || !newMember.email.trim()}
+                    size="sm"
+                  >
+                    Add
+                  </Button>
+                </div>
+              )}
+            </div>
+          )
+        })
+      )}
+
+      <div className="p-4 bg-muted/20 border border-border rounded-lg space-y-2">
+        <h3 className="text-sm font-semibold text-foreground">New Team</h3>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newTeamName}
+            onChange={(e) => setNewTeamName(e.target.value)}
+            placeholder="Team name"
+            className="flex-1 p-2 border border-border rounded-lg bg-card text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <Button
+            onClick={() => run(async () => {
+              await teamRequest("/api/teams", "POST", { name: newTeamName })
+              setNewTeamName("")
+            })}
+            disabled={busy || !newTeamName.trim()}
+            size="sm"
+          >
+            Create Team
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+// /functions/auditComparison.ts
+import type { Vulnerability } from "./auditInit";
+import { diffSources, mapLineToImproved, type DiffHunk } from "./sourceDiff";
+
+/**
+ * How a finding changed between an audit and a later audit of the improved code
+ */
+export type FindingChangeStatus = "resolved" | "still-present" | "introduced" | "severity-changed";
+
+/**
+ * A finding from either audit, paired with its counterpart when it appears in both
+ */
+export interface FindingComparison {
+  status: FindingChangeStatus;
+  /** Finding in the original audit (all statuses except "introduced") */
+  original?: Vulnerability;
+  /** Finding in the improved audit (all statuses except "resolved") */
+  improved?: Vulnerability;
+  /** Index of the diff hunk the finding's lines fall in, when the sources differ there */
+  hunk?: number;
+}
+
+/**
+ * Comparison of an audit with a later audit of the improved code
+ */
+export interface AuditComparison {
+  findings: FindingComparison[];
+  summary: Record<FindingChangeStatus, number>;
+  /** Line diff of the original and improved sources (only when both sources are available) */
+  diff?: DiffHunk[];
+}
+
+/**
+ * Source and findings of one side of a comparison
+ */
+export interface ComparedAudit {
+  vulnerabilities: Vulnerability[];
+  /** Single-contract source, when stored */
+  contractCode?: string;
+}
+
+const normalize = (value: string | undefined) => (value || "").toLowerCase().replace(/\s+/g, " ").trim();
+
+/**
+ * Ways two findings can be recognized as the same issue, strongest first.
+ * Line matching maps the original lines through the diff, so findings still match
+ * after code above them moved.
+ */
+const MATCHERS: Array<(original: Vulnerability, improved: Vulnerability, mapLine: (line: number) => number | undefined) => boolean> = [
+  // Same fingerprint (reports saved before fingerprints existed have none)
+  (original, improved) => !!original.fingerprint && original.fingerprint === improved.fingerprint,
+  // Same category in the same function
+  (original, improved) =>
+    !!original.function &&
+    normalize(original.category) === normalize(improved.category) &&
+    normalize(original.function) === normalize(improved.function),
+  // Same title
+  (original, improved) => normalize(original.title) === normalize(improved.title),
+  // Same category on a corresponding line
+  (original, improved, mapLine) =>
+    normalize(original.category) === normalize(improved.category) &&
+    (original.lines || []).some((line) => {
+      const mapped = mapLine(line);
+      return mapped !== undefined && (improved.lines || []).includes(mapped);
+    }),
+];
+
+/**
+ * Returns the index of the hunk containing any of the lines on the given side
+ */
+function findHunk(hunks: DiffHunk[] | undefined, lines: number[] | undefined, side: "originalLine" | "improvedLine"): number | undefined {
+  if (!hunks || !lines || lines.length === 0) return undefined;
+  const index = hunks.findIndex((hunk) => hunk.lines.some((line) => line[side] !== undefined && lines.includes(line[side]!)));
+  return index === -1 ? undefined : index;
+}
+
+/**
+ * Pairs the findings of an audit with those of a re-audit and diffs their sources.
+ * Each finding is paired at most once; pairs whose severity differs are reported as
+ * "severity-changed" rather than "still-present".
+ */
+export function compareAudits(original: ComparedAudit, improved: ComparedAudit): AuditComparison {
+  const diff = original.contractCode !== undefined && improved.contractCode !== undefined
+    ? diffSources(original.contractCode, improved.contractCode)
+    : undefined;
+  const mapLine = (line: number) => (diff ? mapLineToImproved(diff, line) : line);
+
+  const unmatched = new Set(improved.vulnerabilities.map((_, index) => index));
+  const pairs = new Map<number, number>(); // original index → improved index
+
+  for (const matches of MATCHERS) {
+    original.vulnerabilities.forEach((originalFinding, originalIndex) => {
+      if (pairs.has(originalIndex)) return;
+      const improvedIndex = Array.from(unmatched).find((index) =>
+        matches(originalFinding, improved.vulnerabilities[index], mapLine)
+      );
+      if (improvedIndex !== undefined) {
+        pairs.set(originalIndex, improvedIndex);
+        unmatched.delete(improvedIndex);
+      }
+    });
+  }
+
+  const findings: FindingComparison[] = original.vulnerabilities.map((originalFinding, originalIndex) => {
+    const improvedIndex = pairs.get(originalIndex);
+    if (improvedIndex === undefined) {
+      return { status: "resolved", original: originalFinding, hunk: findHunk(diff, originalFinding.lines, "originalLine") };
+    }
+    const improvedFinding = improved.vulnerabilities[improvedIndex];
+    return {
+      status: improvedFinding.severity === originalFinding.severity ? "still-present" : "severity-changed",
+      original: originalFinding,
+      improved: improvedFinding,
+      hunk: findHunk(diff, improvedFinding.lines, "improvedLine") ?? findHunk(diff, originalFinding.lines, "originalLine"),
+    };
+  });
+
+  Array.from(unmatched)
+    .sort((a, b) => a - b)
+    .forEach((index) => {
+      const improvedFinding = improved.vulnerabilities[index];
+      findings.push({ status: "introduced", improved: improvedFinding, hunk: findHunk(diff, improvedFinding.lines, "improvedLine") });
+    });
+
+  const summary: Record<FindingChangeStatus, number> = { "resolved": 0, "still-present": 0, "introduced": 0, "severity-changed": 0 };
+  findings.forEach((finding) => summary[finding.status]++);
+
+  return { findings, summary, diff };
+}
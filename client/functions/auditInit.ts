@@ -1,5 +1,16 @@
 // /functions/auditInit.ts
-import axios, { AxiosError } from "axios";
+import { runStaticAnalysis, mergeFindings, stripCommentsAndStrings } from "./staticAnalysis";
+import { parseContractModel, validateVulnerabilityLocations, type ContractModel, type SourceRange } from "./contractModel";
+import { isVyperSource, parseVyperModel, stripVyperCommentsAndStrings, countVyperLowLevelCalls } from "./vyper";
+import type { ProjectFileReport } from "./projectAudit";
+import { auditInChunks, type AuditChunkReport } from "./chunkedAudit";
+import { parseAuditResponse, type ChainGPTResponse } from "./responseParser";
+import { addFingerprints, uniqueFindingIds } from "./fingerprint";
+import {
+  getAuditProvider,
+  formatEngineVersion,
+  type ProviderAuditResult,
+} from "./providers";
 
 /**
  * Severity levels for vulnerabilities found in smart contracts
@@ -11,6 +22,43 @@ export type VulnerabilitySeverity = "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
  */
 export type ContractLanguage = "Solidity" | "Vyper" | "Unknown";
 
+/**
+ * Where a finding came from
+ */
+export type FindingSource = "ai" | "static-analysis";
+
+/**
+ * Reviewer decision on a finding
+ */
+export type TriageStatus = "open" | "confirmed" | "false-positive" | "accepted-risk" | "fixed";
+
+/**
+ * Triage statuses whose findings no longer count towards the risk of the contract
+ */
+export const DISMISSED_TRIAGE_STATUSES: readonly TriageStatus[] = ["false-positive", "accepted-risk", "fixed"];
+
+/**
+ * Latest triage decision on a finding
+ */
+export interface FindingTriage {
+  status: TriageStatus;
+  /** Why the reviewer chose this status */
+  justification: string;
+  /** Email of the reviewer */
+  reviewedBy: string;
+  reviewedAt: Date;
+}
+
+/**
+ * Why a finding was suppressed (see functions/suppression.ts)
+ */
+export interface FindingSuppression {
+  matchedBy: "fingerprint" | "category-function" | "source-comment";
+  reason: string;
+  /** Stored suppression rule that matched (not set for source comments) */
+  ruleId?: string;
+}
+
 /**
  * Represents a single vulnerability found in a smart contract
  */
@@ -31,6 +79,20 @@ export interface Vulnerability {
   lines?: number[];
   /** Category or type of vulnerability (e.g., "Reentrancy", "Integer Overflow") */
   category?: string;
+  /** Whether the finding was produced by the AI provider or the static analysis pass */
+  source?: FindingSource;
+  /** Static analysis rule that produced the finding (static findings only) */
+  ruleId?: string;
+  /** Whether the returned `function` and `lines` were found in the parsed contract (AI findings only) */
+  locationVerified?: boolean;
+  /** Project-relative file the vulnerability was found in (project audits only) */
+  file?: string;
+  /** Deterministic id of the issue across audits (see functions/fingerprint.ts) */
+  fingerprint?: string;
+  /** Reviewer triage decision (untriaged findings are "open") */
+  triage?: FindingTriage;
+  /** Set on findings in `suppressedVulnerabilities` */
+  suppression?: FindingSuppression;
 }
 
 /**
@@ -45,14 +107,34 @@ export interface AuditReport {
   summary: string;
   /** List of vulnerabilities found */
   vulnerabilities: Vulnerability[];
+  /** Findings removed from `vulnerabilities` by suppression rules or audit-ignore comments */
+  suppressedVulnerabilities?: Vulnerability[];
   /** Total lines of code analyzed */
   linesOfCode?: number;
+  /** Parsed structure of the audited source (Solidity, or the line-based Vyper model) */
+  contractModel?: ContractModel;
+  /** Per-file details of a multi-file project audit */
+  files?: ProjectFileReport[];
+  /** Per-chunk details when the source was too large for a single request */
+  chunks?: AuditChunkReport[];
   /** Timestamp when the audit was performed */
   auditedAt: Date;
-  /** Version of the audit engine used (if available) */
+  /** Provider, model and adapter version that produced the report (e.g., "chaingpt:smart_contract_auditor@1.0.0") */
   auditEngineVersion?: string;
   /** Raw API response for debugging purposes */
   rawResponse: unknown;
+  /** Requests sent to the audit provider and the time spent waiting on them */
+  providerTiming?: ProviderTiming;
+}
+
+/**
+ * Audit provider usage for one report, summed over parse retries, chunks and files
+ */
+export interface ProviderTiming {
+  /** Number of provider requests (including retries) */
+  requests: number;
+  /** Total time spent waiting on the provider, in milliseconds */
+  durationMs: number;
 }
 
 /**
@@ -65,37 +147,49 @@ export interface AuditOptions {
   includeInfo?: boolean;
   /** Custom API endpoint (for testing) */
   apiUrl?: string;
+  /** Audit provider to use (defaults to AUDIT_PROVIDER, then "chaingpt") */
+  provider?: string;
+  /** Model override passed to the provider */
+  model?: string;
+  /** Source language (detected from the code when omitted) */
+  language?: ContractLanguage;
+  /** Whether to run the built-in static analysis pass before the AI audit (default: true; Solidity only) */
+  staticAnalysis?: boolean;
+  /** Related sources (e.g., resolved imports) sent with the contract as read-only context */
+  context?: Array<{ path: string; content: string }>;
+  /** How many times the provider is asked again when its response fails validation (default: 1) */
+  parseRetries?: number;
+  /** Receives progress events while the audit runs (see AuditProgressEvent) */
+  onProgress?: (event: AuditProgressEvent) => void;
+  /** Set by chunked audits: an oversized chunk fails instead of being split again */
+  isChunk?: boolean;
 }
 
 /**
- * API response structure from ChainGPT
- */
-interface ChainGPTResponse {
-  contractName?: string;
-  language?: string;
-  summary?: string;
-  vulnerabilities?: Array<{
-    id?: string;
-    title?: string;
-    description?: string;
-    severity?: string;
-    recommendation?: string;
-    function?: string;
-    lines?: number[];
-    category?: string;
-  }>;
-  linesOfCode?: number;
-  auditEngineVersion?: string;
-}
+ * Progress reported while an audit runs.
+ * Chunked audits report per-chunk events instead of `tokens` and `parsing`.
+ * `finding` is reported for each finding as soon as its response (or chunk, or project
+ * file) is parsed; the final report may still deduplicate them.
+ */
+export type AuditProgressEvent =
+  | { type: "started"; provider: string; language: ContractLanguage }
+  | { type: "tokens"; received: number }
+  | { type: "parsing" }
+  | { type: "finding"; vulnerability: Vulnerability }
+  | { type: "retrying"; attempt: number; error: string }
+  | { type: "chunk_started"; chunk: number; totalChunks: number; lines: SourceRange }
+  | { type: "chunk_completed"; chunk: number; totalChunks: number; findings: number }
+  | { type: "chunk_failed"; chunk: number; totalChunks: number; error: string };
 
 /**
  * Default configuration values
- * Updated to use ChainGPT Smart Contract Auditor API
  */
 const DEFAULT_CONFIG = {
-  AUDIT_API_URL: "https://api.chaingpt.org/chat/stream",
   TIMEOUT: 90_000, // 90 seconds
-  MAX_CONTRACT_SIZE: 100_000, // 100KB
+  MAX_CONTRACT_SIZE: 100_000, // 100KB per request; larger sources are audited in chunks
+  MAX_CHUNKED_CONTRACT_SIZE: 2_000_000, // 2MB
+  PARSE_RETRIES: 1,
+  MAX_RETRY_ECHO: 4_000, // Characters of an invalid response quoted back in the retry prompt
 } as const;
 
 /**
@@ -130,9 +224,9 @@ export function validateContractCode(contractCode: string): void {
     throw new AuditError("Contract code cannot be empty", "EMPTY_CONTRACT");
   }
 
-  if (contractCode.length > DEFAULT_CONFIG.MAX_CONTRACT_SIZE) {
+  if (contractCode.length > DEFAULT_CONFIG.MAX_CHUNKED_CONTRACT_SIZE) {
     throw new AuditError(
-      `Contract code exceeds maximum size of ${DEFAULT_CONFIG.MAX_CONTRACT_SIZE} characters`,
+      `Contract code exceeds maximum size of ${DEFAULT_CONFIG.MAX_CHUNKED_CONTRACT_SIZE} characters`,
       "CONTRACT_TOO_LARGE"
     );
   }
@@ -150,73 +244,106 @@ function normalizeSeverity(severity: string | undefined): VulnerabilitySeverity
 }
 
 /**
- * Detects the contract language from the code
+ * Detects the contract language from the code.
+ * A Vyper version pragma or Vyper decorators win; otherwise Solidity keywords are
+ * matched with comments and string literals removed.
  */
-function detectLanguage(code: string): ContractLanguage {
-  // Simple heuristic detection
-  if (code.includes("pragma solidity") || code.includes("contract ") || code.includes("function ")) {
+export function detectLanguage(code: string): ContractLanguage {
+  if (isVyperSource(code)) {
+    return "Vyper";
+  }
+  const stripped = stripCommentsAndStrings(code);
+  if (/\bpragma\s+solidity\b|\b(?:contract|library|interface)\s+\w+|\bfunction\s+\w+\s*\(/.test(stripped)) {
     return "Solidity";
   }
-  if (code.includes("@external") || code.includes("@internal") || code.includes("def ")) {
+  if (/^def\s+\w+\s*\(/m.test(stripVyperCommentsAndStrings(code))) {
     return "Vyper";
   }
   return "Unknown";
 }
 
 /**
- * Audits a smart contract using ChainGPT's Smart Contract Auditor API.
- * 
- * @param contractCode - Solidity or Vyper smart contract source code
- * @param contractName - Optional name for the contract (defaults to "UnnamedContract")
- * @param options - Optional configuration options
- * @returns Structured audit report with vulnerabilities
- * @throws {AuditError} If the audit fails or input is invalid
- * 
- * @example
- * ```typescript
- * const report = await auditSmartContract(
- *   contractCode,
- *   "MyToken",
- *   { timeout: 120000 }
- * );
- * console.log(`Found ${report.vulnerabilities.length} vulnerabilities`);
- * ```
+ * Maps a language name returned by the provider onto ContractLanguage
  */
-export async function auditSmartContract(
-  contractCode: string,
-  contractName?: string,
-  options?: AuditOptions
-): Promise<AuditReport> {
-  // Validate input
-  validateContractCode(contractCode);
+function normalizeLanguage(language: string | undefined): ContractLanguage {
+  const normalized = language?.trim().toLowerCase();
+  if (normalized === "solidity") return "Solidity";
+  if (normalized === "vyper") return "Vyper";
+  return "Unknown";
+}
 
-  // Get configuration
-  const apiUrl = options?.apiUrl || DEFAULT_CONFIG.AUDIT_API_URL;
-  const timeout = options?.timeout || DEFAULT_CONFIG.TIMEOUT;
-  const apiKey = process.env.CHAINGPT_API_KEY;
+/**
+ * Version of the audit prompt (buildAuditPrompt, buildRetryPrompt and the checklists).
+ * Bump it whenever the prompt changes so cached audit results are not reused.
+ */
+export const PROMPT_VERSION = "1";
 
-  if (!apiKey) {
-    throw new AuditError(
-      "Missing CHAINGPT_API_KEY in environment variables",
-      "MISSING_API_KEY"
-    );
-  }
+/**
+ * Vulnerability types the prompt asks the model to focus on, per language
+ */
+const VULNERABILITY_CHECKLISTS: Record<"Solidity" | "Vyper", string[]> = {
+  Solidity: [
+    "Reentrancy attacks",
+    "Access control issues",
+    "Integer overflow/underflow",
+    "Unchecked external calls",
+    "Gas limit issues",
+    "Logic errors",
+    "State variable manipulation",
+    "Front-running vulnerabilities",
+    "Denial of Service attacks",
+  ],
+  Vyper: [
+    "Reentrancy through raw_call, send or interface calls, and missing or shared @nonreentrant locks",
+    "Known compiler bugs for the declared version (e.g., broken @nonreentrant locks in 0.2.15, 0.2.16 and 0.3.0)",
+    "Unchecked raw_call results when revert_on_failure=False",
+    "Access control on @external functions (msg.sender vs tx.origin checks)",
+    "Integer bounds, unsafe_* math and decimal rounding errors",
+    "Unbounded loops over DynArray and gas limit issues",
+    "ERC20 calls without default_return_value for tokens that return nothing",
+    "Unsafe create_minimal_proxy_to, create_copy_of, create_from_blueprint and selfdestruct usage",
+    "Initialization issues in __init__ and immutable/storage layout mistakes",
+    "Logic errors and front-running vulnerabilities",
+  ],
+};
 
-  try {
-    // Create audit prompt for ChainGPT
-    const prompt = `You are a professional smart contract security auditor. Please analyze the following smart contract for security vulnerabilities and provide a detailed audit report.
+/**
+ * Builds the audit prompt sent to the selected provider
+ */
+function buildAuditPrompt(
+  contractCode: string,
+  contractName?: string,
+  language: ContractLanguage = "Solidity",
+  context?: Array<{ path: string; content: string }>
+): string {
+  // Unknown sources are audited as Solidity, as before language detection existed
+  const promptLanguage = language === "Vyper" ? "Vyper" : "Solidity";
+  const fence = promptLanguage.toLowerCase();
+
+  const contextSection = context && context.length > 0
+    ? `
+The contract depends on the following files. They are provided for context only: report vulnerabilities in the contract under audit, and use line numbers from that contract.
+
+${context.map((file) => `File: ${file.path}
+\`\`\`${fence}
+${file.content}
+\`\`\``).join("\n\n")}
+`
+    : "";
+
+  return `You are a professional smart contract security auditor. Please analyze the following ${promptLanguage} smart contract for security vulnerabilities and provide a detailed audit report.
 
 Contract Name: ${contractName || 'Unknown'}
 Contract Code:
-\`\`\`solidity
+\`\`\`${fence}
 ${contractCode}
 \`\`\`
-
+${contextSection}
 Please provide your analysis in the following JSON format (return ONLY valid JSON, no additional text):
 
 {
   "contractName": "${contractName || 'Unknown'}",
-  "language": "Solidity",
+  "language": "${promptLanguage}",
   "summary": "Brief summary of the audit findings",
   "vulnerabilities": [
     {
@@ -230,145 +357,220 @@ Please provide your analysis in the following JSON format (return ONLY valid JSO
       "category": "Reentrancy|Access Control|Integer Overflow|etc"
     }
   ],
-  "linesOfCode": ${contractCode.split('\n').length},
-  "auditEngineVersion": "ChainGPT-Smart-Contract-Auditor"
+  "linesOfCode": ${contractCode.split('\n').length}
 }
 
 Focus on these common vulnerability types:
-- Reentrancy attacks
-- Access control issues
-- Integer overflow/underflow
-- Unchecked external calls
-- Gas limit issues
-- Logic errors
-- State variable manipulation
-- Front-running vulnerabilities
-- Denial of Service attacks
+${VULNERABILITY_CHECKLISTS[promptLanguage].map((item) => `- ${item}`).join("\n")}
 
 Be thorough and provide actionable recommendations for each vulnerability found.`;
+}
 
-    // Create axios client similar to the example
-    const apiClient = axios.create({
-      baseURL: apiUrl,
-      timeout,
-      headers: { 
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json"
-      },
-      responseType: 'stream'
-    });
+/**
+ * Builds the follow-up prompt sent when a response fails validation
+ */
+function buildRetryPrompt(prompt: string, previousResponse: string, error: string): string {
+  const echoed = previousResponse.length > DEFAULT_CONFIG.MAX_RETRY_ECHO
+    ? `${previousResponse.substring(0, DEFAULT_CONFIG.MAX_RETRY_ECHO)}\n[truncated]`
+    : previousResponse;
 
-    const response = await apiClient.post('/', {
-      model: "smart_contract_auditor",
-      question: prompt
-    });
+  return `${prompt}
 
-    // Handle streaming response from ChainGPT using event listeners like the example
-    let responseText = '';
-    const stream = response.data;
+Your previous response could not be used: ${error}
 
-    // Use Promise to handle the streaming response
-    await new Promise<void>((resolve, reject) => {
-      stream.on('data', (chunk: Buffer) => {
-        responseText += chunk.toString();
-      });
-      
-      stream.on('end', () => {
-        resolve();
-      });
-      
-      stream.on('error', (error: Error) => {
-        reject(error);
-      });
-    });
+Previous response:
+"""
+${echoed || "(empty)"}
+"""
 
-    // Parse JSON from the response
-    let data: ChainGPTResponse;
-    try {
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-      data = JSON.parse(jsonMatch[0]);
-    } catch (parseError) {
-      // If JSON parsing fails, create a basic response
-      console.warn('Failed to parse ChainGPT JSON response, creating fallback:', parseError);
-      data = {
-        contractName: contractName || 'Unknown',
-        language: 'Solidity',
-        summary: 'Audit completed. Please review the response manually.',
-        vulnerabilities: [{
-          id: 'manual-review-1',
-          title: 'Manual Review Required',
-          description: `The AI response could not be automatically parsed. Raw response: ${responseText.substring(0, 500)}...`,
-          severity: 'MEDIUM',
-          recommendation: 'Please review the raw AI response and manually identify vulnerabilities.',
-          category: 'Manual Review'
-        }],
-        linesOfCode: contractCode.split('\n').length,
-        auditEngineVersion: 'ChainGPT-Smart-Contract-Auditor'
-      };
+Respond again with ONLY the complete JSON object in the format above. Do not wrap it in code fences or add any other text.`;
+}
+
+/**
+ * Audits a smart contract using the selected audit provider (ChainGPT by default).
+ * 
+ * @param contractCode - Solidity or Vyper smart contract source code
+ * @param contractName - Optional name for the contract (defaults to "UnnamedContract")
+ * @param options - Optional configuration options, including the provider to use
+ * @returns Structured audit report with vulnerabilities
+ * @throws {AuditError} If the audit fails or input is invalid
+ * 
+ * @example
+ * ```typescript
+ * const report = await auditSmartContract(
+ *   contractCode,
+ *   "MyToken",
+ *   { timeout: 120000, provider: "chaingpt" }
+ * );
+ * console.log(`Found ${report.vulnerabilities.length} vulnerabilities`);
+ * ```
+ */
+export async function auditSmartContract(
+  contractCode: string,
+  contractName?: string,
+  options?: AuditOptions
+): Promise<AuditReport> {
+  // Validate input
+  validateContractCode(contractCode);
+
+  // Resolve the provider for this request (falls back to AUDIT_PROVIDER, then ChainGPT)
+  const provider = getAuditProvider(options?.provider);
+  const timeout = options?.timeout || DEFAULT_CONFIG.TIMEOUT;
+  const language = options?.language || detectLanguage(contractCode);
+  options?.onProgress?.({ type: "started", provider: provider.name, language });
+
+  // Sources larger than a single request are split and audited chunk by chunk
+  if (contractCode.length > DEFAULT_CONFIG.MAX_CONTRACT_SIZE) {
+    // A chunk is only this large when a single line is (minified or flattened source)
+    if (options?.isChunk) {
+      throw new AuditError(
+        `Chunk exceeds maximum size of ${DEFAULT_CONFIG.MAX_CONTRACT_SIZE} characters and cannot be split further`,
+        "CONTRACT_TOO_LARGE"
+      );
     }
+    return auditInChunks(contractCode, contractName, { ...options, language });
+  }
 
-    // Parse vulnerabilities with the new function field
-    const vulnerabilities: Vulnerability[] = (data.vulnerabilities || []).map((v: any, index: number) => ({
-      id: v.id || `vuln-${index + 1}`,
-      title: v.title || "Untitled Vulnerability",
-      description: v.description || "No description provided",
-      severity: normalizeSeverity(v.severity),
-      recommendation: v.recommendation || "Please review this issue carefully",
-      function: v.function,
-      lines: v.lines,
-      category: v.category,
-    }));
-
-    // Create the audit report
-    const report: AuditReport = {
-      contractName: data.contractName || contractName || "UnnamedContract",
-      language: (data.language as ContractLanguage) || detectLanguage(contractCode),
-      summary: data.summary || `Audit complete. Found ${vulnerabilities.length} vulnerabilities.`,
-      vulnerabilities,
-      linesOfCode: data.linesOfCode || contractCode.split("\n").length,
-      auditedAt: new Date(),
-      auditEngineVersion: data.auditEngineVersion || "ChainGPT-Smart-Contract-Auditor",
-      rawResponse: responseText,
-    };
-
-    return report;
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      const errorMessage = axiosError.response?.data
-        ? JSON.stringify(axiosError.response.data)
-        : axiosError.message;
-
-      if (axiosError.response?.status === 401) {
-        throw new AuditError("Invalid API key provided to ChainGPT", "UNAUTHORIZED", errorMessage);
-      }
-      if (axiosError.response?.status === 429) {
-        throw new AuditError("Rate limit exceeded. Please try again later.", "RATE_LIMITED", errorMessage);
-      }
-      if (axiosError.response?.status === 402) {
-        throw new AuditError("Insufficient credits or quota exceeded for ChainGPT API", "INSUFFICIENT_CREDITS", errorMessage);
-      }
-      if (axiosError.code === "ECONNABORTED") {
-        throw new AuditError("Audit request timed out. The contract may be too complex.", "TIMEOUT", errorMessage);
+  // Parse the source; the model is stored with the report and used to check AI finding locations
+  const parsedModel = language === "Vyper"
+    ? parseVyperModel(contractCode, contractName)
+    : parseContractModel(contractCode);
+  const contractModel = parsedModel.contracts.length > 0 ? parsedModel : undefined;
+  const linesOfCode = contractCode.split("\n").length;
+
+  // Run the static analysis pass first; its findings are merged next to the AI findings
+  // (the rules match Solidity syntax, so Vyper sources skip this pass)
+  const staticFindings = options?.staticAnalysis === false || language === "Vyper" ? [] : runStaticAnalysis(contractCode);
+
+  let received = 0;
+  const providerTiming: ProviderTiming = { requests: 0, durationMs: 0 };
+  const requestAudit = async (prompt: string, attempt: number): Promise<ProviderAuditResult> => {
+    const requestStartedAt = Date.now();
+    providerTiming.requests++;
+    try {
+      return await provider.audit(contractCode, contractName, {
+        prompt,
+        timeout,
+        apiUrl: options?.apiUrl,
+        model: options?.model,
+        attempt,
+        onData: options?.onProgress
+          ? (chunk) => {
+              received += chunk.length;
+              options.onProgress?.({ type: "tokens", received });
+            }
+          : undefined,
+      });
+    } catch (error) {
+      if (error instanceof AuditError) {
+        throw error;
       }
-
       throw new AuditError(
-        `Audit request failed: ${errorMessage}`,
-        "API_ERROR",
-        axiosError.response?.data
+        "An unexpected error occurred during the audit",
+        "UNKNOWN_ERROR",
+        error
       );
+    } finally {
+      providerTiming.durationMs += Date.now() - requestStartedAt;
     }
+  };
 
-    // Non-Axios errors
+  const prompt = buildAuditPrompt(contractCode, contractName, language, options?.context);
+  let result = await requestAudit(prompt, 1);
+
+  // Parse and validate the JSON report; invalid output is repaired where possible,
+  // otherwise the model is asked again with the validation error
+  options?.onProgress?.({ type: "parsing" });
+  let parsed = parseAuditResponse(result.responseText);
+  const maxRetries = options?.parseRetries ?? DEFAULT_CONFIG.PARSE_RETRIES;
+  for (let attempt = 2; !parsed.success && attempt <= maxRetries + 1; attempt++) {
+    options?.onProgress?.({ type: "retrying", attempt, error: parsed.error });
+    result = await requestAudit(buildRetryPrompt(prompt, result.responseText, parsed.error), attempt);
+    options?.onProgress?.({ type: "parsing" });
+    parsed = parseAuditResponse(result.responseText);
+  }
+
+  const { responseText } = result;
+  if (!parsed.success) {
     throw new AuditError(
-      "An unexpected error occurred during the audit",
-      "UNKNOWN_ERROR",
-      error
+      `The audit response could not be parsed: ${parsed.error}`,
+      "PARSE_FAILED",
+      { responseText: responseText.substring(0, 500) }
     );
   }
+  const data: ChainGPTResponse = parsed.data;
+  const auditEngineVersion = formatEngineVersion(provider, result.model);
+
+  // Parse vulnerabilities with the new function field
+  const aiFindings: Vulnerability[] = data.vulnerabilities.map((v, index) => ({
+    id: v.id || `vuln-${index + 1}`,
+    title: v.title,
+    description: v.description,
+    severity: normalizeSeverity(v.severity),
+    recommendation: v.recommendation || "Please review this issue carefully",
+    function: v.function,
+    lines: v.lines,
+    category: v.category,
+    source: "ai",
+  }));
+  const verifiedFindings = contractModel
+    ? validateVulnerabilityLocations(aiFindings, contractModel, linesOfCode)
+    : aiFindings;
+  const vulnerabilities = uniqueFindingIds(addFingerprints(mergeFindings(verifiedFindings, staticFindings), contractCode));
+
+  // Create the audit report
+  const report: AuditReport = {
+    contractName: data.contractName || contractName || "UnnamedContract",
+    language: language !== "Unknown" ? language : normalizeLanguage(data.language),
+    summary: data.summary || `Audit complete. Found ${vulnerabilities.length} vulnerabilities.`,
+    vulnerabilities,
+    linesOfCode: data.linesOfCode || linesOfCode,
+    contractModel,
+    auditedAt: new Date(),
+    auditEngineVersion,
+    rawResponse: responseText,
+    providerTiming,
+  };
+
+  vulnerabilities.forEach((vulnerability) => options?.onProgress?.({ type: "finding", vulnerability }));
+  return report;
+}
+
+/**
+ * Sums the provider timing of the reports a combined (chunked or project) report was built from
+ */
+export function combineProviderTiming(reports: AuditReport[]): ProviderTiming {
+  return reports.reduce(
+    (total, report) => ({
+      requests: total.requests + (report.providerTiming?.requests || 0),
+      durationMs: total.durationMs + (report.providerTiming?.durationMs || 0),
+    }),
+    { requests: 0, durationMs: 0 }
+  );
+}
+
+/**
+ * Options for functions that summarize or score a report
+ */
+export interface ScoringOptions {
+  /** Leave out findings triaged as false positive, accepted risk or fixed */
+  excludeDismissed?: boolean;
+}
+
+/**
+ * Whether a finding was dismissed by a reviewer (see DISMISSED_TRIAGE_STATUSES)
+ */
+export function isDismissed(vulnerability: Vulnerability): boolean {
+  return !!vulnerability.triage && DISMISSED_TRIAGE_STATUSES.includes(vulnerability.triage.status);
+}
+
+/**
+ * Returns the findings of a report, without dismissed ones when `excludeDismissed` is set
+ */
+export function getScoredVulnerabilities(report: Pick<AuditReport, 'vulnerabilities'>, options: ScoringOptions = {}): Vulnerability[] {
+  return options.excludeDismissed
+    ? report.vulnerabilities.filter((vulnerability) => !isDismissed(vulnerability))
+    : report.vulnerabilities;
 }
 
 /**
@@ -385,9 +587,10 @@ export interface VulnerabilitySummary {
 /**
  * Summarizes vulnerabilities by severity level
  * @param report - The audit report to summarize
+ * @param options - Set `excludeDismissed` to count only findings still considered a risk
  * @returns Summary object with counts for each severity level
  */
-export function summarizeVulnerabilities(report: AuditReport): VulnerabilitySummary {
+export function summarizeVulnerabilities(report: Pick<AuditReport, 'vulnerabilities'>, options: ScoringOptions = {}): VulnerabilitySummary {
   const summary: VulnerabilitySummary = {
     CRITICAL: 0,
     HIGH: 0,
@@ -396,7 +599,7 @@ export function summarizeVulnerabilities(report: AuditReport): VulnerabilitySumm
     total: 0,
   };
 
-  report.vulnerabilities.forEach((vulnerability) => {
+  getScoredVulnerabilities(report, options).forEach((vulnerability) => {
     summary[vulnerability.severity]++;
     summary.total++;
   });
@@ -441,10 +644,11 @@ export function groupVulnerabilitiesByFunction(
 /**
  * Calculates a simple risk score for the contract
  * @param report - The audit report to analyze
+ * @param options - Set `excludeDismissed` to score only findings still considered a risk
  * @returns Risk score from 0 (low risk) to 100 (high risk)
  */
-export function calculateRiskScore(report: AuditReport): number {
-  const summary = summarizeVulnerabilities(report);
+export function calculateRiskScore(report: Pick<AuditReport, 'vulnerabilities'>, options: ScoringOptions = {}): number {
+  const summary = summarizeVulnerabilities(report, options);
   
   // Weighted scoring: CRITICAL = 25, HIGH = 15, MEDIUM = 5, LOW = 1
   const score = Math.min(
@@ -465,20 +669,40 @@ export function calculateRiskScore(report: AuditReport): number {
  * @returns Pre-audit score from 0-100 (higher = more complex/needs more attention)
  */
 export function calculatePreAuditScore(contractCode: string, contractName?: string): number {
-  const linesOfCode = contractCode.split('\n').length;
-  const linesWithoutComments = contractCode.split('\n').filter(line => {
-    const trimmed = line.trim();
-    return trimmed.length > 0 && !trimmed.startsWith('//') && !trimmed.startsWith('/*');
-  }).length;
-  
-  // Calculate complexity factors
-  const hasMultipleContracts = (contractCode.match(/contract\s+\w+/g) || []).length > 1;
-  const hasInheritance = contractCode.includes('is ');
-  const hasModifiers = (contractCode.match(/modifier\s+\w+/g) || []).length;
-  const hasEvents = (contractCode.match(/event\s+\w+/g) || []).length;
-  const hasFunctions = (contractCode.match(/function\s+\w+/g) || []).length;
-  const hasLibraries = contractCode.includes('library ');
-  const hasInterfaces = contractCode.includes('interface ');
+  if (detectLanguage(contractCode) === "Vyper") {
+    return calculateVyperPreAuditScore(contractCode, contractName);
+  }
+
+  // Comments and strings are blanked out so they never count as code or keywords
+  const stripped = stripCommentsAndStrings(contractCode);
+  const linesWithoutComments = stripped.split('\n').filter(line => line.trim().length > 0).length;
+
+  // Calculate complexity factors from the parsed model, falling back to keyword counts
+  const model = parseContractModel(contractCode);
+  const contracts = model.contracts;
+  const parsed = contracts.length > 0;
+
+  const hasMultipleContracts = parsed
+    ? contracts.length > 1
+    : (stripped.match(/\bcontract\s+\w+/g) || []).length > 1;
+  const hasInheritance = parsed
+    ? contracts.some(c => c.baseContracts.length > 0)
+    : /\bcontract\s+\w+\s+is\s+\w+/.test(stripped);
+  const hasModifiers = parsed
+    ? contracts.reduce((sum, c) => sum + c.modifiers.length, 0)
+    : (stripped.match(/\bmodifier\s+\w+/g) || []).length;
+  const hasEvents = parsed
+    ? contracts.reduce((sum, c) => sum + c.events.length, 0)
+    : (stripped.match(/\bevent\s+\w+/g) || []).length;
+  const hasFunctions = parsed
+    ? contracts.reduce((sum, c) => sum + c.functions.length, 0)
+    : (stripped.match(/\bfunction\s+\w+/g) || []).length;
+  const hasLibraries = parsed
+    ? contracts.some(c => c.kind === 'library')
+    : /\blibrary\s+\w+/.test(stripped);
+  const hasInterfaces = parsed
+    ? contracts.some(c => c.kind === 'interface')
+    : /\binterface\s+\w+/.test(stripped);
   
   // Base score from code size (0-40 points)
   let score = Math.min(40, (linesWithoutComments / 10));
@@ -496,6 +720,37 @@ export function calculatePreAuditScore(contractCode: string, contractName?: stri
   return Math.min(100, Math.max(0, Math.round(score)));
 }
 
+/**
+ * Vyper counterpart of calculatePreAuditScore.
+ * Vyper has no inheritance, modifiers or libraries, so interfaces, `implements:`,
+ * reentrancy locks and value-moving built-ins (raw_call, send, proxies) carry the weight.
+ */
+function calculateVyperPreAuditScore(contractCode: string, contractName?: string): number {
+  const stripped = stripVyperCommentsAndStrings(contractCode);
+  const linesWithoutComments = stripped.split('\n').filter(line => line.trim().length > 0).length;
+
+  const model = parseVyperModel(contractCode, contractName);
+  const [module, ...interfaces] = model.contracts;
+  const lowLevelCalls = countVyperLowLevelCalls(contractCode);
+  const lockedFunctions = module.functions.filter(fn => fn.modifiers.includes('nonreentrant')).length;
+  const payableFunctions = module.functions.filter(fn => fn.stateMutability === 'payable').length;
+
+  // Base score from code size (0-40 points)
+  let score = Math.min(40, (linesWithoutComments / 10));
+
+  // Complexity factors (0-60 points)
+  if (interfaces.length > 0 || model.imports.length > 0) score += 7;
+  if (module.baseContracts.length > 0) score += 5;
+  if (payableFunctions > 0) score += 5;
+  score += Math.min(15, lowLevelCalls * 3);
+  score += Math.min(8, lockedFunctions * 2);
+  score += Math.min(10, module.events.length);
+  score += Math.min(10, Math.floor(module.functions.length / 5) * 2);
+
+  // Normalize to 0-100
+  return Math.min(100, Math.max(0, Math.round(score)));
+}
+
 /**
  * Calculates a post-audit security score based on vulnerabilities found
  * @param report - The audit report to analyze
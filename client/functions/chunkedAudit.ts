@@ -0,0 +1,332 @@
+// /functions/chunkedAudit.ts
+import {
+  auditSmartContract,
+  combineProviderTiming,
+  detectLanguage,
+  AuditError,
+  type AuditOptions,
+  type AuditReport,
+  type Vulnerability,
+  type VulnerabilitySeverity,
+} from "./auditInit";
+import { parseContractModel, validateVulnerabilityLocations, type ContractModel, type SourceRange } from "./contractModel";
+import { runStaticAnalysis, mergeFindings } from "./staticAnalysis";
+import { parseVyperModel } from "./vyper";
+import { addFingerprints, uniqueFindingIds } from "./fingerprint";
+
+/**
+ * A contiguous slice of the original source audited in one provider request
+ */
+export interface ContractChunk {
+  /** 0-based chunk index */
+  index: number;
+  /** Original lines covered by the chunk */
+  lines: SourceRange;
+  code: string;
+  /** Shared declarations sent with the chunk as read-only context */
+  context: Array<{ path: string; content: string }>;
+}
+
+/**
+ * Per-chunk result stored with a chunked report
+ */
+export interface AuditChunkReport {
+  index: number;
+  lines: SourceRange;
+  status: "completed" | "failed";
+  vulnerabilitiesFound?: number;
+  error?: string;
+}
+
+/**
+ * Size limits for chunked audits
+ */
+const CHUNK_CONFIG = {
+  /** Target size of each chunk, leaving room in the request for shared context */
+  CHUNK_SIZE: 60_000,
+  /** Maximum size of the shared context sent with each chunk */
+  MAX_CONTEXT_SIZE: 20_000,
+} as const;
+
+const SEVERITY_RANK: Record<VulnerabilitySeverity, number> = { LOW: 0, MEDIUM: 1, HIGH: 2, CRITICAL: 3 };
+
+/** AuditError codes that will fail every chunk, so the audit stops at the first one */
+const FATAL_CODES = ["MISSING_API_KEY", "UNAUTHORIZED", "INSUFFICIENT_CREDITS", "UNKNOWN_PROVIDER"];
+
+/**
+ * Builds the outline of a contract: its header, state variables, events and modifier
+ * signatures, plus function signatures when `withFunctions` is set (used for bases).
+ */
+function outlineContract(lines: string[], model: ContractModel, name: string, withFunctions: boolean): string | undefined {
+  const contract = model.contracts.find((c) => c.name === name);
+  if (!contract) return undefined;
+
+  const memberLines = [
+    ...contract.stateVariables.map((variable) => variable.line),
+    ...contract.events.map((event) => event.line),
+    ...contract.modifiers.map((modifier) => modifier.lines.start),
+    ...(withFunctions ? contract.functions.map((fn) => fn.lines.start) : []),
+  ];
+
+  const body = Array.from(new Set(memberLines))
+    .sort((a, b) => a - b)
+    .map((line) => `    ${lines[line - 1].trim()}`);
+
+  // Vyper modules have no braces; their outline starts at the first line of the module
+  const header = lines[contract.lines.start - 1].trim();
+  return [header, ...body, ...(header.endsWith("{") ? ["}"] : [])].join("\n");
+}
+
+/**
+ * Builds the shared context for a chunk: pragmas and imports, outlines of the contracts
+ * the chunk only partially covers, and outlines of their base contracts.
+ */
+function buildChunkContext(lines: string[], model: ContractModel, range: SourceRange): ContractChunk["context"] {
+  const context: ContractChunk["context"] = [];
+  let size = 0;
+  const add = (path: string, content: string | undefined) => {
+    if (!content || size + content.length > CHUNK_CONFIG.MAX_CONTEXT_SIZE) return;
+    context.push({ path, content });
+    size += content.length;
+  };
+
+  if (range.start > 1) {
+    const header = lines
+      .slice(0, range.start - 1)
+      .filter((line) => /^\s*(?:pragma|import|from\s+\S+\s+import)\b|^\s*#\s*(?:@version|pragma)\b/.test(line))
+      .join("\n");
+    add("Header (pragmas and imports)", header || undefined);
+  }
+
+  const partial = model.contracts.filter(
+    (c) => c.lines.start <= range.end && c.lines.end >= range.start && (c.lines.start < range.start || c.lines.end > range.end)
+  );
+  const outlined = new Set<string>();
+
+  partial.forEach((contract) => {
+    add(`${contract.name} (outline)`, outlineContract(lines, model, contract.name, false));
+    outlined.add(contract.name);
+  });
+
+  // Base contracts of everything in the chunk that live outside the chunk
+  model.contracts
+    .filter((c) => c.lines.start <= range.end && c.lines.end >= range.start)
+    .flatMap((c) => c.inheritanceChain.slice(1))
+    .forEach((base) => {
+      const definition = model.contracts.find((c) => c.name === base);
+      if (outlined.has(base) || !definition || (definition.lines.start >= range.start && definition.lines.end <= range.end)) return;
+      add(`${base} (inherited, outline)`, outlineContract(lines, model, base, true));
+      outlined.add(base);
+    });
+
+  return context;
+}
+
+/**
+ * Splits source into chunks at contract boundaries, and at function boundaries inside
+ * contracts that are themselves larger than a chunk. Segments are packed greedily;
+ * a single oversized function is split by lines as a last resort.
+ * @param contractCode - Full source
+ * @param model - Parsed model of the source (boundaries fall back to lines when empty)
+ */
+export function splitIntoChunks(contractCode: string, model: ContractModel, chunkSize: number = CHUNK_CONFIG.CHUNK_SIZE): ContractChunk[] {
+  const lines = contractCode.split("\n");
+  const lineSize = (line: number) => lines[line - 1].length + 1;
+  const rangeSize = (start: number, end: number) => {
+    let size = 0;
+    for (let line = start; line <= end; line++) size += lineSize(line);
+    return size;
+  };
+
+  // Lines where a chunk may start
+  const boundaries = new Set<number>([1]);
+  model.contracts.forEach((contract) => {
+    boundaries.add(contract.lines.start);
+    if (rangeSize(contract.lines.start, contract.lines.end) > chunkSize) {
+      contract.functions.forEach((fn) => boundaries.add(fn.lines.start));
+      contract.modifiers.forEach((modifier) => boundaries.add(modifier.lines.start));
+    }
+  });
+
+  const starts = Array.from(boundaries).filter((line) => line >= 1 && line <= lines.length).sort((a, b) => a - b);
+  const segments: SourceRange[] = starts.map((start, i) => ({
+    start,
+    end: i + 1 < starts.length ? starts[i + 1] - 1 : lines.length,
+  }));
+
+  // Pack segments into chunks
+  const ranges: SourceRange[] = [];
+  let current: SourceRange | undefined;
+  let currentSize = 0;
+
+  const flush = () => {
+    if (current) ranges.push(current);
+    current = undefined;
+    currentSize = 0;
+  };
+
+  segments.forEach((segment) => {
+    const size = rangeSize(segment.start, segment.end);
+
+    if (size > chunkSize) {
+      flush();
+      let start = segment.start;
+      let pieceSize = 0;
+      for (let line = segment.start; line <= segment.end; line++) {
+        if (pieceSize + lineSize(line) > chunkSize && line > start) {
+          ranges.push({ start, end: line - 1 });
+          start = line;
+          pieceSize = 0;
+        }
+        pieceSize += lineSize(line);
+      }
+      ranges.push({ start, end: segment.end });
+      return;
+    }
+
+    if (current && currentSize + size > chunkSize) {
+      flush();
+    }
+    current = current ? { start: current.start, end: segment.end } : { ...segment };
+    currentSize += size;
+  });
+  flush();
+
+  return ranges.map((range, index) => ({
+    index,
+    lines: range,
+    code: lines.slice(range.start - 1, range.end).join("\n"),
+    context: buildChunkContext(lines, model, range),
+  }));
+}
+
+/**
+ * Findings of a chunk with their lines mapped back to the original source
+ */
+function toSourceFindings(chunk: ContractChunk, report: AuditReport): Vulnerability[] {
+  return report.vulnerabilities.map((vulnerability) => ({
+    ...vulnerability,
+    id: `chunk${chunk.index + 1}-${vulnerability.id}`,
+    lines: vulnerability.lines?.map((line) => line + chunk.lines.start - 1),
+  }));
+}
+
+/**
+ * Deduplicates findings reported by more than one chunk.
+ * Findings in the same category are merged when they name the same function or carry
+ * the same title, keeping the highest severity and the union of lines.
+ */
+export function dedupeFindings(findings: Vulnerability[]): Vulnerability[] {
+  const merged: Vulnerability[] = [];
+  const normalizeTitle = (title: string) => title.toLowerCase().replace(/\s+/g, " ").trim();
+
+  findings.forEach((finding) => {
+    const index = merged.findIndex((existing) =>
+      (existing.category || "").toLowerCase() === (finding.category || "").toLowerCase() &&
+      ((existing.function && existing.function === finding.function) ||
+        normalizeTitle(existing.title) === normalizeTitle(finding.title))
+    );
+
+    if (index === -1) {
+      merged.push(finding);
+      return;
+    }
+
+    const existing = merged[index];
+    const keep = SEVERITY_RANK[finding.severity] > SEVERITY_RANK[existing.severity] ? finding : existing;
+    const lines = Array.from(new Set([...(existing.lines || []), ...(finding.lines || [])])).sort((a, b) => a - b);
+    merged[index] = { ...keep, lines: lines.length > 0 ? lines : undefined };
+  });
+
+  return merged;
+}
+
+/**
+ * Audits a source larger than a single request allows by splitting it into chunks.
+ *
+ * Each chunk is audited with shared context (pragmas, imports, state variables,
+ * modifiers and inherited contract outlines). Chunk line numbers are mapped back to
+ * the original source, findings are deduplicated across chunks, and static analysis
+ * runs once over the whole source. Progress is reported through `options.onProgress`.
+ *
+ * @throws {AuditError} If every chunk fails, or a chunk fails in a way that would fail every chunk
+ */
+export async function auditInChunks(
+  contractCode: string,
+  contractName?: string,
+  options?: AuditOptions
+): Promise<AuditReport> {
+  const language = options?.language || detectLanguage(contractCode);
+  const model = language === "Vyper" ? parseVyperModel(contractCode, contractName) : parseContractModel(contractCode);
+  const chunks = splitIntoChunks(contractCode, model);
+  const totalChunks = chunks.length;
+  const linesOfCode = contractCode.split("\n").length;
+
+  const chunkReports: AuditChunkReport[] = [];
+  const reports: Array<{ chunk: ContractChunk; report: AuditReport }> = [];
+  let lastError: unknown;
+
+  for (const chunk of chunks) {
+    options?.onProgress?.({ type: "chunk_started", chunk: chunk.index + 1, totalChunks, lines: chunk.lines });
+
+    try {
+      const report = await auditSmartContract(chunk.code, contractName, {
+        ...options,
+        language,
+        context: [...(options?.context || []), ...chunk.context],
+        staticAnalysis: false, // Runs once over the full source below
+        onProgress: undefined,
+        isChunk: true,
+      });
+      reports.push({ chunk, report });
+      chunkReports.push({ index: chunk.index, lines: chunk.lines, status: "completed", vulnerabilitiesFound: report.vulnerabilities.length });
+      options?.onProgress?.({ type: "chunk_completed", chunk: chunk.index + 1, totalChunks, findings: report.vulnerabilities.length });
+      toSourceFindings(chunk, report).forEach((vulnerability) => options?.onProgress?.({ type: "finding", vulnerability }));
+    } catch (error) {
+      if (error instanceof AuditError && FATAL_CODES.includes(error.code || "")) {
+        throw error;
+      }
+      lastError = error;
+      const message = error instanceof Error ? error.message : String(error);
+      chunkReports.push({ index: chunk.index, lines: chunk.lines, status: "failed", error: message });
+      options?.onProgress?.({ type: "chunk_failed", chunk: chunk.index + 1, totalChunks, error: message });
+    }
+  }
+
+  if (reports.length === 0) {
+    throw lastError instanceof AuditError
+      ? lastError
+      : new AuditError("Every chunk of the contract failed to audit", "UNKNOWN_ERROR", lastError);
+  }
+
+  const aiFindings = reports.flatMap(({ chunk, report }) => toSourceFindings(chunk, report));
+
+  const verified = model.contracts.length > 0
+    ? validateVulnerabilityLocations(dedupeFindings(aiFindings), model, linesOfCode)
+    : dedupeFindings(aiFindings);
+  const staticFindings = options?.staticAnalysis === false || language === "Vyper" ? [] : runStaticAnalysis(contractCode);
+  const vulnerabilities = uniqueFindingIds(addFingerprints(mergeFindings(verified, staticFindings), contractCode));
+  vulnerabilities
+    .filter((vulnerability) => vulnerability.source === "static-analysis")
+    .forEach((vulnerability) => options?.onProgress?.({ type: "finding", vulnerability }));
+
+  const failed = chunkReports.filter((chunkReport) => chunkReport.status === "failed");
+  const summary = [
+    `Audited in ${totalChunks} chunks${failed.length > 0 ? ` (${failed.length} failed)` : ""}. Found ${vulnerabilities.length} vulnerabilities.`,
+    ...reports.map(({ chunk, report }) => `Lines ${chunk.lines.start}-${chunk.lines.end}: ${report.summary}`),
+  ].join("\n");
+
+  return {
+    contractName: contractName || reports[0].report.contractName,
+    language: language !== "Unknown" ? language : reports[0].report.language,
+    summary,
+    vulnerabilities,
+    linesOfCode,
+    contractModel: model.contracts.length > 0 ? model : undefined,
+    auditedAt: new Date(),
+    auditEngineVersion: reports[0].report.auditEngineVersion,
+    rawResponse: reports.map(({ chunk, report }) => ({ lines: chunk.lines, response: report.rawResponse })),
+    chunks: chunkReports,
+    providerTiming: combineProviderTiming(reports.map(({ report }) => report)),
+  };
+}
@@ -0,0 +1,371 @@
+// /functions/contractModel.ts
+import { parse } from "@solidity-parser/parser";
+import type {
+  ASTNode,
+  BaseASTNode,
+  ContractDefinition,
+  EventDefinition,
+  FunctionDefinition,
+  ModifierDefinition,
+  StateVariableDeclaration,
+  TypeName,
+  VariableDeclaration,
+} from "@solidity-parser/parser/dist/src/ast-types";
+import type { Vulnerability } from "./auditInit";
+
+/**
+ * 1-based, inclusive line range in the submitted source
+ */
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A typed parameter of a function, modifier or event
+ */
+export interface ContractParameter {
+  name?: string;
+  type: string;
+}
+
+/**
+ * A function, constructor, fallback or receive function
+ */
+export interface ContractFunction {
+  /** Function name ("constructor", "fallback" and "receive" for the special functions) */
+  name: string;
+  kind: "function" | "constructor" | "fallback" | "receive";
+  visibility: "public" | "external" | "internal" | "private" | "default";
+  stateMutability: "pure" | "view" | "payable" | "nonpayable";
+  /** Names of the modifiers applied to the function */
+  modifiers: string[];
+  parameters: ContractParameter[];
+  returns: ContractParameter[];
+  isVirtual: boolean;
+  /** Whether the function has an implementation (false in interfaces and abstract declarations) */
+  hasBody: boolean;
+  lines: SourceRange;
+}
+
+/**
+ * A modifier definition
+ */
+export interface ContractModifier {
+  name: string;
+  parameters: ContractParameter[];
+  lines: SourceRange;
+}
+
+/**
+ * A state variable declaration
+ */
+export interface ContractStateVariable {
+  name: string;
+  type: string;
+  visibility: "public" | "internal" | "private" | "default";
+  isConstant: boolean;
+  isImmutable: boolean;
+  line: number;
+}
+
+/**
+ * An event definition
+ */
+export interface ContractEvent {
+  name: string;
+  parameters: ContractParameter[];
+  line: number;
+}
+
+/**
+ * A contract, abstract contract, interface or library
+ */
+export interface ContractDefinitionModel {
+  name: string;
+  kind: "contract" | "abstract" | "interface" | "library";
+  /** Direct base contracts, as written in the `is` clause */
+  baseContracts: string[];
+  /** C3-linearized inheritance chain, most derived first (bases not defined in the source are included by name) */
+  inheritanceChain: string[];
+  functions: ContractFunction[];
+  modifiers: ContractModifier[];
+  stateVariables: ContractStateVariable[];
+  events: ContractEvent[];
+  lines: SourceRange;
+}
+
+/**
+ * Parsed model of a submitted Solidity source
+ */
+export interface ContractModel {
+  pragmas: Array<{ name: string; value: string }>;
+  imports: string[];
+  contracts: ContractDefinitionModel[];
+  /** Syntax errors reported by the parser (the model covers whatever could be recovered) */
+  parseErrors: string[];
+}
+
+/**
+ * Renders a parser type node back to its Solidity spelling
+ */
+function typeNameToString(typeName: TypeName | null): string {
+  if (!typeName) return "unknown";
+
+  switch (typeName.type) {
+    case "ElementaryTypeName":
+      return typeName.stateMutability ? `${typeName.name} ${typeName.stateMutability}` : typeName.name;
+    case "UserDefinedTypeName":
+      return typeName.namePath;
+    case "ArrayTypeName": {
+      const length = typeName.length && "number" in typeName.length ? typeName.length.number : "";
+      return `${typeNameToString(typeName.baseTypeName)}[${length}]`;
+    }
+    case "Mapping":
+      return `mapping(${typeNameToString(typeName.keyType)} => ${typeNameToString(typeName.valueType)})`;
+    case "FunctionTypeName":
+      return "function";
+    default:
+      return "unknown";
+  }
+}
+
+function toParameters(parameters: VariableDeclaration[] | null): ContractParameter[] {
+  return (parameters || []).map((parameter) => ({
+    name: parameter.name || undefined,
+    type: typeNameToString(parameter.typeName),
+  }));
+}
+
+function toRange(node: BaseASTNode): SourceRange {
+  return {
+    start: node.loc?.start.line ?? 0,
+    end: node.loc?.end.line ?? 0,
+  };
+}
+
+function toFunction(node: FunctionDefinition): ContractFunction {
+  const kind = node.isConstructor ? "constructor"
+    : node.isReceiveEther ? "receive"
+    : node.isFallback ? "fallback"
+    : "function";
+
+  return {
+    name: node.name || kind,
+    kind,
+    visibility: node.visibility,
+    stateMutability: node.stateMutability === "constant" ? "view" : node.stateMutability || "nonpayable",
+    modifiers: node.modifiers.map((modifier) => modifier.name),
+    parameters: toParameters(node.parameters),
+    returns: toParameters(node.returnParameters),
+    isVirtual: node.isVirtual,
+    hasBody: node.body !== null,
+    lines: toRange(node),
+  };
+}
+
+/**
+ * C3 linearization of the inheritance graph, as used by the Solidity compiler.
+ * Bases listed later in the `is` clause are "more derived" and come first.
+ */
+function linearize(
+  name: string,
+  bases: Map<string, string[]>,
+  memo: Map<string, string[]>,
+  visiting: Set<string> = new Set()
+): string[] {
+  const cached = memo.get(name);
+  if (cached) return cached;
+  if (visiting.has(name)) return [name];
+  visiting.add(name);
+
+  const directBases = [...(bases.get(name) || [])].reverse();
+  const sequences = [
+    ...directBases.map((base) => [...linearize(base, bases, memo, visiting)]),
+    [...directBases],
+  ].filter((sequence) => sequence.length > 0);
+
+  const result = [name];
+  while (sequences.some((sequence) => sequence.length > 0)) {
+    const candidate = sequences
+      .filter((sequence) => sequence.length > 0)
+      .map((sequence) => sequence[0])
+      .find((head) => !sequences.some((sequence) => sequence.indexOf(head) > 0));
+
+    if (!candidate) {
+      // Inconsistent hierarchy: fall back to depth-first order
+      sequences.flat().forEach((base) => {
+        if (!result.includes(base)) result.push(base);
+      });
+      break;
+    }
+
+    result.push(candidate);
+    sequences.forEach((sequence) => {
+      if (sequence[0] === candidate) sequence.shift();
+    });
+  }
+
+  visiting.delete(name);
+  memo.set(name, result);
+  return result;
+}
+
+/**
+ * Parses Solidity source into a typed contract model.
+ * Parsing is tolerant: syntax errors are collected in `parseErrors` and never thrown.
+ * @param contractCode - Solidity source code
+ * @returns Contracts, inheritance chains, functions, modifiers, state variables and events
+ */
+export function parseContractModel(contractCode: string): ContractModel {
+  const model: ContractModel = { pragmas: [], imports: [], contracts: [], parseErrors: [] };
+
+  let ast: ReturnType<typeof parse>;
+  try {
+    ast = parse(contractCode, { loc: true, tolerant: true });
+  } catch (error) {
+    model.parseErrors.push(error instanceof Error ? error.message : String(error));
+    return model;
+  }
+
+  model.parseErrors = (ast.errors || []).map((error) =>
+    error.line ? `${error.message} (line ${error.line})` : String(error.message)
+  );
+
+  const bases = new Map<string, string[]>();
+
+  // Tolerant parsing can leave holes in the tree for unrecoverable fragments
+  ast.children.filter(Boolean).forEach((node: ASTNode) => {
+    if (node.type === "PragmaDirective") {
+      model.pragmas.push({ name: node.name, value: node.value });
+    } else if (node.type === "ImportDirective") {
+      model.imports.push(node.path);
+    } else if (node.type === "ContractDefinition") {
+      const contract = node as ContractDefinition;
+      const baseContracts = contract.baseContracts.map((base) => base.baseName.namePath);
+      bases.set(contract.name, baseContracts);
+
+      const definition: ContractDefinitionModel = {
+        name: contract.name,
+        kind: contract.kind as ContractDefinitionModel["kind"],
+        baseContracts,
+        inheritanceChain: [],
+        functions: [],
+        modifiers: [],
+        stateVariables: [],
+        events: [],
+        lines: toRange(contract),
+      };
+
+      contract.subNodes.filter(Boolean).forEach((subNode) => {
+        switch (subNode.type) {
+          case "FunctionDefinition":
+            definition.functions.push(toFunction(subNode as FunctionDefinition));
+            break;
+          case "ModifierDefinition": {
+            const modifier = subNode as ModifierDefinition;
+            definition.modifiers.push({
+              name: modifier.name,
+              parameters: toParameters(modifier.parameters),
+              lines: toRange(modifier),
+            });
+            break;
+          }
+          case "StateVariableDeclaration":
+            (subNode as StateVariableDeclaration).variables.forEach((variable) => {
+              definition.stateVariables.push({
+                name: variable.name || "",
+                type: typeNameToString(variable.typeName),
+                visibility: variable.visibility || "default",
+                isConstant: Boolean(variable.isDeclaredConst),
+                isImmutable: variable.isImmutable,
+                line: variable.loc?.start.line ?? toRange(subNode).start,
+              });
+            });
+            break;
+          case "EventDefinition": {
+            const event = subNode as EventDefinition;
+            definition.events.push({
+              name: event.name,
+              parameters: toParameters(event.parameters),
+              line: toRange(event).start,
+            });
+            break;
+          }
+        }
+      });
+
+      model.contracts.push(definition);
+    }
+  });
+
+  const memo = new Map<string, string[]>();
+  model.contracts.forEach((contract) => {
+    contract.inheritanceChain = linearize(contract.name, bases, memo);
+  });
+
+  return model;
+}
+
+/**
+ * Normalizes a function reference as returned by the model, e.g. "Vault.withdraw(uint256)" -> "withdraw"
+ */
+function normalizeFunctionName(name: string): string {
+  return name.replace(/\(.*$/, "").split(".").pop()!.trim();
+}
+
+/**
+ * Checks the `function` and `lines` of AI-returned findings against the parsed model.
+ *
+ * - Lines outside the submitted source are dropped.
+ * - Function names are matched (case-insensitively) against functions and modifiers;
+ *   an unknown name is replaced by the function enclosing the finding's first line, or removed.
+ * - `locationVerified` records whether the location was correct as returned.
+ *
+ * Function names are only checked when the source parsed into at least one contract.
+ */
+export function validateVulnerabilityLocations(
+  vulnerabilities: Vulnerability[],
+  model: ContractModel,
+  linesOfCode: number
+): Vulnerability[] {
+  const callables = model.contracts.flatMap((contract) => [
+    ...contract.functions.map((fn) => ({ name: fn.name, lines: fn.lines })),
+    ...contract.modifiers.map((modifier) => ({ name: modifier.name, lines: modifier.lines })),
+  ]);
+  const checkFunctions = model.contracts.length > 0;
+
+  return vulnerabilities.map((vulnerability) => {
+    if (!vulnerability.function && !vulnerability.lines?.length) {
+      return vulnerability;
+    }
+
+    const validLines = (vulnerability.lines || []).filter(
+      (line) => Number.isInteger(line) && line >= 1 && line <= linesOfCode
+    );
+    const linesValid = validLines.length === (vulnerability.lines || []).length;
+
+    let functionName = vulnerability.function;
+    let functionValid = true;
+    if (functionName && checkFunctions) {
+      const normalized = normalizeFunctionName(functionName).toLowerCase();
+      const match = callables.find((callable) => callable.name.toLowerCase() === normalized);
+      if (match) {
+        functionName = match.name;
+      } else {
+        functionValid = false;
+        const enclosing = validLines.length > 0
+          ? callables.find((callable) => callable.lines.start <= validLines[0] && validLines[0] <= callable.lines.end)
+          : undefined;
+        functionName = enclosing?.name;
+      }
+    }
+
+    return {
+      ...vulnerability,
+      function: functionName,
+      lines: vulnerability.lines ? validLines : undefined,
+      locationVerified: linesValid && functionValid,
+    };
+  });
+}
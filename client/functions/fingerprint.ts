@@ -0,0 +1,104 @@
+// /functions/fingerprint.ts
+import type { Vulnerability } from "./auditInit";
+
+/**
+ * Fingerprint configuration
+ */
+const FINGERPRINT_CONFIG = {
+  /** Maximum number of referenced lines included in the code snippet */
+  MAX_SNIPPET_LINES: 10,
+} as const;
+
+/**
+ * 64-bit non-cryptographic string hash (two 32-bit lanes), as 16 hex characters.
+ * This module is also bundled for the browser, so it does not use Node's crypto.
+ */
+function hash64(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(16).padStart(8, "0") + (h1 >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Lowercases and keeps only letters, digits and single spaces ("Re-entrancy in `withdraw()`" → "re entrancy in withdraw")
+ */
+function normalizeText(text: string | undefined): string {
+  return (text || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Function identifier without parameters or contract qualifier ("Vault.withdraw(uint256)" → "withdraw")
+ */
+function normalizeFunction(name: string | undefined): string {
+  const identifiers = (name || "").split("(")[0].match(/[A-Za-z_$][\w$]*/g);
+  return identifiers ? identifiers[identifiers.length - 1] : "";
+}
+
+/**
+ * Text of the referenced lines with all whitespace removed, so indentation and
+ * formatting changes do not alter the fingerprint
+ */
+function normalizeSnippet(lines: number[] | undefined, sourceLines: string[]): string {
+  return Array.from(new Set(lines || []))
+    .sort((a, b) => a - b)
+    .slice(0, FINGERPRINT_CONFIG.MAX_SNIPPET_LINES)
+    .map((line) => (sourceLines[line - 1] || "").replace(/\s+/g, ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Computes a deterministic fingerprint for a finding from its category, function,
+ * the referenced code and its title (plus the file, for project audits). Line numbers
+ * themselves are not used, so the fingerprint survives code moving up or down.
+ * @param sourceLines - Lines of the source the finding's `lines` refer to
+ */
+export function fingerprintVulnerability(vulnerability: Vulnerability, sourceLines: string[]): string {
+  return hash64(JSON.stringify([
+    normalizeText(vulnerability.category),
+    normalizeFunction(vulnerability.function),
+    normalizeSnippet(vulnerability.lines, sourceLines),
+    normalizeText(vulnerability.title),
+    vulnerability.file || "",
+  ]));
+}
+
+/**
+ * Returns the findings with `fingerprint` set from the given source
+ */
+export function addFingerprints(vulnerabilities: Vulnerability[], sourceCode: string): Vulnerability[] {
+  const sourceLines = sourceCode.replace(/\r\n?/g, "\n").split("\n");
+  return vulnerabilities.map((vulnerability) => ({
+    ...vulnerability,
+    fingerprint: fingerprintVulnerability(vulnerability, sourceLines),
+  }));
+}
+
+/**
+ * Returns the findings with unique ids. Providers may repeat an id; later findings with a
+ * repeated id get a numeric suffix ("vuln-1", "vuln-1-2"), so each finding can be
+ * triaged and suppressed on its own.
+ */
+export function uniqueFindingIds(vulnerabilities: Vulnerability[]): Vulnerability[] {
+  const taken = new Set(vulnerabilities.map((vulnerability) => vulnerability.id));
+  const seen = new Set<string>();
+  return vulnerabilities.map((vulnerability) => {
+    if (!seen.has(vulnerability.id)) {
+      seen.add(vulnerability.id);
+      return vulnerability;
+    }
+    let suffix = 2;
+    while (taken.has(`${vulnerability.id}-${suffix}`)) suffix++;
+    const id = `${vulnerability.id}-${suffix}`;
+    taken.add(id);
+    seen.add(id);
+    return { ...vulnerability, id };
+  });
+}
@@ -0,0 +1,404 @@
+// /functions/projectAudit.ts
+import path from "path";
+import { Unzip, UnzipInflate, strFromU8 } from "fflate";
+import {
+  auditSmartContract,
+  combineProviderTiming,
+  AuditError,
+  type AuditOptions,
+  type AuditReport,
+  type Vulnerability,
+} from "./auditInit";
+import { parseContractModel, type ContractModel } from "./contractModel";
+import { addFingerprints, uniqueFindingIds } from "./fingerprint";
+
+/**
+ * Project sources keyed by project-relative path (e.g., "src/Vault.sol")
+ */
+export type SourceFileMap = Record<string, string>;
+
+/**
+ * A remapping such as "@openzeppelin/=lib/openzeppelin-contracts/"
+ */
+interface Remapping {
+  prefix: string;
+  target: string;
+}
+
+/**
+ * Per-file result of a project audit
+ */
+export interface ProjectFileReport {
+  /** Project-relative path */
+  path: string;
+  linesOfCode: number;
+  /** Resolved project paths of the file's imports */
+  imports: string[];
+  /** Import paths that could not be resolved from the file map or remappings */
+  unresolvedImports: string[];
+  contractModel?: ContractModel;
+  /** Set when auditing the file failed; the project audit continues with the other files */
+  error?: string;
+}
+
+/**
+ * Options for auditing a multi-file project
+ */
+export interface ProjectAuditOptions extends AuditOptions {
+  /** Remappings in Foundry format; a remappings.txt in the file map is also honoured */
+  remappings?: string[];
+  /** Paths to audit (defaults to every project source outside lib/, node_modules/, test/ and script/) */
+  targets?: string[];
+}
+
+/**
+ * Default limits for project audits
+ */
+const PROJECT_CONFIG = {
+  MAX_FILES: 200,
+  /** Maximum characters of imported sources sent as context with each file */
+  MAX_CONTEXT_SIZE: 200_000,
+  /** Maximum total size of an uploaded project (uncompressed) */
+  MAX_PROJECT_SIZE: 5_000_000,
+  /** Maximum number of entries read from an uploaded zip archive */
+  MAX_ARCHIVE_ENTRIES: 10_000,
+  /** Bytes of an uploaded archive inflated at a time; bounds the output of one step */
+  ARCHIVE_SLICE_SIZE: 16_384,
+} as const;
+
+/** Directories holding dependencies, tests and scripts rather than audited sources */
+const NON_TARGET_DIRS = /^(?:lib|node_modules|test|tests|script|scripts)\//;
+
+/**
+ * Normalizes a path to project-relative POSIX form ("./src//A.sol" -> "src/A.sol")
+ */
+export function normalizePath(filePath: string): string {
+  return path.posix.normalize(filePath.replace(/\\/g, "/")).replace(/^(\.\/)+/, "").replace(/^\/+/, "");
+}
+
+/**
+ * Parses remapping lines ("prefix=target", optionally "context:prefix=target")
+ */
+export function parseRemappings(lines: string[]): Remapping[] {
+  return lines
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#") && line.includes("="))
+    .map((line) => {
+      const [left, target] = line.split("=");
+      const prefix = left.includes(":") ? left.slice(left.indexOf(":") + 1) : left;
+      return { prefix, target: normalizePath(target) + (target.endsWith("/") ? "/" : "") };
+    })
+    // Longest prefix wins
+    .sort((a, b) => b.prefix.length - a.prefix.length);
+}
+
+/**
+ * Resolves an import path to a key of the file map, or undefined if it is not part of the project
+ */
+export function resolveImport(
+  importPath: string,
+  fromFile: string,
+  files: SourceFileMap,
+  remappings: Remapping[]
+): string | undefined {
+  const candidates: string[] = [];
+
+  if (importPath.startsWith("./") || importPath.startsWith("../")) {
+    candidates.push(path.posix.join(path.posix.dirname(fromFile), importPath));
+  } else {
+    const remapping = remappings.find((r) => importPath.startsWith(r.prefix));
+    if (remapping) {
+      candidates.push(remapping.target + importPath.slice(remapping.prefix.length));
+    }
+    candidates.push(importPath, `node_modules/${importPath}`);
+  }
+
+  return candidates.map(normalizePath).find((candidate) => candidate in files);
+}
+
+/**
+ * Extracts Solidity sources and remappings.txt from a zipped project.
+ * A single top-level folder (as produced by GitHub archives) is stripped from the paths.
+ * The archive is inflated a slice at a time and the size limit is checked against the
+ * bytes actually produced, so a zip bomb is rejected whatever sizes its entries declare.
+ * @throws {AuditError} If the archive is invalid, empty or too large, or an entry's path
+ * leads outside the project
+ */
+export function extractProjectZip(archive: Uint8Array): SourceFileMap {
+  // A zip starts with a local file header (or the end record, when empty) and ends with
+  // the end record plus an optional comment of up to 64 KB; anything else is not a zip
+  // or was cut off during upload
+  const signatureAt = (offset: number) =>
+    (archive[offset] | (archive[offset + 1] << 8) | (archive[offset + 2] << 16) | (archive[offset + 3] << 24)) >>> 0;
+  let endRecord = archive.length - 22;
+  while (endRecord >= Math.max(0, archive.length - 22 - 0xffff) && signatureAt(endRecord) !== 0x06054b50) {
+    endRecord--;
+  }
+  if (archive.length < 22 || endRecord < 0 || ![0x04034b50, 0x06054b50].includes(signatureAt(0))) {
+    throw new AuditError("Uploaded file is not a valid zip archive", "INVALID_ARCHIVE");
+  }
+
+  const entries: Record<string, Uint8Array> = {};
+  let entryCount = 0;
+  let sourceCount = 0;
+  let inflatedSize = 0;
+  try {
+    const unzipper = new Unzip((file) => {
+      if (++entryCount > PROJECT_CONFIG.MAX_ARCHIVE_ENTRIES) {
+        throw new AuditError(
+          `Zip archive exceeds maximum of ${PROJECT_CONFIG.MAX_ARCHIVE_ENTRIES} entries`,
+          "PROJECT_TOO_LARGE"
+        );
+      }
+      if (!/\.sol$|(?:^|\/)remappings\.txt$/.test(file.name) || file.name.startsWith("__MACOSX/")) {
+        return;
+      }
+      const normalized = normalizePath(file.name);
+      if (normalized === ".." || normalized.startsWith("../")) {
+        throw new AuditError(`Zip archive entry leads outside the project: ${file.name}`, "INVALID_ARCHIVE");
+      }
+      if (file.name.endsWith(".sol") && ++sourceCount > PROJECT_CONFIG.MAX_FILES) {
+        throw new AuditError(
+          `Project exceeds maximum of ${PROJECT_CONFIG.MAX_FILES} Solidity files`,
+          "PROJECT_TOO_LARGE"
+        );
+      }
+
+      const chunks: Uint8Array[] = [];
+      file.ondata = (error, data, final) => {
+        if (error) throw error;
+        inflatedSize += data.length;
+        if (inflatedSize > PROJECT_CONFIG.MAX_PROJECT_SIZE) {
+          throw new AuditError(
+            `Project exceeds maximum size of ${PROJECT_CONFIG.MAX_PROJECT_SIZE} bytes`,
+            "PROJECT_TOO_LARGE"
+          );
+        }
+        chunks.push(data);
+        if (final) entries[normalized] = Buffer.concat(chunks);
+      };
+      file.start();
+    });
+    unzipper.register(UnzipInflate);
+
+    for (let offset = 0; offset < archive.length; offset += PROJECT_CONFIG.ARCHIVE_SLICE_SIZE) {
+      const end = offset + PROJECT_CONFIG.ARCHIVE_SLICE_SIZE;
+      unzipper.push(archive.subarray(offset, end), end >= archive.length);
+    }
+  } catch (error) {
+    if (error instanceof AuditError) {
+      throw error;
+    }
+    throw new AuditError("Uploaded file is not a valid zip archive", "INVALID_ARCHIVE", error);
+  }
+
+  const names = Object.keys(entries);
+  if (names.length === 0) {
+    throw new AuditError("Zip archive does not contain any Solidity files", "EMPTY_PROJECT");
+  }
+
+  const roots = new Set(names.map((name) => name.split("/")[0]));
+  const stripRoot = roots.size === 1 && names.every((name) => name.includes("/"));
+
+  const files: SourceFileMap = {};
+  for (const name of names) {
+    files[stripRoot ? name.slice(name.indexOf("/") + 1) : name] = strFromU8(entries[name]);
+  }
+
+  return files;
+}
+
+/**
+ * Validates a project file map
+ * @throws {AuditError} If the map is empty, has too many files or is too large
+ */
+export function validateProjectFiles(files: SourceFileMap): void {
+  if (!files || typeof files !== "object" || Array.isArray(files)) {
+    throw new AuditError("Project files must be an object mapping paths to source code", "INVALID_INPUT");
+  }
+
+  const solidityFiles = Object.keys(files).filter((file) => file.endsWith(".sol"));
+  if (solidityFiles.length === 0) {
+    throw new AuditError("Project does not contain any Solidity files", "EMPTY_PROJECT");
+  }
+  if (solidityFiles.length > PROJECT_CONFIG.MAX_FILES) {
+    throw new AuditError(
+      `Project exceeds maximum of ${PROJECT_CONFIG.MAX_FILES} Solidity files`,
+      "PROJECT_TOO_LARGE"
+    );
+  }
+  if (Object.values(files).some((content) => typeof content !== "string")) {
+    throw new AuditError("Every project file must be a string", "INVALID_INPUT");
+  }
+  const totalSize = Object.values(files).reduce((sum, content) => sum + content.length, 0);
+  if (totalSize > PROJECT_CONFIG.MAX_PROJECT_SIZE) {
+    throw new AuditError(
+      `Project exceeds maximum size of ${PROJECT_CONFIG.MAX_PROJECT_SIZE} characters`,
+      "PROJECT_TOO_LARGE"
+    );
+  }
+}
+
+/**
+ * Collects the transitive imports of a file, nearest first
+ */
+function collectDependencies(file: string, importGraph: Map<string, string[]>): string[] {
+  const seen = new Set<string>([file]);
+  const queue = [...(importGraph.get(file) || [])];
+  const result: string[] = [];
+
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    result.push(next);
+    queue.push(...(importGraph.get(next) || []));
+  }
+
+  return result;
+}
+
+/**
+ * Audits a multi-file Solidity project and combines the results into one report.
+ *
+ * Imports are resolved relative to the importing file, through remappings
+ * (options.remappings and remappings.txt), and from node_modules/. Each target file
+ * is audited with its transitive imports sent as context, and every vulnerability
+ * in the combined report carries the `file` it was found in.
+ *
+ * @param files - Project sources keyed by path
+ * @param projectName - Name for the combined report
+ * @param options - Audit options plus remappings and targets
+ * @returns Combined audit report with per-file details in `files`
+ * @throws {AuditError} If the project is invalid or every file fails to audit
+ */
+export async function auditProject(
+  rawFiles: SourceFileMap,
+  projectName?: string,
+  options?: ProjectAuditOptions
+): Promise<AuditReport> {
+  validateProjectFiles(rawFiles);
+
+  const files: SourceFileMap = {};
+  Object.entries(rawFiles).forEach(([file, content]) => {
+    files[normalizePath(file)] = content;
+  });
+
+  const remappings = parseRemappings([
+    ...(options?.remappings || []),
+    ...(files["remappings.txt"] || "").split("\n"),
+  ]);
+
+  // Build the import graph from the parsed models
+  const solidityFiles = Object.keys(files).filter((file) => file.endsWith(".sol"));
+  const models = new Map<string, ContractModel>();
+  const importGraph = new Map<string, string[]>();
+  const unresolved = new Map<string, string[]>();
+
+  solidityFiles.forEach((file) => {
+    const model = parseContractModel(files[file]);
+    models.set(file, model);
+
+    const resolved: string[] = [];
+    const missing: string[] = [];
+    model.imports.forEach((importPath) => {
+      const target = resolveImport(importPath, file, files, remappings);
+      if (target) resolved.push(target);
+      else missing.push(importPath);
+    });
+    importGraph.set(file, resolved);
+    unresolved.set(file, missing);
+  });
+
+  const targets = (options?.targets?.map(normalizePath) || solidityFiles.filter(
+    (file) => !NON_TARGET_DIRS.test(file) && !/\.[ts]\.sol$/.test(file)
+  )).filter((file) => file in files);
+
+  if (targets.length === 0) {
+    throw new AuditError("No auditable Solidity files found in the project", "EMPTY_PROJECT");
+  }
+
+  // Audit each target with its imports as context (sequentially, to respect provider rate limits)
+  const fileReports: ProjectFileReport[] = [];
+  const reports: Array<{ file: string; report: AuditReport }> = [];
+  let lastError: unknown;
+
+  for (const file of targets) {
+    const context: Array<{ path: string; content: string }> = [];
+    let contextSize = 0;
+    for (const dependency of collectDependencies(file, importGraph)) {
+      if (contextSize + files[dependency].length > PROJECT_CONFIG.MAX_CONTEXT_SIZE) break;
+      context.push({ path: dependency, content: files[dependency] });
+      contextSize += files[dependency].length;
+    }
+
+    const fileReport: ProjectFileReport = {
+      path: file,
+      linesOfCode: files[file].split("\n").length,
+      imports: importGraph.get(file) || [],
+      unresolvedImports: unresolved.get(file) || [],
+    };
+
+    try {
+      const report = await auditSmartContract(files[file], path.posix.basename(file, ".sol"), {
+        ...options,
+        context,
+        // Findings are reported with the file they were found in, as in the combined report
+        onProgress: options?.onProgress && ((event) => options.onProgress?.(
+          event.type === "finding"
+            ? { ...event, vulnerability: { ...event.vulnerability, id: `${file}:${event.vulnerability.id}`, file } }
+            : event
+        )),
+      });
+      fileReport.contractModel = report.contractModel;
+      reports.push({ file, report });
+    } catch (error) {
+      // Provider-level failures (bad key, credits, rate limits) will fail every file
+      if (error instanceof AuditError && ["MISSING_API_KEY", "UNAUTHORIZED", "INSUFFICIENT_CREDITS", "UNKNOWN_PROVIDER"].includes(error.code || "")) {
+        throw error;
+      }
+      lastError = error;
+      fileReport.error = error instanceof Error ? error.message : String(error);
+    }
+
+    fileReports.push(fileReport);
+  }
+
+  if (reports.length === 0) {
+    throw lastError instanceof AuditError
+      ? lastError
+      : new AuditError("Every file in the project failed to audit", "UNKNOWN_ERROR", lastError);
+  }
+
+  // Fingerprints are recomputed with the file included, so identical code in two files stays distinct
+  const vulnerabilities: Vulnerability[] = uniqueFindingIds(reports.flatMap(({ file, report }) =>
+    addFingerprints(
+      report.vulnerabilities.map((vulnerability) => ({
+        ...vulnerability,
+        id: `${file}:${vulnerability.id}`,
+        file,
+      })),
+      files[file]
+    )
+  ));
+
+  const failed = fileReports.filter((fileReport) => fileReport.error);
+  const summary = [
+    `Audited ${reports.length} of ${targets.length} files. Found ${vulnerabilities.length} vulnerabilities.`,
+    ...reports.map(({ file, report }) => `${file}: ${report.summary}`),
+    ...failed.map((fileReport) => `${fileReport.path}: audit failed (${fileReport.error})`),
+  ].join("\n");
+
+  return {
+    contractName: projectName || path.posix.basename(targets[0], ".sol"),
+    language: "Solidity",
+    summary,
+    vulnerabilities,
+    linesOfCode: fileReports.reduce((sum, fileReport) => sum + fileReport.linesOfCode, 0),
+    auditedAt: new Date(),
+    auditEngineVersion: reports[0].report.auditEngineVersion,
+    rawResponse: reports.map(({ file, report }) => ({ file, response: report.rawResponse })),
+    files: fileReports,
+    providerTiming: combineProviderTiming(reports.map(({ report }) => report)),
+  };
+}
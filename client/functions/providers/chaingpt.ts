@@ -0,0 +1,141 @@
+// /functions/providers/chaingpt.ts
+import axios, { AxiosError } from "axios";
+import { AuditError } from "../auditInit";
+import type { AuditProvider, ProviderAuditOptions, ProviderAuditResult } from "./index";
+
+/**
+ * Default configuration for the ChainGPT Smart Contract Auditor API
+ */
+const CHAINGPT_CONFIG = {
+  API_URL: "https://api.chaingpt.org/chat/stream",
+  MODEL: "smart_contract_auditor",
+} as const;
+
+/**
+ * Returns the error response body if it can be serialized.
+ * With responseType 'stream' the body of an error response is an unread
+ * stream, which JSON.stringify cannot handle (circular structure).
+ */
+function readableErrorData(data: unknown): unknown {
+  if (data && typeof (data as { pipe?: unknown }).pipe === "function") {
+    return undefined;
+  }
+  return data;
+}
+
+/**
+ * Maps an error thrown while calling ChainGPT to an AuditError
+ */
+export function toChainGPTAuditError(error: unknown): AuditError {
+  if (error instanceof AuditError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError;
+    const responseData = readableErrorData(axiosError.response?.data);
+    const errorMessage = responseData
+      ? JSON.stringify(responseData)
+      : axiosError.message;
+
+    if (axiosError.response?.status === 401) {
+      return new AuditError("Invalid API key provided to ChainGPT", "UNAUTHORIZED", errorMessage);
+    }
+    if (axiosError.response?.status === 429) {
+      return new AuditError("Rate limit exceeded. Please try again later.", "RATE_LIMITED", errorMessage);
+    }
+    if (axiosError.response?.status === 402) {
+      return new AuditError("Insufficient credits or quota exceeded for ChainGPT API", "INSUFFICIENT_CREDITS", errorMessage);
+    }
+    if (axiosError.code === "ECONNABORTED") {
+      return new AuditError("Audit request timed out. The contract may be too complex.", "TIMEOUT", errorMessage);
+    }
+
+    return new AuditError(
+      `Audit request failed: ${errorMessage}`,
+      "API_ERROR",
+      responseData
+    );
+  }
+
+  return new AuditError(
+    "An unexpected error occurred during the audit",
+    "UNKNOWN_ERROR",
+    error
+  );
+}
+
+/**
+ * Audit provider backed by ChainGPT's streaming chat endpoint.
+ *
+ * Configuration:
+ * - CHAINGPT_API_KEY (required)
+ * - CHAINGPT_API_URL (optional, overrides the stream endpoint)
+ * - CHAINGPT_MODEL (optional, defaults to "smart_contract_auditor")
+ */
+export class ChainGPTProvider implements AuditProvider {
+  readonly name = "chaingpt";
+  readonly version = "1.0.0";
+
+  resolveModel(model?: string): string {
+    return model || process.env.CHAINGPT_MODEL || CHAINGPT_CONFIG.MODEL;
+  }
+
+  async audit(
+    _contractCode: string,
+    _contractName: string | undefined,
+    options: ProviderAuditOptions
+  ): Promise<ProviderAuditResult> {
+    const apiKey = process.env.CHAINGPT_API_KEY;
+    if (!apiKey) {
+      throw new AuditError(
+        "Missing CHAINGPT_API_KEY in environment variables",
+        "MISSING_API_KEY"
+      );
+    }
+
+    const apiUrl = options.apiUrl || process.env.CHAINGPT_API_URL || CHAINGPT_CONFIG.API_URL;
+    const model = this.resolveModel(options.model);
+
+    try {
+      const apiClient = axios.create({
+        baseURL: apiUrl,
+        timeout: options.timeout,
+        headers: {
+          "Authorization": `Bearer ${apiKey}`,
+          "Content-Type": "application/json"
+        },
+        responseType: 'stream'
+      });
+
+      const response = await apiClient.post('/', {
+        model,
+        question: options.prompt
+      });
+
+      // Collect the streamed response body
+      let responseText = '';
+      const stream = response.data;
+
+      await new Promise<void>((resolve, reject) => {
+        stream.on('data', (chunk: Buffer) => {
+          const text = chunk.toString();
+          responseText += text;
+          options.onData?.(text);
+        });
+
+        stream.on('end', () => {
+          resolve();
+        });
+
+        stream.on('error', (error: Error) => {
+          reject(error);
+        });
+      });
+
+      return { responseText, model };
+    } catch (error) {
+      throw toChainGPTAuditError(error);
+    }
+  }
+}
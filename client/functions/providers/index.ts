@@ -0,0 +1,109 @@
+// /functions/providers/index.ts
+import { AuditError } from "../auditInit";
+import { ChainGPTProvider } from "./chaingpt";
+import { MockProvider } from "./mock";
+
+/**
+ * Options passed from auditSmartContract to a provider
+ */
+export interface ProviderAuditOptions {
+  /** Fully rendered audit prompt to send to the model */
+  prompt: string;
+  /** Timeout in milliseconds */
+  timeout: number;
+  /** Custom API endpoint (for testing) */
+  apiUrl?: string;
+  /** Model override (defaults to the provider's configured model) */
+  model?: string;
+  /** 1 for the first request; higher when the previous response failed validation */
+  attempt?: number;
+  /** Receives each piece of model output as it streams in */
+  onData?: (chunk: string) => void;
+}
+
+/**
+ * Raw result returned by a provider before it is parsed into an AuditReport
+ */
+export interface ProviderAuditResult {
+  /** Complete text returned by the model */
+  responseText: string;
+  /** Model that actually produced the response */
+  model: string;
+}
+
+/**
+ * A backend capable of running an LLM-based smart contract audit
+ */
+export interface AuditProvider {
+  /** Registry key used to select the provider (e.g., "chaingpt") */
+  readonly name: string;
+  /** Version of the provider adapter */
+  readonly version: string;
+  /**
+   * Model a request would use, given the requested override (used in audit cache keys)
+   */
+  resolveModel(model?: string): string;
+  /**
+   * Runs the audit prompt against the backend and returns the raw model output
+   * @throws {AuditError} If the backend rejects or fails the request
+   */
+  audit(
+    contractCode: string,
+    contractName: string | undefined,
+    options: ProviderAuditOptions
+  ): Promise<ProviderAuditResult>;
+}
+
+/**
+ * Provider used when neither the request nor AUDIT_PROVIDER selects one
+ */
+export const DEFAULT_PROVIDER = "chaingpt";
+
+const providers = new Map<string, AuditProvider>();
+
+/**
+ * Registers a provider, replacing any existing provider with the same name
+ */
+export function registerAuditProvider(provider: AuditProvider): void {
+  providers.set(provider.name.toLowerCase(), provider);
+}
+
+/**
+ * Resolves a provider by name, falling back to AUDIT_PROVIDER and then the default
+ * @throws {AuditError} If no provider is registered under the resolved name
+ */
+export function getAuditProvider(name?: string): AuditProvider {
+  const resolvedName = (name || process.env.AUDIT_PROVIDER || DEFAULT_PROVIDER).toLowerCase();
+  const provider = providers.get(resolvedName);
+
+  if (!provider) {
+    throw new AuditError(
+      `Unknown audit provider "${resolvedName}". Available providers: ${listAuditProviders().join(", ")}`,
+      "UNKNOWN_PROVIDER"
+    );
+  }
+
+  return provider;
+}
+
+/**
+ * Lists the names of all registered providers
+ */
+export function listAuditProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Builds the auditEngineVersion string stored with each report
+ * @example formatEngineVersion(provider, "smart_contract_auditor") // "chaingpt:smart_contract_auditor@1.0.0"
+ */
+export function formatEngineVersion(provider: AuditProvider, model: string): string {
+  return `${provider.name}:${model}@${provider.version}`;
+}
+
+registerAuditProvider(new ChainGPTProvider());
+
+// The offline mock is only available outside production unless explicitly enabled
+if (process.env.NODE_ENV !== "production" || process.env.ENABLE_MOCK_PROVIDER === "true") {
+  registerAuditProvider(new MockProvider());
+}
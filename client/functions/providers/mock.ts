@@ -0,0 +1,210 @@
+// /functions/providers/mock.ts
+import { AxiosError, type AxiosResponse, type InternalAxiosRequestConfig } from "axios";
+import { toChainGPTAuditError } from "./chaingpt";
+import type { AuditProvider, ProviderAuditOptions, ProviderAuditResult } from "./index";
+
+/**
+ * Canned responses the mock provider can replay
+ */
+export type MockScenario =
+  | "well-formed"
+  | "prose-wrapped"
+  | "truncated"
+  | "empty"
+  | "malformed"
+  | "invalid-once"
+  | "duplicate-ids"
+  | "unauthorized"
+  | "insufficient-credits"
+  | "rate-limited"
+  | "server-error"
+  | "timeout";
+
+export const MOCK_SCENARIOS: readonly MockScenario[] = [
+  "well-formed",
+  "prose-wrapped",
+  "truncated",
+  "empty",
+  "malformed",
+  "invalid-once",
+  "duplicate-ids",
+  "unauthorized",
+  "insufficient-credits",
+  "rate-limited",
+  "server-error",
+  "timeout",
+];
+
+const DEFAULT_SCENARIO: MockScenario = "well-formed";
+
+/** Size of each replayed stream chunk */
+const CHUNK_SIZE = 64;
+
+/** Matches `// mock-scenario: truncated` (or `# mock-scenario: ...` for Vyper) in the source */
+const SCENARIO_MARKER = /(?:\/\/|#)\s*mock-scenario:\s*([a-z-]+)/;
+
+/**
+ * Canned HTTP error responses, mirroring ChainGPT's status codes
+ */
+const ERROR_RESPONSES: Partial<Record<MockScenario, { status: number; statusText: string; data: unknown }>> = {
+  "unauthorized": { status: 401, statusText: "Unauthorized", data: { message: "Invalid API key" } },
+  "insufficient-credits": { status: 402, statusText: "Payment Required", data: { message: "Insufficient credits" } },
+  "rate-limited": { status: 429, statusText: "Too Many Requests", data: { message: "Too many requests" } },
+  "server-error": { status: 500, statusText: "Internal Server Error", data: { message: "Internal server error" } },
+};
+
+/**
+ * Builds the deterministic JSON body returned by the well-formed scenarios
+ */
+function buildCannedReport(contractCode: string, contractName: string | undefined): string {
+  return JSON.stringify({
+    contractName: contractName || "Unknown",
+    language: "Solidity",
+    summary: "Mock audit completed. Two canned findings were returned for local development.",
+    vulnerabilities: [
+      {
+        id: "vuln-1",
+        title: "Reentrancy in withdraw",
+        description: "External call is made before the caller's balance is updated.",
+        severity: "HIGH",
+        recommendation: "Update state before making external calls or use a reentrancy guard.",
+        function: "withdraw",
+        lines: [3],
+        category: "Reentrancy",
+      },
+      {
+        id: "vuln-2",
+        title: "Floating pragma",
+        description: "The contract does not lock the compiler version.",
+        severity: "LOW",
+        recommendation: "Pin the pragma to a specific compiler version.",
+        lines: [1],
+        category: "Best Practices",
+      },
+    ],
+    linesOfCode: contractCode.split("\n").length,
+  }, null, 2);
+}
+
+/**
+ * Returns the streamed body for a successful scenario
+ */
+function buildResponseText(
+  scenario: MockScenario,
+  contractCode: string,
+  contractName: string | undefined,
+  attempt: number
+): string {
+  const report = buildCannedReport(contractCode, contractName);
+
+  switch (scenario) {
+    case "prose-wrapped":
+      return `Here is the security audit you requested.\n\n\`\`\`json\n${report}\n\`\`\`\n\nLet me know if you need more detail on any finding.`;
+    case "truncated":
+      return report.slice(0, Math.floor(report.length * 0.6));
+    case "empty":
+      return "";
+    case "malformed":
+      // Fenced, with trailing commas after the last array element and property
+      return `\`\`\`json\n${report.replace(/\n(\s*)\]/g, ",\n$1]").replace(/\n\}$/, ",\n}")}\n\`\`\``;
+    case "invalid-once":
+      // Prose only on the first request; well-formed once the audit re-prompts
+      return attempt > 1 ? report : "I reviewed the contract and found two issues worth fixing.";
+    case "duplicate-ids":
+      // Both findings reuse one id, as models sometimes do
+      return report.replace('"id": "vuln-2"', '"id": "vuln-1"');
+    default:
+      return report;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Builds an AxiosError shaped like the one axios raises for an HTTP error response
+ */
+function buildHttpError(status: number, statusText: string, data: unknown): AxiosError {
+  const config = { headers: {} } as InternalAxiosRequestConfig;
+  const response: AxiosResponse = { status, statusText, data, headers: {}, config };
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    undefined,
+    response
+  );
+}
+
+/**
+ * Resolves which scenario to replay.
+ * Precedence: options.model, a `mock-scenario:` marker in the source, MOCK_AUDIT_SCENARIO, then "well-formed".
+ */
+export function resolveMockScenario(contractCode: string, model?: string): MockScenario {
+  const requested = model
+    || contractCode.match(SCENARIO_MARKER)?.[1]
+    || process.env.MOCK_AUDIT_SCENARIO
+    || DEFAULT_SCENARIO;
+
+  return (MOCK_SCENARIOS as readonly string[]).includes(requested)
+    ? requested as MockScenario
+    : DEFAULT_SCENARIO;
+}
+
+/**
+ * Offline provider that replays canned ChainGPT-style streamed responses.
+ *
+ * Errors are raised as the same AxiosErrors the ChainGPT client sees and go
+ * through the ChainGPT error mapping, so AuditError codes (UNAUTHORIZED,
+ * INSUFFICIENT_CREDITS, RATE_LIMITED, TIMEOUT, API_ERROR) can be exercised
+ * without network access. The scenario name is reported as the model.
+ */
+export class MockProvider implements AuditProvider {
+  readonly name = "mock";
+  readonly version = "1.0.0";
+
+  /**
+   * @param chunkDelay - Delay in milliseconds between replayed chunks
+   */
+  constructor(private readonly chunkDelay: number = 5) {}
+
+  /** Source markers are not considered here; the source is part of every cache key anyway */
+  resolveModel(model?: string): string {
+    return resolveMockScenario("", model);
+  }
+
+  async audit(
+    contractCode: string,
+    contractName: string | undefined,
+    options: ProviderAuditOptions
+  ): Promise<ProviderAuditResult> {
+    const scenario = resolveMockScenario(contractCode, options.model);
+
+    try {
+      if (scenario === "timeout") {
+        await sleep(options.timeout);
+        throw new AxiosError(`timeout of ${options.timeout}ms exceeded`, AxiosError.ECONNABORTED);
+      }
+
+      const errorResponse = ERROR_RESPONSES[scenario];
+      if (errorResponse) {
+        throw buildHttpError(errorResponse.status, errorResponse.statusText, errorResponse.data);
+      }
+
+      // Replay the body in chunks, as the ChainGPT stream would deliver it
+      const body = buildResponseText(scenario, contractCode, contractName, options.attempt || 1);
+      let responseText = '';
+      for (let offset = 0; offset < body.length; offset += CHUNK_SIZE) {
+        const chunk = body.slice(offset, offset + CHUNK_SIZE);
+        responseText += chunk;
+        options.onData?.(chunk);
+        await sleep(this.chunkDelay);
+      }
+
+      return { responseText, model: scenario };
+    } catch (error) {
+      throw toChainGPTAuditError(error);
+    }
+  }
+}
@@ -0,0 +1,199 @@
+// /functions/responseParser.ts
+import { z } from "zod";
+
+/**
+ * Optional string field; null (which models often emit for "not applicable") becomes undefined
+ */
+const optionalString = z.string().nullish().transform((value) => value ?? undefined);
+
+/**
+ * Severity, matched case-insensitively. Informational findings are reported as LOW.
+ */
+const SeveritySchema = z
+  .preprocess(
+    (value) => (typeof value === "string" ? value.trim().toUpperCase() : value),
+    z.enum(["LOW", "MEDIUM", "HIGH", "CRITICAL", "INFO", "INFORMATIONAL"])
+  )
+  .transform((severity) => (severity === "INFO" || severity === "INFORMATIONAL" ? "LOW" : severity));
+
+/**
+ * Line numbers; "10-15" or "10, 15" strings are split into numbers
+ */
+const LinesSchema = z
+  .preprocess(
+    (value) => (typeof value === "string" ? (value.match(/\d+/g) || []).map(Number) : value),
+    z.array(z.coerce.number().int().positive())
+  )
+  .nullish()
+  .transform((lines) => lines ?? undefined);
+
+const ResponseVulnerabilitySchema = z.object({
+  id: z.union([z.string(), z.number()]).nullish().transform((id) => (id == null ? undefined : String(id))),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  severity: SeveritySchema,
+  recommendation: optionalString,
+  function: optionalString,
+  lines: LinesSchema,
+  category: optionalString,
+});
+
+/**
+ * JSON structure the audit prompt asks the model to return
+ */
+export const ChainGPTResponseSchema = z.object({
+  contractName: optionalString,
+  language: optionalString,
+  summary: optionalString,
+  vulnerabilities: z.array(ResponseVulnerabilitySchema),
+  linesOfCode: z.number().int().nonnegative().nullish().transform((lines) => lines ?? undefined),
+});
+
+export type ChainGPTResponse = z.infer<typeof ChainGPTResponseSchema>;
+
+/**
+ * Result of parsing a model response
+ */
+export type ParseOutcome =
+  | { success: true; data: ChainGPTResponse; repaired: boolean }
+  | { success: false; error: string };
+
+/** Maximum number of `{` positions tried as the start of the JSON object */
+const MAX_CANDIDATES = 10;
+
+/**
+ * Returns the text from `start` to its matching closing brace, or to the end of the
+ * text when the object is never closed (a truncated response)
+ */
+function sliceBalanced(text: string, start: number): string {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+
+  return text.slice(start);
+}
+
+/**
+ * Finds candidate JSON objects in a response, outermost first.
+ * Markdown code fences and surrounding prose are ignored.
+ */
+export function findJsonCandidates(text: string): string[] {
+  const unfenced = text.replace(/```[a-zA-Z]*\s*/g, "");
+  const candidates: string[] = [];
+  let covered = -1;
+
+  for (let start = unfenced.indexOf("{"); start !== -1 && candidates.length < MAX_CANDIDATES; start = unfenced.indexOf("{", start + 1)) {
+    // Skip objects nested inside a candidate that was already found
+    if (start < covered) continue;
+    const candidate = sliceBalanced(unfenced, start);
+    candidates.push(candidate);
+    covered = start + candidate.length;
+  }
+
+  return candidates;
+}
+
+/**
+ * Repairs common defects in model-produced JSON:
+ * - trailing commas before `}` or `]`
+ * - truncated output: cut back to the last complete object or array, then close
+ *   whatever is still open (an unfinished string is closed if nothing is complete yet)
+ */
+export function repairJson(text: string): string {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let lastComplete: { length: number; closers: string[] } | undefined;
+  let end = text.length;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      closers.push("}");
+    } else if (char === "[") {
+      closers.push("]");
+    } else if (char === "}" || char === "]") {
+      closers.pop();
+      lastComplete = { length: i + 1, closers: [...closers] };
+      if (closers.length === 0) {
+        end = i + 1;
+        break;
+      }
+    }
+  }
+
+  let repaired: string;
+  if (closers.length === 0 && !inString) {
+    repaired = text.slice(0, end);
+  } else if (lastComplete) {
+    repaired = text.slice(0, lastComplete.length) + [...lastComplete.closers].reverse().join("");
+  } else {
+    repaired = text + (inString ? '"' : "") + [...closers].reverse().join("");
+  }
+
+  return repaired.replace(/,(\s*[}\]])/g, "$1");
+}
+
+/**
+ * Summarizes schema issues, e.g. "vulnerabilities.0.severity: Invalid enum value"
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ");
+}
+
+/**
+ * Extracts and validates the audit JSON from a model response.
+ * Candidates are first parsed as-is, then again after repairJson.
+ */
+export function parseAuditResponse(text: string): ParseOutcome {
+  const candidates = findJsonCandidates(text);
+  if (candidates.length === 0) {
+    return { success: false, error: text.trim() ? "No JSON object found in the response" : "The response was empty" };
+  }
+
+  let lastError = "";
+  for (const repaired of [false, true]) {
+    for (const candidate of candidates) {
+      let json: unknown;
+      try {
+        json = JSON.parse(repaired ? repairJson(candidate) : candidate);
+      } catch (error) {
+        lastError = `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`;
+        continue;
+      }
+
+      const result = ChainGPTResponseSchema.safeParse(json);
+      if (result.success) {
+        return { success: true, data: result.data, repaired };
+      }
+      lastError = `Response does not match the audit schema: ${formatIssues(result.error)}`;
+    }
+  }
+
+  return { success: false, error: lastError };
+}
@@ -0,0 +1,204 @@
+// /functions/sourceDiff.ts
+
+/**
+ * A line of a diff hunk
+ */
+export interface DiffLine {
+  type: "context" | "removed" | "added";
+  text: string;
+  /** 1-based line in the original source (context and removed lines) */
+  originalLine?: number;
+  /** 1-based line in the improved source (context and added lines) */
+  improvedLine?: number;
+}
+
+/**
+ * A run of changes with surrounding context, as in a unified diff
+ */
+export interface DiffHunk {
+  /** First original line covered by the hunk and the number of original lines */
+  originalStart: number;
+  originalLines: number;
+  /** First improved line covered by the hunk and the number of improved lines */
+  improvedStart: number;
+  improvedLines: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Diff configuration
+ */
+const DIFF_CONFIG = {
+  CONTEXT_LINES: 3,
+  /** Edit distance after which the changed region is reported as one replacement */
+  MAX_EDIT_DISTANCE: 4_000,
+} as const;
+
+type EditOp = { type: "equal" | "removed" | "added"; originalIndex: number; improvedIndex: number };
+
+/**
+ * Myers' O(ND) diff of two line arrays. Returns undefined when the edit distance
+ * exceeds MAX_EDIT_DISTANCE.
+ */
+function myersDiff(a: string[], b: string[]): EditOp[] | undefined {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, DIFF_CONFIG.MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    // Keep the furthest-reaching paths of the previous round (diagonals -d..d) for backtracking
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, a.length, b.length, d);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Walks the Myers trace back from (n, m) to build the edit script
+ */
+function backtrack(trace: Int32Array[], n: number, m: number, distance: number): EditOp[] {
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = distance; d > 0; d--) {
+    // trace[d] holds the state before round d, indexed from diagonal -(d)
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ type: "equal", originalIndex: x, improvedIndex: y });
+    }
+    if (x === prevX) {
+      y--;
+      ops.push({ type: "added", originalIndex: x, improvedIndex: y });
+    } else {
+      x--;
+      ops.push({ type: "removed", originalIndex: x, improvedIndex: y });
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    ops.push({ type: "equal", originalIndex: x, improvedIndex: y });
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Computes the line edit script between two sources. Common leading and trailing lines
+ * are matched directly; a changed region too different to diff becomes one replacement.
+ */
+function diffLineArrays(original: string[], improved: string[]): EditOp[] {
+  let prefix = 0;
+  while (prefix < original.length && prefix < improved.length && original[prefix] === improved[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < original.length - prefix &&
+    suffix < improved.length - prefix &&
+    original[original.length - 1 - suffix] === improved[improved.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const originalMiddle = original.slice(prefix, original.length - suffix);
+  const improvedMiddle = improved.slice(prefix, improved.length - suffix);
+  const middle = myersDiff(originalMiddle, improvedMiddle) || [
+    ...originalMiddle.map((_, index) => ({ type: "removed" as const, originalIndex: index, improvedIndex: 0 })),
+    ...improvedMiddle.map((_, index) => ({ type: "added" as const, originalIndex: originalMiddle.length, improvedIndex: index })),
+  ];
+
+  const ops: EditOp[] = [];
+  for (let i = 0; i < prefix; i++) {
+    ops.push({ type: "equal", originalIndex: i, improvedIndex: i });
+  }
+  middle.forEach((op) => ops.push({ ...op, originalIndex: op.originalIndex + prefix, improvedIndex: op.improvedIndex + prefix }));
+  for (let i = suffix; i > 0; i--) {
+    ops.push({ type: "equal", originalIndex: original.length - i, improvedIndex: improved.length - i });
+  }
+  return ops;
+}
+
+/**
+ * Diffs two sources line by line and groups the changes into hunks with context lines
+ */
+export function diffSources(original: string, improved: string): DiffHunk[] {
+  const originalLines = original.replace(/\r\n?/g, "\n").split("\n");
+  const improvedLines = improved.replace(/\r\n?/g, "\n").split("\n");
+  const ops = diffLineArrays(originalLines, improvedLines);
+
+  // Ranges of ops to show: each change plus its context, merged when they overlap
+  const ranges: Array<{ start: number; end: number }> = [];
+  ops.forEach((op, index) => {
+    if (op.type === "equal") return;
+    const start = Math.max(0, index - DIFF_CONFIG.CONTEXT_LINES);
+    const end = Math.min(ops.length - 1, index + DIFF_CONFIG.CONTEXT_LINES);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start, end });
+    }
+  });
+
+  return ranges.map(({ start, end }) => {
+    const lines: DiffLine[] = ops.slice(start, end + 1).map((op) =>
+      op.type === "equal"
+        ? { type: "context", text: originalLines[op.originalIndex], originalLine: op.originalIndex + 1, improvedLine: op.improvedIndex + 1 }
+        : op.type === "removed"
+          ? { type: "removed", text: originalLines[op.originalIndex], originalLine: op.originalIndex + 1 }
+          : { type: "added", text: improvedLines[op.improvedIndex], improvedLine: op.improvedIndex + 1 }
+    );
+    const first = ops[start];
+    return {
+      originalStart: first.originalIndex + 1,
+      originalLines: lines.filter((line) => line.type !== "added").length,
+      improvedStart: first.improvedIndex + 1,
+      improvedLines: lines.filter((line) => line.type !== "removed").length,
+      lines,
+    };
+  });
+}
+
+/**
+ * Maps an original line number to the improved source, or undefined if the line was removed
+ */
+export function mapLineToImproved(hunks: DiffHunk[], originalLine: number): number | undefined {
+  let shift = 0;
+  for (const hunk of hunks) {
+    if (originalLine < hunk.originalStart) break;
+    if (originalLine < hunk.originalStart + hunk.originalLines) {
+      return hunk.lines.find((line) => line.originalLine === originalLine)?.improvedLine;
+    }
+    shift += hunk.improvedLines - hunk.originalLines;
+  }
+  return originalLine + shift;
+}
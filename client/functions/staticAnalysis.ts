@@ -0,0 +1,426 @@
+// /functions/staticAnalysis.ts
+import type { Vulnerability, VulnerabilitySeverity } from "./auditInit";
+
+/**
+ * A function-like block (function, constructor, modifier, fallback, receive) found in the source
+ */
+interface ScannedFunction {
+  name: string;
+  contract?: string;
+  /** Parameters as declared, e.g. { type: "address", name: "newOwner" } */
+  params: Array<{ type: string; name: string }>;
+  /** Offset of the opening brace of the body */
+  bodyStart: number;
+  /** Offset of the closing brace of the body */
+  bodyEnd: number;
+  /** 1-based lines of the opening and closing braces */
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Lightweight structural view of the source used by the rules
+ */
+interface ScannedSource {
+  /** Source with comments and string literals blanked out (same length and line breaks) */
+  code: string;
+  lines: string[];
+  functions: ScannedFunction[];
+  stateVariables: Set<string>;
+}
+
+/**
+ * A static analysis rule
+ */
+interface StaticRule {
+  id: string;
+  run(source: ScannedSource): RuleMatch[];
+}
+
+interface RuleMatch {
+  title: string;
+  description: string;
+  severity: VulnerabilitySeverity;
+  recommendation: string;
+  category: string;
+  lines: number[];
+  function?: string;
+}
+
+const LOW_LEVEL_CALL = /\.\s*(call|delegatecall|staticcall|send)\s*(\{[^}]*\})?\s*\(/;
+const EXTERNAL_CALL = /\.\s*(call|delegatecall|staticcall|send|transfer)\s*(\{[^}]*\})?\s*\(/;
+
+/**
+ * Replaces comments and string literals with spaces, preserving offsets and line breaks,
+ * so keywords inside them are never matched.
+ */
+export function stripCommentsAndStrings(code: string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < code.length) {
+    const char = code[i];
+    const next = code[i + 1];
+
+    if (char === "/" && next === "/") {
+      while (i < code.length && code[i] !== "\n") {
+        result += " ";
+        i++;
+      }
+    } else if (char === "/" && next === "*") {
+      const end = code.indexOf("*/", i + 2);
+      const stop = end === -1 ? code.length : end + 2;
+      while (i < stop) {
+        result += code[i] === "\n" ? "\n" : " ";
+        i++;
+      }
+    } else if (char === '"' || char === "'") {
+      result += char;
+      i++;
+      while (i < code.length && code[i] !== char && code[i] !== "\n") {
+        if (code[i] === "\\") {
+          result += " ";
+          i++;
+        }
+        result += " ";
+        i++;
+      }
+      if (i < code.length) {
+        result += code[i];
+        i++;
+      }
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Returns the 1-based line number of an offset, given the offsets at which each line starts
+ */
+function lineAt(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+}
+
+/**
+ * Finds the offset of the bracket that closes the one at `open`, or -1
+ */
+function findClosing(code: string, open: number, openChar: string, closeChar: string): number {
+  let depth = 0;
+  for (let i = open; i < code.length; i++) {
+    if (code[i] === openChar) depth++;
+    else if (code[i] === closeChar) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parses a parameter list such as "address payable to, uint256 amount"
+ */
+function parseParams(paramList: string): Array<{ type: string; name: string }> {
+  return paramList
+    .split(",")
+    .map((param) => param.trim().split(/\s+/).filter((word) => !["memory", "calldata", "storage", "payable", "indexed"].includes(word)))
+    .filter((words) => words.length >= 2)
+    .map((words) => ({ type: words[0], name: words[words.length - 1] }));
+}
+
+/**
+ * Collects the names of state variables declared at the top level of a contract body
+ */
+function collectStateVariables(code: string, bodyStart: number, bodyEnd: number, into: Set<string>): void {
+  let depth = 0;
+  let statement = "";
+
+  for (let i = bodyStart + 1; i < bodyEnd; i++) {
+    const char = code[i];
+    if (char === "{") {
+      depth++;
+      statement = "";
+    } else if (char === "}") {
+      depth--;
+      statement = "";
+    } else if (depth === 0) {
+      if (char === ";") {
+        const declaration = statement.trim().replace(/\s+/g, " ");
+        const match = declaration.match(
+          /^(?:mapping\s*\(.*\)|[A-Za-z_][\w.]*(?:\s*\[[^\]]*\])*)\s+(?:(?:public|private|internal|constant|immutable|override)\s+)*([A-Za-z_]\w*)\s*(?:=.*)?$/
+        );
+        const keyword = declaration.split(" ")[0];
+        if (match && !["using", "event", "error", "import", "pragma", "function", "modifier", "return", "emit"].includes(keyword)) {
+          into.add(match[1]);
+        }
+        statement = "";
+      } else {
+        statement += char;
+      }
+    }
+  }
+}
+
+/**
+ * Scans the source for contracts, function-like blocks and state variables
+ */
+function scanSource(contractCode: string): ScannedSource {
+  const code = stripCommentsAndStrings(contractCode);
+  const lineStarts = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === "\n") lineStarts.push(i + 1);
+  }
+  const stateVariables = new Set<string>();
+  const contracts: Array<{ name: string; start: number; end: number }> = [];
+
+  const contractPattern = /\b(?:contract|library|interface)\s+([A-Za-z_]\w*)[^{;]*\{/g;
+  for (const match of Array.from(code.matchAll(contractPattern))) {
+    const start = match.index! + match[0].length - 1;
+    const end = findClosing(code, start, "{", "}");
+    if (end === -1) continue;
+    contracts.push({ name: match[1], start, end });
+    collectStateVariables(code, start, end, stateVariables);
+  }
+
+  const functions: ScannedFunction[] = [];
+  const functionPattern = /\b(?:function\s+([A-Za-z_]\w*)|(constructor|fallback|receive)|modifier\s+([A-Za-z_]\w*))\s*\(/g;
+  for (const match of Array.from(code.matchAll(functionPattern))) {
+    const paramsStart = match.index! + match[0].length - 1;
+    const paramsEnd = findClosing(code, paramsStart, "(", ")");
+    if (paramsEnd === -1) continue;
+
+    // Skip declarations without a body (interfaces, abstract functions)
+    const rest = code.slice(paramsEnd + 1);
+    const bodyOffset = rest.search(/[{;]/);
+    if (bodyOffset === -1 || rest[bodyOffset] === ";") continue;
+
+    const bodyStart = paramsEnd + 1 + bodyOffset;
+    const bodyEnd = findClosing(code, bodyStart, "{", "}");
+    if (bodyEnd === -1) continue;
+
+    const contract = contracts.find((c) => c.start < match.index! && match.index! < c.end);
+    functions.push({
+      name: match[1] || match[2] || match[3],
+      contract: contract?.name,
+      params: parseParams(code.slice(paramsStart + 1, paramsEnd)),
+      bodyStart,
+      bodyEnd,
+      startLine: lineAt(lineStarts, bodyStart),
+      endLine: lineAt(lineStarts, bodyEnd),
+    });
+  }
+
+  return { code, lines: code.split("\n"), functions, stateVariables };
+}
+
+/**
+ * Returns the [line, text] pairs of a function body
+ */
+function bodyLines(source: ScannedSource, fn: ScannedFunction): Array<[number, string]> {
+  const result: Array<[number, string]> = [];
+  for (let line = fn.startLine; line <= fn.endLine; line++) {
+    result.push([line, source.lines[line - 1]]);
+  }
+  return result;
+}
+
+/**
+ * Finds the function enclosing a 1-based line, if any
+ */
+function functionAtLine(source: ScannedSource, line: number): ScannedFunction | undefined {
+  return source.functions.find((fn) => fn.startLine <= line && line <= fn.endLine);
+}
+
+/**
+ * Runs a regex over every line and reports matches with their enclosing function
+ */
+function matchLines(source: ScannedSource, pattern: RegExp, build: (line: number) => Omit<RuleMatch, "lines" | "function">): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+  source.lines.forEach((text, index) => {
+    if (pattern.test(text)) {
+      const line = index + 1;
+      matches.push({ ...build(line), lines: [line], function: functionAtLine(source, line)?.name });
+    }
+  });
+  return matches;
+}
+
+const rules: StaticRule[] = [
+  {
+    id: "tx-origin-auth",
+    run: (source) => matchLines(source, /\btx\.origin\s*[!=]=|[!=]=\s*tx\.origin\b/, () => ({
+      title: "Authorization through tx.origin",
+      description: "tx.origin is compared for authorization. A malicious contract called by the owner can pass this check on the owner's behalf (phishing attack).",
+      severity: "HIGH",
+      recommendation: "Use msg.sender for authorization checks instead of tx.origin.",
+      category: "Access Control",
+    })),
+  },
+  {
+    id: "unchecked-low-level-call",
+    run: (source) => {
+      const matches: RuleMatch[] = [];
+      source.lines.forEach((text, index) => {
+        const call = text.match(LOW_LEVEL_CALL);
+        if (!call) return;
+        const prefix = text.slice(0, call.index);
+        // The return value is used if it is assigned, required, branched on or returned
+        if (/=|\brequire\b|\bassert\b|\bif\b|\breturn\b|!|&&|\|\|/.test(prefix)) return;
+        const line = index + 1;
+        matches.push({
+          title: `Unchecked low-level ${call[1]}`,
+          description: `The return value of a low-level ${call[1]} is ignored. If the call fails, execution continues as if it had succeeded.`,
+          severity: "MEDIUM",
+          recommendation: "Check the returned success flag (e.g., `(bool success, ) = target.call(...); require(success);`).",
+          category: "Unchecked External Call",
+          lines: [line],
+          function: functionAtLine(source, line)?.name,
+        });
+      });
+      return matches;
+    },
+  },
+  {
+    id: "state-write-after-external-call",
+    run: (source) => {
+      const matches: RuleMatch[] = [];
+      if (source.stateVariables.size === 0) return matches;
+      const names = Array.from(source.stateVariables).join("|");
+      const stateWrite = new RegExp(`(?:\\bdelete\\s+(?:${names})\\b|\\b(?:${names})\\b(?:\\s*\\[[^\\]]*\\])*(?:\\.\\w+)?\\s*(?:[+\\-*/%|&^]?=(?!=)|\\+\\+|--))`);
+
+      source.functions.forEach((fn) => {
+        let callLine: number | undefined;
+        for (const [line, text] of bodyLines(source, fn)) {
+          if (callLine === undefined) {
+            if (EXTERNAL_CALL.test(text)) callLine = line;
+            continue;
+          }
+          if (stateWrite.test(text)) {
+            matches.push({
+              title: `State modified after external call in ${fn.name}`,
+              description: `State is written on line ${line} after an external call on line ${callLine}. A re-entrant call can observe and exploit the stale state.`,
+              severity: "HIGH",
+              recommendation: "Follow the checks-effects-interactions pattern: update state before making external calls, or add a reentrancy guard.",
+              category: "Reentrancy",
+              lines: [callLine, line],
+              function: fn.name,
+            });
+            break;
+          }
+        }
+      });
+      return matches;
+    },
+  },
+  {
+    id: "selfdestruct",
+    run: (source) => matchLines(source, /\b(?:selfdestruct|suicide)\s*\(/, () => ({
+      title: "Use of selfdestruct",
+      description: "The contract can be destroyed with selfdestruct, which removes its code and forcibly sends its balance. selfdestruct is deprecated and its behavior changed in recent hard forks.",
+      severity: "HIGH",
+      recommendation: "Remove selfdestruct, or restrict it behind strict access control and a timelock.",
+      category: "Dangerous Operation",
+    })),
+  },
+  {
+    id: "delegatecall",
+    run: (source) => matchLines(source, /\.\s*delegatecall\s*\(/, () => ({
+      title: "Use of delegatecall",
+      description: "delegatecall executes external code in the context of this contract, with full access to its storage and balance.",
+      severity: "MEDIUM",
+      recommendation: "Only delegatecall trusted, immutable targets and never forward user-controlled addresses or calldata.",
+      category: "Delegatecall",
+    })),
+  },
+  {
+    id: "floating-pragma",
+    run: (source) => matchLines(source, /\bpragma\s+solidity\s+[^;]*[\^~<>*]/, () => ({
+      title: "Floating pragma",
+      description: "The compiler version is not locked, so the contract may be deployed with a different compiler version than the one it was tested with.",
+      severity: "LOW",
+      recommendation: "Lock the pragma to a specific compiler version (e.g., `pragma solidity 0.8.24;`).",
+      category: "Best Practices",
+    })),
+  },
+  {
+    id: "missing-zero-address-check",
+    run: (source) => {
+      const matches: RuleMatch[] = [];
+      source.functions.forEach((fn) => {
+        const body = source.code.slice(fn.bodyStart, fn.bodyEnd);
+        fn.params
+          .filter((param) => param.type === "address")
+          .forEach((param) => {
+            const assignment = Array.from(source.stateVariables).find((name) =>
+              new RegExp(`\\b${name}\\s*=\\s*(?:payable\\s*\\(\\s*)?${param.name}\\b`).test(body)
+            );
+            if (!assignment) return;
+            const checked = new RegExp(`\\b${param.name}\\s*[!=]=\\s*address\\s*\\(\\s*0\\s*\\)|address\\s*\\(\\s*0\\s*\\)\\s*[!=]=\\s*${param.name}\\b`).test(body);
+            if (checked) return;
+            const line = bodyLines(source, fn).find(([, text]) => new RegExp(`\\b${assignment}\\s*=`).test(text))?.[0];
+            matches.push({
+              title: `Missing zero-address check for ${param.name}`,
+              description: `${fn.name} stores the address parameter ${param.name} in ${assignment} without checking it against address(0).`,
+              severity: "LOW",
+              recommendation: `Add \`require(${param.name} != address(0))\` before storing it.`,
+              category: "Input Validation",
+              lines: line ? [line] : [],
+              function: fn.name,
+            });
+          });
+      });
+      return matches;
+    },
+  },
+];
+
+/**
+ * Runs the built-in static analysis rules over Solidity source.
+ * Findings are tagged with source "static-analysis" and ids of the form `static-<rule>-<n>`.
+ * @param contractCode - Solidity source code
+ * @returns Vulnerabilities found by the rules, in rule order
+ */
+export function runStaticAnalysis(contractCode: string): Vulnerability[] {
+  const source = scanSource(contractCode);
+
+  return rules.flatMap((rule) =>
+    rule.run(source).map((match, index) => ({
+      id: `static-${rule.id}-${index + 1}`,
+      title: match.title,
+      description: match.description,
+      severity: match.severity,
+      recommendation: match.recommendation,
+      function: match.function,
+      lines: match.lines,
+      category: match.category,
+      source: "static-analysis" as const,
+      ruleId: rule.id,
+    }))
+  );
+}
+
+/**
+ * Merges static analysis findings with AI findings.
+ * A static finding is dropped when an AI finding of the same category already covers
+ * the same function or one of the same lines.
+ */
+export function mergeFindings(aiFindings: Vulnerability[], staticFindings: Vulnerability[]): Vulnerability[] {
+  const isCovered = (finding: Vulnerability) =>
+    aiFindings.some((ai) =>
+      ai.category?.toLowerCase() === finding.category?.toLowerCase() &&
+      ((ai.function && ai.function === finding.function) ||
+        (ai.lines || []).some((line) => finding.lines?.includes(line)))
+    );
+
+  return [...aiFindings, ...staticFindings.filter((finding) => !isCovered(finding))];
+}
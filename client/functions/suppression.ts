@@ -0,0 +1,103 @@
+// /functions/suppression.ts
+import type { AuditReport, FindingSuppression, Vulnerability } from "./auditInit";
+import { normalizePath, type SourceFileMap } from "./projectAudit";
+
+/**
+ * Matching part of a stored suppression rule
+ */
+export interface SuppressionRuleMatch {
+  /** Id of the stored rule, recorded on the findings it suppresses */
+  id?: string;
+  matchType: "fingerprint" | "category-function";
+  /** Finding fingerprint (fingerprint rules) */
+  fingerprint?: string;
+  /** Finding category and function (category-function rules) */
+  category?: string;
+  function?: string;
+  reason: string;
+}
+
+/**
+ * `// audit-ignore: <reason>` (or `# audit-ignore: <reason>` in Vyper)
+ */
+const IGNORE_COMMENT = /(?:\/\/|#)\s*audit-ignore:\s*(.*?)\s*(?:\*\/)?$/;
+
+const normalize = (value: string | undefined) => (value || "").toLowerCase().replace(/\s+/g, " ").trim();
+
+/**
+ * Function name without parameters ("withdraw(uint256)" → "withdraw")
+ */
+const normalizeFunction = (value: string | undefined) => normalize((value || "").split("(")[0]);
+
+/**
+ * Returns the rule that matches a finding, if any
+ */
+function matchRule(vulnerability: Vulnerability, rules: SuppressionRuleMatch[]): SuppressionRuleMatch | undefined {
+  return rules.find((rule) =>
+    rule.matchType === "fingerprint"
+      ? !!rule.fingerprint && rule.fingerprint === vulnerability.fingerprint
+      : !!rule.category &&
+        !!rule.function &&
+        normalize(rule.category) === normalize(vulnerability.category) &&
+        normalizeFunction(rule.function) === normalizeFunction(vulnerability.function)
+  );
+}
+
+/**
+ * Reason of an audit-ignore comment on one of the finding's lines, or on the line just
+ * above its first line
+ */
+function findIgnoreComment(vulnerability: Vulnerability, sourceLines: string[] | undefined): string | undefined {
+  if (!sourceLines || !vulnerability.lines || vulnerability.lines.length === 0) return undefined;
+
+  const first = Math.min(...vulnerability.lines);
+  const candidates = [first - 1, ...vulnerability.lines];
+  for (const line of candidates) {
+    const match = (sourceLines[line - 1] || "").match(IGNORE_COMMENT);
+    if (match) return match[1] || "audit-ignore comment";
+  }
+  return undefined;
+}
+
+/**
+ * Moves the findings matched by suppression rules or audit-ignore comments from
+ * `vulnerabilities` to `suppressedVulnerabilities`, each with `suppression` set.
+ * Rules are checked in order before comments. Findings are never dropped.
+ * @param source - Audited source, used to find audit-ignore comments
+ */
+export function applySuppressions(
+  report: AuditReport,
+  rules: SuppressionRuleMatch[],
+  source: { contractCode?: string; files?: SourceFileMap }
+): AuditReport {
+  const fileLines = new Map<string, string[]>();
+  Object.entries(source.files || {}).forEach(([file, content]) => {
+    fileLines.set(normalizePath(file), content.replace(/\r\n?/g, "\n").split("\n"));
+  });
+  const contractLines = source.contractCode?.replace(/\r\n?/g, "\n").split("\n");
+
+  const vulnerabilities: Vulnerability[] = [];
+  const suppressedVulnerabilities: Vulnerability[] = [...(report.suppressedVulnerabilities || [])];
+
+  report.vulnerabilities.forEach((vulnerability) => {
+    let suppression: FindingSuppression | undefined;
+    const rule = matchRule(vulnerability, rules);
+    if (rule) {
+      suppression = { matchedBy: rule.matchType, reason: rule.reason, ruleId: rule.id };
+    } else {
+      const sourceLines = vulnerability.file ? fileLines.get(vulnerability.file) : contractLines;
+      const reason = findIgnoreComment(vulnerability, sourceLines);
+      if (reason) {
+        suppression = { matchedBy: "source-comment", reason };
+      }
+    }
+
+    if (suppression) {
+      suppressedVulnerabilities.push({ ...vulnerability, suppression });
+    } else {
+      vulnerabilities.push(vulnerability);
+    }
+  });
+
+  return { ...report, vulnerabilities, suppressedVulnerabilities };
+}
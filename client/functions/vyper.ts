@@ -0,0 +1,308 @@
+// /functions/vyper.ts
+import type {
+  ContractDefinitionModel,
+  ContractFunction,
+  ContractModel,
+  ContractParameter,
+  ContractStateVariable,
+} from "./contractModel";
+
+/** `# @version ^0.3.9` (up to 0.3) or `# pragma version ^0.4.0` (0.4 and later) */
+const VERSION_PATTERN = /^\s*#\s*(?:@version|pragma\s+version)\s+(.+?)\s*$/m;
+
+/** Decorators that only appear in Vyper, at the start of a line */
+const DECORATOR_PATTERN = /^@(?:external|internal|view|pure|payable|nonpayable|nonreentrant|deploy)\b/m;
+
+/** Built-ins that transfer value or call into untrusted code */
+const LOW_LEVEL_CALLS = /\b(?:raw_call|send|selfdestruct|create_forwarder_to|create_minimal_proxy_to|create_copy_of|create_from_blueprint)\s*\(/g;
+
+/**
+ * Blanks out `#` comments, docstrings and string literals, keeping offsets and line breaks.
+ * Vyper counterpart of `stripCommentsAndStrings`.
+ */
+export function stripVyperCommentsAndStrings(code: string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < code.length) {
+    const char = code[i];
+
+    if (char === "#") {
+      while (i < code.length && code[i] !== "\n") {
+        result += " ";
+        i++;
+      }
+    } else if ((char === '"' || char === "'") && code.startsWith(char.repeat(3), i)) {
+      const end = code.indexOf(char.repeat(3), i + 3);
+      const stop = end === -1 ? code.length : end + 3;
+      while (i < stop) {
+        result += code[i] === "\n" ? "\n" : " ";
+        i++;
+      }
+    } else if (char === '"' || char === "'") {
+      result += char;
+      i++;
+      while (i < code.length && code[i] !== char && code[i] !== "\n") {
+        if (code[i] === "\\") {
+          result += " ";
+          i++;
+        }
+        result += " ";
+        i++;
+      }
+      if (i < code.length) {
+        result += code[i];
+        i++;
+      }
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether the source is Vyper: it declares a Vyper version or uses Vyper decorators
+ */
+export function isVyperSource(code: string): boolean {
+  return VERSION_PATTERN.test(code) || DECORATOR_PATTERN.test(stripVyperCommentsAndStrings(code));
+}
+
+/**
+ * Returns the declared compiler version constraint, e.g. "^0.3.9"
+ */
+export function getVyperVersion(code: string): string | undefined {
+  return code.match(VERSION_PATTERN)?.[1];
+}
+
+/**
+ * Counts calls to built-ins that send value or execute untrusted code
+ */
+export function countVyperLowLevelCalls(code: string): number {
+  return (stripVyperCommentsAndStrings(code).match(LOW_LEVEL_CALLS) || []).length;
+}
+
+/**
+ * Splits a comma-separated list at top level, ignoring commas inside brackets
+ */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of text) {
+    if ("([".includes(char)) depth++;
+    if (")]".includes(char)) depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Parses "name: type = default" parameter declarations
+ */
+function toParameters(text: string): ContractParameter[] {
+  return splitTopLevel(text).map((parameter) => {
+    const colon = parameter.indexOf(":");
+    if (colon === -1) return { name: parameter, type: "unknown" };
+    return { name: parameter.slice(0, colon).trim(), type: parameter.slice(colon + 1).replace(/=[\s\S]*$/, "").trim() };
+  });
+}
+
+/**
+ * Unwraps `public(...)`, `constant(...)` and `immutable(...)` from a storage declaration
+ */
+function toStateVariable(name: string, declaration: string, line: number): ContractStateVariable {
+  let type = declaration.replace(/=[\s\S]*$/, "").trim();
+  const flags = { public: false, constant: false, immutable: false };
+
+  let wrapper = type.match(/^(public|constant|immutable)\(([\s\S]*)\)$/);
+  while (wrapper) {
+    flags[wrapper[1] as keyof typeof flags] = true;
+    type = wrapper[2].trim();
+    wrapper = type.match(/^(public|constant|immutable)\(([\s\S]*)\)$/);
+  }
+
+  return {
+    name,
+    type,
+    visibility: flags.public ? "public" : "internal",
+    isConstant: flags.constant,
+    isImmutable: flags.immutable,
+    line,
+  };
+}
+
+/**
+ * Parses Vyper source into the same model used for Solidity.
+ *
+ * The module becomes one contract named after `contractName`; `implements:` entries are
+ * its bases, and `interface` blocks become interface definitions. Decorators map onto
+ * visibility and state mutability, and any other decorator (e.g. `nonreentrant`) is listed
+ * as a modifier. Parsing is line-based and never throws.
+ */
+export function parseVyperModel(contractCode: string, contractName?: string): ContractModel {
+  const lines = stripVyperCommentsAndStrings(contractCode).split("\n");
+  const version = getVyperVersion(contractCode);
+  const model: ContractModel = {
+    pragmas: version ? [{ name: "vyper", value: version }] : [],
+    imports: [],
+    contracts: [],
+    parseErrors: [],
+  };
+
+  const contract: ContractDefinitionModel = {
+    name: contractName || "Contract",
+    kind: "contract",
+    baseContracts: [],
+    inheritanceChain: [],
+    functions: [],
+    modifiers: [],
+    stateVariables: [],
+    events: [],
+    lines: { start: 1, end: lines.length },
+  };
+
+  const isTopLevel = (line: string) => line.trim().length > 0 && !/^\s/.test(line);
+
+  /** Index of the last non-blank line of the indented block opened at `index` */
+  const blockEnd = (index: number) => {
+    let end = index;
+    for (let i = index + 1; i < lines.length && !isTopLevel(lines[i]); i++) {
+      if (lines[i].trim()) end = i;
+    }
+    return end;
+  };
+
+  /** Signature text from `index` until the parentheses balance and the header colon */
+  const readSignature = (index: number) => {
+    let text = "";
+    let depth = 0;
+    for (let i = index; i < lines.length; i++) {
+      text += `${lines[i]}\n`;
+      depth += (lines[i].match(/[([]/g) || []).length - (lines[i].match(/[)\]]/g) || []).length;
+      if (depth <= 0 && /:\s*(?:\w+\s*)?$/.test(lines[i])) break;
+    }
+    return text;
+  };
+
+  let decorators: Array<{ name: string; line: number }> = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!isTopLevel(line)) continue;
+    const text = line.trim();
+
+    const decorator = text.match(/^@(\w+)/);
+    if (decorator) {
+      decorators.push({ name: decorator[1], line: i + 1 });
+      continue;
+    }
+
+    const def = text.match(/^def\s+(\w+)\s*\(/);
+    if (def) {
+      const signature = readSignature(i);
+      const params = signature.slice(signature.indexOf("(") + 1, signature.lastIndexOf(")"));
+      const returns = signature.match(/->\s*([^:]+?)\s*:\s*$/)?.[1];
+      const names = decorators.map((d) => d.name);
+      const name = def[1];
+
+      const fn: ContractFunction = {
+        name,
+        kind: name === "__init__" || names.includes("deploy") ? "constructor" : name === "__default__" ? "fallback" : "function",
+        visibility: names.includes("external") ? "external" : "internal",
+        stateMutability: names.includes("pure") ? "pure" : names.includes("view") ? "view" : names.includes("payable") ? "payable" : "nonpayable",
+        modifiers: names.filter((n) => !["external", "internal", "deploy", "pure", "view", "payable", "nonpayable"].includes(n)),
+        parameters: toParameters(params),
+        returns: returns ? [{ type: returns }] : [],
+        isVirtual: false,
+        hasBody: true,
+        lines: { start: decorators[0]?.line ?? i + 1, end: blockEnd(i) + 1 },
+      };
+      contract.functions.push(fn);
+      decorators = [];
+      continue;
+    }
+    decorators = [];
+
+    const event = text.match(/^event\s+(\w+)\s*:/);
+    if (event) {
+      const fields: ContractParameter[] = [];
+      for (let j = i + 1; j <= blockEnd(i); j++) {
+        const field = lines[j].trim().match(/^(\w+)\s*:\s*(.+)$/);
+        if (field) fields.push({ name: field[1], type: field[2].replace(/^indexed\((.*)\)$/, "$1").trim() });
+      }
+      contract.events.push({ name: event[1], parameters: fields, line: i + 1 });
+      continue;
+    }
+
+    const iface = text.match(/^interface\s+(\w+)\s*:/);
+    if (iface) {
+      const end = blockEnd(i);
+      const functions: ContractFunction[] = [];
+      for (let j = i + 1; j <= end; j++) {
+        const signature = lines[j].trim().match(/^def\s+(\w+)\s*\((.*)\)\s*(?:->\s*(.+?))?\s*:\s*(\w+)?\s*$/);
+        if (!signature) continue;
+        const mutability = signature[4];
+        functions.push({
+          name: signature[1],
+          kind: "function",
+          visibility: "external",
+          stateMutability: mutability === "pure" || mutability === "view" || mutability === "payable" ? mutability : "nonpayable",
+          modifiers: [],
+          parameters: toParameters(signature[2]),
+          returns: signature[3] ? [{ type: signature[3] }] : [],
+          isVirtual: false,
+          hasBody: false,
+          lines: { start: j + 1, end: j + 1 },
+        });
+      }
+      model.contracts.push({
+        name: iface[1],
+        kind: "interface",
+        baseContracts: [],
+        inheritanceChain: [iface[1]],
+        functions,
+        modifiers: [],
+        stateVariables: [],
+        events: [],
+        lines: { start: i + 1, end: end + 1 },
+      });
+      continue;
+    }
+
+    const implementsMatch = text.match(/^implements\s*:\s*([\w.]+)/);
+    if (implementsMatch) {
+      contract.baseContracts.push(implementsMatch[1].split(".").pop()!);
+      continue;
+    }
+
+    const importMatch = text.match(/^(?:from\s+([\w.]+)\s+)?import\s+([\w.]+)/);
+    if (importMatch) {
+      model.imports.push(importMatch[1] ? `${importMatch[1]}.${importMatch[2]}` : importMatch[2]);
+      continue;
+    }
+
+    // Structs, flags and module declarations (uses/initializes/exports) are skipped
+    if (/^(?:struct|flag|enum|uses|initializes|exports)\b/.test(text)) continue;
+
+    const storage = text.match(/^(\w+)\s*:\s*(.+)$/);
+    if (storage) {
+      contract.stateVariables.push(toStateVariable(storage[1], storage[2], i + 1));
+    }
+  }
+
+  contract.inheritanceChain = [contract.name, ...contract.baseContracts];
+  model.contracts.unshift(contract);
+
+  return model;
+}
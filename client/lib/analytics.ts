@@ -1,4 +1,5 @@
-import type { AuditLogEntry, AuditStatistics } from './logging';
+import type { AuditLogEntry, AuditStatistics, ErrorLogEntry } from './logging';
+import { AuditError } from '@/functions/auditInit';
 
 /**
  * Advanced business analytics and insights
@@ -41,6 +42,38 @@ export interface BusinessMetrics {
   };
 }
 
+/**
+ * Error log entries of one type
+ */
+export interface ErrorGroup {
+  errorType: string;
+  count: number;
+  percentage: number; // Share of all errors in the period
+  affectedUsers: number;
+  firstSeen: string;
+  lastSeen: string;
+  examples: ErrorLogEntry[]; // Most recent first
+}
+
+/**
+ * Filters of the error explorer (GET /api/logs/errors)
+ */
+export interface ErrorLogFilters {
+  startDate?: string;
+  endDate?: string;
+  errorType?: string;
+  userEmail?: string;
+  requestId?: string;
+  limit: number; // Recent entries to list; groups cover every matching error
+}
+
+const ERROR_LOG_LIMITS = {
+  DEFAULT: 100,
+  MAX: 1000,
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
 export interface TrendAnalysis {
   period: 'daily' | 'weekly' | 'monthly';
   metric: string;
@@ -264,6 +297,70 @@ export function analyzeContractComplexity(logs: AuditLogEntry[], days: number =
     .sort((a, b) => a.date.localeCompare(b.date));
 }
 
+/**
+ * Group error logs by type, most frequent first
+ */
+export function groupErrorsByType(errors: ErrorLogEntry[], examplesPerGroup: number = 3): ErrorGroup[] {
+  const groups = new Map<string, ErrorLogEntry[]>();
+  errors.forEach(error => {
+    const existing = groups.get(error.errorType);
+    if (existing) {
+      existing.push(error);
+    } else {
+      groups.set(error.errorType, [error]);
+    }
+  });
+
+  return Array.from(groups.entries())
+    .map(([errorType, entries]) => {
+      const sorted = [...entries].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+      return {
+        errorType,
+        count: entries.length,
+        percentage: (entries.length / errors.length) * 100,
+        affectedUsers: new Set(entries.map(entry => entry.userEmail).filter(Boolean)).size,
+        firstSeen: sorted[0].timestamp,
+        lastSeen: sorted[sorted.length - 1].timestamp,
+        examples: examplesPerGroup > 0 ? sorted.slice(-examplesPerGroup).reverse() : [],
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Parses error explorer query parameters. Without a requestId, startDate defaults to
+ * 7 days before `now`; limit is clamped to 1-1000 (default: 100).
+ * @throws {AuditError} INVALID_INPUT if a date is not YYYY-MM-DD
+ */
+export function parseErrorLogFilters(searchParams: URLSearchParams, now: Date = new Date()): ErrorLogFilters {
+  const requestId = searchParams.get('requestId') || undefined;
+  const endDate = searchParams.get('endDate') || undefined;
+  let startDate = searchParams.get('startDate') || undefined;
+  if (!startDate && !requestId) {
+    const weekAgo = new Date(now);
+    weekAgo.setDate(weekAgo.getDate() - 7);
+    startDate = weekAgo.toISOString().split('T')[0];
+  }
+
+  if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+    throw new AuditError('Dates must be in YYYY-MM-DD format', 'INVALID_INPUT');
+  }
+
+  const limitParam = parseInt(searchParams.get('limit') || '', 10);
+  const limit = Number.isFinite(limitParam)
+    ? Math.min(Math.max(limitParam, 1), ERROR_LOG_LIMITS.MAX)
+    : ERROR_LOG_LIMITS.DEFAULT;
+
+  return {
+    startDate,
+    endDate,
+    errorType: searchParams.get('errorType') || undefined,
+    userEmail: searchParams.get('userEmail') || undefined,
+    requestId,
+    limit,
+  };
+}
+
 /**
  * Generate business insights
  */
@@ -361,7 +458,10 @@ export function generateBusinessInsights(
 /**
  * Generate comprehensive business metrics
  */
-export async function generateBusinessMetrics(logs: AuditLogEntry[]): Promise<BusinessMetrics> {
+export async function generateBusinessMetrics(
+  logs: AuditLogEntry[],
+  errorLogs: ErrorLogEntry[] = []
+): Promise<BusinessMetrics> {
   const mau = calculateMAU(logs);
   const wau = calculateWAU(logs);
   const dau = calculateDAU(logs);
@@ -427,7 +527,11 @@ export async function generateBusinessMetrics(logs: AuditLogEntry[]): Promise<Bu
     averageSessionDuration: 0, // Would need session tracking
     averageAuditDuration,
     postAuditScoreTrend: [], // Would need historical post-audit score data
-    errorRateByType: [], // Would need error categorization
+    errorRateByType: groupErrorsByType(errorLogs, 0).map(group => ({
+      type: group.errorType,
+      count: group.count,
+      percentage: group.percentage,
+    })),
     contractComplexityTrend,
     mostCommonVulnerabilities: [], // Would need vulnerability categorization
     vulnerabilityDiscoveryRate: 0, // Would need baseline comparison
@@ -0,0 +1,134 @@
+/**
+ * Cache of audit results, stored in MongoDB.
+ *
+ * A result is reused when the same source is submitted again to the same provider and
+ * model with the same prompt version. Sources are normalized before hashing: line
+ * endings, trailing whitespace and trailing blank lines are ignored. These changes
+ * leave line numbers alone, so cached finding locations stay valid.
+ *
+ * Configuration:
+ * - AUDIT_CACHE_TTL_DAYS (optional, default 30; 0 disables the cache)
+ */
+import { createHash } from 'crypto';
+import { PROMPT_VERSION, type AuditReport } from '@/functions/auditInit';
+import { getAuditProvider } from '@/functions/providers';
+import type { AuditRequest } from '@/lib/audit-runner';
+import { hashSource, type AuditedSource } from '@/lib/source-storage';
+import connectDB from '@/lib/mongodb';
+import AuditCacheModel, { type IAuditCache } from '@/lib/models/AuditCache';
+
+/**
+ * Cache configuration
+ */
+const CACHE_CONFIG = {
+  /** How long a cached result is reused */
+  TTL: Math.max(0, parseFloat(process.env.AUDIT_CACHE_TTL_DAYS ?? '30') || 0) * 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * A cached audit result
+ */
+export interface CachedAudit {
+  report: AuditReport;
+  /** When the cached result was produced */
+  cachedAt: Date;
+}
+
+/**
+ * Normalizes a source so that whitespace-only differences hash the same
+ */
+function normalizeSourceText(code: string): string {
+  return code
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/\s+$/, ''))
+    .join('\n')
+    .replace(/\n+$/, '');
+}
+
+/**
+ * Builds the cache key for a request: the normalized source hash, plus everything
+ * else that shapes the prompt or the model's answer
+ * @throws {AuditError} If the requested provider is not registered
+ */
+export function getAuditCacheKey(body: AuditRequest): string {
+  const provider = getAuditProvider(body.provider);
+  const source: AuditedSource = body.files
+    ? {
+        files: Object.fromEntries(
+          Object.entries(body.files).map(([path, content]) => [path, normalizeSourceText(String(content))])
+        ),
+      }
+    : { contractCode: normalizeSourceText(body.contractCode) };
+
+  const keyFields = {
+    sourceHash: hashSource(source),
+    contractName: body.contractName || null,
+    remappings: body.remappings || null,
+    provider: provider.name,
+    providerVersion: provider.version,
+    model: provider.resolveModel(),
+    promptVersion: PROMPT_VERSION,
+  };
+  return createHash('sha256').update(JSON.stringify(keyFields)).digest('hex');
+}
+
+/**
+ * Whether the cache is enabled (AUDIT_CACHE_TTL_DAYS is not 0)
+ */
+export function isAuditCacheEnabled(): boolean {
+  return CACHE_CONFIG.TTL > 0;
+}
+
+/**
+ * Returns the cached result for a key and records the hit.
+ * Cache errors are logged and treated as a miss, so they never fail an audit.
+ */
+export async function getCachedAudit(cacheKey: string): Promise<CachedAudit | null> {
+  if (!isAuditCacheEnabled()) return null;
+
+  try {
+    await connectDB();
+    const entry = await AuditCacheModel.findOneAndUpdate(
+      { cacheKey, expiresAt: { $gt: new Date() } },
+      { $inc: { hits: 1 }, $set: { lastHitAt: new Date() } },
+      { new: true }
+    ).lean<IAuditCache>();
+
+    return entry ? { report: entry.report, cachedAt: entry.cachedAt } : null;
+  } catch (error) {
+    console.error('Failed to read audit cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Stores a fresh result, replacing any existing entry for the key.
+ * Partial results (a failed chunk or project file) are not cached.
+ */
+export async function storeCachedAudit(cacheKey: string, report: AuditReport): Promise<void> {
+  if (!isAuditCacheEnabled()) return;
+  if (report.chunks?.some((chunk) => chunk.status === 'failed') || report.files?.some((file) => file.error)) {
+    return;
+  }
+
+  try {
+    await connectDB();
+    await AuditCacheModel.findOneAndUpdate(
+      { cacheKey },
+      {
+        $set: {
+          report,
+          auditEngineVersion: report.auditEngineVersion,
+          cachedAt: new Date(),
+          expiresAt: new Date(Date.now() + CACHE_CONFIG.TTL),
+          hits: 0,
+        },
+        $unset: { lastHitAt: 1 },
+      },
+      { upsert: true }
+    );
+  } catch (error) {
+    console.error('Failed to store audit cache entry:', error);
+  }
+}
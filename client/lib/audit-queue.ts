@@ -0,0 +1,375 @@
+/**
+ * Asynchronous audit job queue backed by MongoDB.
+ *
+ * Submitting a job stores the request and returns immediately. Workers in any app
+ * instance claim queued jobs atomically, run them through runAuditRequest (which logs
+ * and saves the AuditReport), and record the outcome on the job. Running jobs hold a
+ * lock that is renewed while they run; a job whose lock expires (the process crashed
+ * or was restarted) is requeued, up to MAX_ATTEMPTS times.
+ *
+ * A worker must hold one of CONCURRENCY shared slots (`AuditJobSlot`) to claim a job, so
+ * the concurrency limit holds across instances. Slot leases expire with the job lock.
+ *
+ * `runAuditWorker` drains the queue until it is empty; it backs the worker route
+ * (`/api/audit/jobs/worker`, called by a scheduler) and `audit-worker.ts`. Request
+ * handlers also start draining when a job is submitted or polled, which is enough on a
+ * long-running server but not on serverless hosts, where the process is frozen once the
+ * response is sent.
+ */
+import { randomUUID } from 'crypto';
+import { logger } from '@/lib/logging';
+import { validateContractCode } from '@/functions/auditInit';
+import { validateProjectFiles } from '@/functions/projectAudit';
+import { runAuditRequest, type AuditRequest } from '@/lib/audit-runner';
+import connectDB from '@/lib/mongodb';
+import AuditJobModel, { type IAuditJob, type StoredAuditRequest } from '@/lib/models/AuditJob';
+import AuditJobSlotModel, { type IAuditJobSlot } from '@/lib/models/AuditJobSlot';
+
+/**
+ * Queue configuration
+ */
+const QUEUE_CONFIG = {
+  /** Maximum jobs running at once across all workers (AUDIT_JOB_CONCURRENCY, default 2) */
+  CONCURRENCY: Math.max(1, parseInt(process.env.AUDIT_JOB_CONCURRENCY || '2', 10) || 2),
+  /** How long a running job's lock lasts without renewal */
+  LOCK_DURATION: 5 * 60 * 1000, // 5 minutes
+  /** How many times a job may be started before an interrupted run marks it failed */
+  MAX_ATTEMPTS: 3,
+} as const;
+
+/**
+ * Job status as returned by the API
+ */
+export interface AuditJobStatusResponse {
+  id: string;
+  status: IAuditJob['status'];
+  contractName?: string;
+  requestId: string;
+  /** Saved AuditReport id (succeeded jobs only) */
+  reportId?: string;
+  error?: { message: string; code: string };
+  /** 1-based position among queued jobs (queued jobs only) */
+  queuePosition?: number;
+  attempts: number;
+  queuedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+/**
+ * Outcome of a worker run
+ */
+export interface AuditWorkerResult {
+  jobsRun: number;
+  /** Whether the run stopped claiming jobs because its deadline passed */
+  timedOut: boolean;
+}
+
+let draining = false;
+let slotsReady = false;
+
+/**
+ * Converts a request into its stored form (project files become a list)
+ */
+function toStoredRequest(body: AuditRequest): StoredAuditRequest {
+  const { files, ...rest } = body;
+  return {
+    ...rest,
+    contractCode: body.contractCode || '',
+    files: files ? Object.entries(files).map(([path, content]) => ({ path, content })) : undefined,
+  };
+}
+
+/**
+ * Converts a stored request back into an AuditRequest
+ */
+function fromStoredRequest(stored: StoredAuditRequest): AuditRequest {
+  const { files, ...rest } = stored;
+  return {
+    ...rest,
+    files: files && files.length > 0
+      ? Object.fromEntries(files.map((file) => [file.path, file.content]))
+      : undefined,
+  };
+}
+
+/**
+ * Validates and stores an audit job, then starts draining the queue.
+ * @throws {AuditError} If the contract or project is invalid
+ */
+export async function enqueueAuditJob(
+  body: AuditRequest,
+  userEmail: string,
+  requestId: string,
+  clientRequestId?: string
+): Promise<IAuditJob> {
+  // Reject invalid input now rather than after the job has waited in the queue
+  if (body.files) {
+    validateProjectFiles(body.files);
+  } else {
+    validateContractCode(body.contractCode);
+  }
+
+  await connectDB();
+  const job = await AuditJobModel.create({
+    userEmail,
+    status: 'queued',
+    request: toStoredRequest(body),
+    contractName: body.contractName,
+    requestId,
+    clientRequestId,
+    queuedAt: new Date(),
+  });
+
+  void processAuditJobs();
+  return job;
+}
+
+/**
+ * Requeues running jobs whose lock expired, or fails them once they used up their attempts
+ */
+async function recoverStaleJobs(): Promise<void> {
+  const now = new Date();
+
+  await AuditJobModel.updateMany(
+    { status: 'running', lockedUntil: { $lt: now }, attempts: { $lt: QUEUE_CONFIG.MAX_ATTEMPTS } },
+    { $set: { status: 'queued' }, $unset: { lockedUntil: 1, startedAt: 1 } }
+  );
+
+  await AuditJobModel.updateMany(
+    { status: 'running', lockedUntil: { $lt: now }, attempts: { $gte: QUEUE_CONFIG.MAX_ATTEMPTS } },
+    {
+      $set: {
+        status: 'failed',
+        finishedAt: now,
+        error: { message: 'Audit job was interrupted too many times', code: 'JOB_INTERRUPTED' },
+      },
+      $unset: { lockedUntil: 1 },
+    }
+  );
+}
+
+/**
+ * Creates the worker slots once per process
+ */
+async function ensureSlots(): Promise<void> {
+  if (slotsReady) return;
+  try {
+    await AuditJobSlotModel.bulkWrite(
+      Array.from({ length: QUEUE_CONFIG.CONCURRENCY }, (_, slot) => ({
+        updateOne: { filter: { slot }, update: { $setOnInsert: { slot } }, upsert: true },
+      })),
+      { ordered: false }
+    );
+  } catch (error) {
+    // Another instance created the same slots concurrently
+    if ((error as { code?: number }).code !== 11000) throw error;
+  }
+  slotsReady = true;
+}
+
+/**
+ * Atomically leases a free worker slot (or one whose lease expired)
+ */
+async function acquireSlot(): Promise<IAuditJobSlot | null> {
+  await ensureSlots();
+  const now = new Date();
+  return AuditJobSlotModel.findOneAndUpdate(
+    {
+      slot: { $lt: QUEUE_CONFIG.CONCURRENCY },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lt: now } }],
+    },
+    {
+      $set: { leaseId: randomUUID(), lockedUntil: new Date(now.getTime() + QUEUE_CONFIG.LOCK_DURATION) },
+      $unset: { jobId: 1 },
+    },
+    { new: true }
+  );
+}
+
+/**
+ * Frees a slot, unless its lease expired and another worker took it over
+ */
+async function releaseSlot(slot: IAuditJobSlot): Promise<void> {
+  await AuditJobSlotModel.updateOne(
+    { _id: slot._id, leaseId: slot.leaseId },
+    { $unset: { leaseId: 1, jobId: 1, lockedUntil: 1 } }
+  );
+}
+
+/**
+ * Atomically claims the oldest queued job
+ */
+async function claimNextJob(): Promise<IAuditJob | null> {
+  const now = new Date();
+  return AuditJobModel.findOneAndUpdate(
+    { status: 'queued' },
+    {
+      $set: { status: 'running', startedAt: now, lockedUntil: new Date(now.getTime() + QUEUE_CONFIG.LOCK_DURATION) },
+      $inc: { attempts: 1 },
+    },
+    { sort: { queuedAt: 1 }, new: true }
+  );
+}
+
+/**
+ * Runs a claimed job and records its outcome
+ */
+async function runJob(job: IAuditJob, slot: IAuditJobSlot): Promise<void> {
+  // Renew the job lock and slot lease while the audit runs, so long audits are not requeued
+  const heartbeat = setInterval(() => {
+    const lockedUntil = new Date(Date.now() + QUEUE_CONFIG.LOCK_DURATION);
+    Promise.all([
+      AuditJobModel.updateOne({ _id: job._id, status: 'running' }, { $set: { lockedUntil } }),
+      AuditJobSlotModel.updateOne({ _id: slot._id, leaseId: slot.leaseId }, { $set: { lockedUntil } }),
+    ]).catch((error) => console.error('Failed to renew audit job lock:', error));
+  }, QUEUE_CONFIG.LOCK_DURATION / 3);
+
+  let update: Record<string, unknown>;
+  try {
+    const result = await runAuditRequest(fromStoredRequest(job.request), {
+      userEmail: job.userEmail,
+      requestId: job.requestId,
+      clientRequestId: job.clientRequestId,
+      startTime: Date.now(),
+    });
+
+    if (result.success && result.reportId) {
+      update = { status: 'succeeded', reportId: result.reportId };
+    } else if (result.success) {
+      update = { status: 'failed', error: { message: 'Audit completed but the report could not be saved', code: 'DATABASE_ERROR' } };
+    } else {
+      update = { status: 'failed', error: { message: result.errorMessage, code: result.errorType } };
+    }
+  } catch (error) {
+    await logger.logError(
+      'JOB_ERROR',
+      error instanceof Error ? error.message : 'Unknown error occurred',
+      job.userEmail,
+      error instanceof Error ? error.stack : undefined,
+      job.requestId
+    );
+    update = { status: 'failed', error: { message: 'An unexpected error occurred', code: 'UNEXPECTED_ERROR' } };
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  await AuditJobModel.updateOne(
+    { _id: job._id },
+    { $set: { ...update, finishedAt: new Date() }, $unset: { lockedUntil: 1 } }
+  );
+}
+
+/**
+ * Starts queued jobs while a slot is free, the queue is not empty and `canClaim` allows it.
+ * Each returned promise settles once its job is recorded and its slot released.
+ */
+async function startQueuedJobs(canClaim: () => boolean = () => true): Promise<Array<Promise<void>>> {
+  await connectDB();
+  await recoverStaleJobs();
+
+  const started: Array<Promise<void>> = [];
+  while (canClaim()) {
+    const slot = await acquireSlot();
+    if (!slot) break;
+
+    const job = await claimNextJob();
+    if (!job) {
+      await releaseSlot(slot);
+      break;
+    }
+    await AuditJobSlotModel.updateOne({ _id: slot._id, leaseId: slot.leaseId }, { $set: { jobId: job._id } });
+
+    started.push(
+      runJob(job, slot)
+        .catch((error) => console.error('Failed to record audit job result:', error))
+        .finally(() => releaseSlot(slot).catch((error) => console.error('Failed to release audit job slot:', error)))
+    );
+  }
+  return started;
+}
+
+async function logQueueError(error: unknown): Promise<void> {
+  console.error('Failed to process audit jobs:', error);
+  await logger.logError(
+    'JOB_QUEUE_ERROR',
+    error instanceof Error ? error.message : 'Failed to process audit jobs',
+    undefined,
+    error instanceof Error ? error.stack : undefined
+  );
+}
+
+/**
+ * Starts queued jobs without waiting for them (used by request handlers).
+ * Safe to call often: concurrent calls in the same process are coalesced.
+ */
+export async function processAuditJobs(): Promise<void> {
+  if (draining) return;
+  draining = true;
+
+  try {
+    const started = await startQueuedJobs();
+    started.forEach((job) => {
+      void job.finally(() => {
+        void processAuditJobs();
+      });
+    });
+  } catch (error) {
+    await logQueueError(error);
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Runs queued jobs until the queue is empty (or every slot is held by other workers)
+ * and waits for them to finish. No job is claimed after `deadline` (epoch ms).
+ */
+export async function runAuditWorker(options: { deadline?: number } = {}): Promise<AuditWorkerResult> {
+  const canClaim = () => !options.deadline || Date.now() < options.deadline;
+  const running = new Set<Promise<void>>();
+  let jobsRun = 0;
+
+  const fill = async () => {
+    try {
+      for (const job of await startQueuedJobs(canClaim)) {
+        const tracked: Promise<void> = job.finally(() => running.delete(tracked));
+        running.add(tracked);
+        jobsRun++;
+      }
+    } catch (error) {
+      await logQueueError(error);
+    }
+  };
+
+  await fill();
+  while (running.size > 0) {
+    await Promise.race(running);
+    await fill();
+  }
+
+  return { jobsRun, timedOut: !canClaim() };
+}
+
+/**
+ * Formats a job for the API, including its queue position while queued
+ */
+export async function toJobStatusResponse(job: IAuditJob): Promise<AuditJobStatusResponse> {
+  const queuePosition = job.status === 'queued'
+    ? await AuditJobModel.countDocuments({ status: 'queued', queuedAt: { $lt: job.queuedAt } }) + 1
+    : undefined;
+
+  return {
+    id: String(job._id),
+    status: job.status,
+    contractName: job.contractName,
+    requestId: job.requestId,
+    reportId: job.reportId?.toString(),
+    error: job.error?.code ? job.error : undefined,
+    queuePosition,
+    attempts: job.attempts,
+    queuedAt: job.queuedAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+  };
+}
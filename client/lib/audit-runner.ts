@@ -0,0 +1,341 @@
+import type { NextRequest } from 'next/server';
+import { logger } from '@/lib/logging';
+import {
+  auditSmartContract,
+  AuditError,
+  calculateRiskScore,
+  type AuditProgressEvent,
+  type AuditReport,
+  type Vulnerability,
+} from '@/functions/auditInit';
+import { auditProject, extractProjectZip, type SourceFileMap } from '@/functions/projectAudit';
+import connectDB from '@/lib/mongodb';
+import AuditReportModel, { type IReportShare } from '@/lib/models/AuditReport';
+import { encodeSource } from '@/lib/source-storage';
+import { getAuditCacheKey, getCachedAudit, storeCachedAudit } from '@/lib/audit-cache';
+import { suppressFindings } from '@/lib/suppression-rules';
+import { resolveAuditTarget, type AuditTarget } from '@/lib/projects';
+
+/**
+ * Audit request body.
+ * Either `contractCode` (single contract) or `files` (multi-file project) is required.
+ */
+export interface AuditRequest {
+  contractCode: string;
+  contractName?: string;
+  timeout?: number;
+  provider?: string;
+  /** Project sources keyed by path, for multi-file audits */
+  files?: SourceFileMap;
+  /** Foundry-style remappings, e.g. "@openzeppelin/=lib/openzeppelin-contracts/" */
+  remappings?: string[];
+  /** Run a fresh audit even when a cached result exists */
+  force?: boolean;
+  /** Project to attach the report to (defaults to the user's default project) */
+  projectId?: string;
+  /** Project contract to attach the report to (matched by contract name when omitted) */
+  contractId?: string;
+}
+
+/**
+ * Original audit of a re-audit. The re-audit is saved as a new version of the original's
+ * project contract, with the original owner's suppression rules applied.
+ */
+export interface ReAuditOrigin {
+  originalAuditId: string;
+  ownerEmail: string;
+  projectId?: string;
+  contractId?: string;
+  /** Sharing of the re-audit report */
+  sharedWithTeams?: string[];
+  sharedWithUsers?: IReportShare[];
+}
+
+/**
+ * Outcome of running an audit request
+ */
+export type AuditRunResult =
+  | {
+      success: true;
+      auditReport: AuditReport;
+      auditDuration: number;
+      riskScore: number;
+      /** Provider requests charged for this audit (0 when served from the cache) */
+      creditsConsumed: number;
+      /** When set, the report was served from the audit cache and produced at this time */
+      cachedAt?: Date;
+      /** Id of the saved report (undefined if saving to MongoDB failed) */
+      reportId?: string;
+      /** SHA-256 of the audited source */
+      sourceHash: string;
+      /** The user's most recent earlier audit of identical source, if any */
+      previousAudit?: { reportId: string; auditedAt: Date };
+      /** Project contract the report was attached to (undefined if it could not be resolved) */
+      target?: AuditTarget;
+    }
+  | {
+      success: false;
+      errorType: string;
+      errorMessage: string;
+    };
+
+/**
+ * Reads the request as JSON, or as multipart form data carrying a zipped project
+ * in the `file` field (with optional contractName, remappings, provider, timeout, force,
+ * projectId and contractId fields)
+ * @throws {AuditError} If the uploaded archive is invalid
+ */
+export async function parseAuditRequest(request: NextRequest): Promise<AuditRequest> {
+  const contentType = request.headers.get('content-type') || '';
+  if (!contentType.includes('multipart/form-data')) {
+    return request.json();
+  }
+
+  const form = await request.formData();
+  const upload = form.get('file');
+  if (!(upload instanceof Blob)) {
+    throw new AuditError('Missing zip archive in "file" field', 'INVALID_ARCHIVE');
+  }
+
+  const field = (name: string) => {
+    const value = form.get(name);
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+
+  return {
+    contractCode: '',
+    files: extractProjectZip(new Uint8Array(await upload.arrayBuffer())),
+    contractName: field('contractName'),
+    remappings: field('remappings')?.split('\n'),
+    provider: field('provider'),
+    timeout: field('timeout') ? parseInt(field('timeout')!, 10) : undefined,
+    force: field('force') === 'true',
+    projectId: field('projectId'),
+    contractId: field('contractId'),
+  };
+}
+
+/**
+ * Calculate severity breakdown for logging
+ */
+export function calculateSeverityBreakdown(vulnerabilities: Vulnerability[]) {
+  return vulnerabilities.reduce(
+    (breakdown, vuln) => {
+      breakdown[vuln.severity.toLowerCase() as keyof typeof breakdown]++;
+      return breakdown;
+    },
+    { critical: 0, high: 0, medium: 0, low: 0 }
+  );
+}
+
+/**
+ * Credits consumed by an audit: one per billed provider request, counting every chunk,
+ * project file and parse retry. Cached results consume none.
+ */
+export function calculateCreditsConsumed(auditReport: AuditReport, cached: boolean = false): number {
+  if (cached) return 0;
+  return auditReport.providerTiming?.requests || 1;
+}
+
+/**
+ * Runs an audit request for an authenticated user: logs the start, audits the contract
+ * or project (or reuses a cached result unless `force` is set), applies the user's
+ * suppression rules, logs the outcome and saves the report to MongoDB, attached to its
+ * project contract. With `reAudit` set, the report is saved as a re-audit of the original.
+ * Audit failures are logged and returned rather than thrown; a failed save is logged
+ * and leaves `reportId` undefined.
+ */
+export async function runAuditRequest(
+  body: AuditRequest,
+  context: {
+    userEmail: string;
+    requestId: string;
+    clientRequestId?: string;
+    startTime: number;
+    onProgress?: (event: AuditProgressEvent) => void;
+    reAudit?: ReAuditOrigin;
+  }
+): Promise<AuditRunResult> {
+  const { userEmail, requestId, clientRequestId, startTime, onProgress, reAudit } = context;
+  const { contractCode, contractName, timeout = 90000, provider, files, remappings, force } = body;
+  const contractSize = files
+    ? Object.values(files).reduce((sum, content) => sum + String(content).length, 0)
+    : contractCode.length;
+
+  // Contract code validation is handled by auditSmartContract / auditProject
+
+  // 1. Log audit start
+  const logId = await logger.logAuditStart(
+    userEmail,
+    contractName,
+    contractSize,
+    requestId,
+    clientRequestId
+  );
+
+  // 2. Reuse a cached result, or call the audit function
+  let auditReport: AuditReport;
+  let cachedAt: Date | undefined;
+  try {
+    const cacheKey = getAuditCacheKey(body);
+    const cached = force ? null : await getCachedAudit(cacheKey);
+    if (cached) {
+      auditReport = cached.report;
+      cachedAt = cached.cachedAt;
+    } else {
+      auditReport = files
+        ? await auditProject(files, contractName, { timeout, provider, remappings, onProgress })
+        : await auditSmartContract(contractCode, contractName, { timeout, provider, onProgress });
+      await storeCachedAudit(cacheKey, auditReport);
+    }
+  } catch (error) {
+    const auditDuration = Date.now() - startTime;
+    let errorMessage = 'Unknown error occurred';
+    let errorType = 'AUDIT_ERROR';
+
+    if (error instanceof AuditError) {
+      errorType = error.code || 'AUDIT_ERROR';
+      errorMessage = error.message;
+    } else if (error instanceof Error) {
+      errorMessage = error.message;
+    }
+
+    await logger.logError(
+      errorType,
+      errorMessage,
+      userEmail,
+      error instanceof Error ? error.stack : undefined,
+      requestId
+    );
+
+    await logger.logAuditComplete(
+      logId,
+      userEmail,
+      contractName,
+      contractSize,
+      false, // success = false
+      auditDuration,
+      undefined, // vulnerabilitiesFound
+      undefined, // severityBreakdown
+      errorMessage,
+      requestId
+    );
+
+    return { success: false, errorType, errorMessage };
+  }
+
+  // 3. Resolve the project contract (a re-audit keeps the original's); the report is saved
+  // unattached if this fails
+  let target: AuditTarget | undefined;
+  try {
+    if (reAudit) {
+      target = reAudit.projectId && reAudit.contractId
+        ? { projectId: reAudit.projectId, contractId: reAudit.contractId }
+        : undefined;
+    } else {
+      target = await resolveAuditTarget(userEmail, body, auditReport.contractName);
+    }
+  } catch (projectError) {
+    console.error('Failed to resolve audit project:', projectError);
+    await logger.logError(
+      'PROJECT_ERROR',
+      projectError instanceof Error ? projectError.message : 'Failed to resolve audit project',
+      userEmail,
+      projectError instanceof Error ? projectError.stack : undefined,
+      requestId
+    );
+  }
+
+  // 4. Move suppressed findings out of the report (the cache keeps the unsuppressed result)
+  const source = files ? { files } : { contractCode };
+  auditReport = await suppressFindings(auditReport, reAudit?.ownerEmail ?? userEmail, source, target?.projectId);
+
+  // 5. Calculate metrics and log completion
+  const auditDuration = Date.now() - startTime;
+  const severityBreakdown = calculateSeverityBreakdown(auditReport.vulnerabilities);
+  const creditsConsumed = calculateCreditsConsumed(auditReport, !!cachedAt);
+
+  await logger.logAuditComplete(
+    logId,
+    userEmail,
+    contractName,
+    contractSize,
+    true, // success = true
+    auditDuration,
+    auditReport.vulnerabilities.length,
+    severityBreakdown,
+    undefined, // errorMessage
+    requestId,
+    creditsConsumed
+  );
+
+  // 6. Calculate risk score from vulnerabilities
+  const riskScore = calculateRiskScore(auditReport);
+
+  // 7. Save audit report to MongoDB, with its compressed source
+  const storedSource = encodeSource(source);
+  let reportId: string | undefined;
+  let previousAudit: { reportId: string; auditedAt: Date } | undefined;
+  try {
+    await connectDB();
+    const previous = await AuditReportModel.findOne({ userEmail, sourceHash: storedSource.sourceHash })
+      .sort({ auditedAt: -1 })
+      .select('_id auditedAt')
+      .lean<{ _id: unknown; auditedAt: Date }>();
+    if (previous) {
+      previousAudit = { reportId: String(previous._id), auditedAt: previous.auditedAt };
+    }
+
+    const saved = await AuditReportModel.create({
+      userEmail,
+      contractName: auditReport.contractName,
+      language: auditReport.language,
+      summary: auditReport.summary,
+      vulnerabilities: auditReport.vulnerabilities,
+      suppressedVulnerabilities: auditReport.suppressedVulnerabilities,
+      linesOfCode: auditReport.linesOfCode,
+      contractModel: auditReport.contractModel,
+      files: auditReport.files,
+      chunks: auditReport.chunks,
+      auditedAt: auditReport.auditedAt,
+      auditEngineVersion: auditReport.auditEngineVersion,
+      rawResponse: auditReport.rawResponse,
+      ...storedSource,
+      requestId,
+      auditDuration,
+      providerTiming: cachedAt ? undefined : auditReport.providerTiming, // A cached result made no provider requests
+      riskScore,
+      cached: cachedAt !== undefined,
+      projectId: target?.projectId,
+      contractId: target?.contractId,
+      originalAuditId: reAudit?.originalAuditId,
+      isReAudit: reAudit !== undefined,
+      sharedWithTeams: reAudit?.sharedWithTeams,
+      sharedWithUsers: reAudit?.sharedWithUsers,
+    });
+    reportId = saved._id.toString();
+  } catch (dbError) {
+    // Log database error but don't fail the request
+    console.error('Failed to save audit report to database:', dbError);
+    await logger.logError(
+      'DATABASE_ERROR',
+      'Failed to save audit report to MongoDB',
+      userEmail,
+      dbError instanceof Error ? dbError.stack : undefined,
+      requestId
+    );
+  }
+
+  return {
+    success: true,
+    auditReport,
+    auditDuration,
+    riskScore,
+    creditsConsumed,
+    cachedAt,
+    reportId,
+    sourceHash: storedSource.sourceHash,
+    previousAudit,
+    target,
+  };
+}
@@ -0,0 +1,287 @@
+/**
+ * Cross-user audit statistics from MongoDB, in two tiers:
+ *
+ * - full (admins): per-user statistics with email addresses
+ * - public: aggregates only; users are identified by a salted hash of their email, and
+ *   no findings, summaries, contract names or raw responses are included
+ *
+ * Statistics are computed by an aggregation in MongoDB, and recent audits are projected
+ * to summary fields, so reports (and large fields such as `rawResponse` and `sourceCode`)
+ * are never loaded into the app. Public statistics are cached per instance for
+ * PUBLIC_CACHE_TTL, since that endpoint needs no sign-in.
+ */
+import { createHash } from 'crypto';
+import type { FilterQuery } from 'mongoose';
+import { AuditError } from '@/functions/auditInit';
+import connectDB from '@/lib/mongodb';
+import AuditReportModel, { type IAuditReport } from '@/lib/models/AuditReport';
+import type { AuditStatistics } from '@/lib/logging';
+
+/**
+ * Credits consumed by a stored report, as charged by `calculateCreditsConsumed`
+ * (lib/audit-runner.ts): one per provider request, none for a cache hit
+ */
+const CREDITS_CONSUMED = {
+  $cond: [{ $eq: ['$cached', true] }, 0, { $max: [1, { $ifNull: ['$providerTiming.requests', 1] }] }],
+};
+
+/**
+ * Fields returned for each recent audit on admin dashboards
+ */
+const RECENT_AUDIT_PROJECTION = {
+  userEmail: 1,
+  contractName: 1,
+  language: 1,
+  auditedAt: 1,
+  createdAt: 1,
+  auditDuration: 1,
+  riskScore: 1,
+  isReAudit: 1,
+  creditsConsumed: CREDITS_CONSUMED,
+  vulnerabilitiesFound: { $size: { $ifNull: ['$vulnerabilities', []] } },
+};
+
+export const MAX_RECENT_AUDITS = 500;
+
+const PUBLIC_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const PUBLIC_CACHE_MAX_ENTRIES = 100;
+
+const publicStatisticsCache = new Map<string, { stats: PublicAuditStatistics; generatedAt: Date }>();
+
+/**
+ * Statistics safe to serve without authentication
+ */
+export interface PublicAuditStatistics extends Omit<AuditStatistics, 'userStats'> {
+  userStats: Array<{
+    userId: string; // Salted hash of the email (see hashUserEmail)
+    auditCount: number;
+    creditsConsumed: number;
+  }>; // Empty when no salt is configured
+}
+
+/**
+ * A recent audit as shown on admin dashboards
+ */
+export interface RecentAuditSummary {
+  _id: string;
+  userEmail: string;
+  contractName: string;
+  language: string;
+  auditedAt: string;
+  createdAt: string;
+  auditDuration?: number;
+  riskScore?: number;
+  isReAudit?: boolean;
+  creditsConsumed: number;
+  vulnerabilitiesFound: number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parses a YYYY-MM-DD query parameter
+ * @throws {AuditError} INVALID_INPUT if the date is malformed
+ */
+function parseQueryDate(value: string): Date {
+  const date = new Date(value);
+  if (!DATE_PATTERN.test(value) || Number.isNaN(date.getTime())) {
+    throw new AuditError('Dates must be in YYYY-MM-DD format', 'INVALID_INPUT');
+  }
+  return date;
+}
+
+/**
+ * Builds an `auditedAt` filter from YYYY-MM-DD bounds; the end date is inclusive
+ * @throws {AuditError} INVALID_INPUT if a date is malformed
+ */
+export function auditDateQuery(startDate?: string | null, endDate?: string | null): FilterQuery<IAuditReport> {
+  if (!startDate && !endDate) {
+    return {};
+  }
+
+  const auditedAt: { $gte?: Date; $lte?: Date } = {};
+  if (startDate) {
+    auditedAt.$gte = parseQueryDate(startDate);
+  }
+  if (endDate) {
+    // Include the entire end date
+    const end = parseQueryDate(endDate);
+    end.setHours(23, 59, 59, 999);
+    auditedAt.$lte = end;
+  }
+  return { auditedAt };
+}
+
+/**
+ * Salt for anonymous user ids: ANALYTICS_HASH_SALT, else NEXTAUTH_SECRET
+ */
+function analyticsSalt(): string | undefined {
+  return process.env.ANALYTICS_HASH_SALT || process.env.NEXTAUTH_SECRET || undefined;
+}
+
+/**
+ * Stable anonymous id for a user. Salted with ANALYTICS_HASH_SALT (or NEXTAUTH_SECRET)
+ * so ids cannot be reversed by hashing guessed addresses.
+ * @throws {Error} If neither is set
+ */
+export function hashUserEmail(email: string): string {
+  const salt = analyticsSalt();
+  if (!salt) {
+    throw new Error('ANALYTICS_HASH_SALT or NEXTAUTH_SECRET is required to anonymize user ids');
+  }
+  return `user-${createHash('sha256').update(`${salt}:${email.toLowerCase()}`).digest('hex').slice(0, 10)}`;
+}
+
+/**
+ * Computes statistics over all users' audits in a date range
+ */
+export async function getAuditStatistics(dateQuery: FilterQuery<IAuditReport>): Promise<AuditStatistics> {
+  await connectDB();
+  const [result] = await AuditReportModel.aggregate([
+    { $match: dateQuery },
+    {
+      $facet: {
+        totals: [
+          {
+            $group: {
+              _id: null,
+              totalAudits: { $sum: 1 },
+              totalCreditsConsumed: { $sum: CREDITS_CONSUMED },
+              durationTotal: { $sum: { $cond: [{ $gt: ['$auditDuration', 0] }, '$auditDuration', 0] } },
+              durationCount: { $sum: { $cond: [{ $gt: ['$auditDuration', 0] }, 1, 0] } },
+            },
+          },
+        ],
+        // Pre Audit Score = average risk score of initial audits
+        preAudit: [
+          { $match: { isReAudit: { $ne: true }, riskScore: { $ne: null } } },
+          { $group: { _id: null, average: { $avg: '$riskScore' } } },
+        ],
+        // Post Audit Score = average risk score of the LAST re-audit of each original audit
+        postAudit: [
+          { $match: { isReAudit: true, riskScore: { $ne: null }, originalAuditId: { $ne: null } } },
+          { $sort: { auditedAt: -1 } },
+          { $group: { _id: '$originalAuditId', riskScore: { $first: '$riskScore' } } },
+          { $group: { _id: null, average: { $avg: '$riskScore' } } },
+        ],
+        severities: [
+          { $unwind: '$vulnerabilities' },
+          { $group: { _id: '$vulnerabilities.severity', count: { $sum: 1 } } },
+        ],
+        users: [
+          {
+            $group: {
+              _id: '$userEmail',
+              auditCount: { $sum: 1 },
+              creditsConsumed: { $sum: CREDITS_CONSUMED },
+              lastAudit: { $max: '$auditedAt' },
+            },
+          },
+          { $sort: { auditCount: -1, _id: 1 } },
+        ],
+        daily: [
+          {
+            $group: {
+              _id: { $dateToString: { format: '%Y-%m-%d', date: '$auditedAt' } },
+              auditCount: { $sum: 1 },
+              creditsConsumed: { $sum: CREDITS_CONSUMED },
+            },
+          },
+          { $sort: { _id: 1 } },
+        ],
+      },
+    },
+  ]);
+
+  const totals = result.totals[0] || { totalAudits: 0, totalCreditsConsumed: 0, durationTotal: 0, durationCount: 0 };
+  const severityCount = (severity: string) =>
+    result.severities.find((group: { _id: string }) => group._id === severity)?.count || 0;
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  return {
+    totalAudits: totals.totalAudits,
+    totalCreditsConsumed: totals.totalCreditsConsumed,
+    totalUsers: result.users.length,
+    averagePreAuditScore: round(result.preAudit[0]?.average || 0),
+    averagePostAuditScore: round(result.postAudit[0]?.average || 0),
+    averageAuditDuration: totals.durationCount > 0 ? Math.round(totals.durationTotal / totals.durationCount) : 0,
+    vulnerabilityStats: {
+      totalVulnerabilities: result.severities.reduce((sum: number, group: { count: number }) => sum + group.count, 0),
+      severityBreakdown: {
+        critical: severityCount('CRITICAL'),
+        high: severityCount('HIGH'),
+        medium: severityCount('MEDIUM'),
+        low: severityCount('LOW'),
+      },
+    },
+    userStats: result.users.map((user: { _id: string; auditCount: number; creditsConsumed: number; lastAudit: Date }) => ({
+      email: user._id,
+      auditCount: user.auditCount,
+      creditsConsumed: user.creditsConsumed,
+      lastAudit: new Date(user.lastAudit).toISOString(),
+    })),
+    dailyStats: result.daily.map((day: { _id: string; auditCount: number; creditsConsumed: number }) => ({
+      date: day._id,
+      auditCount: day.auditCount,
+      creditsConsumed: day.creditsConsumed,
+    })),
+  };
+}
+
+/**
+ * Strips identifying data from statistics: emails become anonymous ids and last-audit
+ * times are dropped. Without a salt, per-user statistics are left out entirely, since
+ * unsalted ids could be reversed by hashing guessed addresses.
+ */
+export function anonymizeStatistics(stats: AuditStatistics): PublicAuditStatistics {
+  return {
+    ...stats,
+    userStats: analyticsSalt()
+      ? stats.userStats.map(user => ({
+          userId: hashUserEmail(user.email),
+          auditCount: user.auditCount,
+          creditsConsumed: user.creditsConsumed,
+        }))
+      : [],
+  };
+}
+
+/**
+ * Anonymized statistics for a date range, cached per instance for PUBLIC_CACHE_TTL
+ * @throws {AuditError} INVALID_INPUT if a date is malformed
+ */
+export async function getPublicStatistics(
+  startDate?: string | null,
+  endDate?: string | null
+): Promise<{ stats: PublicAuditStatistics; generatedAt: Date }> {
+  const key = `${startDate || ''}|${endDate || ''}`;
+  const cached = publicStatisticsCache.get(key);
+  if (cached && Date.now() - cached.generatedAt.getTime() < PUBLIC_CACHE_TTL) {
+    return cached;
+  }
+
+  const entry = {
+    stats: anonymizeStatistics(await getAuditStatistics(auditDateQuery(startDate, endDate))),
+    generatedAt: new Date(),
+  };
+  publicStatisticsCache.delete(key);
+  publicStatisticsCache.set(key, entry);
+  // Evict the oldest entries (Maps iterate in insertion order)
+  while (publicStatisticsCache.size > PUBLIC_CACHE_MAX_ENTRIES) {
+    publicStatisticsCache.delete(publicStatisticsCache.keys().next().value as string);
+  }
+  return entry;
+}
+
+/**
+ * Most recent audits across all users, without findings, summaries or raw responses
+ */
+export async function getRecentAudits(dateQuery: FilterQuery<IAuditReport>, limit: number): Promise<RecentAuditSummary[]> {
+  await connectDB();
+  return AuditReportModel.aggregate([
+    { $match: dateQuery },
+    { $sort: { auditedAt: -1 } }, // Most recent first
+    { $limit: Number.isFinite(limit) ? Math.min(Math.max(limit, 1), MAX_RECENT_AUDITS) : 50 },
+    { $project: RECENT_AUDIT_PROJECTION },
+  ]);
+}
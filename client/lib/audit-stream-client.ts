@@ -0,0 +1,151 @@
+/**
+ * Browser client for POST /api/audit/stream.
+ *
+ * EventSource cannot send a POST body, so the stream is read with fetch and parsed here.
+ * When the connection drops before the audit finishes, the client reconnects to
+ * GET /api/audit/stream with the last event id it received and resumes from there.
+ */
+
+/**
+ * A parsed Server-Sent Event
+ */
+export interface StreamedAuditEvent {
+  id?: number;
+  event: string;
+  data: any;
+}
+
+/**
+ * Options for streamAudit
+ */
+export interface StreamAuditOptions {
+  /** JSON string or FormData, as accepted by POST /api/audit */
+  body: BodyInit;
+  headers?: HeadersInit;
+  /** Called for every progress event, including the final `complete` event */
+  onEvent: (event: StreamedAuditEvent) => void;
+  /** Called before each reconnection attempt */
+  onReconnect?: (attempt: number) => void;
+  /** Maximum consecutive reconnection attempts (default: 5) */
+  maxRetries?: number;
+}
+
+/**
+ * Payload of the final `complete` event
+ */
+export interface StreamedAuditResult {
+  data: any;
+  metadata: any;
+}
+
+const RETRY_BASE_DELAY = 1_000;
+
+/**
+ * Parses one SSE message block; returns undefined for comments and retry hints
+ */
+function parseEventBlock(block: string): StreamedAuditEvent | undefined {
+  let id: number | undefined;
+  let event = 'message';
+  const data: string[] = [];
+
+  block.split('\n').forEach((line) => {
+    if (line.startsWith('id:')) id = parseInt(line.slice(3).trim(), 10);
+    else if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+  });
+
+  if (data.length === 0) return undefined;
+  return { id, event, data: JSON.parse(data.join('\n')) };
+}
+
+/**
+ * Reads SSE messages from a response body until it ends
+ */
+async function readEvents(response: Response, onEvent: (event: StreamedAuditEvent) => void): Promise<void> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const event = parseEventBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (event) onEvent(event);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+/**
+ * Starts a streamed audit and resolves with the final report once the `complete` event arrives.
+ * @throws {Error} If the audit fails, the request is rejected, or the stream cannot be resumed
+ */
+export async function streamAudit(options: StreamAuditOptions): Promise<StreamedAuditResult> {
+  const maxRetries = options.maxRetries ?? 5;
+
+  let response = await fetch('/api/audit/stream', {
+    method: 'POST',
+    headers: options.headers,
+    body: options.body,
+  });
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || 'Failed to audit smart contract');
+  }
+
+  const requestId = response.headers.get('X-Request-Id');
+  let lastEventId = 0;
+  let attempt = 0;
+  let result: StreamedAuditResult | undefined;
+  let failure: string | undefined;
+
+  const handleEvent = (event: StreamedAuditEvent) => {
+    if (event.id) lastEventId = event.id;
+    attempt = 0;
+    if (event.event === 'complete') result = event.data;
+    if (event.event === 'error') failure = event.data?.error || 'Failed to audit smart contract';
+    options.onEvent(event);
+  };
+
+  while (true) {
+    try {
+      await readEvents(response, handleEvent);
+    } catch {
+      // Connection dropped mid-stream; fall through to reconnect
+    }
+
+    if (result) return result;
+    if (failure) throw new Error(failure);
+
+    attempt++;
+    if (!requestId || attempt > maxRetries) {
+      throw new Error('Lost connection to the audit service. The audit may still finish; check your audit history.');
+    }
+
+    options.onReconnect?.(attempt);
+    await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_DELAY * attempt));
+
+    try {
+      response = await fetch(
+        `/api/audit/stream?requestId=${encodeURIComponent(requestId)}&lastEventId=${lastEventId}`,
+        { headers: { 'Last-Event-ID': String(lastEventId) } }
+      );
+    } catch {
+      continue;
+    }
+
+    if (response.status === 404) {
+      // Expired, or held by another server instance (see lib/audit-stream.ts)
+      throw new Error('The audit stream is no longer available. Check your audit history for the result.');
+    }
+    if (!response.ok) {
+      continue;
+    }
+  }
+}
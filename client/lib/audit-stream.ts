@@ -0,0 +1,172 @@
+/**
+ * Server-Sent Events sessions for streaming audit progress.
+ *
+ * Each streamed audit gets a session keyed by its request id. Events are buffered
+ * in memory so a client that loses its connection can reconnect with the last event
+ * id it saw and receive everything it missed (of the `tokens` events, only the latest is
+ * kept); the audit itself keeps running independently of any connection.
+ *
+ * Sessions live in the memory of the server instance running the audit, so reconnection
+ * only works when it reaches that instance (a single instance, or sticky sessions by
+ * request id). Elsewhere the session is not found and the client falls back to the
+ * audit history, where the report is saved when the audit finishes.
+ */
+
+/**
+ * A buffered event, sent as one SSE message
+ */
+export interface AuditStreamEvent {
+  /** Sequential id, used as the SSE `id` for Last-Event-ID reconnection */
+  id: number;
+  /** SSE event name (e.g., "started", "tokens", "finding", "saved", "complete", "error") */
+  event: string;
+  data: unknown;
+}
+
+/** How long a finished session stays available for reconnection */
+const SESSION_TTL = 5 * 60 * 1000; // 5 minutes
+
+/** Interval between keep-alive comments, so proxies do not close idle connections */
+const HEARTBEAT_INTERVAL = 15_000;
+
+/** Reconnection delay suggested to EventSource-style clients */
+const RETRY_DELAY = 2_000;
+
+/**
+ * Event buffer and subscribers of one streamed audit
+ */
+export class AuditStreamSession {
+  public readonly events: AuditStreamEvent[] = [];
+  public closed = false;
+  private nextId = 1;
+  private listeners = new Set<(event: AuditStreamEvent | null) => void>();
+
+  constructor(
+    public readonly requestId: string,
+    public readonly userEmail: string
+  ) {}
+
+  /**
+   * Buffers an event and delivers it to connected clients.
+   * A `tokens` event replaces the buffered one: each carries the total received so far.
+   */
+  emit(event: string, data: unknown): void {
+    if (this.closed) return;
+    const entry: AuditStreamEvent = { id: this.nextId++, event, data };
+    if (event === 'tokens') {
+      const previous = this.events.findIndex((item) => item.event === 'tokens');
+      if (previous !== -1) this.events.splice(previous, 1);
+    }
+    this.events.push(entry);
+    this.listeners.forEach((listener) => listener(entry));
+  }
+
+  /**
+   * Marks the stream as finished, ends connected responses and schedules cleanup
+   */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.listeners.forEach((listener) => listener(null));
+    this.listeners.clear();
+    setTimeout(() => sessions.delete(this.requestId), SESSION_TTL);
+  }
+
+  /**
+   * Subscribes to new events; `null` signals the end of the stream
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (event: AuditStreamEvent | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+const sessions = new Map<string, AuditStreamSession>();
+
+/**
+ * Creates and registers a stream session for a request
+ */
+export function createAuditStream(requestId: string, userEmail: string): AuditStreamSession {
+  const session = new AuditStreamSession(requestId, userEmail);
+  sessions.set(requestId, session);
+  return session;
+}
+
+/**
+ * Returns the session of a request, if it is still running or recently finished
+ */
+export function getAuditStream(requestId: string): AuditStreamSession | undefined {
+  return sessions.get(requestId);
+}
+
+/**
+ * Encodes one SSE message
+ */
+function formatEvent(event: AuditStreamEvent): string {
+  return `id: ${event.id}\nevent: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * Builds an SSE response body for a session, replaying buffered events after
+ * `lastEventId` and then following the session until it closes or the client disconnects.
+ */
+export function createEventStream(session: AuditStreamSession, lastEventId = 0): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | undefined;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const cleanup = () => {
+    unsubscribe?.();
+    if (heartbeat) clearInterval(heartbeat);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          // The client went away; the audit keeps running and can be resumed
+          cleanup();
+        }
+      };
+
+      send(`retry: ${RETRY_DELAY}\n\n`);
+      session.events.filter((event) => event.id > lastEventId).forEach((event) => send(formatEvent(event)));
+
+      if (session.closed) {
+        controller.close();
+        return;
+      }
+
+      unsubscribe = session.subscribe((event) => {
+        if (event) {
+          send(formatEvent(event));
+          return;
+        }
+        cleanup();
+        controller.close();
+      });
+      heartbeat = setInterval(() => send(': keep-alive\n\n'), HEARTBEAT_INTERVAL);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+}
+
+/**
+ * Response headers for an SSE stream
+ */
+export function eventStreamHeaders(requestId: string): HeadersInit {
+  return {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+    'X-Request-Id': requestId,
+  };
+}
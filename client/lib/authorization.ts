@@ -0,0 +1,183 @@
+/**
+ * Access checks for audit reports and teams.
+ *
+ * A report is accessible to its owner (`userEmail`), to members of the teams it is
+ * shared with (with their team role) and to users it is shared with directly (with the
+ * role given when sharing). Roles allow increasing sets of actions:
+ *
+ * - viewer: read the report, its re-audits and comparisons
+ * - auditor: also triage findings and re-audit
+ * - admin: also change who the report is shared with
+ *
+ * Owners can do everything. Routes load reports through `authorizeReport` or filter
+ * with `reportAccessFilter` rather than querying by `userEmail` themselves.
+ */
+import type { FilterQuery } from 'mongoose';
+import { AuditError } from '@/functions/auditInit';
+import connectDB from '@/lib/mongodb';
+import AuditReportModel, { type IAuditReport } from '@/lib/models/AuditReport';
+import TeamModel, { type ITeam, type TeamRole } from '@/lib/models/Team';
+
+export type ReportAction = 'view' | 'audit' | 'share';
+
+/**
+ * Role a user has on a report; 'owner' for the user who ran the audit
+ */
+export type ReportRole = TeamRole | 'owner';
+
+export const TEAM_ROLES: TeamRole[] = ['viewer', 'auditor', 'admin'];
+
+const ROLE_RANK: Record<ReportRole, number> = { viewer: 1, auditor: 2, admin: 3, owner: 4 };
+
+const ACTION_ROLE: Record<ReportAction, TeamRole> = {
+  view: 'viewer',
+  audit: 'auditor',
+  share: 'admin',
+};
+
+/**
+ * A user and their role in each of their teams, loaded once per request
+ */
+export interface AccessContext {
+  userEmail: string; // Lowercased, as team members and shares are stored
+  emails: string[]; // Lowercased and session addresses; reports keep their owner's session address
+  teamRoles: Map<string, TeamRole>; // Team id → role
+}
+
+/**
+ * Error raised when a report or team does not exist for the user (404) or the user's
+ * role does not allow the action (403)
+ */
+export class AccessError extends AuditError {
+  public readonly status: number;
+
+  constructor(message: string, status: 403 | 404) {
+    super(message, status === 404 ? 'NOT_FOUND' : 'ACCESS_DENIED');
+    this.name = 'AccessError';
+    this.status = status;
+  }
+}
+
+/**
+ * Whether a role allows an action
+ */
+export function canPerform(role: ReportRole | null | undefined, action: ReportAction): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[ACTION_ROLE[action]];
+}
+
+/**
+ * Roles that allow an action
+ */
+function rolesAllowing(action: ReportAction): TeamRole[] {
+  return TEAM_ROLES.filter((role) => canPerform(role, action));
+}
+
+/**
+ * Loads the user's team memberships
+ */
+export async function getAccessContext(sessionEmail: string): Promise<AccessContext> {
+  const userEmail = sessionEmail.trim().toLowerCase();
+  const emails = Array.from(new Set([userEmail, sessionEmail]));
+
+  await connectDB();
+  const teams = await TeamModel.find({ 'members.email': { $in: emails } })
+    .select('members')
+    .lean<ITeam[]>();
+
+  const teamRoles = new Map<string, TeamRole>();
+  teams.forEach((team) => {
+    const member = team.members.find((item) => emails.includes(item.email));
+    if (member) {
+      teamRoles.set(String(team._id), member.role);
+    }
+  });
+  return { userEmail, emails, teamRoles };
+}
+
+/**
+ * MongoDB filter matching the reports the user may perform an action on
+ */
+export function reportAccessFilter(access: AccessContext, action: ReportAction): FilterQuery<IAuditReport> {
+  const roles = rolesAllowing(action);
+  const teamIds = Array.from(access.teamRoles)
+    .filter(([, role]) => roles.includes(role))
+    .map(([teamId]) => teamId);
+
+  return {
+    $or: [
+      { userEmail: { $in: access.emails } },
+      { sharedWithUsers: { $elemMatch: { email: { $in: access.emails }, role: { $in: roles } } } },
+      ...(teamIds.length > 0 ? [{ sharedWithTeams: { $in: teamIds } }] : []),
+    ],
+  };
+}
+
+/**
+ * The user's highest role on a report, or null if the report is not accessible
+ */
+export function getReportRole(
+  report: { userEmail: string; sharedWithTeams?: unknown[]; sharedWithUsers?: { email: string; role: TeamRole }[] },
+  access: AccessContext
+): ReportRole | null {
+  if (report.userEmail.toLowerCase() === access.userEmail) {
+    return 'owner';
+  }
+
+  const roles: TeamRole[] = [];
+  (report.sharedWithUsers || [])
+    .filter((share) => share.email.toLowerCase() === access.userEmail)
+    .forEach((share) => roles.push(share.role));
+  (report.sharedWithTeams || []).forEach((teamId) => {
+    const role = access.teamRoles.get(String(teamId));
+    if (role) roles.push(role);
+  });
+
+  return roles.reduce<ReportRole | null>(
+    (best, role) => (!best || ROLE_RANK[role] > ROLE_RANK[best] ? role : best),
+    null
+  );
+}
+
+/**
+ * Loads a report the user may perform an action on
+ * @param select - Extra fields to select, e.g. '+sourceCode'
+ * @throws {AccessError} 404 if the report does not exist or is not shared with the user,
+ * 403 if the user's role does not allow the action
+ */
+export async function authorizeReport(
+  access: AccessContext,
+  reportId: string,
+  action: ReportAction,
+  select?: string
+): Promise<{ report: IAuditReport; role: ReportRole }> {
+  await connectDB();
+  let query = AuditReportModel.findOne({ _id: reportId, ...reportAccessFilter(access, 'view') });
+  if (select) {
+    query = query.select(select);
+  }
+  const report = await query.lean<IAuditReport>();
+
+  const role = report ? getReportRole(report, access) : null;
+  if (!report || !role) {
+    throw new AccessError('Audit report not found', 404);
+  }
+  if (!canPerform(role, action)) {
+    throw new AccessError(`Your role (${role}) does not allow this action on the report`, 403);
+  }
+  return { report, role };
+}
+
+/**
+ * Checks the user's role in a team
+ * @throws {AccessError} 404 if the user is not a member, 403 if their role is below `minRole`
+ */
+export function authorizeTeam(access: AccessContext, teamId: string, minRole: TeamRole): TeamRole {
+  const role = access.teamRoles.get(teamId);
+  if (!role) {
+    throw new AccessError('Team not found', 404);
+  }
+  if (ROLE_RANK[role] < ROLE_RANK[minRole]) {
+    throw new AccessError(`Only team ${minRole}s can do this`, 403);
+  }
+  return role;
+}
@@ -0,0 +1,144 @@
+/**
+ * Log retention: rolls up, archives and purges old logs.
+ *
+ * For each log kind, entries of days older than its retention are rolled up into daily
+ * aggregates (audit and error logs; see lib/log-rollups.ts), written to a gzip archive and
+ * removed from the live logs. Archives of days older than the archive retention are
+ * deleted. Retention is counted in days from the day the entries were logged:
+ *
+ * - `LOG_RETENTION_AUDIT_DAYS` (default: 90)
+ * - `LOG_RETENTION_ERROR_DAYS` (default: 30)
+ * - `LOG_RETENTION_APP_DAYS` (default: 14)
+ * - `LOG_ARCHIVE_RETENTION_DAYS` (default: 365)
+ *
+ * Runs from `POST /api/admin/logs/maintenance` or `npx tsx maintain-logs.ts`. A run is
+ * safe to repeat: days are processed one at a time and entries are removed only after
+ * their rollup and archive are written.
+ */
+import { LOG_KINDS, type LogKind, type LogStore } from '@/lib/log-store';
+import { rollUpAuditLogs, rollUpErrorLogs } from '@/lib/log-rollups';
+import { log } from '@/lib/structured-log';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days to keep live entries of each log kind, and archives
+ */
+export type RetentionPolicy = Record<LogKind | 'archive', number>;
+
+export const RETENTION_KEYS: Array<keyof RetentionPolicy> = [...LOG_KINDS, 'archive'];
+
+const DEFAULT_RETENTION: RetentionPolicy = {
+  audit: 90,
+  error: 30,
+  app: 14,
+  archive: 365,
+};
+
+const RETENTION_ENV: Record<keyof RetentionPolicy, string> = {
+  audit: 'LOG_RETENTION_AUDIT_DAYS',
+  error: 'LOG_RETENTION_ERROR_DAYS',
+  app: 'LOG_RETENTION_APP_DAYS',
+  archive: 'LOG_ARCHIVE_RETENTION_DAYS',
+};
+
+export interface MaintenanceResult {
+  policy: RetentionPolicy;
+  archived: Record<LogKind, { days: string[]; entries: number }>;
+  rolledUpDays: number;
+  purgedArchives: number;
+  startedAt: string;
+  completedAt: string;
+}
+
+export function isValidRetentionDays(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * The retention policy from the environment, with `overrides` applied
+ */
+export function getRetentionPolicy(overrides: Partial<RetentionPolicy> = {}): RetentionPolicy {
+  const policy = { ...DEFAULT_RETENTION };
+  for (const key of RETENTION_KEYS) {
+    const configured = parseInt(process.env[RETENTION_ENV[key]] || '', 10);
+    if (isValidRetentionDays(configured)) {
+      policy[key] = configured;
+    }
+    if (isValidRetentionDays(overrides[key])) {
+      policy[key] = overrides[key] as number;
+    }
+  }
+  return policy;
+}
+
+/**
+ * First day (YYYY-MM-DD, UTC) that is kept when keeping `days` days up to `now`
+ */
+function cutoffDate(now: Date, days: number): string {
+  return new Date(now.getTime() - days * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Rolls up one day's entries before they are archived
+ */
+async function rollUpDay(store: LogStore, kind: LogKind, date: string): Promise<boolean> {
+  if (kind === 'app') return false; // Application records are not aggregated
+
+  const rollups = kind === 'audit'
+    ? rollUpAuditLogs(await store.queryAuditLogs({ startDate: date, endDate: date }))
+    : rollUpErrorLogs(await store.queryErrorLogs({ startDate: date, endDate: date }));
+  await store.saveRollups(rollups);
+  return rollups.length > 0;
+}
+
+/**
+ * Runs log maintenance against a store
+ */
+export async function runLogMaintenance(
+  store: LogStore,
+  overrides: Partial<RetentionPolicy> = {},
+  now: Date = new Date()
+): Promise<MaintenanceResult> {
+  const startedAt = new Date().toISOString();
+  const policy = getRetentionPolicy(overrides);
+
+  const archived = {} as MaintenanceResult['archived'];
+  let rolledUpDays = 0;
+
+  for (const kind of LOG_KINDS) {
+    archived[kind] = { days: [], entries: 0 };
+    const days = await store.listLogDays(kind, cutoffDate(now, policy[kind]));
+
+    for (const date of days) {
+      if (await rollUpDay(store, kind, date)) {
+        rolledUpDays++;
+      }
+      archived[kind].entries += await store.archiveLogDay(kind, date);
+      archived[kind].days.push(date);
+    }
+  }
+
+  const purgedArchives = await store.purgeArchives(cutoffDate(now, policy.archive));
+
+  const result: MaintenanceResult = {
+    policy,
+    archived,
+    rolledUpDays,
+    purgedArchives,
+    startedAt,
+    completedAt: new Date().toISOString(),
+  };
+
+  await log.info('Log maintenance completed', {
+    event: 'log_maintenance',
+    store: store.type,
+    policy,
+    archivedEntries: LOG_KINDS.reduce((total, kind) => total + archived[kind].entries, 0),
+    archivedDays: LOG_KINDS.reduce((total, kind) => total + archived[kind].days.length, 0),
+    rolledUpDays,
+    purgedArchives,
+  });
+
+  return result;
+}
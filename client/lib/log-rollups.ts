@@ -0,0 +1,124 @@
+/**
+ * Daily aggregates of audit and error logs.
+ *
+ * Log maintenance (lib/log-maintenance.ts) rolls entries up by UTC day before archiving
+ * them, and `logger.generateStatistics` combines stored rollups with the days whose
+ * entries are still live, so statistics cover ranges longer than the log retention.
+ */
+import type { AuditLogEntry, ErrorLogEntry } from '@/lib/logging';
+
+/**
+ * Completed audits of one day
+ */
+export interface AuditDayRollup {
+  auditCount: number;
+  creditsConsumed: number;
+  auditDurationTotal: number; // Summed over successful audits with a duration
+  auditDurationCount: number;
+  totalVulnerabilities: number;
+  severityBreakdown: {
+    critical: number;
+    high: number;
+    medium: number;
+    low: number;
+  };
+  users: Array<{
+    email: string;
+    auditCount: number;
+    creditsConsumed: number;
+    lastAudit: string;
+  }>;
+}
+
+export interface DailyLogRollup {
+  date: string; // YYYY-MM-DD (UTC)
+  audits?: AuditDayRollup;
+  errors?: Array<{ errorType: string; count: number }>;
+}
+
+function dayOf(timestamp: string): string {
+  return timestamp.split('T')[0];
+}
+
+/**
+ * Rolls up completed audits (audit_start entries are ignored) by day
+ */
+export function rollUpAuditLogs(logs: AuditLogEntry[]): DailyLogRollup[] {
+  const days = new Map<string, AuditDayRollup>();
+
+  logs
+    .filter(log => log.type !== 'audit_start')
+    .forEach(log => {
+      const date = dayOf(log.timestamp);
+      let day = days.get(date);
+      if (!day) {
+        day = {
+          auditCount: 0,
+          creditsConsumed: 0,
+          auditDurationTotal: 0,
+          auditDurationCount: 0,
+          totalVulnerabilities: 0,
+          severityBreakdown: { critical: 0, high: 0, medium: 0, low: 0 },
+          users: [],
+        };
+        days.set(date, day);
+      }
+
+      day.auditCount++;
+      day.creditsConsumed += log.creditsConsumed;
+      if (log.success) {
+        if (log.auditDuration !== undefined) {
+          day.auditDurationTotal += log.auditDuration;
+          day.auditDurationCount++;
+        }
+        if (log.severityBreakdown) {
+          day.severityBreakdown.critical += log.severityBreakdown.critical;
+          day.severityBreakdown.high += log.severityBreakdown.high;
+          day.severityBreakdown.medium += log.severityBreakdown.medium;
+          day.severityBreakdown.low += log.severityBreakdown.low;
+        }
+        day.totalVulnerabilities += log.vulnerabilitiesFound || 0;
+      }
+
+      const user = day.users.find(u => u.email === log.userEmail);
+      if (user) {
+        user.auditCount++;
+        user.creditsConsumed += log.creditsConsumed;
+        if (log.timestamp > user.lastAudit) {
+          user.lastAudit = log.timestamp;
+        }
+      } else {
+        day.users.push({
+          email: log.userEmail,
+          auditCount: 1,
+          creditsConsumed: log.creditsConsumed,
+          lastAudit: log.timestamp,
+        });
+      }
+    });
+
+  return Array.from(days.entries())
+    .map(([date, audits]) => ({ date, audits }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Counts errors by day and type
+ */
+export function rollUpErrorLogs(logs: ErrorLogEntry[]): DailyLogRollup[] {
+  const days = new Map<string, Map<string, number>>();
+
+  logs.forEach(log => {
+    const date = dayOf(log.timestamp);
+    const counts = days.get(date) || new Map<string, number>();
+    counts.set(log.errorType, (counts.get(log.errorType) || 0) + 1);
+    days.set(date, counts);
+  });
+
+  return Array.from(days.entries())
+    .map(([date, counts]) => ({
+      date,
+      errors: Array.from(counts.entries()).map(([errorType, count]) => ({ errorType, count })),
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
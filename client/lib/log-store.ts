@@ -0,0 +1,449 @@
+/**
+ * Storage backends for audit and error logs.
+ *
+ * - mongodb: `AuditLog` and `ErrorLog` collections, indexed by date, user and requestId
+ * - file: one JSON Lines file per day and log type in `logs/` (development)
+ *
+ * `LOG_STORE` selects the backend; it defaults to mongodb in production, where the file
+ * system does not persist between invocations, and to file otherwise.
+ *
+ * Both backends also keep the daily rollups and gzip archives written by log maintenance
+ * (lib/log-maintenance.ts): `LogRollup` and `LogArchive` documents, or `logs/rollups.json`
+ * and `logs/archive/<kind>-YYYY-MM-DD.jsonl.gz`.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { gzipSync, gunzipSync } from 'zlib';
+import type { FilterQuery, Types, mongo } from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import AuditLogModel, { type IAuditLog } from '@/lib/models/AuditLog';
+import ErrorLogModel from '@/lib/models/ErrorLog';
+import AppLogModel from '@/lib/models/AppLog';
+import LogRollupModel, { type ILogRollup } from '@/lib/models/LogRollup';
+import LogArchiveModel from '@/lib/models/LogArchive';
+import type { AuditLogEntry, ErrorLogEntry } from '@/lib/logging';
+import type { DailyLogRollup } from '@/lib/log-rollups';
+import type { LogRecord } from '@/lib/structured-log';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type LogStoreType = 'mongodb' | 'file';
+
+/**
+ * Log kinds covered by retention: audit and error logs, and the structured application
+ * log written by the file and mongodb sinks (lib/structured-log.ts)
+ */
+export type LogKind = 'audit' | 'error' | 'app';
+
+export const LOG_KINDS: LogKind[] = ['audit', 'error', 'app'];
+
+/**
+ * Log query filters; all are optional
+ */
+export interface LogQuery {
+  startDate?: string; // YYYY-MM-DD (UTC), inclusive
+  endDate?: string; // YYYY-MM-DD (UTC), inclusive
+  userEmail?: string;
+  requestId?: string;
+  type?: 'audit_start' | 'audit_complete'; // Audit logs only
+  errorType?: string; // Error logs only
+  limit?: number; // Keep only the most recent entries
+}
+
+export interface LogStore {
+  readonly type: LogStoreType;
+  appendAuditLog(entry: AuditLogEntry): Promise<void>;
+  appendErrorLog(entry: ErrorLogEntry): Promise<void>;
+  /**
+   * Audit log entries, oldest first
+   */
+  queryAuditLogs(query: LogQuery): Promise<AuditLogEntry[]>;
+  /**
+   * Error log entries, oldest first
+   */
+  queryErrorLogs(query: LogQuery): Promise<ErrorLogEntry[]>;
+  /**
+   * Daily rollups in a date range, oldest first
+   */
+  queryRollups(query: Pick<LogQuery, 'startDate' | 'endDate'>): Promise<DailyLogRollup[]>;
+  /**
+   * Stores rollups; a day's audits and errors replace the stored ones independently
+   */
+  saveRollups(rollups: DailyLogRollup[]): Promise<void>;
+  /**
+   * Days (YYYY-MM-DD, oldest first) before `beforeDate` that still have live entries
+   */
+  listLogDays(kind: LogKind, beforeDate: string): Promise<string[]>;
+  /**
+   * Moves a day's entries into a gzip archive and returns how many were archived
+   */
+  archiveLogDay(kind: LogKind, date: string): Promise<number>;
+  /**
+   * Deletes archives of days before `beforeDate` and returns how many were deleted
+   */
+  purgeArchives(beforeDate: string): Promise<number>;
+}
+
+/**
+ * Converts inclusive YYYY-MM-DD bounds to a [start, end) time range
+ */
+function timeRange(query: LogQuery): { start?: Date; end?: Date } {
+  return {
+    start: query.startDate ? new Date(query.startDate) : undefined,
+    end: query.endDate ? new Date(new Date(query.endDate).getTime() + DAY_MS) : undefined,
+  };
+}
+
+/**
+ * Compresses entries as JSON Lines, appending them to an existing archive without
+ * duplicating lines (a day interrupted after archiving is archived again)
+ */
+function compressEntries(lines: string[], existing?: Buffer): { data: Buffer; entryCount: number } {
+  const previous = existing
+    ? gunzipSync(existing).toString('utf8').split('\n').filter((line) => line.trim())
+    : [];
+  const merged = Array.from(new Set([...previous, ...lines]));
+  return {
+    data: gzipSync(Buffer.from(merged.join('\n') + '\n', 'utf8')),
+    entryCount: merged.length,
+  };
+}
+
+/**
+ * A log document as returned by `lean()`: the entry's `id` is stored as `logId` and its
+ * timestamp as a Date (application records have no id)
+ */
+type StoredLogEntry<T extends { timestamp: string }> = Omit<T, 'id' | 'timestamp'> & {
+  _id: Types.ObjectId;
+  logId: T extends { id: string } ? string : undefined;
+  timestamp: Date;
+};
+
+/**
+ * MongoDB-backed store
+ */
+class MongoLogStore implements LogStore {
+  readonly type = 'mongodb' as const;
+
+  private filter(query: LogQuery): FilterQuery<IAuditLog> {
+    const filter: FilterQuery<IAuditLog> = {};
+    const { start, end } = timeRange(query);
+    if (start || end) {
+      filter.timestamp = {
+        ...(start ? { $gte: start } : {}),
+        ...(end ? { $lt: end } : {}),
+      };
+    }
+    if (query.userEmail) filter.userEmail = query.userEmail;
+    if (query.requestId) filter.requestId = query.requestId;
+    if (query.type) filter.type = query.type;
+    if (query.errorType) filter.errorType = query.errorType;
+    return filter;
+  }
+
+  /**
+   * Runs a query, keeping the most recent `limit` entries, and returns them oldest first
+   */
+  private async find<T extends { timestamp: string }>(
+    model: typeof AuditLogModel,
+    filter: FilterQuery<IAuditLog>,
+    limit?: number
+  ): Promise<StoredLogEntry<T>[]> {
+    await connectDB();
+    if (limit) {
+      const recent = await model.find(filter).sort({ timestamp: -1 }).limit(limit).lean<StoredLogEntry<T>[]>();
+      return recent.reverse();
+    }
+    return model.find(filter).sort({ timestamp: 1 }).lean<StoredLogEntry<T>[]>();
+  }
+
+  async appendAuditLog(entry: AuditLogEntry): Promise<void> {
+    await connectDB();
+    const { id, timestamp, ...fields } = entry;
+    await AuditLogModel.create({ ...fields, logId: id, timestamp: new Date(timestamp) });
+  }
+
+  async appendErrorLog(entry: ErrorLogEntry): Promise<void> {
+    await connectDB();
+    const { id, timestamp, ...fields } = entry;
+    await ErrorLogModel.create({ ...fields, logId: id, timestamp: new Date(timestamp) });
+  }
+
+  async queryAuditLogs(query: LogQuery): Promise<AuditLogEntry[]> {
+    const docs = await this.find<AuditLogEntry>(AuditLogModel, this.filter(query), query.limit);
+    return docs.map(toEntry);
+  }
+
+  async queryErrorLogs(query: LogQuery): Promise<ErrorLogEntry[]> {
+    const docs = await this.find<ErrorLogEntry>(ErrorLogModel, this.filter(query), query.limit);
+    return docs.map(toEntry);
+  }
+
+  private model(kind: LogKind): typeof AuditLogModel {
+    return kind === 'audit' ? AuditLogModel : kind === 'error' ? ErrorLogModel : AppLogModel;
+  }
+
+  async queryRollups(query: Pick<LogQuery, 'startDate' | 'endDate'>): Promise<DailyLogRollup[]> {
+    await connectDB();
+    const filter: FilterQuery<ILogRollup> = {};
+    if (query.startDate || query.endDate) {
+      filter.date = {
+        ...(query.startDate ? { $gte: query.startDate } : {}),
+        ...(query.endDate ? { $lte: query.endDate } : {}),
+      };
+    }
+    const docs = await LogRollupModel.find(filter).sort({ date: 1 }).lean<ILogRollup[]>();
+    return docs.map(({ date, audits, errorCounts }): DailyLogRollup => ({ date, audits, errors: errorCounts }));
+  }
+
+  async saveRollups(rollups: DailyLogRollup[]): Promise<void> {
+    if (rollups.length === 0) return;
+    await connectDB();
+    await LogRollupModel.bulkWrite(rollups.map(({ date, audits, errors }) => ({
+      updateOne: {
+        filter: { date },
+        update: { $set: { ...(audits ? { audits } : {}), ...(errors ? { errorCounts: errors } : {}) } },
+        upsert: true,
+      },
+    })));
+  }
+
+  async listLogDays(kind: LogKind, beforeDate: string): Promise<string[]> {
+    await connectDB();
+    const days = await this.model(kind).aggregate<{ _id: string }>([
+      { $match: { timestamp: { $lt: new Date(beforeDate) } } },
+      { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$timestamp' } } } },
+      { $sort: { _id: 1 } },
+    ]);
+    return days.map((day) => day._id);
+  }
+
+  async archiveLogDay(kind: LogKind, date: string): Promise<number> {
+    await connectDB();
+    const model = this.model(kind);
+    const docs = await model
+      .find(this.filter({ startDate: date, endDate: date }))
+      .sort({ timestamp: 1 })
+      .lean<StoredLogEntry<AuditLogEntry | ErrorLogEntry | LogRecord>[]>();
+    if (docs.length === 0) return 0;
+
+    // Lean documents hold the archive as BSON binary rather than a Buffer
+    const existing = await LogArchiveModel.findOne({ kind, date }).lean<{ data: mongo.Binary }>();
+    const { data, entryCount } = compressEntries(
+      docs.map((doc) => JSON.stringify(toEntry(doc))),
+      existing ? Buffer.from(existing.data.buffer) : undefined
+    );
+    await LogArchiveModel.updateOne({ kind, date }, { $set: { data, entryCount } }, { upsert: true });
+
+    // Only after the archive is written, so an interrupted run loses nothing
+    await model.deleteMany({ _id: { $in: docs.map((doc) => doc._id) } });
+    return docs.length;
+  }
+
+  async purgeArchives(beforeDate: string): Promise<number> {
+    await connectDB();
+    const result = await LogArchiveModel.deleteMany({ date: { $lt: beforeDate } });
+    return result.deletedCount;
+  }
+}
+
+/**
+ * Maps a stored document back to the log entry shape (application records have no id)
+ */
+function toEntry<T extends { timestamp: string }>({ _id, logId, timestamp, ...fields }: StoredLogEntry<T>) {
+  return { id: logId, timestamp: new Date(timestamp).toISOString(), ...fields };
+}
+
+/**
+ * JSON Lines store: `<type>-YYYY-MM-DD.jsonl` files in a directory
+ */
+class JsonlLogStore implements LogStore {
+  readonly type = 'file' as const;
+
+  constructor(private logsDir: string) {}
+
+  /**
+   * Ensure logs directory exists
+   */
+  private async ensureLogsDirectory(): Promise<void> {
+    try {
+      await fs.access(this.logsDir);
+    } catch {
+      await fs.mkdir(this.logsDir, { recursive: true });
+      await fs.mkdir(path.join(this.logsDir, 'archive'), { recursive: true });
+    }
+  }
+
+  private get archiveDir(): string {
+    return path.join(this.logsDir, 'archive');
+  }
+
+  private get rollupsFile(): string {
+    return path.join(this.logsDir, 'rollups.json');
+  }
+
+  private async append(kind: 'audit' | 'error', entry: AuditLogEntry | ErrorLogEntry): Promise<void> {
+    await this.ensureLogsDirectory();
+    const date = entry.timestamp.split('T')[0];
+    await fs.appendFile(path.join(this.logsDir, `${kind}-${date}.jsonl`), JSON.stringify(entry) + '\n', 'utf8');
+  }
+
+  /**
+   * Reads the entries of every daily file in the query's date range that match the
+   * query's common filters and `matches`
+   */
+  private async read<T extends AuditLogEntry | ErrorLogEntry>(
+    kind: 'audit' | 'error',
+    query: LogQuery,
+    matches: (entry: T) => boolean
+  ): Promise<T[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.logsDir);
+    } catch {
+      return []; // No logs written yet
+    }
+
+    const pattern = new RegExp(`^${kind}-(\\d{4}-\\d{2}-\\d{2})\\.jsonl$`);
+    const days = files
+      .map((file) => file.match(pattern)?.[1])
+      .filter((date): date is string => !!date)
+      .filter((date) => (!query.startDate || date >= query.startDate) && (!query.endDate || date <= query.endDate))
+      .sort();
+
+    const entries: T[] = [];
+    for (const date of days) {
+      try {
+        const content = await fs.readFile(path.join(this.logsDir, `${kind}-${date}.jsonl`), 'utf8');
+        for (const line of content.split('\n')) {
+          if (!line.trim()) continue;
+          try {
+            entries.push(JSON.parse(line));
+          } catch {
+            // Skip partially written lines
+          }
+        }
+      } catch {
+        // File removed or archived while reading
+      }
+    }
+
+    const filtered = entries
+      .filter((entry) => !query.userEmail || entry.userEmail === query.userEmail)
+      .filter((entry) => !query.requestId || entry.requestId === query.requestId)
+      .filter(matches)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    return query.limit ? filtered.slice(-query.limit) : filtered;
+  }
+
+  appendAuditLog(entry: AuditLogEntry): Promise<void> {
+    return this.append('audit', entry);
+  }
+
+  appendErrorLog(entry: ErrorLogEntry): Promise<void> {
+    return this.append('error', entry);
+  }
+
+  queryAuditLogs(query: LogQuery): Promise<AuditLogEntry[]> {
+    // Entries written before audit_start was logged have no type
+    return this.read<AuditLogEntry>('audit', query, (entry) => !query.type || (entry.type || 'audit_complete') === query.type);
+  }
+
+  queryErrorLogs(query: LogQuery): Promise<ErrorLogEntry[]> {
+    return this.read<ErrorLogEntry>('error', query, (entry) => !query.errorType || entry.errorType === query.errorType);
+  }
+
+  private async readRollups(): Promise<Record<string, DailyLogRollup>> {
+    try {
+      return JSON.parse(await fs.readFile(this.rollupsFile, 'utf8'));
+    } catch {
+      return {}; // No rollups written yet
+    }
+  }
+
+  async queryRollups(query: Pick<LogQuery, 'startDate' | 'endDate'>): Promise<DailyLogRollup[]> {
+    const rollups = await this.readRollups();
+    return Object.values(rollups)
+      .filter(({ date }) => (!query.startDate || date >= query.startDate) && (!query.endDate || date <= query.endDate))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async saveRollups(rollups: DailyLogRollup[]): Promise<void> {
+    if (rollups.length === 0) return;
+    await this.ensureLogsDirectory();
+    const stored = await this.readRollups();
+    for (const rollup of rollups) {
+      stored[rollup.date] = { ...stored[rollup.date], ...rollup };
+    }
+    await fs.writeFile(this.rollupsFile, JSON.stringify(stored, null, 2), 'utf8');
+  }
+
+  async listLogDays(kind: LogKind, beforeDate: string): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.logsDir);
+    } catch {
+      return [];
+    }
+
+    const pattern = new RegExp(`^${kind}-(\\d{4}-\\d{2}-\\d{2})\\.jsonl$`);
+    return files
+      .map((file) => file.match(pattern)?.[1])
+      .filter((date): date is string => !!date && date < beforeDate)
+      .sort();
+  }
+
+  async archiveLogDay(kind: LogKind, date: string): Promise<number> {
+    const file = path.join(this.logsDir, `${kind}-${date}.jsonl`);
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf8');
+    } catch {
+      return 0; // Already archived
+    }
+
+    const lines = content.split('\n').filter((line) => line.trim());
+    const archiveFile = path.join(this.archiveDir, `${kind}-${date}.jsonl.gz`);
+    await fs.mkdir(this.archiveDir, { recursive: true });
+    const existing = await fs.readFile(archiveFile).catch(() => undefined);
+    await fs.writeFile(archiveFile, compressEntries(lines, existing).data);
+
+    await fs.unlink(file);
+    return lines.length;
+  }
+
+  async purgeArchives(beforeDate: string): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.archiveDir);
+    } catch {
+      return 0;
+    }
+
+    // Earlier versions moved uncompressed `.jsonl` files here; they are purged alike
+    const pattern = /^(audit|error|app)-(\d{4}-\d{2}-\d{2})\.jsonl(\.gz)?$/;
+    let purged = 0;
+    for (const file of files) {
+      const date = file.match(pattern)?.[2];
+      if (date && date < beforeDate) {
+        await fs.unlink(path.join(this.archiveDir, file));
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
+
+/**
+ * Creates the store selected by `LOG_STORE`; the file store writes to `logsDir`
+ */
+export function createLogStore(logsDir: string): LogStore {
+  const configured = process.env.LOG_STORE;
+  const type: LogStoreType = configured === 'mongodb' || configured === 'file'
+    ? configured
+    : process.env.NODE_ENV === 'production' ? 'mongodb' : 'file';
+
+  return type === 'mongodb'
+    ? new MongoLogStore()
+    : new JsonlLogStore(logsDir);
+}
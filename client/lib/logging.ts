@@ -1,5 +1,8 @@
-import { promises as fs } from 'fs';
 import path from 'path';
+import { createLogStore, type LogQuery, type LogStore, type LogStoreType } from '@/lib/log-store';
+import { log, type LogLevel } from '@/lib/structured-log';
+import { rollUpAuditLogs, type AuditDayRollup, type DailyLogRollup } from '@/lib/log-rollups';
+import { runLogMaintenance, type MaintenanceResult, type RetentionPolicy } from '@/lib/log-maintenance';
 
 /**
  * Audit log entry structure
@@ -22,7 +25,8 @@ export interface AuditLogEntry {
     low: number;
   };
   requestId?: string;
-  type?: string; // Used for distinguishing between audit_start and audit_complete
+  clientRequestId?: string; // X-Request-Id sent by the client (audit_start only)
+  type?: 'audit_start' | 'audit_complete';
 }
 
 /**
@@ -70,35 +74,30 @@ export interface AuditStatistics {
   }>;
 }
 
+/**
+ * One user's completed audits on one day
+ */
+export interface UserDailyUsage {
+  date: string; // YYYY-MM-DD (UTC)
+  audits: number;
+  credits: number;
+  lastAudit: string;
+}
+
 class Logger {
   private logsDir: string;
-  private inMemoryCache: AuditLogEntry[] = [];
-  private maxCacheSize = 1000;
-  private isProduction: boolean;
+  private store: LogStore;
 
   constructor() {
-    this.isProduction = process.env.NODE_ENV === 'production';
-    if (this.isProduction) {
-      // In production (Vercel), use in-memory storage only
-      // Files don't persist in serverless environment
-      this.logsDir = '/tmp/logs';
-    } else {
-      // In development, use local file system
-      this.logsDir = path.join(process.cwd(), 'logs');
-      this.ensureLogsDirectory();
-    }
+    this.logsDir = path.join(process.cwd(), 'logs');
+    this.store = createLogStore(this.logsDir);
   }
 
   /**
-   * Ensure logs directory exists
+   * Backend the logs are stored in
    */
-  private async ensureLogsDirectory(): Promise<void> {
-    try {
-      await fs.access(this.logsDir);
-    } catch {
-      await fs.mkdir(this.logsDir, { recursive: true });
-      await fs.mkdir(path.join(this.logsDir, 'archive'), { recursive: true });
-    }
+  get storeType(): LogStoreType {
+    return this.store.type;
   }
 
   /**
@@ -109,50 +108,31 @@ class Logger {
   }
 
   /**
-   * Get current date string for log file naming
+   * Get current date string for default date ranges
    */
   private getCurrentDateString(): string {
     return new Date().toISOString().split('T')[0]; // YYYY-MM-DD
   }
 
   /**
-   * Get log file path for a specific date and type
-   */
-  private getLogFilePath(date: string, type: 'audit' | 'error'): string {
-    return path.join(this.logsDir, `${type}-${date}.jsonl`);
-  }
-
-  /**
-   * Append log entry to file (JSON Lines format)
+   * Store an entry and emit it as a structured log record. The stored entry is kept
+   * unredacted for statistics; the record is redacted by the structured logger.
+   * Logging never fails the request being logged.
    */
-  private async appendToFile(filePath: string, entry: any): Promise<void> {
-    try {
-      await this.ensureLogsDirectory();
-      const logLine = JSON.stringify(entry) + '\n';
-      await fs.appendFile(filePath, logLine, 'utf8');
-    } catch (error) {
-      if (this.isProduction) {
-        // In production (Vercel), log to console since files don't persist
-        // This helps with debugging but logs won't be visible in production
-        // TODO: Implement proper logging service or database
-      } else {
-        // In development, fallback to console logging if file write fails
-        console.error('Failed to write to log file:', error);
-        console.log('Log entry:', entry);
-      }
-    }
-  }
-
-  /**
-   * Add entry to in-memory cache for real-time stats
-   */
-  private addToCache(entry: AuditLogEntry): void {
-    this.inMemoryCache.push(entry);
-    
-    // Keep cache size manageable
-    if (this.inMemoryCache.length > this.maxCacheSize) {
-      this.inMemoryCache = this.inMemoryCache.slice(-this.maxCacheSize);
-    }
+  private async write(
+    level: LogLevel,
+    message: string,
+    entry: AuditLogEntry | ErrorLogEntry,
+    append: () => Promise<void>
+  ): Promise<void> {
+    const { id, timestamp, requestId, ...fields } = entry;
+    const event = 'type' in entry && entry.type ? entry.type : 'error';
+    await Promise.all([
+      log.log(level, message, { ...fields, event, requestId, logId: id }),
+      append().catch((error) =>
+        log.error(`Failed to write to ${this.store.type} log store`, { event: 'log_store_failure', requestId, error, entry })
+      ),
+    ]);
   }
 
   /**
@@ -162,10 +142,11 @@ class Logger {
     userEmail: string,
     contractName: string | undefined,
     contractSize: number,
-    requestId: string
+    requestId: string,
+    clientRequestId?: string
   ): Promise<string> {
     const id = this.generateId();
-    const entry: Partial<AuditLogEntry> = {
+    const entry: AuditLogEntry = {
       id,
       timestamp: new Date().toISOString(),
       userEmail,
@@ -174,14 +155,11 @@ class Logger {
       creditsConsumed: 0, // Will be updated on completion
       success: false, // Will be updated on completion
       requestId,
+      clientRequestId,
+      type: 'audit_start',
     };
 
-    const filePath = this.getLogFilePath(this.getCurrentDateString(), 'audit');
-    await this.appendToFile(filePath, { ...entry, type: 'audit_start' });
-
-    // Also add to cache for production
-    this.addToCache({ ...entry, type: 'audit_start' } as any);
-    
+    await this.write('info', 'Audit started', entry, () => this.store.appendAuditLog(entry));
     return id;
   }
 
@@ -198,7 +176,8 @@ class Logger {
     vulnerabilitiesFound?: number,
     severityBreakdown?: AuditLogEntry['severityBreakdown'],
     errorMessage?: string,
-    requestId?: string
+    requestId?: string,
+    creditsConsumed: number = 1
   ): Promise<void> {
     const entry: AuditLogEntry = {
       id: logId,
@@ -206,26 +185,22 @@ class Logger {
       userEmail,
       contractName,
       contractSize,
-      creditsConsumed: success ? 1 : 0, // Only consume credit on success
+      creditsConsumed: success ? creditsConsumed : 0, // Only consume credit on success
       success,
       auditDuration,
       vulnerabilitiesFound,
       severityBreakdown,
       errorMessage,
       requestId,
+      type: 'audit_complete',
     };
 
-    const filePath = this.getLogFilePath(this.getCurrentDateString(), 'audit');
-    await this.appendToFile(filePath, { ...entry, type: 'audit_complete' });
-
-    // Add to cache for real-time stats (include type for filtering)
-    const cacheEntry = { ...entry, type: 'audit_complete' } as any;
-    this.addToCache(cacheEntry);
-
-    if (this.isProduction) {
-      console.log('AUDIT_COMPLETE:', JSON.stringify(cacheEntry));
-      console.log(`Cache now has ${this.inMemoryCache.length} entries`);
-    }
+    await this.write(
+      success ? 'info' : 'warn',
+      success ? 'Audit completed' : 'Audit failed',
+      entry,
+      () => this.store.appendAuditLog(entry)
+    );
   }
 
   /**
@@ -248,125 +223,97 @@ class Logger {
       requestId,
     };
 
-    const filePath = this.getLogFilePath(this.getCurrentDateString(), 'error');
-    await this.appendToFile(filePath, entry);
-  }
-
-  /**
-   * Read log entries from file
-   */
-  private async readLogFile(filePath: string): Promise<any[]> {
-    try {
-      const content = await fs.readFile(filePath, 'utf8');
-      return content
-        .split('\n')
-        .filter(line => line.trim())
-        .map(line => JSON.parse(line));
-    } catch (error) {
-      if (this.isProduction) {
-        // In production, files don't persist between function calls
-        // Return empty array - logs are only available in memory for current session
-        return [];
-      } else {
-        // In development, file doesn't exist or can't be read
-        return [];
-      }
-    }
+    await this.write('error', errorMessage, entry, () => this.store.appendErrorLog(entry));
   }
 
   /**
-   * Get audit logs for a specific date range
+   * Get completed audits for a date range (both dates default to today), oldest first
    */
   async getAuditLogs(
     startDate?: string,
     endDate?: string,
     userEmail?: string
   ): Promise<AuditLogEntry[]> {
-    const logs: AuditLogEntry[] = [];
-
-    if (this.isProduction) {
-      // In production, only return logs from current session (in-memory cache)
-      // Files don't persist in serverless environment
-      const cachedLogs = this.inMemoryCache
-        .filter(log => log.type === 'audit_complete' || !log.type || log.success !== undefined)
-        .filter(log => !userEmail || log.userEmail === userEmail);
-
-      logs.push(...cachedLogs);
-    } else {
-      // In development, read from files as before
-      const start = startDate || this.getCurrentDateString();
-      const end = endDate || this.getCurrentDateString();
-
-      const startTime = new Date(start).getTime();
-      const endTime = new Date(end).getTime() + 24 * 60 * 60 * 1000; // Include end date
-
-      // Read logs from each day in the range
-      for (let time = startTime; time <= endTime; time += 24 * 60 * 60 * 1000) {
-        const dateStr = new Date(time).toISOString().split('T')[0];
-        const filePath = this.getLogFilePath(dateStr, 'audit');
-        const dayLogs = await this.readLogFile(filePath);
-
-      // Filter for completed audits and optionally by user
-      const completedAudits = dayLogs
-        .filter(log => log.type === 'audit_complete' || !log.type || log.success !== undefined)
-        .filter(log => !userEmail || log.userEmail === userEmail);
-
-        logs.push(...completedAudits);
-      }
-    }
+    return this.store.queryAuditLogs({
+      startDate: startDate || this.getCurrentDateString(),
+      endDate: endDate || this.getCurrentDateString(),
+      userEmail,
+      type: 'audit_complete',
+    });
+  }
 
-    return logs;
+  /**
+   * Get every audit and error log entry of one request, across all dates, oldest first
+   */
+  async getRequestLogs(requestId: string): Promise<{ auditLogs: AuditLogEntry[]; errorLogs: ErrorLogEntry[] }> {
+    const [auditLogs, errorLogs] = await Promise.all([
+      this.store.queryAuditLogs({ requestId }),
+      this.store.queryErrorLogs({ requestId }),
+    ]);
+    return { auditLogs, errorLogs };
   }
 
   /**
-   * Generate statistics from logs
+   * Get error logs matching the query (no default date range), oldest first
+   */
+  async getErrorLogs(query: Omit<LogQuery, 'type'> = {}): Promise<ErrorLogEntry[]> {
+    return this.store.queryErrorLogs(query);
+  }
+
+  /**
+   * Generate statistics from logs (both dates default to today). Days whose entries were
+   * archived by log maintenance are read from their daily rollups.
    */
   async generateStatistics(
     startDate?: string,
     endDate?: string
   ): Promise<AuditStatistics> {
-    const logs = await this.getAuditLogs(startDate, endDate);
-    
-    const totalAudits = logs.length;
-    const successfulAudits = logs.filter(log => log.success);
-    const totalCreditsConsumed = logs.reduce((sum, log) => sum + log.creditsConsumed, 0);
-    const uniqueUsers = new Set(logs.map(log => log.userEmail)).size;
+    const start = startDate || this.getCurrentDateString();
+    const end = endDate || this.getCurrentDateString();
+    const [logs, storedRollups] = await Promise.all([
+      this.getAuditLogs(start, end),
+      this.store.queryRollups({ startDate: start, endDate: end }),
+    ]);
+
+    // Live entries take precedence over a rollup of the same day
+    const liveDays = rollUpAuditLogs(logs);
+    const liveDates = new Set(liveDays.map(day => day.date));
+    const days = [...liveDays, ...storedRollups.filter(day => !liveDates.has(day.date))]
+      .filter((day): day is DailyLogRollup & { audits: AuditDayRollup } => !!day.audits)
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    const totalAudits = days.reduce((sum, day) => sum + day.audits.auditCount, 0);
+    const totalCreditsConsumed = days.reduce((sum, day) => sum + day.audits.creditsConsumed, 0);
     // Note: successRate removed, using averagePreAuditScore and averagePostAuditScore instead
     // These are calculated from MongoDB data, not file logs
-    
-    const auditDurations = successfulAudits
-      .map(log => log.auditDuration)
-      .filter(duration => duration !== undefined) as number[];
-    const averageAuditDuration = auditDurations.length > 0 
-      ? auditDurations.reduce((sum, duration) => sum + duration, 0) / auditDurations.length 
-      : 0;
+
+    const durationTotal = days.reduce((sum, day) => sum + day.audits.auditDurationTotal, 0);
+    const durationCount = days.reduce((sum, day) => sum + day.audits.auditDurationCount, 0);
+    const averageAuditDuration = durationCount > 0 ? durationTotal / durationCount : 0;
 
     // Vulnerability statistics
     const severityBreakdown = { critical: 0, high: 0, medium: 0, low: 0 };
     let totalVulnerabilities = 0;
-    
-    successfulAudits.forEach(log => {
-      if (log.severityBreakdown) {
-        severityBreakdown.critical += log.severityBreakdown.critical;
-        severityBreakdown.high += log.severityBreakdown.high;
-        severityBreakdown.medium += log.severityBreakdown.medium;
-        severityBreakdown.low += log.severityBreakdown.low;
-      }
-      if (log.vulnerabilitiesFound) {
-        totalVulnerabilities += log.vulnerabilitiesFound;
-      }
+    days.forEach(day => {
+      severityBreakdown.critical += day.audits.severityBreakdown.critical;
+      severityBreakdown.high += day.audits.severityBreakdown.high;
+      severityBreakdown.medium += day.audits.severityBreakdown.medium;
+      severityBreakdown.low += day.audits.severityBreakdown.low;
+      totalVulnerabilities += day.audits.totalVulnerabilities;
     });
 
     // User statistics
     const userMap = new Map<string, { auditCount: number; creditsConsumed: number; lastAudit: string }>();
-    logs.forEach(log => {
-      const existing = userMap.get(log.userEmail) || { auditCount: 0, creditsConsumed: 0, lastAudit: '' };
-      existing.auditCount++;
-      existing.creditsConsumed += log.creditsConsumed;
-      if (log.timestamp > existing.lastAudit) {
-        existing.lastAudit = log.timestamp;
-      }
-      userMap.set(log.userEmail, existing);
+    days.forEach(day => {
+      day.audits.users.forEach(user => {
+        const existing = userMap.get(user.email) || { auditCount: 0, creditsConsumed: 0, lastAudit: '' };
+        existing.auditCount += user.auditCount;
+        existing.creditsConsumed += user.creditsConsumed;
+        if (user.lastAudit > existing.lastAudit) {
+          existing.lastAudit = user.lastAudit;
+        }
+        userMap.set(user.email, existing);
+      });
     });
 
     const userStats = Array.from(userMap.entries()).map(([email, stats]) => ({
@@ -375,24 +322,16 @@ class Logger {
     }));
 
     // Daily statistics
-    const dailyMap = new Map<string, { auditCount: number; creditsConsumed: number }>();
-    logs.forEach(log => {
-      const date = log.timestamp.split('T')[0];
-      const existing = dailyMap.get(date) || { auditCount: 0, creditsConsumed: 0 };
-      existing.auditCount++;
-      existing.creditsConsumed += log.creditsConsumed;
-      dailyMap.set(date, existing);
-    });
-
-    const dailyStats = Array.from(dailyMap.entries()).map(([date, stats]) => ({
-      date,
-      ...stats,
+    const dailyStats = days.map(day => ({
+      date: day.date,
+      auditCount: day.audits.auditCount,
+      creditsConsumed: day.audits.creditsConsumed,
     }));
 
     return {
       totalAudits,
       totalCreditsConsumed,
-      totalUsers: uniqueUsers,
+      totalUsers: userMap.size,
       averagePreAuditScore: 0, // Calculated from MongoDB
       averagePostAuditScore: 0, // Calculated from MongoDB
       averageAuditDuration,
@@ -406,53 +345,68 @@ class Logger {
   }
 
   /**
-   * Get recent audit activity (from cache)
+   * Get one user's completed audits and credits per day (both dates default to today),
+   * oldest first. Days whose entries were archived by log maintenance are read from
+   * their daily rollups.
    */
-  getRecentActivity(limit: number = 50): AuditLogEntry[] {
-    // Filter for completed audits only
-    const completedAudits = this.inMemoryCache
-      .filter(log => log.type === 'audit_complete' || !log.type || log.success !== undefined)
-      .slice(-limit)
-      .reverse(); // Most recent first
-
-    console.log(`getRecentActivity: Found ${completedAudits.length} completed audits from ${this.inMemoryCache.length} total cached entries`);
-    return completedAudits;
+  async getUserDailyUsage(
+    userEmail: string,
+    startDate?: string,
+    endDate?: string
+  ): Promise<UserDailyUsage[]> {
+    const start = startDate || this.getCurrentDateString();
+    const end = endDate || this.getCurrentDateString();
+    const [logs, storedRollups] = await Promise.all([
+      this.getAuditLogs(start, end, userEmail),
+      this.store.queryRollups({ startDate: start, endDate: end }),
+    ]);
+
+    const usage = new Map<string, UserDailyUsage>();
+    logs.forEach(log => {
+      const date = log.timestamp.split('T')[0];
+      const day = usage.get(date) || { date, audits: 0, credits: 0, lastAudit: log.timestamp };
+      day.audits++;
+      day.credits += log.creditsConsumed;
+      if (log.timestamp > day.lastAudit) {
+        day.lastAudit = log.timestamp;
+      }
+      usage.set(date, day);
+    });
+
+    // Live entries take precedence over a rollup of the same day
+    storedRollups.forEach(day => {
+      const user = day.audits?.users.find(u => u.email === userEmail);
+      if (user && !usage.has(day.date)) {
+        usage.set(day.date, {
+          date: day.date,
+          audits: user.auditCount,
+          credits: user.creditsConsumed,
+          lastAudit: user.lastAudit,
+        });
+      }
+    });
+
+    return Array.from(usage.values()).sort((a, b) => a.date.localeCompare(b.date));
   }
 
   /**
-   * Clean up old log files (archive logs older than retention period)
+   * Get the most recent completed audits, most recent first
    */
-  async cleanupOldLogs(retentionDays: number = 30): Promise<void> {
-    try {
-      const files = await fs.readdir(this.logsDir);
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
-      
-      for (const file of files) {
-        if (file.endsWith('.jsonl')) {
-          const dateMatch = file.match(/(\d{4}-\d{2}-\d{2})/);
-          if (dateMatch) {
-            const fileDate = new Date(dateMatch[1]);
-            if (fileDate < cutoffDate) {
-              const sourcePath = path.join(this.logsDir, file);
-              const archivePath = path.join(this.logsDir, 'archive', file);
-              await fs.rename(sourcePath, archivePath);
-            }
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Failed to cleanup old logs:', error);
-    }
+  async getRecentActivity(limit: number = 50, userEmail?: string): Promise<AuditLogEntry[]> {
+    const logs = await this.store.queryAuditLogs({ userEmail, type: 'audit_complete', limit });
+    return logs.reverse();
+  }
+
+  /**
+   * Roll up, archive and purge logs past their retention (see lib/log-maintenance.ts)
+   */
+  runMaintenance(overrides?: Partial<RetentionPolicy>): Promise<MaintenanceResult> {
+    return runLogMaintenance(this.store, overrides);
   }
 }
 
 // Export singleton instance
 export const logger = new Logger();
 
-// Production logging is handled through in-memory cache and console logs
-
 // Export utility functions
-export const generateRequestId = (): string => {
-  return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-};
+export { generateRequestId, getRequestId, getClientRequestId } from '@/lib/request-id';
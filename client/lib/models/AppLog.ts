@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { LogLevel } from '@/lib/structured-log';
+
+export interface IAppLog extends Document {
+  timestamp: Date;
+  level: LogLevel;
+  message: string;
+  event?: string; // Machine-readable event name (e.g., 'audit_complete')
+  requestId?: string;
+  data?: Record<string, unknown>; // Redacted fields (see lib/structured-log.ts)
+}
+
+const AppLogSchema = new Schema(
+  {
+    timestamp: { type: Date, required: true },
+    level: {
+      type: String,
+      enum: ['debug', 'info', 'warn', 'error'],
+      required: true
+    },
+    message: { type: String, required: true },
+    event: { type: String },
+    requestId: { type: String },
+    data: { type: Schema.Types.Mixed },
+  },
+  {
+    versionKey: false, // Records are append-only
+  }
+);
+
+AppLogSchema.index({ timestamp: -1 });
+AppLogSchema.index({ level: 1, timestamp: -1 });
+AppLogSchema.index({ requestId: 1, timestamp: 1 });
+
+// Create model if it doesn't exist, otherwise use existing
+const AppLog = mongoose.models.AppLog || mongoose.model<IAppLog>('AppLog', AppLogSchema);
+
+export default AppLog;
@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { AuditReport } from '@/functions/auditInit';
+
+export interface IAuditCache extends Document {
+  cacheKey: string; // See getAuditCacheKey in lib/audit-cache.ts
+  report: AuditReport; // Report returned for every matching submission
+  auditEngineVersion?: string;
+  cachedAt: Date; // When the report was produced
+  hits: number;
+  lastHitAt?: Date;
+  expiresAt: Date; // Entries are removed by MongoDB once expired
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AuditCacheSchema = new Schema(
+  {
+    cacheKey: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    report: { type: Schema.Types.Mixed, required: true },
+    auditEngineVersion: { type: String },
+    cachedAt: { type: Date, required: true },
+    hits: { type: Number, default: 0 },
+    lastHitAt: { type: Date },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// TTL index: MongoDB deletes entries once expiresAt has passed
+AuditCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create model if it doesn't exist, otherwise use existing
+const AuditCache = mongoose.models.AuditCache || mongoose.model<IAuditCache>('AuditCache', AuditCacheSchema);
+
+export default AuditCache;
@@ -0,0 +1,89 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { AuditRequest } from '@/lib/audit-runner';
+
+export type AuditJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * Submitted audit request as stored on the job.
+ * Project files are kept as a list, since file paths are not safe MongoDB keys.
+ */
+export type StoredAuditRequest = Omit<AuditRequest, 'files'> & {
+  files?: Array<{ path: string; content: string }>;
+};
+
+export interface IAuditJob extends Document {
+  userEmail: string;
+  status: AuditJobStatus;
+  request: StoredAuditRequest; // Submitted body, replayed by the worker
+  contractName?: string;
+  requestId: string;
+  clientRequestId?: string; // X-Request-Id sent by the client, for correlation only
+  reportId?: string; // Saved AuditReport once the job succeeds
+  error?: { message: string; code: string };
+  attempts: number;
+  queuedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  lockedUntil?: Date; // Running jobs whose lock expired are requeued (worker crashed or restarted)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProjectFileSchema = new Schema({
+  path: { type: String, required: true },
+  content: { type: String, default: '' },
+}, { _id: false });
+
+const AuditJobSchema = new Schema(
+  {
+    userEmail: {
+      type: String,
+      required: true,
+      index: true // Index for faster queries by user
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'succeeded', 'failed'],
+      required: true,
+      default: 'queued'
+    },
+    request: {
+      contractCode: { type: String, default: '' },
+      contractName: { type: String },
+      timeout: { type: Number },
+      provider: { type: String },
+      force: { type: Boolean },
+      projectId: { type: String },
+      contractId: { type: String },
+      remappings: { type: [String], default: undefined },
+      files: { type: [ProjectFileSchema], default: undefined },
+    },
+    contractName: { type: String },
+    requestId: { type: String, required: true },
+    clientRequestId: { type: String },
+    reportId: { type: Schema.Types.ObjectId, ref: 'AuditReport' },
+    error: {
+      message: { type: String },
+      code: { type: String },
+    },
+    attempts: { type: Number, default: 0 },
+    queuedAt: { type: Date, required: true, default: Date.now },
+    startedAt: { type: Date },
+    finishedAt: { type: Date },
+    lockedUntil: { type: Date },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// Workers claim the oldest queued job and look for expired locks
+AuditJobSchema.index({ status: 1, queuedAt: 1 });
+AuditJobSchema.index({ status: 1, lockedUntil: 1 });
+// Request traces (see /api/logs/trace)
+AuditJobSchema.index({ requestId: 1 });
+
+// Create model if it doesn't exist, otherwise use existing
+const AuditJob = mongoose.models.AuditJob || mongoose.model<IAuditJob>('AuditJob', AuditJobSchema);
+
+export default AuditJob;
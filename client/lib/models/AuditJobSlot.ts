@@ -0,0 +1,29 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IAuditJobSlot extends Document {
+  slot: number; // 0 to AUDIT_JOB_CONCURRENCY - 1
+  leaseId?: string; // Set while a worker holds the slot
+  jobId?: mongoose.Types.ObjectId; // Job running in the slot
+  lockedUntil?: Date; // Leases expire like job locks, so a crashed worker frees its slot
+}
+
+const AuditJobSlotSchema = new Schema(
+  {
+    slot: {
+      type: Number,
+      required: true,
+      unique: true
+    },
+    leaseId: { type: String },
+    jobId: { type: Schema.Types.ObjectId, ref: 'AuditJob' },
+    lockedUntil: { type: Date },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+// Create model if it doesn't exist, otherwise use existing
+const AuditJobSlot = mongoose.models.AuditJobSlot || mongoose.model<IAuditJobSlot>('AuditJobSlot', AuditJobSlotSchema);
+
+export default AuditJobSlot;
@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IAuditLog extends Document {
+  logId: string; // Shared by an audit's start and complete entries
+  type: 'audit_start' | 'audit_complete';
+  timestamp: Date;
+  userEmail: string;
+  contractName?: string;
+  contractSize: number;
+  creditsConsumed: number;
+  success: boolean;
+  errorMessage?: string;
+  auditDuration?: number;
+  vulnerabilitiesFound?: number;
+  severityBreakdown?: {
+    critical: number;
+    high: number;
+    medium: number;
+    low: number;
+  };
+  requestId?: string;
+  clientRequestId?: string; // X-Request-Id sent by the client, for correlation only
+}
+
+const AuditLogSchema = new Schema(
+  {
+    logId: { type: String, required: true },
+    type: {
+      type: String,
+      enum: ['audit_start', 'audit_complete'],
+      required: true
+    },
+    timestamp: { type: Date, required: true },
+    userEmail: { type: String, required: true },
+    contractName: { type: String },
+    contractSize: { type: Number, default: 0 },
+    creditsConsumed: { type: Number, default: 0 },
+    success: { type: Boolean, default: false },
+    errorMessage: { type: String },
+    auditDuration: { type: Number },
+    vulnerabilitiesFound: { type: Number },
+    severityBreakdown: {
+      critical: { type: Number },
+      high: { type: Number },
+      medium: { type: Number },
+      low: { type: Number },
+    },
+    requestId: { type: String },
+    clientRequestId: { type: String },
+  },
+  {
+    versionKey: false, // Entries are append-only
+  }
+);
+
+// Date range queries, optionally for one user
+AuditLogSchema.index({ type: 1, timestamp: -1 });
+AuditLogSchema.index({ userEmail: 1, type: 1, timestamp: -1 });
+// Request traces
+AuditLogSchema.index({ requestId: 1, timestamp: 1 });
+
+// Create model if it doesn't exist, otherwise use existing
+const AuditLog = mongoose.models.AuditLog || mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
+
+export default AuditLog;
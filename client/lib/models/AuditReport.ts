@@ -1,5 +1,14 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import type { Vulnerability, VulnerabilitySeverity, ContractLanguage } from '@/functions/auditInit';
+import type { Vulnerability, VulnerabilitySeverity, ContractLanguage, ProviderTiming } from '@/functions/auditInit';
+import type { ContractModel } from '@/functions/contractModel';
+import type { ProjectFileReport } from '@/functions/projectAudit';
+import type { AuditChunkReport } from '@/functions/chunkedAudit';
+import type { TeamRole } from '@/lib/models/Team';
+
+export interface IReportShare {
+  email: string;
+  role: TeamRole;
+}
 
 export interface IAuditReport extends Document {
   userEmail: string;
@@ -7,19 +16,62 @@ export interface IAuditReport extends Document {
   language: ContractLanguage;
   summary: string;
   vulnerabilities: Vulnerability[];
+  suppressedVulnerabilities?: Vulnerability[]; // Findings matched by suppression rules or audit-ignore comments
   linesOfCode?: number;
+  contractModel?: ContractModel; // Parsed contracts, functions, modifiers, state variables and events
+  files?: ProjectFileReport[]; // Per-file details of a multi-file project audit
+  chunks?: AuditChunkReport[]; // Per-chunk details when a large source was audited in chunks
   auditedAt: Date;
   auditEngineVersion?: string;
   rawResponse?: unknown;
+  sourceCode?: Buffer; // gzip-compressed source (see lib/source-storage.ts); not selected by default
+  sourceHash?: string; // SHA-256 of the audited source, used to spot identical resubmissions
+  sourceSize?: number; // Uncompressed source size in characters
   requestId?: string;
   auditDuration?: number;
+  providerTiming?: ProviderTiming; // Provider requests and time spent waiting on them
   riskScore?: number; // Risk score from 0-100 (calculated from vulnerabilities)
+  cached?: boolean; // Whether the findings were served from the audit cache
+  projectId?: string; // Project the audited contract belongs to (see lib/projects.ts)
+  contractId?: string; // Contract within the project; its audits form the contract's version timeline
   originalAuditId?: string; // Reference to original audit if this is a re-audit
   isReAudit?: boolean; // Whether this is a re-audit of an improved contract
+  sharedWithTeams?: string[]; // Teams whose members can access the report with their team role
+  sharedWithUsers?: IReportShare[]; // Users the report is shared with directly (see lib/authorization.ts)
   createdAt: Date;
   updatedAt: Date;
 }
 
+const FindingTriageSchema = new Schema({
+  status: {
+    type: String,
+    enum: ['open', 'confirmed', 'false-positive', 'accepted-risk', 'fixed'],
+    required: true
+  },
+  justification: { type: String, required: true },
+  reviewedBy: { type: String, required: true },
+  reviewedAt: { type: Date, required: true },
+}, { _id: false });
+
+const FindingSuppressionSchema = new Schema({
+  matchedBy: {
+    type: String,
+    enum: ['fingerprint', 'category-function', 'source-comment'],
+    required: true
+  },
+  reason: { type: String, required: true },
+  ruleId: { type: String },
+}, { _id: false });
+
+const ReportShareSchema = new Schema({
+  email: { type: String, required: true },
+  role: {
+    type: String,
+    enum: ['viewer', 'auditor', 'admin'],
+    required: true
+  },
+}, { _id: false });
+
 const VulnerabilitySchema = new Schema({
   id: { type: String, required: true },
   title: { type: String, required: true },
@@ -33,6 +85,13 @@ const VulnerabilitySchema = new Schema({
   function: { type: String },
   lines: { type: [Number] },
   category: { type: String },
+  source: { type: String, enum: ['ai', 'static-analysis'] },
+  ruleId: { type: String },
+  locationVerified: { type: Boolean },
+  file: { type: String },
+  fingerprint: { type: String },
+  triage: { type: FindingTriageSchema },
+  suppression: { type: FindingSuppressionSchema },
 }, { _id: false });
 
 const AuditReportSchema = new Schema(
@@ -58,7 +117,11 @@ const AuditReportSchema = new Schema(
       required: true,
       default: [] 
     },
+    suppressedVulnerabilities: { type: [VulnerabilitySchema], default: undefined },
     linesOfCode: { type: Number },
+    contractModel: { type: Schema.Types.Mixed },
+    files: { type: [Schema.Types.Mixed], default: undefined },
+    chunks: { type: [Schema.Types.Mixed], default: undefined },
     auditedAt: { 
       type: Date, 
       required: true,
@@ -66,15 +129,27 @@ const AuditReportSchema = new Schema(
     },
     auditEngineVersion: { type: String },
     rawResponse: { type: Schema.Types.Mixed },
-    requestId: { type: String },
+    sourceCode: { type: Buffer, select: false }, // Only loaded when the source is viewed
+    sourceHash: { type: String },
+    sourceSize: { type: Number },
+    requestId: { type: String, index: true }, // Request traces (see /api/logs/trace)
     auditDuration: { type: Number },
+    providerTiming: {
+      requests: { type: Number },
+      durationMs: { type: Number },
+    },
     riskScore: { type: Number, min: 0, max: 100 },
+    cached: { type: Boolean, default: false },
+    projectId: { type: Schema.Types.ObjectId, ref: 'Project' },
+    contractId: { type: Schema.Types.ObjectId },
     originalAuditId: { 
       type: Schema.Types.ObjectId, 
       ref: 'AuditReport',
       index: true // Index for faster queries
     },
     isReAudit: { type: Boolean, default: false, index: true },
+    sharedWithTeams: { type: [Schema.Types.ObjectId], ref: 'Team', default: undefined },
+    sharedWithUsers: { type: [ReportShareSchema], default: undefined },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt
@@ -84,6 +159,16 @@ const AuditReportSchema = new Schema(
 // Compound index for user email and date (for efficient user history queries)
 AuditReportSchema.index({ userEmail: 1, auditedAt: -1 });
 
+// Compound index for a contract's version timeline
+AuditReportSchema.index({ projectId: 1, contractId: 1, auditedAt: -1 });
+
+// Compound index for finding a user's earlier audits of the same source
+AuditReportSchema.index({ userEmail: 1, sourceHash: 1, auditedAt: -1 });
+
+// Indexes for finding reports shared with a user's teams or with the user
+AuditReportSchema.index({ sharedWithTeams: 1, auditedAt: -1 });
+AuditReportSchema.index({ 'sharedWithUsers.email': 1, auditedAt: -1 });
+
 // Create model if it doesn't exist, otherwise use existing
 const AuditReport = mongoose.models.AuditReport || mongoose.model<IAuditReport>('AuditReport', AuditReportSchema);
 
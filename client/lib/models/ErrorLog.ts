@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IErrorLog extends Document {
+  logId: string;
+  timestamp: Date;
+  userEmail?: string;
+  errorType: string;
+  errorMessage: string;
+  stackTrace?: string;
+  requestId?: string;
+}
+
+const ErrorLogSchema = new Schema(
+  {
+    logId: { type: String, required: true },
+    timestamp: { type: Date, required: true },
+    userEmail: { type: String },
+    errorType: { type: String, required: true },
+    errorMessage: { type: String, required: true },
+    stackTrace: { type: String },
+    requestId: { type: String },
+  },
+  {
+    versionKey: false, // Entries are append-only
+  }
+);
+
+// Date range queries, optionally for one user
+ErrorLogSchema.index({ timestamp: -1 });
+ErrorLogSchema.index({ userEmail: 1, timestamp: -1 });
+// Error explorer groups and filters by type
+ErrorLogSchema.index({ errorType: 1, timestamp: -1 });
+// Request traces
+ErrorLogSchema.index({ requestId: 1, timestamp: 1 });
+
+// Create model if it doesn't exist, otherwise use existing
+const ErrorLog = mongoose.models.ErrorLog || mongoose.model<IErrorLog>('ErrorLog', ErrorLogSchema);
+
+export default ErrorLog;
@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { LogKind } from '@/lib/log-store';
+
+export interface ILogArchive extends Document {
+  kind: LogKind;
+  date: string; // YYYY-MM-DD (UTC) the entries were logged on
+  entryCount: number;
+  data: Buffer; // gzip-compressed JSON Lines, one entry per line
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LogArchiveSchema = new Schema(
+  {
+    kind: {
+      type: String,
+      enum: ['audit', 'error', 'app'],
+      required: true
+    },
+    date: { type: String, required: true },
+    entryCount: { type: Number, required: true },
+    data: { type: Buffer, required: true },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// One archive per log kind and day; purges delete by date
+LogArchiveSchema.index({ kind: 1, date: 1 }, { unique: true });
+LogArchiveSchema.index({ date: 1 });
+
+// Create model if it doesn't exist, otherwise use existing
+const LogArchive = mongoose.models.LogArchive || mongoose.model<ILogArchive>('LogArchive', LogArchiveSchema);
+
+export default LogArchive;
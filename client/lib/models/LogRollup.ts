@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { AuditDayRollup } from '@/lib/log-rollups';
+
+export interface ILogRollup extends Document {
+  date: string; // YYYY-MM-DD (UTC)
+  audits?: AuditDayRollup; // Completed audits of the day
+  errorCounts?: Array<{ errorType: string; count: number }>; // `errors` is reserved by mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ErrorCountSchema = new Schema({
+  errorType: { type: String, required: true },
+  count: { type: Number, required: true },
+}, { _id: false });
+
+const LogRollupSchema = new Schema(
+  {
+    date: {
+      type: String,
+      required: true,
+      unique: true // One rollup per day
+    },
+    audits: { type: Schema.Types.Mixed },
+    errorCounts: { type: [ErrorCountSchema], default: undefined },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// Create model if it doesn't exist, otherwise use existing
+const LogRollup = mongoose.models.LogRollup || mongoose.model<ILogRollup>('LogRollup', LogRollupSchema);
+
+export default LogRollup;
@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IProjectContract {
+  _id: Types.ObjectId;
+  name: string; // Matched against the contractName of audits
+  deployedAddresses: string[];
+  createdAt: Date;
+}
+
+export interface IProject extends Document {
+  userEmail: string;
+  name: string;
+  description?: string;
+  repoUrl?: string;
+  chain?: string; // e.g. "energi", "ethereum"
+  contracts: IProjectContract[];
+  isDefault: boolean; // Receives audits submitted without a project
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProjectContractSchema = new Schema({
+  name: { type: String, required: true },
+  deployedAddresses: { type: [String], default: [] },
+  createdAt: { type: Date, default: Date.now },
+});
+
+const ProjectSchema = new Schema(
+  {
+    userEmail: {
+      type: String,
+      required: true,
+      index: true // Index for faster queries by user
+    },
+    name: { type: String, required: true },
+    description: { type: String },
+    repoUrl: { type: String },
+    chain: { type: String },
+    contracts: {
+      type: [ProjectContractSchema],
+      default: []
+    },
+    isDefault: { type: Boolean, default: false },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// Project names are unique per user
+ProjectSchema.index({ userEmail: 1, name: 1 }, { unique: true });
+// Each user has at most one default project
+ProjectSchema.index({ userEmail: 1, isDefault: 1 }, { unique: true, partialFilterExpression: { isDefault: true } });
+
+// Create model if it doesn't exist, otherwise use existing
+const Project = mongoose.models.Project || mongoose.model<IProject>('Project', ProjectSchema);
+
+export default Project;
@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SuppressionScope = 'user' | 'project';
+
+export interface ISuppressionRule extends Document {
+  userEmail: string; // Owner; rules only apply to the owner's audits
+  scope: SuppressionScope; // 'user': all of the owner's audits, 'project': audits in projectId
+  projectId?: string; // Project the rule applies to (project scope only)
+  contractName?: string; // Rules created before projects existed match audits by contract name instead
+  matchType: 'fingerprint' | 'category-function';
+  fingerprint?: string;
+  category?: string;
+  function?: string;
+  reason: string;
+  sourceReportId?: string; // Report the rule was created from, if any
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SuppressionRuleSchema = new Schema(
+  {
+    userEmail: {
+      type: String,
+      required: true,
+      index: true // Index for faster queries by user
+    },
+    scope: {
+      type: String,
+      enum: ['user', 'project'],
+      required: true
+    },
+    projectId: { type: Schema.Types.ObjectId, ref: 'Project' },
+    contractName: { type: String },
+    matchType: {
+      type: String,
+      enum: ['fingerprint', 'category-function'],
+      required: true
+    },
+    fingerprint: { type: String },
+    category: { type: String },
+    function: { type: String },
+    reason: { type: String, required: true },
+    sourceReportId: {
+      type: Schema.Types.ObjectId,
+      ref: 'AuditReport'
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// Compound index for loading the rules that apply to an audit
+SuppressionRuleSchema.index({ userEmail: 1, scope: 1, projectId: 1 });
+SuppressionRuleSchema.index({ userEmail: 1, scope: 1, contractName: 1 });
+
+// Create model if it doesn't exist, otherwise use existing
+const SuppressionRule = mongoose.models.SuppressionRule || mongoose.model<ISuppressionRule>('SuppressionRule', SuppressionRuleSchema);
+
+export default SuppressionRule;
@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type TeamRole = 'viewer' | 'auditor' | 'admin';
+
+export interface ITeamMember {
+  email: string;
+  role: TeamRole; // viewer: read shared reports, auditor: also triage and re-audit, admin: also share and manage the team
+  addedBy: string;
+  addedAt: Date;
+}
+
+export interface ITeam extends Document {
+  name: string;
+  members: ITeamMember[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TeamMemberSchema = new Schema({
+  email: { type: String, required: true },
+  role: {
+    type: String,
+    enum: ['viewer', 'auditor', 'admin'],
+    required: true
+  },
+  addedBy: { type: String, required: true },
+  addedAt: { type: Date, default: Date.now },
+}, { _id: false });
+
+const TeamSchema = new Schema(
+  {
+    name: { type: String, required: true },
+    members: {
+      type: [TeamMemberSchema],
+      default: []
+    },
+    createdBy: { type: String, required: true },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// Index for loading a user's teams on every access check
+TeamSchema.index({ 'members.email': 1 });
+
+// Create model if it doesn't exist, otherwise use existing
+const Team = mongoose.models.Team || mongoose.model<ITeam>('Team', TeamSchema);
+
+export default Team;
@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type AppRole = 'user' | 'admin';
+
+export interface IUserRole extends Document {
+  email: string;
+  role: AppRole; // admin: reads logs and cross-user analytics, and manages roles
+  grantedBy: string; // Admin who set the role, or 'env:ADMIN_EMAILS' for seeded admins
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserRoleSchema = new Schema(
+  {
+    email: {
+      type: String,
+      required: true,
+      unique: true // One role per user
+    },
+    role: {
+      type: String,
+      enum: ['user', 'admin'],
+      required: true
+    },
+    grantedBy: { type: String, required: true },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// Create model if it doesn't exist, otherwise use existing
+const UserRole = mongoose.models.UserRole || mongoose.model<IUserRole>('UserRole', UserRoleSchema);
+
+export default UserRole;
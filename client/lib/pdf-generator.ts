@@ -1,6 +1,6 @@
 import jsPDF from 'jspdf';
-import type { AuditReport, VulnerabilitySeverity } from '@/functions/auditInit';
-import { summarizeVulnerabilities, calculateRiskScore } from '@/functions/auditInit';
+import type { AuditReport, VulnerabilitySeverity, ScoringOptions, TriageStatus } from '@/functions/auditInit';
+import { summarizeVulnerabilities, calculateRiskScore, getScoredVulnerabilities } from '@/functions/auditInit';
 
 interface PDFTheme {
   colors: {
@@ -36,8 +36,22 @@ const theme: PDFTheme = {
   }
 };
 
-export function generateAuditReportPDF(report: AuditReport, userEmail?: string): void {
+const TRIAGE_LABELS: Record<TriageStatus, string> = {
+  'open': 'Open',
+  'confirmed': 'Confirmed',
+  'false-positive': 'False positive',
+  'accepted-risk': 'Accepted risk',
+  'fixed': 'Fixed',
+};
+
+/**
+ * Generates and downloads the PDF report. With `excludeDismissed`, findings triaged as
+ * false positive, accepted risk or fixed are left out of the findings and the risk score.
+ */
+export function generateAuditReportPDF(report: AuditReport, userEmail?: string, options: ScoringOptions = {}): void {
   try {
+    const vulnerabilities = getScoredVulnerabilities(report, options);
+    const dismissedCount = report.vulnerabilities.length - vulnerabilities.length;
     const pdf = new jsPDF();
     const pageWidth = pdf.internal.pageSize.getWidth();
     const pageHeight = pdf.internal.pageSize.getHeight();
@@ -222,9 +236,14 @@ export function generateAuditReportPDF(report: AuditReport, userEmail?: string):
       ? report.auditedAt 
       : new Date(report.auditedAt);
     
+    // Show the declared compiler version next to the language (e.g., "Vyper ^0.3.9")
+    const languagePragma = report.contractModel?.pragmas.find(
+      pragma => pragma.name.toLowerCase() === report.language.toLowerCase()
+    );
+
     const contractDetails = [
       `Contract Name: ${report.contractName}`,
-      `Language: ${report.language}`,
+      `Language: ${languagePragma ? `${report.language} ${languagePragma.value}` : report.language}`,
       `Lines of Code: ${report.linesOfCode || 'N/A'}`,
       `Audit Date: ${auditDate.toLocaleDateString()}`
     ];
@@ -293,8 +312,8 @@ export function generateAuditReportPDF(report: AuditReport, userEmail?: string):
     // ============================================
     addNewPageIfNeeded(80);
     
-    const summary = summarizeVulnerabilities(report);
-    const riskScore = calculateRiskScore(report);
+    const summary = summarizeVulnerabilities(report, options);
+    const riskScore = calculateRiskScore(report, options);
     
     pdf.setFontSize(18);
     pdf.setFont('helvetica', 'bold');
@@ -427,7 +446,7 @@ export function generateAuditReportPDF(report: AuditReport, userEmail?: string):
     // ============================================
     // DETAILED FINDINGS
     // ============================================
-    if (report.vulnerabilities.length > 0) {
+    if (vulnerabilities.length > 0) {
       addNewPageIfNeeded(30);
       
       pdf.setFontSize(20);
@@ -440,8 +459,16 @@ export function generateAuditReportPDF(report: AuditReport, userEmail?: string):
       pdf.setLineWidth(1);
       pdf.line(margin, yPosition, margin + 55, yPosition);
       yPosition += 15;
+
+      if (dismissedCount > 0) {
+        pdf.setFontSize(9);
+        pdf.setFont('helvetica', 'italic');
+        pdf.setTextColor('#5f6368');
+        pdf.text(`${dismissedCount} finding(s) dismissed during review are not listed.`, margin, yPosition);
+        yPosition += 10;
+      }
       
-      report.vulnerabilities.forEach((vuln, index) => {
+      vulnerabilities.forEach((vuln, index) => {
         addNewPageIfNeeded(55);
         
         pdf.setFillColor(255, 255, 255);
@@ -487,6 +514,14 @@ export function generateAuditReportPDF(report: AuditReport, userEmail?: string):
           yPosition += 6;
         }
         
+        if (vuln.file) {
+          pdf.setTextColor('#374151');
+          pdf.text('File:', margin + 5, yPosition);
+          pdf.setTextColor('#0a0a0a');
+          pdf.text(vuln.file, margin + 25, yPosition);
+          yPosition += 6;
+        }
+        
         if (vuln.function) {
           pdf.setTextColor('#374151');
           pdf.text('Function:', margin + 5, yPosition);
@@ -502,6 +537,28 @@ export function generateAuditReportPDF(report: AuditReport, userEmail?: string):
           pdf.text(vuln.lines.join(', '), margin + 20, yPosition);
           yPosition += 6;
         }
+
+        if (vuln.source) {
+          pdf.setTextColor('#374151');
+          pdf.text('Source:', margin + 5, yPosition);
+          pdf.setTextColor('#0a0a0a');
+          pdf.text(vuln.source === 'static-analysis' ? 'Static analysis' : 'AI audit', margin + 20, yPosition);
+          yPosition += 6;
+        }
+
+        if (vuln.triage) {
+          pdf.setTextColor('#374151');
+          pdf.text('Triage:', margin + 5, yPosition);
+          pdf.setTextColor('#0a0a0a');
+          pdf.text(`${TRIAGE_LABELS[vuln.triage.status]} by ${vuln.triage.reviewedBy}`, margin + 20, yPosition);
+          yPosition += 6;
+          const justificationLines = pdf.splitTextToSize(vuln.triage.justification, pageWidth - 2 * margin - 25);
+          justificationLines.forEach((line: string) => {
+            addNewPageIfNeeded(lineHeight);
+            pdf.text(line, margin + 20, yPosition);
+            yPosition += lineHeight - 1;
+          });
+        }
         
         yPosition += 3;
         
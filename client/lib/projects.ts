@@ -0,0 +1,257 @@
+/**
+ * Projects group a user's contracts; every saved audit is attached to a project contract.
+ *
+ * Audits name their project and contract explicitly (`projectId`, `contractId`) or by
+ * contract name. Contracts are matched by name within the project and created on first
+ * use. Audits submitted without a project go to the user's default project, which is
+ * created on demand.
+ */
+import { Types } from 'mongoose';
+import { AuditError } from '@/functions/auditInit';
+import connectDB from '@/lib/mongodb';
+import ProjectModel, { type IProject } from '@/lib/models/Project';
+
+/**
+ * Name given to a user's default project
+ */
+export const DEFAULT_PROJECT_NAME = 'Unsorted Contracts';
+
+/**
+ * Project and contract an audit is attached to
+ */
+export interface AuditTarget {
+  projectId: string;
+  contractId: string;
+}
+
+const isObjectId = (value: string) => /^[0-9a-fA-F]{24}$/.test(value);
+
+/**
+ * Checks that an explicitly requested project (and contract) belongs to the user
+ * @throws {AuditError} INVALID_PROJECT if the project or contract does not exist
+ */
+export async function validateAuditTarget(
+  userEmail: string,
+  target: { projectId?: string; contractId?: string }
+): Promise<void> {
+  if (!target.projectId) {
+    if (target.contractId) {
+      throw new AuditError('contractId requires a projectId', 'INVALID_PROJECT');
+    }
+    return;
+  }
+  if (!isObjectId(target.projectId) || (target.contractId && !isObjectId(target.contractId))) {
+    throw new AuditError('Invalid project or contract ID format', 'INVALID_PROJECT');
+  }
+
+  await connectDB();
+  const project = await ProjectModel.exists({
+    _id: target.projectId,
+    userEmail,
+    ...(target.contractId ? { 'contracts._id': target.contractId } : {}),
+  });
+  if (!project) {
+    throw new AuditError('Project or contract not found', 'INVALID_PROJECT');
+  }
+}
+
+/**
+ * Returns the user's default project, creating it on first use.
+ * It is found by `isDefault` only; if the user already has a project named
+ * DEFAULT_PROJECT_NAME (created before the name was reserved), a numbered name is used.
+ */
+export async function getDefaultProject(userEmail: string): Promise<IProject> {
+  await connectDB();
+  for (let attempt = 1; ; attempt++) {
+    const name = attempt === 1 ? DEFAULT_PROJECT_NAME : `${DEFAULT_PROJECT_NAME} (${attempt})`;
+    try {
+      return await ProjectModel.findOneAndUpdate(
+        { userEmail, isDefault: true },
+        { $setOnInsert: { userEmail, isDefault: true, name, contracts: [] } },
+        { upsert: true, new: true }
+      );
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000 || attempt >= 5) throw error;
+      // Either another request created the default project, or the name is taken
+      const existing = await ProjectModel.findOne({ userEmail, isDefault: true });
+      if (existing) return existing;
+    }
+  }
+}
+
+/**
+ * Resolves the project contract an audit is attached to, creating the contract (and the
+ * default project) when needed
+ * @param contractName - Name of the audited contract, used when no contractId is given
+ * @throws {AuditError} INVALID_PROJECT if a requested project or contract does not exist
+ */
+export async function resolveAuditTarget(
+  userEmail: string,
+  target: { projectId?: string; contractId?: string },
+  contractName: string
+): Promise<AuditTarget> {
+  await validateAuditTarget(userEmail, target);
+
+  const project: IProject | null = target.projectId
+    ? await ProjectModel.findOne({ _id: target.projectId, userEmail })
+    : await getDefaultProject(userEmail);
+  if (!project) {
+    throw new AuditError('Project not found', 'INVALID_PROJECT');
+  }
+
+  if (target.contractId) {
+    return { projectId: String(project._id), contractId: target.contractId };
+  }
+
+  const existing = project.contracts.find((contract) => contract.name === contractName);
+  if (existing) {
+    return { projectId: String(project._id), contractId: existing._id.toString() };
+  }
+
+  // Add the contract unless a concurrent audit added it first
+  const contractId = new Types.ObjectId();
+  const updated = await ProjectModel.findOneAndUpdate(
+    { _id: project._id, 'contracts.name': { $ne: contractName } },
+    { $push: { contracts: { _id: contractId, name: contractName, deployedAddresses: [] } } },
+    { new: true }
+  );
+  if (updated) {
+    return { projectId: String(project._id), contractId: contractId.toString() };
+  }
+
+  const reloaded = await ProjectModel.findById(project._id).lean<IProject>();
+  const added = reloaded?.contracts.find((contract) => contract.name === contractName);
+  if (!added) {
+    throw new AuditError('Project not found', 'INVALID_PROJECT');
+  }
+  return { projectId: String(project._id), contractId: added._id.toString() };
+}
+
+/**
+ * Editable project fields
+ */
+export interface ProjectInput {
+  name?: string;
+  description?: string;
+  repoUrl?: string;
+  chain?: string;
+}
+
+/**
+ * Editable contract fields
+ */
+export interface ProjectContractInput {
+  name?: string;
+  deployedAddresses?: string[];
+}
+
+const PROJECT_LIMITS = {
+  NAME: 100,
+  DESCRIPTION: 1_000,
+  ADDRESSES: 50,
+} as const;
+
+const optionalText = (value: unknown, field: string, maxLength: number): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || value.trim().length > maxLength) {
+    throw new AuditError(`${field} must be a string of at most ${maxLength} characters`, 'INVALID_PROJECT');
+  }
+  return value.trim() || undefined;
+};
+
+/**
+ * Validates project fields from a request body. DEFAULT_PROJECT_NAME is reserved.
+ * @param partial - Whether fields may be omitted (updates); otherwise a name is required
+ * @throws {AuditError} INVALID_PROJECT if a field is invalid
+ */
+export function parseProjectInput(body: any, partial: boolean): ProjectInput {
+  const input: ProjectInput = {
+    name: optionalText(body?.name, 'name', PROJECT_LIMITS.NAME),
+    description: optionalText(body?.description, 'description', PROJECT_LIMITS.DESCRIPTION),
+    repoUrl: optionalText(body?.repoUrl, 'repoUrl', PROJECT_LIMITS.DESCRIPTION),
+    chain: optionalText(body?.chain, 'chain', PROJECT_LIMITS.NAME),
+  };
+  if (!partial && !input.name) {
+    throw new AuditError('Project name is required', 'INVALID_PROJECT');
+  }
+  if (input.name?.toLowerCase() === DEFAULT_PROJECT_NAME.toLowerCase()) {
+    throw new AuditError(`"${DEFAULT_PROJECT_NAME}" is reserved for the default project`, 'INVALID_PROJECT');
+  }
+  if (input.repoUrl && !/^https?:\/\/\S+$/i.test(input.repoUrl)) {
+    throw new AuditError('repoUrl must be an http(s) URL', 'INVALID_PROJECT');
+  }
+  return input;
+}
+
+/**
+ * Validates contract fields from a request body. Addresses must be 0x-prefixed 20-byte hex.
+ * @param partial - Whether fields may be omitted (updates); otherwise a name is required
+ * @throws {AuditError} INVALID_PROJECT if a field is invalid
+ */
+export function parseContractInput(body: any, partial: boolean): ProjectContractInput {
+  const input: ProjectContractInput = {
+    name: optionalText(body?.name, 'name', PROJECT_LIMITS.NAME),
+  };
+  if (!partial && !input.name) {
+    throw new AuditError('Contract name is required', 'INVALID_PROJECT');
+  }
+
+  if (body?.deployedAddresses !== undefined) {
+    const addresses = body.deployedAddresses;
+    if (
+      !Array.isArray(addresses) ||
+      addresses.length > PROJECT_LIMITS.ADDRESSES ||
+      !addresses.every((address) => typeof address === 'string' && /^0x[0-9a-fA-F]{40}$/.test(address.trim()))
+    ) {
+      throw new AuditError(
+        `deployedAddresses must be a list of at most ${PROJECT_LIMITS.ADDRESSES} 0x-prefixed addresses`,
+        'INVALID_PROJECT'
+      );
+    }
+    input.deployedAddresses = Array.from(new Set(addresses.map((address: string) => address.trim())));
+  }
+  return input;
+}
+
+/**
+ * One audit in a contract's version timeline
+ */
+export interface ContractTimelineEntry {
+  reportId: string;
+  auditedAt: Date;
+  /** Source version, starting at 1 and increasing whenever the audited source changed */
+  version: number;
+  sourceHash?: string;
+  riskScore?: number;
+  vulnerabilitiesFound: number;
+  isReAudit: boolean;
+}
+
+/**
+ * Orders a contract's audits oldest first and numbers the source versions.
+ * Audits without a stored source hash count as a new version.
+ */
+export function buildContractTimeline(
+  reports: Array<{ _id: unknown; auditedAt: Date; sourceHash?: string; riskScore?: number; vulnerabilities?: unknown[]; isReAudit?: boolean }>
+): ContractTimelineEntry[] {
+  let version = 0;
+  let previousHash: string | undefined;
+
+  return [...reports]
+    .sort((a, b) => new Date(a.auditedAt).getTime() - new Date(b.auditedAt).getTime())
+    .map((report) => {
+      if (!report.sourceHash || report.sourceHash !== previousHash) {
+        version++;
+      }
+      previousHash = report.sourceHash;
+      return {
+        reportId: String(report._id),
+        auditedAt: report.auditedAt,
+        version,
+        sourceHash: report.sourceHash,
+        riskScore: report.riskScore,
+        vulnerabilitiesFound: report.vulnerabilities?.length || 0,
+        isReAudit: !!report.isReAudit,
+      };
+    });
+}
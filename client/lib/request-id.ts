@@ -0,0 +1,56 @@
+/**
+ * Request ids (`req_...`) tie a request's audit logs, error logs, job and saved report
+ * together (see /api/logs/trace).
+ *
+ * `middleware.ts` assigns a new id to every API request, forwards it to the route in the
+ * `X-Request-Id` request header and returns it in the `X-Request-Id` response header.
+ * Ids are always generated here, so a caller cannot add entries to another request's
+ * trace. A valid `X-Request-Id` sent by the client or a proxy is forwarded and returned
+ * as `X-Client-Request-Id` instead, and audits record it as `clientRequestId` for
+ * correlation with other systems.
+ * Kept free of Node-only imports so the middleware can use it.
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+export const CLIENT_REQUEST_ID_HEADER = 'X-Client-Request-Id';
+
+/** Longest client request id that is kept */
+export const MAX_REQUEST_ID_LENGTH = 128;
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+export const generateRequestId = (): string => {
+  return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+/**
+ * Whether an id is well-formed: 1-128 letters, digits, `.`, `_` or `-`
+ */
+export function isValidRequestId(id: string): boolean {
+  return id.length <= MAX_REQUEST_ID_LENGTH && REQUEST_ID_PATTERN.test(id);
+}
+
+/**
+ * Ids for an incoming request: a new request id, and the id sent by the client in
+ * `X-Request-Id` if it is well-formed
+ */
+export function assignRequestIds(headers: Headers): { requestId: string; clientRequestId?: string } {
+  const incoming = headers.get(REQUEST_ID_HEADER);
+  return {
+    requestId: generateRequestId(),
+    clientRequestId: incoming && isValidRequestId(incoming) ? incoming : undefined,
+  };
+}
+
+/**
+ * The id the middleware assigned to this request, or a new one if it was not set
+ */
+export function getRequestId(request: Request): string {
+  return request.headers.get(REQUEST_ID_HEADER) || generateRequestId();
+}
+
+/**
+ * The client's own id for this request, as forwarded by the middleware
+ */
+export function getClientRequestId(request: Request): string | undefined {
+  return request.headers.get(CLIENT_REQUEST_ID_HEADER) || undefined;
+}
@@ -0,0 +1,208 @@
+/**
+ * Request traces: everything recorded under one request id, as a single timeline.
+ *
+ * Sources are the audit logs (audit_start / audit_complete), the error logs, the queued
+ * job (audits submitted through /api/audit/jobs) and the saved AuditReport, whose
+ * `providerTiming` records the time spent waiting on the audit provider.
+ */
+import connectDB from '@/lib/mongodb';
+import AuditReportModel from '@/lib/models/AuditReport';
+import AuditJobModel from '@/lib/models/AuditJob';
+import { logger, type AuditLogEntry, type ErrorLogEntry } from '@/lib/logging';
+import type { ProviderTiming } from '@/functions/auditInit';
+
+export type TraceEventType = 'job_queued' | 'job_started' | 'audit_start' | 'provider' | 'audit_complete' | 'error' | 'report_saved' | 'job_finished';
+
+export interface TraceEvent {
+  type: TraceEventType;
+  timestamp: string;
+  durationMs?: number; // Time the step took, when known
+  summary: string;
+  details?: Record<string, unknown>;
+}
+
+export interface RequestTrace {
+  requestId: string;
+  clientRequestId?: string; // X-Request-Id the client sent, if any
+  userEmail?: string;
+  status: 'succeeded' | 'failed' | 'in_progress';
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  events: TraceEvent[]; // Oldest first
+  report?: {
+    id: string;
+    contractName: string;
+    auditedAt: string;
+    auditDuration?: number;
+    providerTiming?: ProviderTiming;
+    riskScore?: number;
+    vulnerabilitiesFound: number;
+    cached?: boolean;
+    isReAudit?: boolean;
+  };
+  job?: {
+    id: string;
+    status: string;
+    attempts: number;
+  };
+}
+
+/**
+ * Everything recorded under one request id
+ */
+export interface TraceSources {
+  auditLogs: AuditLogEntry[]; // Oldest first
+  errorLogs: ErrorLogEntry[]; // Oldest first
+  report?: any; // Lean AuditReport with the fields selected by getRequestTrace
+  job?: any; // Lean AuditJob
+}
+
+/**
+ * Builds the trace of a request
+ * @returns null when nothing was recorded under the request id
+ */
+export async function getRequestTrace(requestId: string): Promise<RequestTrace | null> {
+  await connectDB();
+  const [{ auditLogs, errorLogs }, report, job] = await Promise.all([
+    logger.getRequestLogs(requestId),
+    AuditReportModel.findOne({ requestId })
+      .select('userEmail contractName auditedAt auditDuration providerTiming riskScore cached isReAudit createdAt vulnerabilities.severity')
+      .lean<any>(),
+    AuditJobModel.findOne({ requestId })
+      .select('userEmail status attempts error queuedAt startedAt finishedAt clientRequestId')
+      .lean<any>(),
+  ]);
+
+  return buildRequestTrace(requestId, { auditLogs, errorLogs, report, job });
+}
+
+/**
+ * Assembles the timeline of a request from its records
+ * @returns null when there are none
+ */
+export function buildRequestTrace(requestId: string, { auditLogs, errorLogs, report, job }: TraceSources): RequestTrace | null {
+  if (auditLogs.length === 0 && errorLogs.length === 0 && !report && !job) {
+    return null;
+  }
+
+  const events: TraceEvent[] = [];
+
+  if (job) {
+    events.push({ type: 'job_queued', timestamp: new Date(job.queuedAt).toISOString(), summary: 'Audit job queued' });
+    if (job.startedAt) {
+      events.push({
+        type: 'job_started',
+        timestamp: new Date(job.startedAt).toISOString(),
+        durationMs: new Date(job.startedAt).getTime() - new Date(job.queuedAt).getTime(),
+        summary: `Worker picked up the job (attempt ${job.attempts})`,
+      });
+    }
+  }
+
+  auditLogs.forEach((log) => {
+    if (log.type === 'audit_start') {
+      events.push({
+        type: 'audit_start',
+        timestamp: log.timestamp,
+        summary: `Audit started${log.contractName ? ` for ${log.contractName}` : ''}`,
+        details: { contractSize: log.contractSize, clientRequestId: log.clientRequestId },
+      });
+    } else {
+      events.push({
+        type: 'audit_complete',
+        timestamp: log.timestamp,
+        durationMs: log.auditDuration,
+        summary: log.success
+          ? `Audit completed with ${log.vulnerabilitiesFound ?? 0} findings`
+          : `Audit failed: ${log.errorMessage || 'unknown error'}`,
+        details: {
+          success: log.success,
+          creditsConsumed: log.creditsConsumed,
+          severityBreakdown: log.severityBreakdown,
+        },
+      });
+    }
+  });
+
+  errorLogs.forEach((error) => {
+    events.push({
+      type: 'error',
+      timestamp: error.timestamp,
+      summary: `${error.errorType}: ${error.errorMessage}`,
+      details: { errorType: error.errorType, stackTrace: error.stackTrace },
+    });
+  });
+
+  if (report) {
+    // The report is stamped once the provider's response is parsed
+    if (report.providerTiming?.requests) {
+      events.push({
+        type: 'provider',
+        timestamp: new Date(report.auditedAt).toISOString(),
+        durationMs: report.providerTiming.durationMs,
+        summary: `${report.providerTiming.requests} provider request${report.providerTiming.requests === 1 ? '' : 's'} finished`,
+        details: { requests: report.providerTiming.requests },
+      });
+    }
+    events.push({
+      type: 'report_saved',
+      timestamp: new Date(report.createdAt).toISOString(),
+      summary: `Report saved${report.cached ? ' (served from the audit cache)' : ''}`,
+      details: { reportId: String(report._id) },
+    });
+  }
+
+  if (job?.finishedAt) {
+    events.push({
+      type: 'job_finished',
+      timestamp: new Date(job.finishedAt).toISOString(),
+      summary: job.status === 'failed' ? `Job failed: ${job.error?.message || 'unknown error'}` : 'Job finished',
+    });
+  }
+
+  events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  const completed = auditLogs.filter((log) => log.type !== 'audit_start').pop();
+  let status: RequestTrace['status'];
+  if (job?.status === 'queued' || job?.status === 'running') {
+    status = 'in_progress';
+  } else if (job?.status === 'failed' || completed?.success === false) {
+    status = 'failed';
+  } else if (completed || report || job) {
+    status = 'succeeded';
+  } else {
+    // Rejected before the audit started, or started and not yet completed
+    status = errorLogs.length > 0 ? 'failed' : 'in_progress';
+  }
+
+  const startedAt = events[0].timestamp;
+  const finishedAt = status === 'in_progress' ? undefined : events[events.length - 1].timestamp;
+
+  return {
+    requestId,
+    clientRequestId: job?.clientRequestId || auditLogs.find((log) => log.clientRequestId)?.clientRequestId,
+    userEmail: job?.userEmail || report?.userEmail || auditLogs[0]?.userEmail || errorLogs.find((error) => error.userEmail)?.userEmail,
+    status,
+    startedAt,
+    finishedAt,
+    durationMs: finishedAt ? new Date(finishedAt).getTime() - new Date(startedAt).getTime() : undefined,
+    events,
+    report: report
+      ? {
+          id: String(report._id),
+          contractName: report.contractName,
+          auditedAt: new Date(report.auditedAt).toISOString(),
+          auditDuration: report.auditDuration,
+          providerTiming: report.providerTiming,
+          riskScore: report.riskScore,
+          vulnerabilitiesFound: report.vulnerabilities?.length || 0,
+          cached: report.cached,
+          isReAudit: report.isReAudit,
+        }
+      : undefined,
+    job: job
+      ? { id: String(job._id), status: job.status, attempts: job.attempts }
+      : undefined,
+  };
+}
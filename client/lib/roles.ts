@@ -0,0 +1,100 @@
+/**
+ * Application roles stored in MongoDB.
+ *
+ * Users without a stored role are regular users. The addresses in `ADMIN_EMAILS`
+ * (comma-separated) are stored as admins the first time roles are read; after that their
+ * roles are managed like any other, so an admin can demote a seeded admin.
+ *
+ * Roles are carried in the NextAuth JWT (see app/api/auth/[...nextauth]/route.ts) for the
+ * middleware and the client; API routes check them here against the database.
+ */
+import connectDB from '@/lib/mongodb';
+import UserRoleModel, { type AppRole, type IUserRole } from '@/lib/models/UserRole';
+
+export const SEEDED_BY = 'env:ADMIN_EMAILS';
+
+let seeded: Promise<void> | null = null;
+
+/**
+ * Initial admin addresses from the environment
+ */
+export function getSeedAdminEmails(): string[] {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Stores the initial admins once per process; existing roles are left unchanged
+ */
+function seedAdminRoles(): Promise<void> {
+  if (!seeded) {
+    seeded = (async () => {
+      const emails = getSeedAdminEmails();
+      if (emails.length === 0) return;
+      await UserRoleModel.bulkWrite(
+        emails.map((email) => ({
+          updateOne: {
+            filter: { email },
+            update: { $setOnInsert: { email, role: 'admin', grantedBy: SEEDED_BY } },
+            upsert: true,
+          },
+        }))
+      );
+    })().catch((error) => {
+      seeded = null; // Retry on the next read
+      throw error;
+    });
+  }
+  return seeded;
+}
+
+/**
+ * Returns a user's role ('user' when none is stored)
+ */
+export async function getUserRole(email: string): Promise<AppRole> {
+  await connectDB();
+  await seedAdminRoles();
+  const stored = await UserRoleModel.findOne({ email: email.toLowerCase() })
+    .select('role')
+    .lean<Pick<IUserRole, 'role'>>();
+  return stored?.role || 'user';
+}
+
+/**
+ * Whether the user is an admin
+ */
+export async function isAdminUser(email: string): Promise<boolean> {
+  return (await getUserRole(email)) === 'admin';
+}
+
+/**
+ * Lists the stored roles
+ */
+export async function listUserRoles(): Promise<IUserRole[]> {
+  await connectDB();
+  await seedAdminRoles();
+  return UserRoleModel.find().sort({ role: 1, email: 1 }).lean<IUserRole[]>();
+}
+
+/**
+ * Sets a user's role
+ * @returns false if the change would leave no admin
+ */
+export async function setUserRole(email: string, role: AppRole, grantedBy: string): Promise<boolean> {
+  await connectDB();
+  await seedAdminRoles();
+  const normalized = email.toLowerCase();
+
+  if (role !== 'admin' && !(await UserRoleModel.exists({ role: 'admin', email: { $ne: normalized } }))) {
+    return false;
+  }
+
+  await UserRoleModel.updateOne(
+    { email: normalized },
+    { $set: { role, grantedBy } },
+    { upsert: true }
+  );
+  return true;
+}
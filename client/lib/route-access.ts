@@ -0,0 +1,40 @@
+/**
+ * Access rules for routes, applied by `middleware.ts`.
+ *
+ * The middleware checks the session and the JWT role claim; API routes check roles again
+ * against the database (lib/roles.ts). Kept free of Node-only imports so the middleware
+ * can use it.
+ */
+
+/**
+ * - `public`: served without a session
+ * - `admin`: requires a session with the admin role
+ * - `session`: requires a session
+ * - `open`: no check in the middleware
+ */
+export type RouteAccess = 'public' | 'admin' | 'session' | 'open';
+
+// Logs and cross-user analytics are admin-only
+const ADMIN_API_PREFIXES = ['/api/logs', '/api/analytics', '/api/admin'];
+const ADMIN_PAGE_PREFIXES = ['/analytics', '/admin'];
+// Served without a session: anonymized aggregates, and the audit queue worker (the
+// route checks CRON_SECRET itself). Checked before the admin prefixes they fall under.
+const PUBLIC_API_PREFIXES = ['/api/analytics/public', '/api/audit/jobs/worker'];
+const SESSION_API_PREFIXES = ['/api/audit', '/api/projects', '/api/suppressions', '/api/teams', '/api/user'];
+
+/**
+ * Whether the path is one of the prefixes or below one of them
+ */
+function matchesPrefix(pathname: string, prefixes: string[]): boolean {
+  return prefixes.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
+
+/**
+ * Access rule of a path
+ */
+export function getRouteAccess(pathname: string): RouteAccess {
+  if (matchesPrefix(pathname, PUBLIC_API_PREFIXES)) return 'public';
+  if (matchesPrefix(pathname, ADMIN_API_PREFIXES) || matchesPrefix(pathname, ADMIN_PAGE_PREFIXES)) return 'admin';
+  if (matchesPrefix(pathname, SESSION_API_PREFIXES)) return 'session';
+  return 'open';
+}
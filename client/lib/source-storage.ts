@@ -0,0 +1,78 @@
+/**
+ * Storage of audited source code alongside audit reports.
+ *
+ * Sources are gzip-compressed before they are saved. Project audits store their files
+ * as a JSON object of path → content. The SHA-256 content hash is stored uncompressed
+ * and indexed, so identical resubmissions can be found without reading any source.
+ */
+import { createHash } from 'crypto';
+import { gzipSync, gunzipSync } from 'zlib';
+import type { SourceFileMap } from '@/functions/projectAudit';
+
+/**
+ * Source that was audited: a single contract, or the files of a project
+ */
+export interface AuditedSource {
+  contractCode?: string;
+  files?: SourceFileMap;
+}
+
+/**
+ * Source fields saved on an AuditReport
+ */
+export interface StoredSource {
+  sourceCode: Buffer; // gzip-compressed
+  sourceHash: string; // SHA-256, hex
+  sourceSize: number; // Uncompressed size in characters
+}
+
+/**
+ * Serializes a source for hashing and storage. Project files are sorted by path,
+ * so the same project always hashes the same.
+ */
+function serializeSource(source: AuditedSource): string {
+  if (!source.files) {
+    return source.contractCode || '';
+  }
+
+  const sorted = Object.keys(source.files)
+    .sort()
+    .reduce<SourceFileMap>((files, path) => {
+      files[path] = source.files![path];
+      return files;
+    }, {});
+  return JSON.stringify(sorted);
+}
+
+/**
+ * SHA-256 hash (hex) of a contract or project source
+ */
+export function hashSource(source: AuditedSource): string {
+  return createHash('sha256').update(serializeSource(source), 'utf8').digest('hex');
+}
+
+/**
+ * Compresses and hashes a source for saving with its report
+ */
+export function encodeSource(source: AuditedSource): StoredSource {
+  const serialized = serializeSource(source);
+  return {
+    sourceCode: gzipSync(Buffer.from(serialized, 'utf8')),
+    sourceHash: createHash('sha256').update(serialized, 'utf8').digest('hex'),
+    sourceSize: serialized.length,
+  };
+}
+
+/**
+ * Decompresses a stored source. Lean queries return BSON Binary values rather than
+ * Buffers, so anything exposing the underlying bytes is accepted.
+ * @param isProject - Whether the report is a project audit (has `files`)
+ */
+export function decodeSource(
+  sourceCode: Buffer | { buffer: ArrayBufferLike | Uint8Array },
+  isProject: boolean
+): AuditedSource {
+  const bytes = Buffer.isBuffer(sourceCode) ? sourceCode : Buffer.from(sourceCode.buffer as Uint8Array);
+  const serialized = gunzipSync(bytes).toString('utf8');
+  return isProject ? { files: JSON.parse(serialized) } : { contractCode: serialized };
+}
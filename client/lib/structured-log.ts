@@ -0,0 +1,292 @@
+/**
+ * Leveled, structured application logging.
+ *
+ * Each call produces one JSON record ({ timestamp, level, message, event, requestId, data })
+ * that is redacted and then written to every configured sink:
+ *
+ * - console: one JSON line per record (stderr for warn and error)
+ * - file: `logs/app-YYYY-MM-DD.jsonl`
+ * - mongodb: the `applogs` collection
+ * - http: POSTed as JSON to `LOG_HTTP_URL` (with `LOG_HTTP_TOKEN` as a bearer token, if set)
+ *
+ * `LOG_SINKS` lists the sinks (comma-separated, default: console) and `LOG_LEVEL` the
+ * minimum level (default: info in production, debug otherwise).
+ *
+ * Redaction masks email addresses, removes API keys, tokens and secrets, and replaces
+ * contract source, prompts and raw provider responses with their length. A failing sink
+ * is reported on the console and never fails the caller.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export interface LogRecord {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  event?: string;
+  requestId?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Fields passed with a log call; `event` and `requestId` are lifted onto the record
+ */
+export type LogFields = Record<string, unknown> & { event?: string; requestId?: string };
+
+export interface LogSink {
+  readonly name: string;
+  write(record: LogRecord): Promise<void>;
+}
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+
+/** Keys whose values are credentials */
+const SECRET_KEY_PATTERN = /api[-_]?key|authorization|cookie|password|secret/i;
+/**
+ * Keys naming a single token (`token`, `access_token`, `GITHUB_TOKEN`, `sessionToken`),
+ * but not counts such as `maxTokens` or `tokens`
+ */
+const TOKEN_KEY_PATTERN = /(^|[_-])token$/i;
+const CAMEL_TOKEN_KEY_PATTERN = /[a-z0-9]Token$/;
+/** Keys whose values are contract source or model input/output */
+const SOURCE_KEY_PATTERN = /^(contractCode|improvedContractCode|originalContractCode|sourceCode|source|files|prompt|rawResponse|responseText)$/;
+/** Credentials embedded in free text: provider API keys and bearer tokens */
+const SECRET_VALUE_PATTERN = /\b(sk-[A-Za-z0-9_-]{16,}|AIza[0-9A-Za-z_-]{30,}|Bearer\s+[A-Za-z0-9._~+/-]+=*)/g;
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+/** Free text that looks like contract source */
+const SOURCE_VALUE_PATTERN = /pragma\s+(solidity|vyper)|SPDX-License-Identifier|^#\s*@version/m;
+
+function isSecretKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key) || TOKEN_KEY_PATTERN.test(key) || CAMEL_TOKEN_KEY_PATTERN.test(key);
+}
+
+function describeSource(value: unknown): string {
+  const size = typeof value === 'string'
+    ? value.length
+    : JSON.stringify(value ?? null).length;
+  return `[REDACTED ${size} chars]`;
+}
+
+function redactString(value: string): string {
+  if (SOURCE_VALUE_PATTERN.test(value)) {
+    return describeSource(value);
+  }
+  return value
+    .replace(SECRET_VALUE_PATTERN, REDACTED)
+    .replace(EMAIL_PATTERN, '$1***@$2');
+}
+
+/**
+ * Returns a copy of a value with emails masked, credentials removed and contract source
+ * replaced by its length
+ */
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      stack: value.stack ? redactString(value.stack) : undefined,
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) continue;
+    if (isSecretKey(key)) {
+      result[key] = REDACTED;
+    } else if (SOURCE_KEY_PATTERN.test(key)) {
+      result[key] = describeSource(item);
+    } else {
+      result[key] = redact(item, depth + 1);
+    }
+  }
+  return result;
+}
+
+/**
+ * Writes records to the console as JSON lines
+ */
+export const consoleSink: LogSink = {
+  name: 'console',
+  async write(record) {
+    const line = JSON.stringify(record);
+    if (record.level === 'error' || record.level === 'warn') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  },
+};
+
+/**
+ * Appends records to `app-YYYY-MM-DD.jsonl` in a directory
+ */
+export function createFileSink(logsDir: string): LogSink {
+  return {
+    name: 'file',
+    async write(record) {
+      await fs.mkdir(logsDir, { recursive: true });
+      const date = record.timestamp.split('T')[0];
+      await fs.appendFile(path.join(logsDir, `app-${date}.jsonl`), JSON.stringify(record) + '\n', 'utf8');
+    },
+  };
+}
+
+/**
+ * Inserts records into the `AppLog` collection
+ */
+export function createMongoSink(): LogSink {
+  return {
+    name: 'mongodb',
+    async write(record) {
+      // Loaded on first use so the logger can be imported without a database
+      const [{ default: connectDB }, { default: AppLogModel }] = await Promise.all([
+        import('@/lib/mongodb'),
+        import('@/lib/models/AppLog'),
+      ]);
+      await connectDB();
+      await AppLogModel.create({ ...record, timestamp: new Date(record.timestamp) });
+    },
+  };
+}
+
+/**
+ * POSTs each record as JSON to a log collector
+ */
+export function createHttpSink(url: string, token?: string, timeoutMs: number = 5000): LogSink {
+  return {
+    name: 'http',
+    async write(record) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(record),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`Log collector responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Creates the sinks listed in `LOG_SINKS`; unknown or misconfigured sinks are skipped
+ */
+export function createSinksFromEnv(logsDir: string = path.join(process.cwd(), 'logs')): LogSink[] {
+  const names = (process.env.LOG_SINKS || 'console')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const sinks: LogSink[] = [];
+  for (const name of names) {
+    if (name === 'console') {
+      sinks.push(consoleSink);
+    } else if (name === 'file') {
+      sinks.push(createFileSink(logsDir));
+    } else if (name === 'mongodb') {
+      sinks.push(createMongoSink());
+    } else if (name === 'http' && process.env.LOG_HTTP_URL) {
+      sinks.push(createHttpSink(process.env.LOG_HTTP_URL, process.env.LOG_HTTP_TOKEN));
+    } else {
+      console.error(`Ignoring log sink "${name}"${name === 'http' ? ' (LOG_HTTP_URL is not set)' : ''}`);
+    }
+  }
+  return sinks;
+}
+
+function levelFromEnv(): LogLevel {
+  const configured = process.env.LOG_LEVEL?.toLowerCase() as LogLevel | undefined;
+  if (configured && LOG_LEVELS.includes(configured)) {
+    return configured;
+  }
+  return process.env.NODE_ENV === 'production' ? 'info' : 'debug';
+}
+
+export class StructuredLogger {
+  constructor(
+    private sinks: LogSink[],
+    private minLevel: LogLevel,
+    private bindings: LogFields = {}
+  ) {}
+
+  /**
+   * A logger that adds `bindings` (e.g., { requestId }) to every record
+   */
+  child(bindings: LogFields): StructuredLogger {
+    return new StructuredLogger(this.sinks, this.minLevel, { ...this.bindings, ...bindings });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.minLevel);
+  }
+
+  debug(message: string, fields?: LogFields): Promise<void> {
+    return this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): Promise<void> {
+    return this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): Promise<void> {
+    return this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): Promise<void> {
+    return this.log('error', message, fields);
+  }
+
+  /**
+   * Writes a record to every sink; resolves once all sinks have finished
+   */
+  async log(level: LogLevel, message: string, fields?: LogFields): Promise<void> {
+    if (!this.isLevelEnabled(level) || this.sinks.length === 0) return;
+
+    const { event, requestId, ...data } = { ...this.bindings, ...fields };
+    const redactedData = redact(data) as Record<string, unknown>;
+    const record: LogRecord = {
+      timestamp: new Date().toISOString(),
+      level,
+      message: redactString(message),
+      event,
+      requestId,
+      data: Object.keys(redactedData).length > 0 ? redactedData : undefined,
+    };
+
+    const results = await Promise.allSettled(this.sinks.map((sink) => sink.write(record)));
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        // Reported directly, so a broken sink cannot recurse into the logger
+        console.error(`Log sink "${this.sinks[index].name}" failed:`, result.reason);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const log = new StructuredLogger(createSinksFromEnv(), levelFromEnv());
@@ -0,0 +1,89 @@
+/**
+ * Suppression rules stored in MongoDB and applied to new audits.
+ *
+ * A rule belongs to one user and applies either to all of that user's audits
+ * (scope 'user') or to audits attached to one project (scope 'project'; see lib/projects.ts).
+ * Project rules created before projects existed have no projectId and still match
+ * audits by contract name.
+ * Findings are matched by fingerprint or by category and function; `audit-ignore`
+ * comments in the source are honoured as well (see functions/suppression.ts).
+ */
+import type { AuditReport, Vulnerability } from '@/functions/auditInit';
+import { applySuppressions, type SuppressionRuleMatch } from '@/functions/suppression';
+import type { AuditedSource } from '@/lib/source-storage';
+import connectDB from '@/lib/mongodb';
+import SuppressionRuleModel, { type ISuppressionRule, type SuppressionScope } from '@/lib/models/SuppressionRule';
+
+/**
+ * Query for the rules that apply to a user's audit in a project
+ */
+export function suppressionRuleFilter(userEmail: string, projectId?: string, contractName?: string): Record<string, unknown> {
+  return {
+    userEmail,
+    $or: [
+      { scope: 'user' },
+      ...(projectId ? [{ scope: 'project', projectId }] : []),
+      ...(contractName ? [{ scope: 'project', projectId: { $exists: false }, contractName }] : []),
+    ],
+  };
+}
+
+/**
+ * Loads the rules that apply to a user's audit in a project
+ */
+export async function getSuppressionRules(userEmail: string, projectId?: string, contractName?: string): Promise<SuppressionRuleMatch[]> {
+  await connectDB();
+  const rules = await SuppressionRuleModel.find(suppressionRuleFilter(userEmail, projectId, contractName))
+    .sort({ createdAt: 1 })
+    .lean<ISuppressionRule[]>();
+
+  return rules.map((rule) => ({
+    id: String(rule._id),
+    matchType: rule.matchType,
+    fingerprint: rule.fingerprint,
+    category: rule.category,
+    function: rule.function,
+    reason: rule.reason,
+  }));
+}
+
+/**
+ * Applies the user's rules and the source's audit-ignore comments to a finished audit.
+ * If the rules cannot be loaded, only the comments are applied.
+ * @param projectId - Project the report is attached to (project rules apply only there)
+ */
+export async function suppressFindings(
+  report: AuditReport,
+  userEmail: string,
+  source: AuditedSource,
+  projectId?: string
+): Promise<AuditReport> {
+  let rules: SuppressionRuleMatch[] = [];
+  try {
+    rules = await getSuppressionRules(userEmail, projectId, report.contractName);
+  } catch (error) {
+    console.error('Failed to load suppression rules:', error);
+  }
+  return applySuppressions(report, rules, source);
+}
+
+/**
+ * Builds a rule suppressing a finding in future audits: by fingerprint when the finding
+ * has one, otherwise by category and function
+ * @returns null if the finding has neither a fingerprint nor a category and function
+ */
+export function ruleForFinding(
+  vulnerability: Vulnerability,
+  scope: SuppressionScope,
+  projectId: string | undefined,
+  reason: string
+): Partial<ISuppressionRule> | null {
+  const base = { scope, projectId: scope === 'project' ? projectId : undefined, reason };
+  if (vulnerability.fingerprint) {
+    return { ...base, matchType: 'fingerprint', fingerprint: vulnerability.fingerprint };
+  }
+  if (vulnerability.category && vulnerability.function) {
+    return { ...base, matchType: 'category-function', category: vulnerability.category, function: vulnerability.function };
+  }
+  return null;
+}
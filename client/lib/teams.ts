@@ -0,0 +1,154 @@
+/**
+ * Teams and report sharing.
+ *
+ * Teams are groups of users with a role each (see lib/authorization.ts). Reports are
+ * shared with teams and with individual users; a share covers the whole audit family,
+ * i.e. the original audit and all of its re-audits.
+ */
+import { AuditError } from '@/functions/auditInit';
+import connectDB from '@/lib/mongodb';
+import AuditReportModel, { type IReportShare } from '@/lib/models/AuditReport';
+import type { TeamRole } from '@/lib/models/Team';
+import { TEAM_ROLES, reportAccessFilter, type AccessContext } from '@/lib/authorization';
+
+const MAX_TEAM_NAME_LENGTH = 100;
+const MAX_SHARES = 50;
+
+export interface TeamMemberInput {
+  email?: string;
+  role?: TeamRole;
+}
+
+export interface ShareInput {
+  teamIds: string[];
+  users: IReportShare[];
+}
+
+const isObjectId = (value: unknown) => typeof value === 'string' && /^[0-9a-fA-F]{24}$/.test(value);
+
+/**
+ * Normalizes an email address, which must belong to the allowed domain
+ * @throws {AuditError} INVALID_INPUT if the address is malformed or outside the domain
+ */
+function parseEmail(value: unknown): string {
+  const allowedDomain = process.env.ALLOWED_EMAIL_DOMAIN || '@energi.team';
+  const email = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+    throw new AuditError('A valid email address is required', 'INVALID_INPUT');
+  }
+  if (!email.endsWith(allowedDomain.toLowerCase())) {
+    throw new AuditError(`Only ${allowedDomain} addresses can be added`, 'INVALID_INPUT');
+  }
+  return email;
+}
+
+/**
+ * @throws {AuditError} INVALID_INPUT if the role is not viewer, auditor or admin
+ */
+function parseRole(value: unknown): TeamRole {
+  if (!TEAM_ROLES.includes(value as TeamRole)) {
+    throw new AuditError(`Role must be one of: ${TEAM_ROLES.join(', ')}`, 'INVALID_INPUT');
+  }
+  return value as TeamRole;
+}
+
+/**
+ * Validates a team name from a request body
+ * @throws {AuditError} INVALID_INPUT if the name is missing or too long
+ */
+export function parseTeamName(body: any): string {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    throw new AuditError('Team name is required', 'INVALID_INPUT');
+  }
+  if (name.length > MAX_TEAM_NAME_LENGTH) {
+    throw new AuditError(`Team name must be at most ${MAX_TEAM_NAME_LENGTH} characters`, 'INVALID_INPUT');
+  }
+  return name;
+}
+
+/**
+ * Validates a team member from a request body
+ * @param partial - Role updates, where only the role is read
+ * @throws {AuditError} INVALID_INPUT if the email or role is invalid
+ */
+export function parseTeamMemberInput(body: any, partial: boolean): TeamMemberInput {
+  return partial
+    ? { role: parseRole(body?.role) }
+    : { email: parseEmail(body?.email), role: parseRole(body?.role ?? 'viewer') };
+}
+
+/**
+ * Validates the teams and users a report is shared with
+ * @throws {AuditError} INVALID_INPUT on malformed ids, addresses or roles
+ */
+export function parseShareInput(body: any): ShareInput {
+  const teamIds = body?.teamIds ?? [];
+  const users = body?.users ?? [];
+  if (!Array.isArray(teamIds) || !Array.isArray(users)) {
+    throw new AuditError('teamIds and users must be arrays', 'INVALID_INPUT');
+  }
+  if (teamIds.length + users.length > MAX_SHARES) {
+    throw new AuditError(`A report can be shared at most ${MAX_SHARES} times`, 'INVALID_INPUT');
+  }
+  if (!teamIds.every(isObjectId)) {
+    throw new AuditError('Invalid team ID format', 'INVALID_INPUT');
+  }
+
+  const shares = new Map<string, IReportShare>();
+  users.forEach((user: any) => {
+    const email = parseEmail(user?.email);
+    shares.set(email, { email, role: parseRole(user?.role ?? 'viewer') });
+  });
+
+  return { teamIds: Array.from(new Set<string>(teamIds)), users: Array.from(shares.values()) };
+}
+
+/**
+ * Replaces the sharing of every report in an audit family the user may share
+ * @param report - The report being shared; its family is the original audit and its re-audits
+ * @throws {AuditError} INVALID_INPUT if a new team is not one of the user's teams
+ * @returns Number of reports updated
+ */
+export async function shareAuditFamily(
+  access: AccessContext,
+  report: { _id: unknown; isReAudit?: boolean; originalAuditId?: unknown; sharedWithTeams?: unknown[] },
+  input: ShareInput
+): Promise<number> {
+  // Teams already shared with can be kept even if the user is not a member
+  const currentTeamIds = (report.sharedWithTeams || []).map(String);
+  const unknownTeam = input.teamIds.find(
+    (teamId) => !access.teamRoles.has(teamId) && !currentTeamIds.includes(teamId)
+  );
+  if (unknownTeam) {
+    throw new AuditError('Reports can only be shared with your own teams', 'INVALID_INPUT');
+  }
+
+  const familyId = String(report.isReAudit && report.originalAuditId ? report.originalAuditId : report._id);
+  await connectDB();
+  const original = await AuditReportModel.findById(familyId).select('userEmail').lean<{ userEmail: string }>();
+  const familyOwner = original?.userEmail;
+  const ownerEmail = familyOwner?.toLowerCase(); // Shares are lowercased; the owner keeps their session address
+  const family = { $or: [{ _id: familyId }, { originalAuditId: familyId }] };
+
+  // Teammates' re-audits stay shared with the owner of the original audit
+  const [ownerReports, otherReports] = await Promise.all([
+    AuditReportModel.updateMany(
+      { $and: [family, { userEmail: familyOwner }, reportAccessFilter(access, 'share')] },
+      { $set: { sharedWithTeams: input.teamIds, sharedWithUsers: input.users } }
+    ),
+    AuditReportModel.updateMany(
+      { $and: [family, { userEmail: { $ne: familyOwner } }, reportAccessFilter(access, 'share')] },
+      {
+        $set: {
+          sharedWithTeams: input.teamIds,
+          sharedWithUsers: [
+            ...input.users.filter((share) => share.email.toLowerCase() !== ownerEmail),
+            ...(familyOwner ? [{ email: familyOwner, role: 'admin' }] : []),
+          ],
+        },
+      }
+    ),
+  ]);
+  return ownerReports.modifiedCount + otherReports.modifiedCount;
+}
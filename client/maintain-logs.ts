@@ -0,0 +1,52 @@
+// Log maintenance script: rolls up, archives and purges logs past their retention
+// Run with: npx tsx maintain-logs.ts [--audit-days=90] [--error-days=30] [--app-days=14] [--archive-days=365]
+// Schedule it (e.g., daily from cron) on hosts with a persistent logs/ directory or database access
+
+import dotenv from 'dotenv';
+import type { RetentionPolicy } from './lib/log-maintenance';
+
+// Load environment variables from .env.local and .env files
+dotenv.config({ path: '.env.local' });
+dotenv.config({ path: '.env' });
+
+/**
+ * Parses --<kind>-days=N arguments into retention overrides
+ */
+function parseArgs(args: string[]): Partial<RetentionPolicy> {
+  const overrides: Partial<RetentionPolicy> = {};
+  for (const arg of args) {
+    const match = arg.match(/^--(audit|error|app|archive)-days=(\d+)$/);
+    if (!match || parseInt(match[2], 10) <= 0) {
+      throw new Error(`Invalid argument "${arg}"; expected --<audit|error|app|archive>-days=<positive number>`);
+    }
+    overrides[match[1] as keyof RetentionPolicy] = parseInt(match[2], 10);
+  }
+  return overrides;
+}
+
+async function maintainLogs() {
+  // Imported after the environment is loaded (lib/mongodb reads MONGODB_URI on import)
+  const { logger } = await import('./lib/logging');
+  const { default: mongoose } = await import('mongoose');
+
+  try {
+    const overrides = parseArgs(process.argv.slice(2));
+    console.log(`Running log maintenance (${logger.storeType} store)...`);
+
+    const result = await logger.runMaintenance(overrides);
+
+    console.log('Retention (days):', result.policy);
+    for (const [kind, archived] of Object.entries(result.archived)) {
+      console.log(`${kind}: archived ${archived.entries} entries from ${archived.days.length} day(s)`);
+    }
+    console.log(`Rolled up ${result.rolledUpDays} day(s), purged ${result.purgedArchives} archive(s)`);
+  } catch (error) {
+    console.error('Log maintenance failed:', error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+// Run maintenance
+maintainLogs();
@@ -1,32 +1,65 @@
 import { withAuth } from "next-auth/middleware"
 import { NextResponse } from "next/server"
+import { assignRequestIds, CLIENT_REQUEST_ID_HEADER, REQUEST_ID_HEADER } from "@/lib/request-id"
+import { getRouteAccess } from "@/lib/route-access"
+
+type RequestIds = ReturnType<typeof assignRequestIds>
+
+/**
+ * Continues to the route with the request ids in the request and response headers.
+ * A client-sent X-Client-Request-Id is dropped, so routes only see the vetted one.
+ */
+const nextWithRequestId = (req: Request, { requestId, clientRequestId }: RequestIds) => {
+  const headers = new Headers(req.headers)
+  headers.set(REQUEST_ID_HEADER, requestId)
+  headers.delete(CLIENT_REQUEST_ID_HEADER)
+  if (clientRequestId) headers.set(CLIENT_REQUEST_ID_HEADER, clientRequestId)
+  const response = NextResponse.next({ request: { headers } })
+  response.headers.set(REQUEST_ID_HEADER, requestId)
+  if (clientRequestId) response.headers.set(CLIENT_REQUEST_ID_HEADER, clientRequestId)
+  return response
+}
 
 export default withAuth(
   function middleware(req) {
-    // Middleware for API routes - require authentication
-    return NextResponse.next()
+    const { pathname } = req.nextUrl
+    const ids = assignRequestIds(req.headers)
+    const access = getRouteAccess(pathname)
+    if (access === "public") {
+      return nextWithRequestId(req, ids)
+    }
+
+    // Roles come from the JWT role claim
+    const isAdmin = req.nextauth.token?.role === "admin"
+
+    if (!isAdmin && access === "admin") {
+      if (!pathname.startsWith("/api/")) {
+        return NextResponse.redirect(new URL("/", req.url))
+      }
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403, headers: { [REQUEST_ID_HEADER]: ids.requestId } }
+      )
+    }
+
+    return pathname.startsWith("/api/") ? nextWithRequestId(req, ids) : NextResponse.next()
   },
   {
     callbacks: {
+      // Admin and session routes require a token; the role is checked above
       authorized: ({ token, req }) => {
-        // For API routes that need auth, require token
-        if (req.nextUrl.pathname.startsWith("/api/audit") ||
-            req.nextUrl.pathname.startsWith("/api/logs") ||
-            req.nextUrl.pathname.startsWith("/api/user")) {
-          return !!token
-        }
-        
-        // For other routes, allow access
-        return true
+        const access = getRouteAccess(req.nextUrl.pathname)
+        return access === "admin" || access === "session" ? !!token : true
       },
     },
   }
 )
 
+// Every API route runs through the middleware so its responses carry X-Request-Id
 export const config = {
   matcher: [
-    "/api/audit/:path*",
-    "/api/logs/:path*",
-    "/api/user/:path*"
+    "/api/:path*",
+    "/analytics/:path*",
+    "/admin/:path*"
   ]
 }
@@ -0,0 +1,17 @@
+import type { DefaultSession } from "next-auth"
+import type { AppRole } from "@/lib/models/UserRole"
+
+declare module "next-auth" {
+  interface Session {
+    user?: DefaultSession["user"] & {
+      role?: AppRole // Role claim from the JWT (see lib/roles.ts)
+    }
+  }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    role?: AppRole
+    roleCheckedAt?: number // When the role was last read from MongoDB (ms since epoch)
+  }
+}
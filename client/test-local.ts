@@ -2,6 +2,30 @@
 // Tests the validation and utility functions
 
 import * as auditInit from './functions/auditInit.js';
+import { compareAudits } from './functions/auditComparison.js';
+import { addFingerprints, uniqueFindingIds } from './functions/fingerprint.js';
+import { applySuppressions } from './functions/suppression.js';
+import { extractProjectZip, parseRemappings, resolveImport } from './functions/projectAudit.js';
+import { mkdtempSync, readFileSync, existsSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import { zipSync, strToU8 } from 'fflate';
+import type { AuditLogEntry, AuditStatistics, ErrorLogEntry } from './lib/logging';
+import type { LogStore } from './lib/log-store';
+import type { AuditRequest } from './lib/audit-runner';
+import type { AccessContext } from './lib/authorization';
+import type { TeamRole } from './lib/models/Team';
+
+let failures = 0;
+
+/**
+ * Prints a check result; failed checks make the script exit with an error
+ */
+function check(passed: boolean, message: string, ...details: unknown[]) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${message}`, ...details);
+}
 
 function testValidation() {
   console.log('Testing validation functions...\n');
@@ -22,9 +46,9 @@ function testValidation() {
     console.log('✅ Empty contract code properly rejected:', error instanceof Error ? error.message : String(error));
   }
 
-  // Test oversized contract code
+  // Test oversized contract code (sources over 100KB are chunked; 2MB is the hard limit)
   try {
-    const largeCode = 'contract Test {}'.repeat(10000); // Create large code
+    const largeCode = 'contract Test {}'.repeat(200000); // Create large code
     auditInit.validateContractCode(largeCode);
     console.log('❌ Oversized contract code should have failed');
   } catch (error) {
@@ -74,6 +98,16 @@ function testUtilityFunctions() {
   const riskScore = auditInit.calculateRiskScore(mockReport);
   console.log('Risk Score:', riskScore);
 
+  // Test scoring without dismissed findings
+  const triagedReport = {
+    ...mockReport,
+    vulnerabilities: mockReport.vulnerabilities.map((vuln) => vuln.severity === 'CRITICAL'
+      ? { ...vuln, triage: { status: 'false-positive' as const, justification: 'Guarded by caller', reviewedBy: 'reviewer@energi.team', reviewedAt: new Date() } }
+      : vuln),
+  };
+  const activeRiskScore = auditInit.calculateRiskScore(triagedReport, { excludeDismissed: true });
+  console.log(`${activeRiskScore === riskScore - 25 ? '✅' : '❌'} Risk score without dismissed findings: ${activeRiskScore}`);
+
   // Test format function
   const formatted = auditInit.formatAuditReport(mockReport);
   console.log('\nFormatted Report Preview:');
@@ -81,7 +115,1122 @@ function testUtilityFunctions() {
   console.log(formatted.substring(0, 300) + '...');
 }
 
+function testAuditComparison() {
+  console.log('\nTesting audit comparison...\n');
+
+  const finding = (id: string, title: string, severity: auditInit.VulnerabilitySeverity, fn: string, lines: number[], category: string) =>
+    ({ id, title, description: title, severity, recommendation: 'Fix it', function: fn, lines, category });
+
+  const originalCode = ['pragma solidity ^0.8.0;', 'contract Vault {', '  function withdraw() external {', '    call();', '    update();', '  }', '  function setOwner() external {}', '}'].join('\n');
+  const improvedCode = ['pragma solidity 0.8.20;', 'contract Vault {', '  function withdraw() external nonReentrant {', '    update();', '    call();', '  }', '  function setOwner() external onlyOwner {}', '  function sweep() external {}', '}'].join('\n');
+
+  const comparison = compareAudits(
+    {
+      contractCode: originalCode,
+      vulnerabilities: [
+        finding('vuln-1', 'Reentrancy in withdraw', 'HIGH', 'withdraw', [4], 'Reentrancy'),
+        finding('vuln-2', 'Missing access control', 'CRITICAL', 'setOwner', [7], 'Access Control'),
+        finding('vuln-3', 'Floating pragma', 'LOW', '', [1], 'Best Practices'),
+      ],
+    },
+    {
+      contractCode: improvedCode,
+      vulnerabilities: [
+        finding('vuln-1', 'Missing access control', 'LOW', 'setOwner', [7], 'Access Control'),
+        finding('vuln-2', 'Unprotected sweep', 'HIGH', 'sweep', [8], 'Access Control'),
+        finding('vuln-3', 'Floating pragma', 'LOW', '', [1], 'Best Practices'),
+      ],
+    }
+  );
+
+  const expected = { 'resolved': 1, 'still-present': 1, 'introduced': 1, 'severity-changed': 1 };
+  const matches = Object.entries(expected).every(([status, count]) => comparison.summary[status as keyof typeof expected] === count);
+  console.log(`${matches ? '✅' : '❌'} Findings paired:`, comparison.summary);
+  console.log(`${comparison.diff && comparison.diff.length > 0 ? '✅' : '❌'} Source diff has ${comparison.diff?.length || 0} hunk(s)`);
+}
+
+function testFingerprints() {
+  console.log('\nTesting vulnerability fingerprints...\n');
+
+  const finding = (lines: number[], title = 'Reentrancy in withdraw') =>
+    ({ id: 'vuln-1', title, description: title, severity: 'HIGH' as const, recommendation: 'Fix it', function: 'withdraw', lines, category: 'Reentrancy' });
+
+  const code = ['contract Vault {', '  function withdraw() external {', '    msg.sender.call{value: 1}("");', '  }', '}'].join('\n');
+  const shifted = ['// SPDX-License-Identifier: MIT', 'contract Vault {', '  function withdraw() external {', '      msg.sender.call{value: 1}( "" );', '  }', '}'].join('\n');
+
+  const [original] = addFingerprints([finding([3])], code);
+  const [moved] = addFingerprints([finding([4])], shifted);
+  const [other] = addFingerprints([finding([3], 'Unchecked call return value')], code);
+  console.log(`${original.fingerprint && original.fingerprint === moved.fingerprint ? '✅' : '❌'} Fingerprint stable across shifted lines: ${original.fingerprint}`);
+  console.log(`${original.fingerprint !== other.fingerprint ? '✅' : '❌'} Different issue gets a different fingerprint`);
+
+  const ids = uniqueFindingIds([
+    finding([3]),
+    { ...finding([4]), id: 'vuln-1-2' },
+    finding([5]),
+    finding([6]),
+  ]).map(vulnerability => vulnerability.id);
+  check(
+    ids.join(',') === 'vuln-1,vuln-1-2,vuln-1-3,vuln-1-4',
+    'Repeated finding ids get a suffix not used by another finding:', ids.join(', ')
+  );
+}
+
+function testSuppressions() {
+  console.log('\nTesting suppression rules...\n');
+
+  const finding = (id: string, fn: string, lines: number[], category: string) =>
+    ({ id, title: `${category} in ${fn}`, description: category, severity: 'MEDIUM' as const, recommendation: 'Fix it', function: fn, lines, category });
+
+  const code = [
+    'contract Vault {',
+    '  function withdraw() external {',
+    '    // audit-ignore: only callable by the keeper',
+    '    msg.sender.call{value: 1}("");',
+    '  }',
+    '  function sweep() external {}',
+    '  function setOwner() external {}',
+    '}',
+  ].join('\n');
+  const vulnerabilities = addFingerprints([
+    finding('vuln-1', 'withdraw', [4], 'Unchecked External Call'),
+    finding('vuln-2', 'sweep', [6], 'Access Control'),
+    finding('vuln-3', 'setOwner', [7], 'Access Control'),
+  ], code);
+
+  const report = applySuppressions(
+    { contractName: 'Vault', language: 'Solidity', summary: '', vulnerabilities, auditedAt: new Date(), rawResponse: null },
+    [
+      { id: 'rule-1', matchType: 'fingerprint', fingerprint: vulnerabilities[1].fingerprint, reason: 'Sweep is intentional' },
+      { id: 'rule-2', matchType: 'category-function', category: 'Reentrancy', function: 'setOwner', reason: 'Does not match' },
+    ],
+    { contractCode: code }
+  );
+
+  const matchedBy = (report.suppressedVulnerabilities || []).map((vuln) => `${vuln.id}:${vuln.suppression?.matchedBy}`).sort();
+  const expected = ['vuln-1:source-comment', 'vuln-2:fingerprint'];
+  console.log(`${JSON.stringify(matchedBy) === JSON.stringify(expected) ? '✅' : '❌'} Suppressed findings:`, matchedBy);
+  console.log(`${report.vulnerabilities.length === 1 && report.vulnerabilities[0].id === 'vuln-3' ? '✅' : '❌'} Remaining findings: ${report.vulnerabilities.length}`);
+}
+
+/**
+ * Error code thrown by a function, or null if it returned
+ */
+function errorCode(run: () => unknown): string | null {
+  try {
+    run();
+    return null;
+  } catch (error) {
+    return error instanceof auditInit.AuditError ? error.code || 'AuditError' : String(error);
+  }
+}
+
+function testProjectArchives() {
+  console.log('\nTesting project archives...\n');
+
+  const files = extractProjectZip(zipSync({
+    'vault-main/src/Vault.sol': strToU8('contract Vault {}'),
+    'vault-main/remappings.txt': strToU8('@openzeppelin/=lib/openzeppelin-contracts/'),
+    'vault-main/README.md': strToU8('# Vault'),
+  }));
+  check(
+    Object.keys(files).sort().join(',') === 'remappings.txt,src/Vault.sol' && files['src/Vault.sol'] === 'contract Vault {}',
+    'Sources and remappings.txt are extracted, with the top-level folder stripped:', Object.keys(files)
+  );
+
+  // 8 MB of zeros compresses to a few KB
+  const bomb = zipSync({ 'src/Bomb.sol': new Uint8Array(8_000_000) }, { level: 9 });
+  check(errorCode(() => extractProjectZip(bomb)) === 'PROJECT_TOO_LARGE', 'A zip bomb is rejected while inflating');
+  const understated = bomb.slice();
+  new DataView(understated.buffer).setUint32(22, 100, true); // Uncompressed size in the local file header
+  check(
+    errorCode(() => extractProjectZip(understated)) === 'PROJECT_TOO_LARGE',
+    'A zip bomb declaring a small size is rejected by its actual output'
+  );
+
+  check(
+    errorCode(() => extractProjectZip(zipSync({ '../Evil.sol': strToU8('contract Evil {}') }))) === 'INVALID_ARCHIVE' &&
+      errorCode(() => extractProjectZip(zipSync({ 'src/../../Evil.sol': strToU8('contract Evil {}') }))) === 'INVALID_ARCHIVE',
+    'Entries with ../ paths leading outside the project are rejected'
+  );
+  check(
+    errorCode(() => extractProjectZip(strToU8('not a zip archive'))) === 'INVALID_ARCHIVE' &&
+      errorCode(() => extractProjectZip(zipSync({ 'src/Vault.sol': strToU8('contract Vault {}') }).slice(0, 40))) === 'INVALID_ARCHIVE',
+    'Non-zip and truncated uploads are invalid archives'
+  );
+  check(
+    errorCode(() => extractProjectZip(zipSync({ 'README.md': strToU8('# Vault') }))) === 'EMPTY_PROJECT',
+    'An archive without Solidity files is an empty project'
+  );
+
+  const project = {
+    'src/Vault.sol': '',
+    'src/interfaces/IVault.sol': '',
+    'lib/openzeppelin-contracts/contracts/token/ERC20/ERC20.sol': '',
+    'node_modules/@uniswap/v3-core/contracts/UniswapV3Pool.sol': '',
+  };
+  const remappings = parseRemappings(['@openzeppelin/=lib/openzeppelin-contracts/', '# comment', 'src:@oz/=lib/openzeppelin-contracts/']);
+  const resolve = (importPath: string) => resolveImport(importPath, 'src/Vault.sol', project, remappings);
+  check(
+    resolve('@openzeppelin/contracts/token/ERC20/ERC20.sol') === 'lib/openzeppelin-contracts/contracts/token/ERC20/ERC20.sol' &&
+      resolve('@oz/contracts/token/ERC20/ERC20.sol') === 'lib/openzeppelin-contracts/contracts/token/ERC20/ERC20.sol',
+    'Remapped imports resolve to project files, including context-scoped remappings'
+  );
+  check(
+    resolve('./interfaces/IVault.sol') === 'src/interfaces/IVault.sol' &&
+      resolve('@uniswap/v3-core/contracts/UniswapV3Pool.sol') === 'node_modules/@uniswap/v3-core/contracts/UniswapV3Pool.sol',
+    'Relative and node_modules imports resolve'
+  );
+  check(
+    resolve('@openzeppelin/contracts/access/Ownable.sol') === undefined && resolve('../Missing.sol') === undefined,
+    'Imports missing from the project stay unresolved'
+  );
+}
+
+async function testProviderRegistry() {
+  console.log('\nTesting the provider registry...\n');
+
+  const { DEFAULT_PROVIDER, formatEngineVersion, getAuditProvider, listAuditProviders, registerAuditProvider } =
+    await import('./functions/providers');
+
+  check(
+    listAuditProviders().includes('chaingpt') && listAuditProviders().includes('mock'),
+    'ChainGPT and the mock provider are registered outside production:', listAuditProviders()
+  );
+  check(getAuditProvider('mock').name === 'mock' && getAuditProvider('Mock').name === 'mock', 'Providers are looked up by name, ignoring case');
+
+  const savedDefault = process.env.AUDIT_PROVIDER;
+  try {
+    delete process.env.AUDIT_PROVIDER;
+    check(getAuditProvider().name === DEFAULT_PROVIDER, `Without a name or AUDIT_PROVIDER, ${DEFAULT_PROVIDER} is used`);
+    process.env.AUDIT_PROVIDER = 'mock';
+    check(
+      getAuditProvider().name === 'mock' && getAuditProvider('chaingpt').name === 'chaingpt',
+      'AUDIT_PROVIDER sets the default; a requested provider overrides it'
+    );
+    process.env.AUDIT_PROVIDER = 'no-such-provider';
+    check(errorCode(() => getAuditProvider()) === 'UNKNOWN_PROVIDER', 'An unknown AUDIT_PROVIDER is rejected');
+  } finally {
+    if (savedDefault === undefined) delete process.env.AUDIT_PROVIDER;
+    else process.env.AUDIT_PROVIDER = savedDefault;
+  }
+
+  let unknownMessage = '';
+  try {
+    getAuditProvider('no-such-provider');
+  } catch (error) {
+    unknownMessage = error instanceof Error ? error.message : '';
+  }
+  check(
+    errorCode(() => getAuditProvider('no-such-provider')) === 'UNKNOWN_PROVIDER' && unknownMessage.includes('chaingpt'),
+    'Unknown providers are rejected with UNKNOWN_PROVIDER, listing the available ones:', unknownMessage
+  );
+  try {
+    await auditInit.auditSmartContract('pragma solidity ^0.8.0;\ncontract Vault {}', 'Vault', { provider: 'no-such-provider' });
+    check(false, 'Audits with an unknown provider are rejected');
+  } catch (error) {
+    check(error instanceof auditInit.AuditError && error.code === 'UNKNOWN_PROVIDER', 'Audits with an unknown provider are rejected');
+  }
+
+  const custom = {
+    name: 'Registry-Test',
+    version: '2.0.0',
+    resolveModel: (model?: string) => model || 'default-model',
+    audit: async () => ({ responseText: '{}', model: 'default-model' }),
+  };
+  registerAuditProvider(custom);
+  check(
+    getAuditProvider('registry-test') === custom && formatEngineVersion(custom, 'default-model') === 'Registry-Test:default-model@2.0.0',
+    'Registered providers are found by their lowercased name and versioned in reports'
+  );
+}
+
+async function testAuditCacheKey() {
+  console.log('\nTesting audit cache keys...\n');
+
+  const { getAuditCacheKey } = await import('./lib/audit-cache');
+  const source = 'pragma solidity ^0.8.0;\ncontract Vault {\n    uint256 public total;\n}';
+  const key = (body: Partial<AuditRequest>) =>
+    getAuditCacheKey({ contractCode: source, contractName: 'Vault', provider: 'mock', ...body });
+
+  check(
+    key({ contractCode: source.replace(/\n/g, '\r\n') }) === key({}) &&
+      key({ contractCode: source.replace(/;$/gm, ';   \t') }) === key({}) &&
+      key({ contractCode: `${source}\n\n\n` }) === key({}),
+    'Line endings, trailing whitespace and trailing blank lines share a cache key'
+  );
+  check(
+    key({ contractCode: source.replace('    uint256', '\tuint256') }) !== key({}) &&
+      key({ contractCode: `\n${source}` }) !== key({}) &&
+      key({ contractCode: source.replace('total', 'totals') }) !== key({}),
+    'Indentation, leading lines and code changes get a new cache key'
+  );
+  check(
+    key({ contractName: 'Other' }) !== key({}) && key({ provider: 'chaingpt' }) !== key({}) &&
+      key({ provider: 'MOCK' }) === key({}),
+    'Contract name and provider are part of the key; provider names ignore case'
+  );
+
+  const files = { 'src/Vault.sol': source, 'src/Token.sol': 'contract Token {}' };
+  const projectKey = (projectFiles: Record<string, string>, remappings?: string[]) =>
+    key({ contractCode: '', files: projectFiles, remappings });
+  check(
+    projectKey({ 'src/Token.sol': 'contract Token {}  \r\n', 'src/Vault.sol': source }) === projectKey(files) &&
+      projectKey(files, ['@oz/=lib/oz/']) !== projectKey(files),
+    'Project files are normalized and keyed regardless of order; remappings are part of the key'
+  );
+}
+
+async function testContractTimeline() {
+  console.log('\nTesting contract timelines...\n');
+
+  const { buildContractTimeline } = await import('./lib/projects');
+  const report = (id: string, auditedAt: string, sourceHash: string | undefined, findings: number, isReAudit = false) => ({
+    _id: id,
+    auditedAt: new Date(auditedAt),
+    sourceHash,
+    riskScore: findings * 15,
+    vulnerabilities: Array.from({ length: findings }, () => ({})),
+    isReAudit,
+  });
+  const timeline = buildContractTimeline([
+    report('r4', '2026-01-04T00:00:00.000Z', 'hash-b', 1, true),
+    report('r1', '2026-01-01T00:00:00.000Z', 'hash-a', 3),
+    report('r3', '2026-01-03T00:00:00.000Z', 'hash-b', 2),
+    report('r2', '2026-01-02T00:00:00.000Z', 'hash-a', 3),
+    report('r5', '2026-01-05T00:00:00.000Z', undefined, 0),
+    report('r6', '2026-01-06T00:00:00.000Z', undefined, 0),
+  ]);
+
+  check(timeline.map((entry) => entry.reportId).join(',') === 'r1,r2,r3,r4,r5,r6', 'Audits are ordered oldest first');
+  check(
+    timeline.map((entry) => entry.version).join(',') === '1,1,2,2,3,4',
+    'Versions increase when the source changes, and for every audit without a source hash:',
+    timeline.map((entry) => entry.version)
+  );
+  check(
+    timeline[3].isReAudit && !timeline[0].isReAudit && timeline[0].vulnerabilitiesFound === 3 && timeline[0].riskScore === 45 &&
+      timeline[4].vulnerabilitiesFound === 0,
+    'Entries carry re-audit flags, finding counts and risk scores'
+  );
+  check(buildContractTimeline([]).length === 0, 'A contract without audits has an empty timeline');
+}
+
+async function testAuditDateQuery() {
+  console.log('\nTesting statistics date ranges...\n');
+
+  const { auditDateQuery } = await import('./lib/audit-statistics');
+  const range = auditDateQuery('2026-01-01', '2026-01-31');
+  check(
+    range.auditedAt.$gte.getTime() === new Date('2026-01-01').getTime() &&
+      range.auditedAt.$lte.getDate() === 31 && range.auditedAt.$lte.getHours() === 23,
+    'Date ranges start at the start date and include the whole end date'
+  );
+  check(
+    Object.keys(auditDateQuery()).length === 0 && auditDateQuery(null, '2026-01-31').auditedAt.$gte === undefined,
+    'Missing bounds are left open'
+  );
+  check(
+    ['not-a-date', '2026-13-01', '2026-1-1', '2026-01-01T00:00:00Z'].every(
+      (date) => errorCode(() => auditDateQuery(date)) === 'INVALID_INPUT' && errorCode(() => auditDateQuery(null, date)) === 'INVALID_INPUT'
+    ),
+    'Malformed dates are rejected with INVALID_INPUT'
+  );
+}
+
+async function testStatisticsAnonymization() {
+  console.log('\nTesting statistics anonymization...\n');
+
+  const { anonymizeStatistics, hashUserEmail } = await import('./lib/audit-statistics');
+  const stats: AuditStatistics = {
+    totalAudits: 3,
+    totalCreditsConsumed: 4,
+    totalUsers: 2,
+    averagePreAuditScore: 40,
+    averagePostAuditScore: 15,
+    averageAuditDuration: 30000,
+    vulnerabilityStats: { totalVulnerabilities: 5, severityBreakdown: { critical: 1, high: 2, medium: 1, low: 1 } },
+    userStats: [
+      { email: 'Alice@energi.team', auditCount: 2, creditsConsumed: 3, lastAudit: '2026-01-02T00:00:00.000Z' },
+      { email: 'bob@energi.team', auditCount: 1, creditsConsumed: 1, lastAudit: '2026-01-01T00:00:00.000Z' },
+    ],
+    dailyStats: [{ date: '2026-01-01', auditCount: 3, creditsConsumed: 4 }],
+  };
+
+  const saved = { salt: process.env.ANALYTICS_HASH_SALT, secret: process.env.NEXTAUTH_SECRET };
+  try {
+    process.env.ANALYTICS_HASH_SALT = 'salt-one';
+    const aliceId = hashUserEmail('alice@energi.team');
+    check(/^user-[0-9a-f]{10}$/.test(aliceId), 'User ids are short salted hashes:', aliceId);
+    check(hashUserEmail('ALICE@energi.team') === aliceId, 'User ids ignore email case');
+    check(hashUserEmail('bob@energi.team') !== aliceId, 'Different users get different ids');
+
+    const anonymized = anonymizeStatistics(stats);
+    check(
+      !JSON.stringify(anonymized).includes('@') &&
+        anonymized.userStats.map((user) => user.userId).join() === `${aliceId},${hashUserEmail('bob@energi.team')}` &&
+        anonymized.userStats[0].auditCount === 2 && anonymized.userStats[0].creditsConsumed === 3 &&
+        anonymized.totalCreditsConsumed === 4 && anonymized.dailyStats.length === 1,
+      'Anonymized statistics keep the aggregates and replace emails with user ids'
+    );
+
+    process.env.ANALYTICS_HASH_SALT = 'salt-two';
+    check(hashUserEmail('alice@energi.team') !== aliceId, 'Changing the salt changes every user id');
+
+    delete process.env.ANALYTICS_HASH_SALT;
+    process.env.NEXTAUTH_SECRET = 'nextauth-secret';
+    check(/^user-[0-9a-f]{10}$/.test(hashUserEmail('alice@energi.team')), 'NEXTAUTH_SECRET is the fallback salt');
+
+    delete process.env.NEXTAUTH_SECRET;
+    check(
+      errorCode(() => hashUserEmail('alice@energi.team')) !== null && anonymizeStatistics(stats).userStats.length === 0,
+      'Without a salt, user ids are refused and per-user statistics are left out'
+    );
+  } finally {
+    if (saved.salt === undefined) delete process.env.ANALYTICS_HASH_SALT;
+    else process.env.ANALYTICS_HASH_SALT = saved.salt;
+    if (saved.secret === undefined) delete process.env.NEXTAUTH_SECRET;
+    else process.env.NEXTAUTH_SECRET = saved.secret;
+  }
+}
+
+async function testRedaction() {
+  console.log('\nTesting structured log redaction...\n');
+
+  const { redact } = await import('./lib/structured-log');
+  const redacted = redact({
+    userEmail: 'alice@energi.team',
+    apiKey: 'abc',
+    access_token: 'abc',
+    sessionToken: 'abc',
+    GITHUB_TOKEN: 'abc',
+    headers: { Authorization: 'Bearer abc.def' },
+    maxTokens: 4096,
+    usage: { tokens: 1200, promptTokens: 800 },
+    providerTiming: { requests: 2, durationMs: 1500 },
+    message: 'Request failed with key sk-abcdefghijklmnopqrstuvwxyz for bob@energi.team',
+    contractCode: 'contract A {}',
+    note: '// SPDX-License-Identifier: MIT\npragma solidity ^0.8.0;',
+  }) as Record<string, any>;
+
+  check(redacted.userEmail === 'a***@energi.team', 'Emails are masked:', redacted.userEmail);
+  check(
+    ['apiKey', 'access_token', 'sessionToken', 'GITHUB_TOKEN'].every((key) => redacted[key] === '[REDACTED]') &&
+      redacted.headers.Authorization === '[REDACTED]',
+    'Credential fields are removed'
+  );
+  check(
+    redacted.maxTokens === 4096 && redacted.usage.tokens === 1200 && redacted.usage.promptTokens === 800 &&
+      redacted.providerTiming.requests === 2,
+    'Token counts and provider timing are kept'
+  );
+  check(
+    !redacted.message.includes('sk-abc') && redacted.message.includes('b***@energi.team'),
+    'Secrets and emails in free text are redacted:', redacted.message
+  );
+  check(
+    redacted.contractCode === '[REDACTED 13 chars]' && /^\[REDACTED \d+ chars\]$/.test(redacted.note),
+    'Contract source is replaced by its length'
+  );
+}
+
+/**
+ * Runs `test` against a file log store in a temporary directory
+ */
+async function withFileLogStore(test: (store: LogStore, logsDir: string) => Promise<void>) {
+  const { createLogStore } = await import('./lib/log-store');
+  const logsDir = mkdtempSync(path.join(os.tmpdir(), 'audit-logs-'));
+  try {
+    await test(createLogStore(logsDir), logsDir);
+  } finally {
+    rmSync(logsDir, { recursive: true, force: true });
+  }
+}
+
+let logEntryCount = 0;
+
+function auditLogEntry(timestamp: string, userEmail: string, fields: Partial<AuditLogEntry> = {}): AuditLogEntry {
+  return {
+    id: `audit_${++logEntryCount}`,
+    timestamp,
+    userEmail,
+    contractName: 'Token',
+    contractSize: 1200,
+    creditsConsumed: 1,
+    success: true,
+    auditDuration: 1000,
+    vulnerabilitiesFound: 2,
+    severityBreakdown: { critical: 0, high: 1, medium: 1, low: 0 },
+    type: 'audit_complete',
+    ...fields,
+  };
+}
+
+function errorLogEntry(timestamp: string, errorType: string, fields: Partial<ErrorLogEntry> = {}): ErrorLogEntry {
+  return {
+    id: `error_${++logEntryCount}`,
+    timestamp,
+    errorType,
+    errorMessage: `${errorType} failed`,
+    ...fields,
+  };
+}
+
+async function testLogStore() {
+  console.log('\nTesting the file log store...\n');
+
+  await withFileLogStore(async (store) => {
+    const audits = [
+      auditLogEntry('2026-03-02T08:00:00.000Z', 'alice@energi.team', { type: 'audit_start', requestId: 'req_1_a' }),
+      auditLogEntry('2026-03-02T08:01:00.000Z', 'alice@energi.team', { requestId: 'req_1_a' }),
+      auditLogEntry('2026-03-01T12:00:00.000Z', 'bob@energi.team', { requestId: 'req_2_b', type: undefined }),
+      auditLogEntry('2026-03-03T09:00:00.000Z', 'alice@energi.team', { requestId: 'req_3_c', success: false }),
+    ];
+    const errors = [
+      errorLogEntry('2026-03-02T08:02:00.000Z', 'AUDIT_FAILED', { requestId: 'req_1_a', userEmail: 'alice@energi.team' }),
+      errorLogEntry('2026-03-03T09:01:00.000Z', 'RATE_LIMITED', { requestId: 'req_3_c' }),
+    ];
+    for (const entry of audits) await store.appendAuditLog(entry);
+    for (const entry of errors) await store.appendErrorLog(entry);
+
+    const ids = (entries: Array<{ id: string }>) => entries.map(entry => entry.id).join(',');
+    const all = await store.queryAuditLogs({});
+    check(
+      JSON.stringify(all) === JSON.stringify([audits[2], audits[0], audits[1], audits[3]]),
+      'Audit entries round-trip, oldest first'
+    );
+    check(
+      JSON.stringify(await store.queryErrorLogs({})) === JSON.stringify(errors),
+      'Error entries round-trip, oldest first'
+    );
+    check(
+      ids(await store.queryAuditLogs({ userEmail: 'bob@energi.team' })) === audits[2].id,
+      'Audit logs filter by user'
+    );
+    check(
+      ids(await store.queryAuditLogs({ requestId: 'req_1_a' })) === ids([audits[0], audits[1]]) &&
+        ids(await store.queryErrorLogs({ requestId: 'req_1_a' })) === errors[0].id,
+      'Audit and error logs filter by request id'
+    );
+    check(
+      ids(await store.queryAuditLogs({ type: 'audit_complete' })) === ids([audits[2], audits[1], audits[3]]) &&
+        ids(await store.queryAuditLogs({ type: 'audit_start' })) === audits[0].id,
+      'Audit logs filter by type (untyped entries are completions)'
+    );
+    check(
+      ids(await store.queryErrorLogs({ errorType: 'RATE_LIMITED' })) === errors[1].id,
+      'Error logs filter by error type'
+    );
+    check(
+      ids(await store.queryAuditLogs({ startDate: '2026-03-02', endDate: '2026-03-02' })) === ids([audits[0], audits[1]]) &&
+        ids(await store.queryAuditLogs({ startDate: '2026-03-02' })) === ids([audits[0], audits[1], audits[3]]) &&
+        ids(await store.queryAuditLogs({ endDate: '2026-03-01' })) === audits[2].id,
+      'Date ranges include both ends'
+    );
+    check(
+      ids(await store.queryAuditLogs({ limit: 2 })) === ids([audits[1], audits[3]]),
+      'Limit keeps the most recent entries'
+    );
+  });
+}
+
+async function testErrorExplorer() {
+  console.log('\nTesting the error explorer...\n');
+
+  const { groupErrorsByType, parseErrorLogFilters } = await import('./lib/analytics');
+  const errors = [
+    errorLogEntry('2026-03-01T10:00:00.000Z', 'AUDIT_FAILED', { userEmail: 'alice@energi.team', requestId: 'req_1_a' }),
+    errorLogEntry('2026-03-01T11:00:00.000Z', 'RATE_LIMITED', { userEmail: 'bob@energi.team' }),
+    errorLogEntry('2026-03-02T09:00:00.000Z', 'AUDIT_FAILED', { userEmail: 'bob@energi.team' }),
+    errorLogEntry('2026-03-03T08:00:00.000Z', 'AUDIT_FAILED'),
+    errorLogEntry('2026-03-03T12:00:00.000Z', 'AUDIT_FAILED', { userEmail: 'alice@energi.team' }),
+  ];
+
+  const groups = groupErrorsByType(errors, 2);
+  const [failed, limited] = groups;
+  check(
+    groups.length === 2 && failed.errorType === 'AUDIT_FAILED' && failed.count === 4 && failed.percentage === 80 &&
+      limited.errorType === 'RATE_LIMITED' && limited.count === 1,
+    'Errors are grouped by type, most frequent first'
+  );
+  check(
+    failed.affectedUsers === 2 && failed.firstSeen === errors[0].timestamp && failed.lastSeen === errors[4].timestamp,
+    'Groups count distinct users and span first to last occurrence'
+  );
+  check(
+    failed.examples.map(example => example.id).join(',') === [errors[4].id, errors[3].id].join(',') &&
+      groupErrorsByType(errors, 0)[0].examples.length === 0,
+    'Groups keep the most recent examples'
+  );
+
+  const now = new Date('2026-03-10T12:00:00.000Z');
+  const defaults = parseErrorLogFilters(new URLSearchParams(), now);
+  check(defaults.startDate === '2026-03-03' && defaults.limit === 100, 'Filters default to the last 7 days and 100 entries');
+  const byRequest = parseErrorLogFilters(new URLSearchParams('requestId=req_1_a&limit=5000'), now);
+  check(byRequest.startDate === undefined && byRequest.limit === 1000, 'A request id searches every date; limit is capped');
+  const full = parseErrorLogFilters(
+    new URLSearchParams('startDate=2026-03-01&endDate=2026-03-02&errorType=AUDIT_FAILED&userEmail=bob@energi.team&limit=0'),
+    now
+  );
+  check(
+    full.startDate === '2026-03-01' && full.endDate === '2026-03-02' && full.errorType === 'AUDIT_FAILED' &&
+      full.userEmail === 'bob@energi.team' && full.limit === 1,
+    'Explicit filters are kept'
+  );
+  try {
+    parseErrorLogFilters(new URLSearchParams('startDate=03/01/2026'), now);
+    check(false, 'Malformed dates should be rejected');
+  } catch (error) {
+    check((error as { code?: string }).code === 'INVALID_INPUT', 'Malformed dates are rejected with INVALID_INPUT');
+  }
+
+  // The route's query through the store: every filter applies before grouping
+  await withFileLogStore(async (store) => {
+    for (const entry of errors) await store.appendErrorLog(entry);
+    const { limit, ...query } = full;
+    const matching = await store.queryErrorLogs(query);
+    check(
+      matching.length === 1 && matching[0].id === errors[2].id && groupErrorsByType(matching)[0].count === 1,
+      'Error queries combine date, type and user filters'
+    );
+  });
+}
+
+async function testLogMaintenance() {
+  console.log('\nTesting log maintenance...\n');
+
+  const { runLogMaintenance } = await import('./lib/log-maintenance');
+  const retention = { audit: 90, error: 30, app: 14, archive: 365 };
+
+  await withFileLogStore(async (store, logsDir) => {
+    const oldAudits = [
+      auditLogEntry('2026-01-15T09:00:00.000Z', 'alice@energi.team', { type: 'audit_start', success: false }),
+      auditLogEntry('2026-01-15T09:01:00.000Z', 'alice@energi.team', { creditsConsumed: 1 }),
+      auditLogEntry('2026-01-15T10:00:00.000Z', 'alice@energi.team', { creditsConsumed: 2, auditDuration: 3000 }),
+      auditLogEntry('2026-01-15T11:00:00.000Z', 'bob@energi.team', { success: false, auditDuration: undefined }),
+    ];
+    const recentAudit = auditLogEntry('2026-05-25T09:00:00.000Z', 'alice@energi.team');
+    const oldErrors = [
+      errorLogEntry('2026-01-15T09:30:00.000Z', 'AUDIT_FAILED'),
+      errorLogEntry('2026-01-15T09:40:00.000Z', 'AUDIT_FAILED'),
+      errorLogEntry('2026-01-15T09:50:00.000Z', 'RATE_LIMITED'),
+    ];
+    for (const entry of [...oldAudits, recentAudit]) await store.appendAuditLog(entry);
+    for (const entry of oldErrors) await store.appendErrorLog(entry);
+
+    const completed = oldAudits.filter(entry => entry.type === 'audit_complete');
+    const result = await runLogMaintenance(store, retention, new Date('2026-06-01T12:00:00.000Z'));
+
+    // Rollups keep the totals of the archived day
+    const [rollup] = await store.queryRollups({ startDate: '2026-01-15', endDate: '2026-01-15' });
+    const alice = rollup?.audits?.users.find(user => user.email === 'alice@energi.team');
+    check(
+      rollup?.audits?.auditCount === completed.length &&
+        rollup.audits.creditsConsumed === completed.reduce((sum, entry) => sum + entry.creditsConsumed, 0) &&
+        rollup.audits.auditDurationTotal === 4000 && rollup.audits.auditDurationCount === 2 &&
+        alice?.auditCount === 2 && alice.creditsConsumed === 3,
+      'Audit rollup totals match the archived entries'
+    );
+    const errorCounts = Object.fromEntries((rollup?.errors || []).map(error => [error.errorType, error.count]));
+    check(errorCounts.AUDIT_FAILED === 2 && errorCounts.RATE_LIMITED === 1, 'Error rollup counts match the archived entries');
+
+    // Archived entries leave the live logs and round-trip through the gzip archive
+    check(
+      (await store.queryAuditLogs({ startDate: '2026-01-15', endDate: '2026-01-15' })).length === 0 &&
+        (await store.queryAuditLogs({ startDate: '2026-05-25', endDate: '2026-05-25' })).length === 1,
+      'Only entries past their retention leave the live logs'
+    );
+    const archived = gunzipSync(readFileSync(path.join(logsDir, 'archive', 'audit-2026-01-15.jsonl.gz')))
+      .toString('utf8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line));
+    check(
+      JSON.stringify(archived) === JSON.stringify(oldAudits) && result.archived.audit.entries === oldAudits.length,
+      'Gzip archive round-trips the archived entries'
+    );
+
+    // Archives are purged once older than the archive retention, newer ones are kept
+    const later = await runLogMaintenance(store, retention, new Date('2027-02-01T12:00:00.000Z'));
+    check(
+      later.purgedArchives === 2 &&
+        !existsSync(path.join(logsDir, 'archive', 'audit-2026-01-15.jsonl.gz')) &&
+        existsSync(path.join(logsDir, 'archive', 'audit-2026-05-25.jsonl.gz')),
+      'Purge respects the archive retention:', `${later.purgedArchives} archive(s) purged`
+    );
+    check(
+      (await store.queryRollups({ startDate: '2026-01-15', endDate: '2026-01-15' })).length === 1,
+      'Rollups outlive purged archives'
+    );
+  });
+}
+
+async function testRouteAccess() {
+  console.log('\nTesting route access...\n');
+
+  const { getRouteAccess } = await import('./lib/route-access');
+  const expected: Array<[string, string]> = [
+    ['/api/analytics/public', 'public'],
+    ['/api/analytics/public/summary', 'public'],
+    ['/api/audit/jobs/worker', 'public'],
+    ['/api/analytics', 'admin'],
+    ['/api/analytics/errors', 'admin'],
+    ['/api/analytics/publicity', 'admin'],
+    ['/api/logs/trace', 'admin'],
+    ['/api/admin/roles', 'admin'],
+    ['/admin', 'admin'],
+    ['/analytics', 'admin'],
+    ['/api/audit', 'session'],
+    ['/api/audit/jobs', 'session'],
+    ['/api/user/credits', 'session'],
+    ['/api/auth/session', 'open'],
+    ['/history', 'open'],
+  ];
+  const wrong = expected.filter(([pathname, access]) => getRouteAccess(pathname) !== access);
+  check(
+    wrong.length === 0,
+    'Public analytics and the queue worker are exempt from the admin and session prefixes',
+    ...wrong.map(([pathname]) => `${pathname}: ${getRouteAccess(pathname)}`)
+  );
+}
+
+async function testRoles() {
+  console.log('\nTesting roles...\n');
+
+  process.env.ADMIN_EMAILS = ' Admin@Energi.team , ops@energi.team,, ';
+  const { default: mongoose } = await import('mongoose');
+  await import('./lib/mongodb');
+  const { default: UserRoleModel } = await import('./lib/models/UserRole');
+  const { getSeedAdminEmails, getUserRole, isAdminUser, SEEDED_BY } = await import('./lib/roles');
+
+  check(
+    JSON.stringify(getSeedAdminEmails()) === JSON.stringify(['admin@energi.team', 'ops@energi.team']),
+    'ADMIN_EMAILS is trimmed and lowercased:', getSeedAdminEmails()
+  );
+
+  // In-memory stand-in for the UserRole collection; connectDB returns the cached connection
+  const stored = new Map<string, { email: string; role: string; grantedBy: string }>();
+  stored.set('ops@energi.team', { email: 'ops@energi.team', role: 'user', grantedBy: 'admin@energi.team' });
+  let seedWrites = 0;
+  const original = { bulkWrite: UserRoleModel.bulkWrite, findOne: UserRoleModel.findOne };
+  const cachedConnection = global.mongoose!.conn;
+  global.mongoose!.conn = mongoose;
+  UserRoleModel.bulkWrite = (async (operations: any[]) => {
+    seedWrites++;
+    operations.forEach(({ updateOne }) => {
+      if (!stored.has(updateOne.filter.email)) stored.set(updateOne.filter.email, updateOne.update.$setOnInsert);
+    });
+  }) as any;
+  UserRoleModel.findOne = ((filter: { email: string }) => ({
+    select: () => ({ lean: async () => stored.get(filter.email) || null }),
+  })) as any;
+
+  try {
+    check(
+      (await isAdminUser('admin@energi.team')) && stored.get('admin@energi.team')?.grantedBy === SEEDED_BY,
+      'ADMIN_EMAILS addresses are seeded as admins'
+    );
+    check(await isAdminUser('ADMIN@energi.team'), 'Role lookup ignores email case');
+    check((await getUserRole('ops@energi.team')) === 'user', 'Seeding keeps a stored role (a demoted seed admin stays a user)');
+    check((await getUserRole('carol@energi.team')) === 'user', 'Users without a stored role are regular users');
+    check(seedWrites === 1, 'Admins are seeded once per process:', `${seedWrites} seed write(s)`);
+  } finally {
+    UserRoleModel.bulkWrite = original.bulkWrite;
+    UserRoleModel.findOne = original.findOne;
+    global.mongoose!.conn = cachedConnection;
+  }
+}
+
+async function testAuthorization() {
+  console.log('\nTesting report authorization...\n');
+
+  const { default: mongoose } = await import('mongoose');
+  await import('./lib/mongodb');
+  const { default: AuditReportModel } = await import('./lib/models/AuditReport');
+  const { AccessError, authorizeReport, canPerform, getReportRole } = await import('./lib/authorization');
+  const { shareAuditFamily } = await import('./lib/teams');
+
+  const teamId = '64b000000000000000000001';
+  const report = {
+    _id: '64a000000000000000000001',
+    userEmail: 'Alice@energi.team', // Reports keep their owner's session address
+    sharedWithTeams: [teamId],
+    sharedWithUsers: [{ email: 'dave@energi.team', role: 'auditor' as const }],
+  };
+  const accessFor = (userEmail: string, teamRole?: TeamRole): AccessContext => ({
+    userEmail,
+    emails: [userEmail],
+    teamRoles: new Map(teamRole ? [[teamId, teamRole]] : []),
+  });
+
+  // User → expected role, and whether view, audit and share are allowed
+  const expected: Array<[string, AccessContext, string | null, boolean[]]> = [
+    ['owner', accessFor('alice@energi.team'), 'owner', [true, true, true]],
+    ['team viewer', accessFor('bob@energi.team', 'viewer'), 'viewer', [true, false, false]],
+    ['team auditor', accessFor('bob@energi.team', 'auditor'), 'auditor', [true, true, false]],
+    ['team admin', accessFor('bob@energi.team', 'admin'), 'admin', [true, true, true]],
+    ['direct share', accessFor('dave@energi.team'), 'auditor', [true, true, false]],
+    ['no access', accessFor('eve@energi.team'), null, [false, false, false]],
+  ];
+  expected.forEach(([name, access, role, allowed]) => {
+    const actual = getReportRole(report, access);
+    const actions = (['view', 'audit', 'share'] as const).map((action) => canPerform(actual, action));
+    check(
+      actual === role && actions.join() === allowed.join(),
+      `${name}: role ${role}, may view/audit/share = ${allowed.join('/')}`,
+      ...(actual === role ? [] : [`got ${actual}`])
+    );
+  });
+  check(
+    getReportRole(report, accessFor('dave@energi.team', 'admin')) === 'admin',
+    'The highest of a direct share and a team role applies'
+  );
+
+  // In-memory stand-in for the AuditReport collection; connectDB returns the cached connection
+  const updates: Array<{ filter: any; update: any }> = [];
+  const original = {
+    findOne: AuditReportModel.findOne,
+    findById: AuditReportModel.findById,
+    updateMany: AuditReportModel.updateMany,
+  };
+  const cachedConnection = global.mongoose!.conn;
+  global.mongoose!.conn = mongoose;
+  const leanQuery = (result: unknown) => {
+    const query = { select: () => query, lean: async () => result };
+    return query;
+  };
+  AuditReportModel.findOne = ((filter: { _id: string }) => leanQuery(filter._id === report._id ? report : null)) as any;
+  AuditReportModel.findById = (() => leanQuery({ userEmail: report.userEmail })) as any;
+  AuditReportModel.updateMany = (async (filter: any, update: any) => {
+    updates.push({ filter, update });
+    return { modifiedCount: 1 };
+  }) as any;
+
+  const denial = async (access: AccessContext, reportId: string, action: 'view' | 'audit' | 'share') => {
+    try {
+      await authorizeReport(access, reportId, action);
+      return null;
+    } catch (error) {
+      return error instanceof AccessError ? error.status : error;
+    }
+  };
+  try {
+    check(
+      (await authorizeReport(accessFor('bob@energi.team', 'auditor'), report._id, 'audit')).role === 'auditor',
+      'authorizeReport returns the report and role when the action is allowed'
+    );
+    check(await denial(accessFor('bob@energi.team', 'viewer'), report._id, 'audit') === 403, 'A role below the action is denied with 403');
+    check(await denial(accessFor('eve@energi.team'), report._id, 'view') === 404, 'An inaccessible report is hidden with 404');
+    check(await denial(accessFor('alice@energi.team'), '64a000000000000000000002', 'view') === 404, 'A missing report is a 404');
+
+    await shareAuditFamily(accessFor('alice@energi.team'), report, {
+      teamIds: [],
+      users: [{ email: 'alice@energi.team', role: 'viewer' }, { email: 'carol@energi.team', role: 'viewer' }],
+    });
+    const teammateShares = updates[1]?.update.$set.sharedWithUsers;
+    check(
+      JSON.stringify(teammateShares) === JSON.stringify([
+        { email: 'carol@energi.team', role: 'viewer' },
+        { email: 'Alice@energi.team', role: 'admin' },
+      ]),
+      "Teammates' re-audits keep the owner as admin whatever the case of the owner's address:", teammateShares
+    );
+  } finally {
+    AuditReportModel.findOne = original.findOne;
+    AuditReportModel.findById = original.findById;
+    AuditReportModel.updateMany = original.updateMany;
+    global.mongoose!.conn = cachedConnection;
+  }
+}
+
+/**
+ * In-memory stand-in for a MongoDB collection, supporting the filters and updates the
+ * audit queue uses (equality, null, $lt, $gte, $or; $set, $unset, $inc, $setOnInsert)
+ */
+function memoryCollection(documents: Array<Record<string, any>>) {
+  const matches = (doc: Record<string, any>, filter: Record<string, any>): boolean =>
+    Object.entries(filter).every(([key, condition]) => {
+      if (key === '$or') return condition.some((branch: Record<string, any>) => matches(doc, branch));
+      const value = doc[key];
+      if (condition === null) return value == null;
+      if (typeof condition === 'object' && !(condition instanceof Date)) {
+        return Object.entries(condition).every(([operator, operand]: [string, any]) =>
+          operator === '$lt' ? value != null && value < operand : operator === '$gte' ? value != null && value >= operand : false
+        );
+      }
+      return String(value) === String(condition);
+    });
+  const apply = (doc: Record<string, any>, update: Record<string, any>) => {
+    Object.assign(doc, update.$set);
+    Object.keys(update.$unset || {}).forEach((key) => delete doc[key]);
+    Object.entries(update.$inc || {}).forEach(([key, amount]) => (doc[key] = (doc[key] || 0) + (amount as number)));
+    return doc;
+  };
+
+  return {
+    documents,
+    updateMany: async (filter: Record<string, any>, update: Record<string, any>) => {
+      const found = documents.filter((doc) => matches(doc, filter));
+      found.forEach((doc) => apply(doc, update));
+      return { modifiedCount: found.length };
+    },
+    updateOne: async (filter: Record<string, any>, update: Record<string, any>) => {
+      const doc = documents.find((item) => matches(item, filter));
+      if (doc) apply(doc, update);
+      return { modifiedCount: doc ? 1 : 0 };
+    },
+    findOneAndUpdate: async (filter: Record<string, any>, update: Record<string, any>, options: { sort?: Record<string, 1 | -1> } = {}) => {
+      const [sortKey, direction] = Object.entries(options.sort || {})[0] || [];
+      const found = documents
+        .filter((doc) => matches(doc, filter))
+        .sort((a, b) => (sortKey ? (a[sortKey] < b[sortKey] ? -direction! : a[sortKey] > b[sortKey] ? direction! : 0) : 0));
+      return found[0] ? apply(found[0], update) : null;
+    },
+    bulkWrite: async (operations: Array<{ updateOne: { filter: Record<string, any>; update: Record<string, any> } }>) => {
+      operations.forEach(({ updateOne }) => {
+        if (!documents.some((doc) => matches(doc, updateOne.filter))) {
+          documents.push({ _id: `id-${documents.length}`, ...updateOne.update.$setOnInsert });
+        }
+      });
+    },
+  };
+}
+
+async function testAuditQueue() {
+  console.log('\nTesting audit job leases and retries...\n');
+
+  const { default: mongoose } = await import('mongoose');
+  await import('./lib/mongodb');
+  const { default: AuditJobModel } = await import('./lib/models/AuditJob');
+  const { default: AuditJobSlotModel } = await import('./lib/models/AuditJobSlot');
+  const { logger } = await import('./lib/logging');
+  const { runAuditWorker } = await import('./lib/audit-queue');
+
+  const now = Date.now();
+  const past = new Date(now - 60_000);
+  const future = new Date(now + 60_000);
+  // Jobs fail fast on an unknown provider, before the audit touches the database
+  const job = (id: string, fields: Record<string, any>) => ({
+    _id: id, userEmail: 'alice@energi.team', requestId: `req_${id}`,
+    request: { contractCode: 'contract Vault {}', provider: 'no-such-provider' }, ...fields,
+  });
+  const jobs = memoryCollection([
+    job('interrupted', { status: 'running', attempts: 1, lockedUntil: past, queuedAt: new Date(now - 20_000) }),
+    job('exhausted', { status: 'running', attempts: 3, lockedUntil: past, queuedAt: new Date(now - 30_000) }),
+    job('running', { status: 'running', attempts: 1, lockedUntil: future, queuedAt: new Date(now - 40_000) }),
+    job('queued', { status: 'queued', attempts: 0, queuedAt: new Date(now - 50_000) }),
+  ]);
+  const slots = memoryCollection([
+    { _id: 'slot0', slot: 0, leaseId: 'crashed-worker', lockedUntil: past },
+    { _id: 'slot1', slot: 1, leaseId: 'other-worker', jobId: 'running', lockedUntil: future },
+  ]);
+  const claimed: string[] = [];
+
+  const original = {
+    jobs: { updateMany: AuditJobModel.updateMany, updateOne: AuditJobModel.updateOne, findOneAndUpdate: AuditJobModel.findOneAndUpdate },
+    slots: { updateOne: AuditJobSlotModel.updateOne, findOneAndUpdate: AuditJobSlotModel.findOneAndUpdate, bulkWrite: AuditJobSlotModel.bulkWrite },
+    logger: { logAuditStart: logger.logAuditStart, logAuditComplete: logger.logAuditComplete, logError: logger.logError },
+  };
+  const cachedConnection = global.mongoose!.conn;
+  global.mongoose!.conn = mongoose;
+  AuditJobModel.updateMany = jobs.updateMany as any;
+  AuditJobModel.updateOne = jobs.updateOne as any;
+  AuditJobModel.findOneAndUpdate = (async (...args: Parameters<typeof jobs.findOneAndUpdate>) => {
+    const claimedJob = await jobs.findOneAndUpdate(...args);
+    if (claimedJob) claimed.push(claimedJob._id);
+    return claimedJob;
+  }) as any;
+  AuditJobSlotModel.updateOne = slots.updateOne as any;
+  AuditJobSlotModel.findOneAndUpdate = slots.findOneAndUpdate as any;
+  AuditJobSlotModel.bulkWrite = slots.bulkWrite as any;
+  logger.logAuditStart = (async () => 'log') as any;
+  logger.logAuditComplete = (async () => undefined) as any;
+  logger.logError = (async () => undefined) as any;
+
+  try {
+    const result = await runAuditWorker();
+    const byId = (id: string) => jobs.documents.find((doc) => doc._id === id)!;
+
+    check(
+      result.jobsRun === 2 && claimed.join() === 'queued,interrupted',
+      'The worker runs queued and requeued jobs, oldest first:', claimed
+    );
+    check(
+      byId('interrupted').attempts === 2 && byId('interrupted').status === 'failed' &&
+        byId('interrupted').error?.code === 'UNKNOWN_PROVIDER' && byId('interrupted').lockedUntil === undefined,
+      'A job whose lock expired is requeued and retried, counting the attempt'
+    );
+    check(
+      byId('exhausted').status === 'failed' && byId('exhausted').error?.code === 'JOB_INTERRUPTED' && byId('exhausted').attempts === 3,
+      'A job interrupted on its last attempt fails with JOB_INTERRUPTED'
+    );
+    check(
+      byId('running').status === 'running' && byId('running').lockedUntil === future,
+      'A running job holding its lock is left alone'
+    );
+    check(
+      byId('queued').status === 'failed' && byId('queued').attempts === 1 && byId('queued').finishedAt instanceof Date,
+      'Job outcomes are recorded with their finish time'
+    );
+
+    const [expiredSlot, heldSlot] = slots.documents;
+    check(
+      expiredSlot.leaseId === undefined && expiredSlot.lockedUntil === undefined &&
+        heldSlot.leaseId === 'other-worker' && heldSlot.lockedUntil === future && slots.documents.length === 2,
+      "An expired slot lease is taken over and released; another worker's active lease is kept"
+    );
+  } finally {
+    Object.assign(AuditJobModel, original.jobs);
+    Object.assign(AuditJobSlotModel, original.slots);
+    Object.assign(logger, original.logger);
+    global.mongoose!.conn = cachedConnection;
+  }
+}
+
+async function testAuditStream() {
+  console.log('\nTesting audit stream replay...\n');
+
+  const { AuditStreamSession } = await import('./lib/audit-stream');
+  const session = new AuditStreamSession('req_1767254400000_abc123', 'alice@energi.team');
+  session.emit('started', { provider: 'mock' });
+  for (let received = 1000; received <= 50_000; received += 1000) {
+    session.emit('tokens', { received });
+  }
+  session.emit('finding', { vulnerability: { id: 'vuln-1' } });
+  session.emit('tokens', { received: 51_000 });
+
+  check(
+    session.events.map((event) => event.event).join(',') === 'started,finding,tokens' &&
+      JSON.stringify(session.events[2].data) === JSON.stringify({ received: 51_000 }),
+    'Only the latest tokens event is kept for replay:', session.events.map((event) => `${event.id}:${event.event}`)
+  );
+  check(
+    session.events.map((event) => event.id).join(',') === '1,52,53',
+    'Event ids keep counting, so Last-Event-ID still resumes after the right event'
+  );
+}
+
+async function testRequestTraces() {
+  console.log('\nTesting request traces...\n');
+
+  const { isValidRequestId, generateRequestId, assignRequestIds } = await import('./lib/request-id');
+  check(
+    isValidRequestId(generateRequestId()) && isValidRequestId('7f3a9c1e-2b4d-4e8f-9a6b-1c2d3e4f5a6b') &&
+      isValidRequestId('gw.edge-01_abc') && isValidRequestId('r'.repeat(128)),
+    'Generated and well-formed incoming request ids are accepted'
+  );
+  check(
+    !isValidRequestId('') && !isValidRequestId('r'.repeat(129)) && !isValidRequestId('req 1') &&
+      !isValidRequestId('req\nX-Injected: 1') && !isValidRequestId('../req_1') && !isValidRequestId('<script>'),
+    'Empty, over-long and non-token request ids are rejected'
+  );
+  const stolenId = 'req_1767254400000_abc123';
+  const assigned = assignRequestIds(new Headers({ 'X-Request-Id': stolenId }));
+  check(
+    assigned.requestId !== stolenId && /^req_\d+_[a-z0-9]+$/.test(assigned.requestId) && assigned.clientRequestId === stolenId,
+    'A client X-Request-Id is kept for correlation, never as the request id'
+  );
+  check(
+    assignRequestIds(new Headers({ 'X-Request-Id': 'bad id\u00e9' })).clientRequestId === undefined &&
+      assignRequestIds(new Headers()).clientRequestId === undefined,
+    'Malformed or missing client request ids are dropped'
+  );
+
+  const { buildRequestTrace } = await import('./lib/request-trace');
+  const requestId = 'req_1767254400000_abc123';
+  const auditStart = auditLogEntry('2026-01-01T10:00:06.000Z', 'alice@energi.team', {
+    type: 'audit_start', requestId, clientRequestId: 'gateway-42',
+  });
+  const auditComplete = auditLogEntry('2026-01-01T10:00:56.000Z', 'alice@energi.team', {
+    requestId, auditDuration: 50000, vulnerabilitiesFound: 1, creditsConsumed: 2,
+  });
+  const job = {
+    _id: 'job1', userEmail: 'alice@energi.team', status: 'succeeded', attempts: 1,
+    queuedAt: new Date('2026-01-01T10:00:00.000Z'),
+    startedAt: new Date('2026-01-01T10:00:05.000Z'),
+    finishedAt: new Date('2026-01-01T10:01:00.000Z'),
+  };
+  const report = {
+    _id: 'report1', userEmail: 'alice@energi.team', contractName: 'Token',
+    auditedAt: new Date('2026-01-01T10:00:50.000Z'),
+    createdAt: new Date('2026-01-01T10:00:55.000Z'),
+    providerTiming: { requests: 2, durationMs: 40000 },
+    vulnerabilities: [{ severity: 'high' }],
+  };
+
+  const trace = buildRequestTrace(requestId, { auditLogs: [auditStart, auditComplete], errorLogs: [], report, job });
+  check(
+    trace?.events.map(event => event.type).join(',') ===
+      'job_queued,job_started,audit_start,provider,report_saved,audit_complete,job_finished',
+    'Trace events from jobs, logs and reports are ordered by time'
+  );
+  check(
+    trace?.status === 'succeeded' && trace.startedAt === '2026-01-01T10:00:00.000Z' && trace.durationMs === 60000 &&
+      trace.events[1].durationMs === 5000 && trace.events[3].durationMs === 40000,
+    'Trace status and durations span the whole request'
+  );
+  check(
+    trace?.userEmail === 'alice@energi.team' && trace.clientRequestId === 'gateway-42' && trace.report?.id === 'report1' && trace.report.vulnerabilitiesFound === 1 &&
+      trace.job?.status === 'succeeded',
+    'Trace summarizes the saved report and job'
+  );
+
+  const rejected = buildRequestTrace(requestId, {
+    auditLogs: [],
+    errorLogs: [errorLogEntry('2026-01-01T10:00:00.000Z', 'DOMAIN_RESTRICTION', { requestId, userEmail: 'eve@example.com' })],
+  });
+  check(
+    rejected?.status === 'failed' && rejected.finishedAt === rejected.startedAt && rejected.userEmail === 'eve@example.com',
+    'A request rejected before the audit is a failed trace'
+  );
+  const failed = buildRequestTrace(requestId, {
+    auditLogs: [auditStart, { ...auditComplete, success: false, errorMessage: 'Provider timed out' }],
+    errorLogs: [],
+  });
+  check(
+    failed?.status === 'failed' && failed.events[1].summary === 'Audit failed: Provider timed out',
+    'A failed audit completion fails the trace'
+  );
+  const running = buildRequestTrace(requestId, { auditLogs: [auditStart], errorLogs: [] });
+  check(running?.status === 'in_progress' && running.finishedAt === undefined, 'A started audit without completion is in progress');
+  check(buildRequestTrace(requestId, { auditLogs: [], errorLogs: [] }) === null, 'Nothing recorded gives no trace');
+}
+
+async function runTests() {
+  // lib modules are imported after these are set: lib/mongodb requires MONGODB_URI on
+  // import, and the log tests use the file store instead of a database
+  process.env.MONGODB_URI = process.env.MONGODB_URI || 'mongodb://127.0.0.1:1/none';
+  process.env.LOG_STORE = 'file';
+  process.env.LOG_LEVEL = 'warn';
+
+  testValidation();
+  testUtilityFunctions();
+  testAuditComparison();
+  testFingerprints();
+  testSuppressions();
+  testProjectArchives();
+  await testProviderRegistry();
+  await testAuditCacheKey();
+  await testContractTimeline();
+  await testAuditDateQuery();
+  await testStatisticsAnonymization();
+  await testRedaction();
+  await testLogStore();
+  await testErrorExplorer();
+  await testLogMaintenance();
+  await testRouteAccess();
+  await testRoles();
+  await testAuthorization();
+  await testAuditStream();
+  await testAuditQueue();
+  await testRequestTraces();
+}
+
 // Run tests
-testValidation();
-testUtilityFunctions();
-console.log('\n✅ All local tests completed successfully!');
+runTests().then(() => {
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} local check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n✅ All local tests completed successfully!');
+});
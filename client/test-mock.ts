@@ -0,0 +1,176 @@
+// Offline test script using the mock audit provider
+// Exercises auditSmartContract end to end, including AuditError code mapping
+// Run with: npx tsx test-mock.ts
+
+import * as auditInit from './functions/auditInit.js';
+import { auditProject } from './functions/projectAudit.js';
+
+const contractCode = `pragma solidity ^0.8.0;
+contract Vault {
+    mapping(address => uint256) public balances;
+    function withdraw() public {
+        (bool ok, ) = msg.sender.call{value: balances[msg.sender]}("");
+        require(ok);
+        balances[msg.sender] = 0;
+    }
+}`;
+
+/**
+ * Expected outcome per scenario: either an AuditError code or a vulnerability count
+ */
+const expectations: Array<{ scenario: string; code?: string; vulnerabilities?: number }> = [
+  { scenario: 'well-formed', vulnerabilities: 2 },
+  { scenario: 'prose-wrapped', vulnerabilities: 2 },
+  { scenario: 'truncated', vulnerabilities: 1 },
+  { scenario: 'empty', code: 'PARSE_FAILED' },
+  { scenario: 'malformed', vulnerabilities: 2 },
+  { scenario: 'invalid-once', vulnerabilities: 2 },
+  { scenario: 'duplicate-ids', vulnerabilities: 2 },
+  { scenario: 'unauthorized', code: 'UNAUTHORIZED' },
+  { scenario: 'insufficient-credits', code: 'INSUFFICIENT_CREDITS' },
+  { scenario: 'rate-limited', code: 'RATE_LIMITED' },
+  { scenario: 'server-error', code: 'API_ERROR' },
+  { scenario: 'timeout', code: 'TIMEOUT' },
+];
+
+async function testScenarios() {
+  console.log('Testing mock provider scenarios...\n');
+  let failures = 0;
+
+  for (const { scenario, code, vulnerabilities } of expectations) {
+    try {
+      const report = await auditInit.auditSmartContract(contractCode, 'Vault', {
+        provider: 'mock',
+        model: scenario,
+        timeout: 200,
+        staticAnalysis: false, // Only count the replayed AI findings
+      });
+
+      if (code) {
+        failures++;
+        console.log(`❌ ${scenario}: expected ${code}, got a report`);
+      } else if (report.vulnerabilities.length !== vulnerabilities) {
+        failures++;
+        console.log(`❌ ${scenario}: expected ${vulnerabilities} vulnerabilities, got ${report.vulnerabilities.length}`);
+      } else {
+        console.log(`✅ ${scenario}: ${report.vulnerabilities.length} vulnerabilities (${report.auditEngineVersion})`);
+      }
+    } catch (error) {
+      const errorCode = error instanceof auditInit.AuditError ? error.code : String(error);
+      if (code && errorCode === code) {
+        console.log(`✅ ${scenario}: rejected with ${errorCode}`);
+      } else {
+        failures++;
+        console.log(`❌ ${scenario}: unexpected error ${errorCode}`);
+      }
+    }
+  }
+
+  // Scenario selection via a source marker
+  const report = await auditInit.auditSmartContract(
+    `// mock-scenario: prose-wrapped\n${contractCode}`,
+    'Vault',
+    { provider: 'mock' }
+  );
+  if (report.auditEngineVersion?.startsWith('mock:prose-wrapped')) {
+    console.log('✅ Source marker selected the prose-wrapped scenario');
+  } else {
+    failures++;
+    console.log(`❌ Source marker ignored, got ${report.auditEngineVersion}`);
+  }
+
+  // Vyper sources are labelled from detection, not from the replayed "Solidity" response
+  const vyper = await auditInit.auditSmartContract(
+    `# @version ^0.3.9\nbalances: public(HashMap[address, uint256])\n\n@external\n@nonreentrant("lock")\ndef withdraw():\n    raw_call(msg.sender, b"", value=self.balances[msg.sender])\n    self.balances[msg.sender] = 0\n`,
+    'Vault',
+    { provider: 'mock', model: 'well-formed' }
+  );
+  if (vyper.language === 'Vyper' && vyper.contractModel?.contracts[0].functions[0]?.name === 'withdraw') {
+    console.log('✅ Vyper source detected and modelled');
+  } else {
+    failures++;
+    console.log(`❌ Vyper source labelled ${vyper.language}`);
+  }
+
+  // Repeated provider ids are made unique, so each finding can be triaged on its own
+  const duplicated = await auditInit.auditSmartContract(contractCode, 'Duplicated', { provider: 'mock', model: 'duplicate-ids' });
+  const duplicatedIds = duplicated.vulnerabilities.map((vulnerability) => vulnerability.id);
+  if (new Set(duplicatedIds).size === duplicatedIds.length && duplicatedIds.includes('vuln-1') && duplicatedIds.includes('vuln-1-2')) {
+    console.log(`✅ Duplicate finding ids made unique: ${duplicatedIds.join(', ')}`);
+  } else {
+    failures++;
+    console.log(`❌ Duplicate finding ids: ${duplicatedIds.join(', ')}`);
+  }
+
+  // Sources over the single-request limit are audited in chunks
+  const functions = Array.from({ length: 1500 }, (_, i) =>
+    `    function setValue${i}(uint256 value) public {\n        values[${i}] = value;\n    }`
+  ).join('\n');
+  const largeCode = `pragma solidity ^0.8.0;\ncontract Large {\n    mapping(uint256 => uint256) public values;\n${functions}\n}`;
+  const progress: string[] = [];
+  const chunked = await auditInit.auditSmartContract(largeCode, 'Large', {
+    provider: 'mock',
+    model: 'well-formed',
+    staticAnalysis: false,
+    onProgress: (event) => progress.push(event.type),
+  });
+  const chunkCount = chunked.chunks?.length || 0;
+  if (chunkCount > 1 && progress.filter((type) => type === 'chunk_completed').length === chunkCount && chunked.vulnerabilities.length === 2) {
+    console.log(`✅ Large source audited in ${chunkCount} chunks (${chunked.vulnerabilities.length} deduplicated vulnerabilities)`);
+  } else {
+    failures++;
+    console.log(`❌ Chunked audit: ${chunkCount} chunks, ${progress.length} progress events, ${chunked.vulnerabilities.length} vulnerabilities`);
+  }
+  // Findings are reported as each chunk completes, before they are deduplicated
+  if (progress.indexOf('finding') !== -1 && progress.indexOf('finding') < progress.lastIndexOf('chunk_started')) {
+    console.log(`✅ Findings streamed per chunk (${progress.filter((type) => type === 'finding').length} before deduplication)`);
+  } else {
+    failures++;
+    console.log(`❌ Chunk findings not streamed as found: ${progress.join(', ')}`);
+  }
+
+  // Project files are audited with their remapped imports; missing imports are reported per file
+  const project = await auditProject({
+    'src/Vault.sol': `pragma solidity ^0.8.0;\nimport "@openzeppelin/contracts/token/ERC20/IERC20.sol";\nimport "./Missing.sol";\n${contractCode.split('\n').slice(1).join('\n')}`,
+    'lib/openzeppelin-contracts/contracts/token/ERC20/IERC20.sol': 'pragma solidity ^0.8.0;\ninterface IERC20 {}',
+    'remappings.txt': '@openzeppelin/=lib/openzeppelin-contracts/',
+  }, 'Vault', { provider: 'mock', model: 'well-formed', staticAnalysis: false });
+  const vaultFile = project.files?.find((file) => file.path === 'src/Vault.sol');
+  if (
+    project.files?.length === 1 &&
+    vaultFile?.imports.join() === 'lib/openzeppelin-contracts/contracts/token/ERC20/IERC20.sol' &&
+    vaultFile.unresolvedImports.join() === './Missing.sol' &&
+    project.vulnerabilities.every((vulnerability) => vulnerability.file === 'src/Vault.sol')
+  ) {
+    console.log('✅ Project audit resolved the remapped import and reported the missing one');
+  } else {
+    failures++;
+    console.log(`❌ Project audit files: ${JSON.stringify(project.files?.map(({ path, imports, unresolvedImports }) => ({ path, imports, unresolvedImports })))}`);
+  }
+
+  // A single line over the per-request limit cannot be chunked (minified or flattened source)
+  const longLine = `pragma solidity ^0.8.0; contract Flat { ${'uint256 public value; '.repeat(8000)}}`;
+  try {
+    await auditInit.auditSmartContract(longLine, 'Flat', { provider: 'mock', model: 'well-formed', timeout: 200 });
+    failures++;
+    console.log('❌ Over-long line: expected CONTRACT_TOO_LARGE, got a report');
+  } catch (error) {
+    const errorCode = error instanceof auditInit.AuditError ? error.code : String(error);
+    if (errorCode === 'CONTRACT_TOO_LARGE') {
+      console.log(`✅ Over-long line rejected with ${errorCode}`);
+    } else {
+      failures++;
+      console.log(`❌ Over-long line: unexpected error ${errorCode}`);
+    }
+  }
+
+  return failures;
+}
+
+testScenarios().then((failures) => {
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} mock scenario(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n✅ All mock scenarios completed successfully!');
+});